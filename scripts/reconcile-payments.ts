@@ -0,0 +1,119 @@
+#!/usr/bin/env tsx
+
+/**
+ * 7P Education - Payment Reconciliation Script
+ *
+ * Compares Stripe payment intents, refunds and subscriptions with payment_transactions,
+ * course_purchases, enrollments and subscriptions for a date range
+ * Usage: npm run payments:reconcile -- --from 2025-09-01 [--to 2025-10-01] [--repair]
+ *        [--fixture stripe-snapshot.json] [--json]
+ *
+ * --fixture reads Stripe from a recorded snapshot instead of the API (local fake Stripe)
+ */
+
+import { config } from 'dotenv';
+import { readFileSync } from 'fs';
+import type { ReconciliationReport } from '../src/types/reconciliation';
+
+// Load environment variables before the app modules read them
+config({ path: '.env.local' });
+
+interface CliOptions {
+  from: Date;
+  to: Date;
+  repair: boolean;
+  fixture?: string;
+  json: boolean;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const value = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const from = value('--from');
+  if (!from || Number.isNaN(Date.parse(from))) {
+    throw new Error('--from <date> is required (e.g. --from 2025-09-01)');
+  }
+
+  const to = value('--to');
+  if (to && Number.isNaN(Date.parse(to))) {
+    throw new Error('--to must be a date');
+  }
+
+  return {
+    from: new Date(from),
+    to: to ? new Date(to) : new Date(),
+    repair: args.includes('--repair'),
+    fixture: value('--fixture'),
+    json: args.includes('--json')
+  };
+}
+
+function printReport(report: ReconciliationReport): void {
+  console.log(`\n💳 Payment reconciliation ${report.from} → ${report.to}${report.repair ? ' (repair)' : ''}`);
+  console.log(
+    `   Checked: ${report.checked.payment_intents} payment intents, ${report.checked.refunds} refunds, ` +
+    `${report.checked.subscriptions} subscriptions, ${report.checked.transactions} transactions, ` +
+    `${report.checked.enrollments} enrollments`
+  );
+
+  if (report.issues.length === 0) {
+    console.log('\n✅ Stripe and the payment ledger agree');
+    return;
+  }
+
+  console.log(`\n⚠️  ${report.issues.length} discrepancies (${report.repaired} repaired)`);
+  for (const [type, count] of Object.entries(report.summary)) {
+    console.log(`   ${type}: ${count}`);
+  }
+
+  console.log();
+  for (const issue of report.issues) {
+    const state = issue.repaired ? '🔧' : issue.repair_error ? '❌' : issue.repairable ? '🛠️ ' : '👀';
+    const ids = [issue.stripe_id, issue.transaction_id && `tx ${issue.transaction_id}`, issue.course_id && `course ${issue.course_id}`]
+      .filter(Boolean)
+      .join(', ');
+    console.log(`${state} [${issue.type}] ${issue.description} (${ids})`);
+    if (issue.expected !== null || issue.actual !== null) {
+      console.log(`     Stripe: ${issue.expected ?? '-'}  Local: ${issue.actual ?? '-'}`);
+    }
+    if (issue.repair_error) {
+      console.log(`     Repair failed: ${issue.repair_error}`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const { ReconciliationService } = await import('../src/services/reconciliation-service');
+  const { createFixtureLedger } = await import('../src/lib/reconciliation/stripe-ledger');
+
+  const ledger = options.fixture
+    ? createFixtureLedger(JSON.parse(readFileSync(options.fixture, 'utf8')))
+    : undefined;
+
+  const report = await ReconciliationService.reconcile(
+    { from: options.from, to: options.to },
+    { repair: options.repair, ledger }
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  // Unrepaired discrepancies fail the run, so it can gate a scheduled job
+  process.exit(report.issues.every(issue => issue.repaired) ? 0 : 1);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('❌ Reconciliation failed:', error instanceof Error ? error.message : error);
+    process.exit(2);
+  });
+}
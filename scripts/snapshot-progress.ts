@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+/**
+ * 7P Education - Course Progress Snapshot Script
+ *
+ * Writes daily course_progress_snapshots locally, the same way the snapshot-progress cron does
+ * Usage: npm run progress:snapshot -- [--date 2025-10-01]
+ *        npm run progress:snapshot -- --from 2025-09-01 [--to 2025-10-01]
+ *
+ * Without arguments the previous day is snapshotted. --from backfills every day up to --to
+ * (default: the previous day) from lesson_progress history; existing snapshots are recomputed.
+ */
+
+import { config } from 'dotenv';
+
+// Load environment variables before the app modules read them
+config({ path: '.env.local' });
+
+// Days per snapshot call, so long backfills stay within the database statement timeout
+const BACKFILL_CHUNK_DAYS = 31;
+
+interface CliOptions {
+  from?: string;
+  to?: string;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const value = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const isDate = (date: string | undefined) => !!date && /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(Date.parse(date));
+
+  const date = value('--date');
+  const from = value('--from');
+  const to = value('--to');
+
+  if (date && (from || to)) {
+    throw new Error('Use either --date or --from/--to');
+  }
+  if (to && !from) {
+    throw new Error('--to needs --from');
+  }
+  for (const [name, given] of [['--date', date], ['--from', from], ['--to', to]] as const) {
+    if (given !== undefined && !isDate(given)) {
+      throw new Error(`${name} must be a date (e.g. ${name} 2025-09-01)`);
+    }
+  }
+
+  return date ? { from: date, to: date } : { from, to };
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const { ProgressSnapshotService } = await import('../src/services/progress-snapshot-service');
+  const { StreakService } = await import('../src/services/streak-service');
+
+  const yesterday = StreakService.addDays(ProgressSnapshotService.today(), -1);
+  const from = options.from ?? yesterday;
+  const to = options.to ?? (options.from ? yesterday : from);
+
+  if (to < from) {
+    throw new Error(`--to (${to}) is before --from (${from})`);
+  }
+
+  console.log(`\n📈 Snapshotting course progress ${from} → ${to}`);
+
+  let total = 0;
+  for (let start = from; start <= to; start = StreakService.addDays(start, BACKFILL_CHUNK_DAYS)) {
+    const end = [StreakService.addDays(start, BACKFILL_CHUNK_DAYS - 1), to].sort()[0];
+    const run = await ProgressSnapshotService.snapshot(start, end);
+
+    total += run.snapshots;
+    console.log(`   ${run.from} → ${run.to}: ${run.snapshots} snapshots`);
+  }
+
+  console.log(`\n✅ ${total} snapshots written`);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('❌ Progress snapshot failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/lib/supabase';
 import { formatAmount } from '@/lib/stripe';
 import { format } from 'date-fns';
+import type { WebhookEventRecord } from '@/types/webhook';
 
 interface PaymentTransaction {
   id: string;
@@ -40,6 +41,8 @@ interface PaymentStats {
 export default function AdminPaymentsPage() {
   const [stats, setStats] = useState<PaymentStats | null>(null);
   const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
+  const [webhookEvents, setWebhookEvents] = useState<WebhookEventRecord[]>([]);
+  const [replayingEventId, setReplayingEventId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [filter, setFilter] = useState('all');
@@ -83,9 +86,40 @@ export default function AdminPaymentsPage() {
     await Promise.all([
       loadPaymentStats(),
       loadTransactions(),
+      loadWebhookEvents(),
     ]);
   };
 
+  const loadWebhookEvents = async () => {
+    const response = await fetch('/api/admin/payments/webhooks');
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error('Failed to load webhook events');
+    }
+
+    setWebhookEvents(result.data.events);
+  };
+
+  const handleReplay = async (stripeEventId: string) => {
+    try {
+      setReplayingEventId(stripeEventId);
+
+      const response = await fetch(`/api/admin/payments/webhooks/${stripeEventId}/replay`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      await loadWebhookEvents();
+      alert(result.success ? 'Event replayed successfully' : `Replay failed: ${result.error}`);
+    } catch (error) {
+      console.error('Webhook replay error:', error);
+      alert('Failed to replay event');
+    } finally {
+      setReplayingEventId(null);
+    }
+  };
+
   const loadPaymentStats = async () => {
     const { data: transactions, error } = await supabase
       .from('payment_transactions')
@@ -174,6 +208,7 @@ export default function AdminPaymentsPage() {
       processing: { label: 'Processing', color: 'bg-blue-100 text-blue-800' },
       failed: { label: 'Failed', color: 'bg-red-100 text-red-800' },
       canceled: { label: 'İptal Edildi', color: 'bg-gray-100 text-gray-800' },
+      partially_refunded: { label: 'Partially Refunded', color: 'bg-purple-50 text-purple-700' },
       refunded: { label: 'Refunded', color: 'bg-purple-100 text-purple-800' },
     };
 
@@ -308,6 +343,7 @@ export default function AdminPaymentsPage() {
                 <option value="succeeded">Completed</option>
                 <option value="pending">Pending</option>
                 <option value="failed">Failed</option>
+                <option value="partially_refunded">Partially Refunded</option>
                 <option value="refunded">Refunded</option>
               </select>
               <Button onClick={loadTransactions} variant="outline" size="sm">
@@ -385,7 +421,7 @@ export default function AdminPaymentsPage() {
                       {format(new Date(transaction.created_at), 'MMM dd, yyyy HH:mm')}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                      {transaction.status === 'succeeded' && transaction.stripe_payment_intent_id && (
+                      {['succeeded', 'partially_refunded'].includes(transaction.status) && transaction.stripe_payment_intent_id && (
                         <Button
                           onClick={() => handleRefund(transaction.id, transaction.stripe_payment_intent_id!)}
                           variant="outline"
@@ -414,6 +450,55 @@ export default function AdminPaymentsPage() {
             <p className="text-gray-600">Ödemeler işlendikçe işlemler burada görünecektir.</p>
           </div>
         )}
+
+        {/* Failed Webhook Events */}
+        {webhookEvents.length > 0 && (
+          <Card className="p-6 mt-8">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Failed Webhook Events</h3>
+                <p className="text-sm text-gray-600">
+                  Failed events are retried automatically; dead-lettered events need a manual replay
+                </p>
+              </div>
+              <Button onClick={loadWebhookEvents} variant="outline" size="sm">
+                Refresh
+              </Button>
+            </div>
+
+            <div className="divide-y divide-gray-200">
+              {webhookEvents.map((event) => (
+                <div key={event.id} className="py-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">{event.event_type}</span>
+                      <Badge className={event.status === 'dead' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}>
+                        {event.status === 'dead' ? 'Dead-lettered' : 'Retrying'}
+                      </Badge>
+                    </div>
+                    <div className="text-xs text-gray-400">{event.stripe_event_id}</div>
+                    {event.last_error && (
+                      <div className="text-xs text-red-600 mt-1 break-words">{event.last_error}</div>
+                    )}
+                    <div className="text-xs text-gray-500 mt-1">
+                      {event.attempts} attempt{event.attempts === 1 ? '' : 's'}
+                      {event.last_attempt_at && ` • last ${format(new Date(event.last_attempt_at), 'MMM dd, yyyy HH:mm')}`}
+                      {event.next_retry_at && ` • next retry ${format(new Date(event.next_retry_at), 'MMM dd, yyyy HH:mm')}`}
+                    </div>
+                  </div>
+                  <Button
+                    onClick={() => handleReplay(event.stripe_event_id)}
+                    variant="outline"
+                    size="sm"
+                    disabled={replayingEventId === event.stripe_event_id}
+                  >
+                    {replayingEventId === event.stripe_event_id ? 'Replaying...' : 'Replay'}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
       </div>
     </div>
   );
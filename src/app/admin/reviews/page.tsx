@@ -0,0 +1,364 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { DashboardCard } from '@/components/layout/DashboardContent';
+import { Button } from '@/components/ui/button';
+import {
+  Star,
+  Check,
+  X,
+  Award,
+  Flag,
+  User,
+  Calendar,
+  BookOpen,
+  ChevronDown,
+  ThumbsUp
+} from 'lucide-react';
+import toast, { Toaster } from 'react-hot-toast';
+import type { CourseReview, ReviewModerationStats } from '@/types/review';
+
+type QueueFilter = 'pending' | 'approved' | 'rejected' | 'reported' | 'all';
+
+const PAGE_SIZE = 20;
+
+export default function AdminReviewsPage() {
+  const [reviews, setReviews] = useState<CourseReview[]>([]);
+  const [stats, setStats] = useState<ReviewModerationStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<QueueFilter>('pending');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [rejectingReview, setRejectingReview] = useState<CourseReview | null>(null);
+  const [rejectNotes, setRejectNotes] = useState('');
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const loadReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        status: statusFilter,
+        page: currentPage.toString(),
+        limit: PAGE_SIZE.toString()
+      });
+
+      const response = await fetch(`/api/admin/reviews?${params}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setReviews(result.data.reviews);
+      setStats(result.data.stats);
+      setTotalPages(Math.max(result.data.pagination.totalPages, 1));
+    } catch (error) {
+      console.error('Review queue error:', error);
+      toast.error('Değerlendirmeler yüklenemedi');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, currentPage]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const moderate = async (review: CourseReview, action: 'approve' | 'reject' | 'feature' | 'unfeature', notes?: string) => {
+    setActionLoading(review.id);
+    try {
+      const response = await fetch(`/api/admin/reviews/${review.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, notes })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast.success(result.message);
+      setRejectingReview(null);
+      setRejectNotes('');
+      await loadReviews();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'İşlem başarısız');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const getStatusBadge = (status: CourseReview['status']) => {
+    const styles = {
+      pending: 'bg-yellow-100 text-yellow-800',
+      approved: 'bg-green-100 text-green-800',
+      rejected: 'bg-red-100 text-red-800'
+    };
+    const labels = {
+      pending: 'Onay Bekliyor',
+      approved: 'Onaylandı',
+      rejected: 'Reddedildi'
+    };
+
+    return (
+      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${styles[status]}`}>
+        {labels[status]}
+      </span>
+    );
+  };
+
+  const renderStars = (rating: number) => (
+    <div className="flex items-center">
+      {Array.from({ length: 5 }, (_, i) => (
+        <Star
+          key={i}
+          className={`h-4 w-4 ${i < rating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Star className="h-8 w-8 mr-3 text-blue-600" />
+              Değerlendirme Moderasyonu
+            </h1>
+            <p className="text-gray-600 mt-1">
+              Kurs değerlendirmelerini onaylayın, reddedin veya öne çıkarın
+            </p>
+          </div>
+          {stats && stats.pending > 0 && (
+            <div className="bg-blue-50 border border-blue-200 rounded-lg px-4 py-2">
+              <span className="text-blue-700 font-medium">
+                {stats.pending} değerlendirme onay bekliyor
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Stats */}
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Onay Bekleyen', value: stats.pending, color: 'text-yellow-600' },
+              { label: 'Onaylanan', value: stats.approved, color: 'text-green-600' },
+              { label: 'Reddedilen', value: stats.rejected, color: 'text-red-600' },
+              { label: 'Şikayet Edilen', value: stats.reported, color: 'text-orange-600' }
+            ].map(stat => (
+              <DashboardCard key={stat.label}>
+                <div className="p-4">
+                  <p className="text-sm text-gray-600">{stat.label}</p>
+                  <p className={`text-2xl font-bold ${stat.color}`}>{stat.value}</p>
+                </div>
+              </DashboardCard>
+            ))}
+          </div>
+        )}
+
+        {/* Filters */}
+        <DashboardCard>
+          <div className="p-6">
+            <div className="relative max-w-xs">
+              <select
+                value={statusFilter}
+                onChange={(e) => {
+                  setStatusFilter(e.target.value as QueueFilter);
+                  setCurrentPage(1);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 appearance-none bg-white"
+              >
+                <option value="pending">Onay Bekleyenler</option>
+                <option value="reported">Şikayet Edilenler</option>
+                <option value="approved">Onaylananlar</option>
+                <option value="rejected">Reddedilenler</option>
+                <option value="all">Tümü</option>
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4 pointer-events-none" />
+            </div>
+          </div>
+        </DashboardCard>
+
+        {/* Review Queue */}
+        <DashboardCard>
+          <div className="p-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : reviews.length > 0 ? (
+              <div className="space-y-4">
+                {reviews.map(review => (
+                  <div key={review.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex flex-wrap items-center gap-3 mb-2">
+                          <div className="flex items-center space-x-2">
+                            <User className="h-4 w-4 text-gray-400" />
+                            <span className="font-medium text-gray-900">{review.reviewerName}</span>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <BookOpen className="h-4 w-4 text-gray-400" />
+                            <span className="text-sm text-gray-600">{review.courseTitle}</span>
+                          </div>
+                          {renderStars(review.rating)}
+                        </div>
+
+                        {review.body && <p className="text-gray-700 mb-3 whitespace-pre-line">{review.body}</p>}
+
+                        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
+                          <div className="flex items-center space-x-1">
+                            <Calendar className="h-4 w-4" />
+                            <span>{new Date(review.createdAt).toLocaleDateString('tr-TR')}</span>
+                          </div>
+                          {getStatusBadge(review.status)}
+                          {review.isFeatured && (
+                            <span className="inline-flex items-center text-orange-600">
+                              <Award className="h-4 w-4 mr-1" />
+                              Öne Çıkan
+                            </span>
+                          )}
+                          <span className="inline-flex items-center">
+                            <ThumbsUp className="h-4 w-4 mr-1" />
+                            {review.helpfulCount}
+                          </span>
+                          {review.reportedCount > 0 && (
+                            <span className="inline-flex items-center text-red-600">
+                              <Flag className="h-4 w-4 mr-1" />
+                              {review.reportedCount} şikayet
+                            </span>
+                          )}
+                        </div>
+
+                        {review.moderatorNotes && (
+                          <p className="mt-3 text-sm text-gray-600 bg-gray-50 rounded p-2">
+                            <span className="font-medium">Moderatör notu:</span> {review.moderatorNotes}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="flex items-center space-x-2 ml-4">
+                        {review.status !== 'approved' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={actionLoading === review.id}
+                            onClick={() => moderate(review, 'approve')}
+                            className="text-green-600 hover:text-green-700"
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Onayla
+                          </Button>
+                        )}
+                        {review.status === 'approved' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={actionLoading === review.id}
+                            onClick={() => moderate(review, review.isFeatured ? 'unfeature' : 'feature')}
+                            className="text-orange-600 hover:text-orange-700"
+                          >
+                            <Award className="h-4 w-4 mr-1" />
+                            {review.isFeatured ? 'Öne Çıkarmayı Kaldır' : 'Öne Çıkar'}
+                          </Button>
+                        )}
+                        {review.status !== 'rejected' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={actionLoading === review.id}
+                            onClick={() => setRejectingReview(review)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reddet
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <Star className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-600">Bu filtrede değerlendirme bulunmuyor</p>
+              </div>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between mt-6">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={currentPage === 1}
+                  onClick={() => setCurrentPage(page => page - 1)}
+                >
+                  Önceki
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Sayfa {currentPage} / {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={currentPage >= totalPages}
+                  onClick={() => setCurrentPage(page => page + 1)}
+                >
+                  Sonraki
+                </Button>
+              </div>
+            )}
+          </div>
+        </DashboardCard>
+      </div>
+
+      {/* Reject Modal */}
+      {rejectingReview && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-lg w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Değerlendirmeyi Reddet</h3>
+              <button
+                onClick={() => setRejectingReview(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-3">
+              Red gerekçesi öğrenciye gösterilir ve kayıtlarda saklanır.
+            </p>
+            <textarea
+              value={rejectNotes}
+              onChange={(e) => setRejectNotes(e.target.value)}
+              rows={4}
+              placeholder="Red gerekçesi..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <div className="flex justify-end space-x-3 mt-4">
+              <Button variant="outline" onClick={() => setRejectingReview(null)}>
+                İptal
+              </Button>
+              <Button
+                onClick={() => moderate(rejectingReview, 'reject', rejectNotes.trim())}
+                disabled={!rejectNotes.trim() || actionLoading === rejectingReview.id}
+                className="bg-red-600 hover:bg-red-700 text-white"
+              >
+                Reddet
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Toaster />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { PricingService } from '@/services/pricing-service';
+import { isSupportedCurrency } from '@/lib/stripe';
+import { getCoursePrices } from '@/lib/payments';
+import { coursePriceSchema } from '@/lib/validation/pricing';
+
+// GET /api/admin/courses/[id]/prices - Kursun para birimlerine göre fiyat listesi
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const prices = await getCoursePrices(id);
+
+    return NextResponse.json({ success: true, data: prices });
+
+  } catch (error) {
+    console.error('Course prices fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Kurs fiyatları alınırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/courses/[id]/prices - Kursun bir para birimindeki fiyatını belirle
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validasyon
+    const parsed = coursePriceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Geçersiz fiyat', errors: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const price = await PricingService.setCoursePrice(id, parsed.data.currency, parsed.data.amount);
+
+    return NextResponse.json({
+      success: true,
+      data: price,
+      message: 'Kurs fiyatı güncellendi'
+    });
+
+  } catch (error) {
+    console.error('Course price update error:', error);
+
+    if (error instanceof Error && error.message === 'Course not found') {
+      return NextResponse.json(
+        { success: false, error: 'Kurs bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Kurs fiyatı güncellenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/courses/[id]/prices?currency=EUR - Kursun bir para biriminde satışını durdur
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const currency = request.nextUrl.searchParams.get('currency');
+
+    if (!isSupportedCurrency(currency)) {
+      return NextResponse.json(
+        { success: false, error: 'Geçersiz para birimi' },
+        { status: 400 }
+      );
+    }
+
+    await PricingService.removeCoursePrice(id, currency);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Kurs fiyatı kaldırıldı'
+    });
+
+  } catch (error) {
+    console.error('Course price delete error:', error);
+
+    if (error instanceof Error && error.message === 'Course price not found') {
+      return NextResponse.json(
+        { success: false, error: 'Bu para biriminde fiyat bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Kurs fiyatı kaldırılırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { DiscountService } from '@/services/discount-service';
+import { updateDiscountCodeSchema } from '@/lib/validation/discounts';
+
+// GET /api/admin/discount-codes/[id] - İndirim kodu ve kullanım geçmişi
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const discountCode = await DiscountService.getDiscountCode(id);
+
+    return NextResponse.json({ success: true, data: discountCode });
+
+  } catch (error: any) {
+    console.error('Discount code fetch error:', error);
+
+    if (error.message === 'Discount code not found') {
+      return NextResponse.json(
+        { success: false, error: 'İndirim kodu bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'İndirim kodu alınırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/admin/discount-codes/[id] - İndirim kodunu güncelle
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validasyon
+    const parsed = updateDiscountCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Geçersiz indirim kodu', errors: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const discountCode = await DiscountService.updateDiscountCode(id, parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      data: discountCode,
+      message: 'İndirim kodu güncellendi'
+    });
+
+  } catch (error: any) {
+    console.error('Discount code update error:', error);
+
+    if (error.message === 'Discount code not found') {
+      return NextResponse.json(
+        { success: false, error: 'İndirim kodu bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    if (error.message?.includes(' require ')) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'İndirim kodu güncellenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/discount-codes/[id] - İndirim kodunu sil (kullanılmışsa pasifleştir)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const { deleted } = await DiscountService.deleteDiscountCode(id);
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted },
+      message: deleted ? 'İndirim kodu silindi' : 'Kullanılmış indirim kodu pasifleştirildi'
+    });
+
+  } catch (error: any) {
+    console.error('Discount code delete error:', error);
+
+    if (error.message === 'Discount code not found') {
+      return NextResponse.json(
+        { success: false, error: 'İndirim kodu bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'İndirim kodu silinirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
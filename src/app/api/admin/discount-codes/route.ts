@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { DiscountService } from '@/services/discount-service';
+import { createDiscountCodeSchema, discountCodeQuerySchema } from '@/lib/validation/discounts';
+
+// GET /api/admin/discount-codes - İndirim kodlarını listele
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Oturum açmanız gerekiyor' },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = discountCodeQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+
+    const { discountCodes, total } = await DiscountService.getDiscountCodes(query);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        discountCodes,
+        pagination: {
+          currentPage: query.page,
+          totalPages: Math.ceil(total / query.limit),
+          totalItems: total,
+          itemsPerPage: query.limit
+        }
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Discount code list error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Geçersiz sorgu parametreleri' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'İndirim kodları alınırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/discount-codes - Yeni indirim kodu oluştur
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Validasyon
+    const parsed = createDiscountCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Geçersiz indirim kodu', errors: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const discountCode = await DiscountService.createDiscountCode(session.user.id, parsed.data);
+
+    return NextResponse.json(
+      { success: true, data: discountCode, message: 'İndirim kodu oluşturuldu' },
+      { status: 201 }
+    );
+
+  } catch (error: any) {
+    console.error('Discount code create error:', error);
+
+    if (error.message === 'Discount code already exists') {
+      return NextResponse.json(
+        { success: false, error: 'Bu indirim kodu zaten mevcut' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'İndirim kodu oluşturulurken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for Stripe
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { ReconciliationService } from '@/services/reconciliation-service';
+import { reconciliationRequestSchema } from '@/lib/validation/reconciliation';
+import { handleStripeError } from '@/lib/stripe';
+import Stripe from 'stripe';
+
+const RECONCILIATION_ERROR_STATUS: Record<string, number> = {
+  'Invalid reconciliation range': 400,
+  'Reconciliation range is too long': 400,
+  'Stripe is not configured': 503
+};
+
+/**
+ * POST /api/admin/payments/reconcile - Compare Stripe with the payment ledger for a date
+ * range; with repair: true, fix the discrepancies that are safe to fix
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const parsed = reconciliationRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid reconciliation request', errors: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { from, to, repair } = parsed.data;
+    const report = await ReconciliationService.reconcile(
+      { from, to: to ?? new Date() },
+      { repair }
+    );
+
+    return NextResponse.json({ success: true, data: report });
+
+  } catch (error) {
+    console.error('Payment reconciliation error:', error);
+
+    if (error instanceof Stripe.errors.StripeError) {
+      const stripeError = handleStripeError(error);
+      return NextResponse.json(
+        { success: false, error: stripeError.message },
+        { status: stripeError.statusCode }
+      );
+    }
+
+    if (error instanceof Error && RECONCILIATION_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: RECONCILIATION_ERROR_STATUS[error.message] }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
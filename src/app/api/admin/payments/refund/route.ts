@@ -1,29 +1,109 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { RefundService } from '@/services/refund-service';
+import { refundRequestSchema } from '@/lib/validation/refunds';
+import { handleStripeError } from '@/lib/stripe';
+import Stripe from 'stripe';
 
+const REFUND_ERROR_STATUS: Record<string, number> = {
+  'Transaction not found': 404,
+  'Transaction cannot be refunded': 409,
+  'Refund amount exceeds the refundable balance': 400
+};
+
+/**
+ * GET /api/admin/payments/refund?transactionId=... - Refund history of a transaction
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const transactionId = new URL(request.url).searchParams.get('transactionId');
+    if (!transactionId) {
+      return NextResponse.json(
+        { success: false, error: 'transactionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const refunds = await RefundService.getTransactionRefunds(transactionId);
+
+    return NextResponse.json({ success: true, data: { refunds } });
+
+  } catch (error) {
+    console.error('Refund history error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/payments/refund - Issue a full or partial refund through Stripe
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { transactionId, paymentIntentId, amount, reason } = await request.json();
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const parsed = refundRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid refund request', errors: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { transactionId, amount, reason, note } = parsed.data;
+
+    const refund = await RefundService.refundTransaction({
+      transaction_id: transactionId,
+      amount,
+      reason,
+      note,
+      issued_by: session.user.id
+    });
 
-    // Mock implementation for demo purposes
     return NextResponse.json({
       success: true,
-      data: {
-        refund: {
-          id: `re_mock_${Date.now()}`,
-          amount: amount || 1000,
-          currency: 'usd',
-          status: 'succeeded',
-          reason: reason || 'requested_by_customer'
-        }
-      },
-      message: 'Refund processed successfully (demo mode)'
+      data: { refund },
+      message: refund.status === 'succeeded' ? 'Refund processed successfully' : 'Refund submitted'
     });
 
   } catch (error) {
     console.error('Refund processing error:', error);
+
+    if (error instanceof Stripe.errors.StripeError) {
+      const stripeError = handleStripeError(error);
+      return NextResponse.json(
+        { success: false, error: stripeError.message },
+        { status: stripeError.statusCode }
+      );
+    }
+
+    if (error instanceof Error && REFUND_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: REFUND_ERROR_STATUS[error.message] }
+      );
+    }
+
     return NextResponse.json(
-      { error: 'Internal server error' },
+      { success: false, error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
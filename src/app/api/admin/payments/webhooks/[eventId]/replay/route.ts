@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { WebhookService, WEBHOOK_ERROR_STATUS } from '@/services/webhook-service';
+
+/**
+ * POST /api/admin/payments/webhooks/[eventId]/replay - Run a failed Stripe event again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { eventId } = await params;
+    const event = await WebhookService.replayEvent(eventId);
+
+    return NextResponse.json({
+      success: event.status === 'processed',
+      data: { event },
+      error: event.status === 'processed' ? undefined : event.last_error
+    });
+
+  } catch (error) {
+    console.error('Webhook replay error:', error);
+
+    if (error instanceof Error && WEBHOOK_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: WEBHOOK_ERROR_STATUS[error.message] }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
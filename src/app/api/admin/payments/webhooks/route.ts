@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { WebhookService } from '@/services/webhook-service';
+
+/**
+ * GET /api/admin/payments/webhooks?status=failed|dead - Stripe events that failed to apply
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const status = new URL(request.url).searchParams.get('status');
+    if (status !== null && status !== 'failed' && status !== 'dead') {
+      return NextResponse.json(
+        { success: false, error: 'status must be failed or dead' },
+        { status: 400 }
+      );
+    }
+
+    const events = await WebhookService.getFailedEvents({ status: status ?? undefined });
+
+    return NextResponse.json({ success: true, data: { events } });
+
+  } catch (error) {
+    console.error('Webhook events error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,43 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { QnaService } from '@/services/qna-service';
+import { questionStatusSchema } from '@/lib/validation/qna';
 
-// Mock veri - gerçek uygulamada veritabanından gelecek
-const mockQuestions = [
-  {
-    id: '1',
-    studentId: 'user1',
-    studentName: 'Ahmet Yılmaz',
-    courseId: 'amazon-fba-mastery',
-    courseName: 'Amazon FBA Mastery',
-    lessonId: 'lesson-1',
-    lessonName: 'Amazon FBA\'ya Giriş',
-    body: 'Amazon FBA için minimum bütçe ne kadar olmalı? Başlangıç sermayesi konusunda kafam karışık.',
-    status: 'new',
-    createdAt: '2024-01-15T10:30:00Z',
-    replies: []
-  },
-  {
-    id: '2',
-    studentId: 'user2',
-    studentName: 'Zeynep Kaya',
-    courseId: 'amazon-fba-mastery',
-    courseName: 'Amazon FBA Mastery',
-    lessonId: 'lesson-2',
-    lessonName: 'Ürün Araştırması',
-    body: 'Ürün araştırması yaparken hangi araçları kullanmalıyım? Ücretsiz alternatifler var mı?',
-    status: 'answered',
-    createdAt: '2024-01-14T15:45:00Z',
-    replies: [
-      {
-        id: 'reply1',
-        questionId: '2',
-        responderId: 'admin1',
-        responderName: 'Haşem Başaran',
-        body: 'Helium 10, Jungle Scout ve AMZScout gibi araçlar çok etkili. Başlangıç için Helium 10\'un ücretsiz versiyonu yeterli olacaktır.',
-        createdAt: '2024-01-14T16:30:00Z'
-      }
-    ]
+function errorResponse(error: any, fallback: string) {
+  if (error.message === 'Question not found') {
+    return NextResponse.json(
+      { success: false, error: 'Soru bulunamadı' },
+      { status: 404 }
+    );
+  }
+
+  if (error.message === 'Access denied') {
+    return NextResponse.json(
+      { success: false, error: 'Bu soruya erişim yetkiniz yok' },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.json(
+    { success: false, error: fallback },
+    { status: 500 }
+  );
+}
+
+async function getStaffViewer() {
+  const session = await getServerSession(authOptions);
+  if (!session?.user || !['instructor', 'admin'].includes(session.user.role)) {
+    return null;
   }
-];
+  return { id: session.user.id, name: session.user.name, role: session.user.role };
+}
 
 // GET /api/admin/qna/[id] - Belirli bir soruyu getir
 export async function GET(
@@ -45,28 +39,25 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id } = await params;
-    
-    const question = mockQuestions.find(q => q.id === id);
-    
-    if (!question) {
+    const viewer = await getStaffViewer();
+    if (!viewer) {
       return NextResponse.json(
-        { success: false, error: 'Soru bulunamadı' },
-        { status: 404 }
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
       );
     }
 
+    const { id } = await params;
+    const question = await QnaService.getQuestion(id, viewer);
+
     return NextResponse.json({
       success: true,
       data: question
     });
 
-  } catch (error) {
+  } catch (error: any) {
     console.error('QnA get error:', error);
-    return NextResponse.json(
-      { success: false, error: 'Soru alınırken bir hata oluştu' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Soru alınırken bir hata oluştu');
   }
 }
 
@@ -76,44 +67,37 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const viewer = await getStaffViewer();
+    if (!viewer) {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
     const { id } = await params;
     const body = await request.json();
-    const { status } = body;
 
     // Validasyon
-    if (!status || !['new', 'answered', 'hidden'].includes(status)) {
+    const parsed = questionStatusSchema.safeParse(body);
+    if (!parsed.success) {
       return NextResponse.json(
         { success: false, error: 'Geçersiz durum değeri' },
         { status: 400 }
       );
     }
 
-    const questionIndex = mockQuestions.findIndex(q => q.id === id);
-    
-    if (questionIndex === -1) {
-      return NextResponse.json(
-        { success: false, error: 'Soru bulunamadı' },
-        { status: 404 }
-      );
-    }
-
-    // Durumu güncelle
-    mockQuestions[questionIndex].status = status;
+    const question = await QnaService.updateStatus(id, parsed.data.status, viewer);
 
-    // Gerçek uygulamada burada veritabanı güncellemesi yapılır
-    
     return NextResponse.json({
       success: true,
-      data: mockQuestions[questionIndex],
+      data: question,
       message: 'Soru durumu başarıyla güncellendi'
     });
 
-  } catch (error) {
+  } catch (error: any) {
     console.error('QnA update error:', error);
-    return NextResponse.json(
-      { success: false, error: 'Soru güncellenirken bir hata oluştu' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Soru güncellenirken bir hata oluştu');
   }
 }
 
@@ -123,33 +107,25 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id } = await params;
-    
-    const questionIndex = mockQuestions.findIndex(q => q.id === id);
-    
-    if (questionIndex === -1) {
+    const viewer = await getStaffViewer();
+    if (!viewer) {
       return NextResponse.json(
-        { success: false, error: 'Soru bulunamadı' },
-        { status: 404 }
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
       );
     }
 
-    // Soruyu sil
-    const deletedQuestion = mockQuestions.splice(questionIndex, 1)[0];
+    const { id } = await params;
+    const deletedQuestion = await QnaService.deleteQuestion(id, viewer);
 
-    // Gerçek uygulamada burada veritabanından silme işlemi yapılır
-    
     return NextResponse.json({
       success: true,
       data: deletedQuestion,
       message: 'Soru başarıyla silindi'
     });
 
-  } catch (error) {
+  } catch (error: any) {
     console.error('QnA delete error:', error);
-    return NextResponse.json(
-      { success: false, error: 'Soru silinirken bir hata oluştu' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Soru silinirken bir hata oluştu');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { ReviewService } from '@/services/review-service';
+import { moderationActionSchema } from '@/lib/validation/reviews';
+
+const ACTION_MESSAGES = {
+  approve: 'Değerlendirme onaylandı',
+  reject: 'Değerlendirme reddedildi',
+  feature: 'Değerlendirme öne çıkarıldı',
+  unfeature: 'Değerlendirme öne çıkanlardan kaldırıldı'
+} as const;
+
+// PATCH /api/admin/reviews/[id] - Değerlendirmeyi onayla, reddet veya öne çıkar
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validasyon
+    const parsed = moderationActionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Geçersiz moderasyon işlemi' },
+        { status: 400 }
+      );
+    }
+
+    const review = await ReviewService.moderateReview(id, session.user.id, parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      data: review,
+      message: ACTION_MESSAGES[parsed.data.action]
+    });
+
+  } catch (error: any) {
+    console.error('Review moderation error:', error);
+
+    if (error.message === 'Review not found') {
+      return NextResponse.json(
+        { success: false, error: 'Değerlendirme bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    if (error.message === 'Only approved reviews can be featured') {
+      return NextResponse.json(
+        { success: false, error: 'Yalnızca onaylanmış değerlendirmeler öne çıkarılabilir' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Değerlendirme güncellenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
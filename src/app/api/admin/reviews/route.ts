@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { ReviewService } from '@/services/review-service';
+import { moderationQueueQuerySchema } from '@/lib/validation/reviews';
+
+// GET /api/admin/reviews - Değerlendirme moderasyon kuyruğu
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Oturum açmanız gerekiyor' },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = moderationQueueQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+
+    const { reviews, total, stats } = await ReviewService.listModerationQueue(query);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reviews,
+        pagination: {
+          currentPage: query.page,
+          totalPages: Math.ceil(total / query.limit),
+          totalItems: total,
+          itemsPerPage: query.limit
+        },
+        stats
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Review moderation list error:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Geçersiz sorgu parametreleri' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Değerlendirmeler alınırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
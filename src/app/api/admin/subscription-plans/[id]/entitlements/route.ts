@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { EntitlementService } from '@/services/entitlement-service';
+import { planEntitlementsSchema } from '@/lib/validation/subscriptions';
+
+// GET /api/admin/subscription-plans/[id]/entitlements - Planın erişim verdiği kurslar
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const entitlements = await EntitlementService.getPlanEntitlements(id);
+
+    return NextResponse.json({ success: true, data: entitlements });
+
+  } catch (error) {
+    console.error('Plan entitlements fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Plan erişimleri alınırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/subscription-plans/[id]/entitlements - Planın erişim kurallarını değiştir
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validasyon
+    const parsed = planEntitlementsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Geçersiz erişim kuralları', errors: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const entitlements = await EntitlementService.setPlanEntitlements(id, parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      data: entitlements,
+      message: 'Plan erişimleri güncellendi'
+    });
+
+  } catch (error) {
+    console.error('Plan entitlements update error:', error);
+
+    if (error instanceof Error && error.message === 'Subscription plan not found') {
+      return NextResponse.json(
+        { success: false, error: 'Abonelik planı bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Plan erişimleri güncellenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for Supabase
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { mfaService, mfaErrorResponse } from '@/lib/auth/mfa';
+
+// POST /api/admin/users/[id]/mfa-reset - MFA kurulumunu sıfırla ve yeni kayıt süresi başlat
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    // Yöneticiler kendi MFA'larını bu yoldan kaldıramaz
+    if (id === session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Kendi MFA kurulumunuzu sıfırlayamazsınız' },
+        { status: 400 }
+      );
+    }
+
+    const status = await mfaService.adminReset(id, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: status,
+      message: 'MFA sıfırlandı; kullanıcı yeniden giriş yapıp MFA kurabilir'
+    });
+
+  } catch (error) {
+    console.error('MFA reset error:', error);
+    return mfaErrorResponse(error, 'MFA sıfırlanırken bir hata oluştu');
+  }
+}
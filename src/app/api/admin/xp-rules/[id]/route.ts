@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { XpService } from '@/services/xp-service';
+import { updateXpRuleSchema } from '@/lib/validation/xp';
+
+// PATCH /api/admin/xp-rules/[id] - XP kuralını güncelle
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validasyon
+    const parsed = updateXpRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Geçersiz XP kuralı', errors: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const rule = await XpService.updateRule(id, parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      data: rule,
+      message: 'XP kuralı güncellendi'
+    });
+
+  } catch (error) {
+    console.error('XP rule update error:', error);
+
+    if (error instanceof Error && error.message === 'XP rule not found') {
+      return NextResponse.json(
+        { success: false, error: 'XP kuralı bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'XP kuralı güncellenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/xp-rules/[id] - XP kuralını sil
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    await XpService.deleteRule(id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'XP kuralı silindi'
+    });
+
+  } catch (error) {
+    console.error('XP rule delete error:', error);
+
+    if (error instanceof Error && error.message === 'XP rule not found') {
+      return NextResponse.json(
+        { success: false, error: 'XP kuralı bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'XP kuralı silinirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { XpService } from '@/services/xp-service';
+import { createXpRuleSchema } from '@/lib/validation/xp';
+
+// GET /api/admin/xp-rules - XP kurallarını listele
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const rules = await XpService.getRules();
+
+    return NextResponse.json({ success: true, data: rules });
+
+  } catch (error) {
+    console.error('XP rule list error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'XP kuralları alınırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/xp-rules - Yeni XP kuralı oluştur
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user || session.user.role !== 'admin') {
+      return NextResponse.json(
+        { success: false, error: 'Bu işlem için yetkiniz yok' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Validasyon
+    const parsed = createXpRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Geçersiz XP kuralı', errors: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const rule = await XpService.createRule(parsed.data);
+
+    return NextResponse.json(
+      { success: true, data: rule, message: 'XP kuralı oluşturuldu' },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('XP rule create error:', error);
+
+    if (error instanceof Error && error.message === 'XP rule already exists') {
+      return NextResponse.json(
+        { success: false, error: 'Bu etkinlik ve eşik için bir XP kuralı zaten mevcut' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'XP kuralı oluşturulurken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { AssessmentService } from '@/services/assessment-service';
+import { adaptiveAnswerSchema } from '@/lib/validation/assessment';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * POST /api/assessments/[id]/attempts/[attemptId]/adaptive - Answer the current adaptive question and get the next one
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; attemptId: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-quiz-adaptive', {
+      max: 60,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const { id: assessmentId, attemptId } = params;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(assessmentId) || !uuidRegex.test(attemptId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = adaptiveAnswerSchema.parse({ ...body, attempt_id: attemptId });
+
+    const step = await AssessmentService.answerAdaptiveQuestion(
+      session.user.id,
+      assessmentId,
+      validatedData
+    );
+
+    if (step.completed) {
+      const { result } = step;
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          completed: true,
+          result,
+          ability: result.adaptive && {
+            estimate: result.adaptive.ability_estimate,
+            confidence_interval: result.adaptive.confidence_interval,
+            questions_answered: result.adaptive.completed_questions.length,
+            stop_reason: result.adaptive.stop_reason
+          }
+        },
+        message: `Assessment complete. You answered ${result.question_results.length} questions and scored ${result.percentage}%.`
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: step
+    });
+
+  } catch (error: any) {
+    console.error('Error answering adaptive question:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error.message.includes('not adaptive')) {
+      return NextResponse.json(
+        { success: false, message: 'Assessment is not adaptive' },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('already submitted') || error.message.includes('already answered')) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error.message.includes('another session')) {
+      return NextResponse.json(
+        { success: false, conflict: 'session', message: 'This quiz is open in another tab. Continue there or take it over here.' },
+        { status: 409 }
+      );
+    }
+
+    if (error.message.includes('time limit exceeded')) {
+      return NextResponse.json(
+        { success: false, message: 'Time limit exceeded. Your attempt was closed with the answers saved before the deadline.' },
+        { status: 410 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to answer question' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { AssessmentService } from '@/services/assessment-service';
+import { submitQuizResponseSchema } from '@/lib/validation/assessment';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * PUT /api/assessments/[id]/attempts/[attemptId]/responses - Autosave one answer of an in-progress attempt
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; attemptId: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Autosave fires on every answer change, so the limit is per minute
+    const rateLimitResult = await rateLimit.check(request, 'api-quiz-autosave', {
+      max: 120,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const { id: assessmentId, attemptId } = params;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(assessmentId) || !uuidRegex.test(attemptId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = submitQuizResponseSchema.parse({ ...body, attempt_id: attemptId });
+
+    const result = await AssessmentService.saveResponse(
+      session.user.id,
+      assessmentId,
+      validatedData
+    );
+
+    if (!result.saved) {
+      return NextResponse.json({
+        success: false,
+        conflict: result.conflict,
+        current: result.current,
+        message: result.conflict === 'session'
+          ? 'This quiz is open in another tab. Continue there or take it over here.'
+          : 'This answer was changed in another tab. Reload it before saving again.'
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        response: result.response
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error saving quiz response:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error.message.includes('already submitted')) {
+      return NextResponse.json(
+        { success: false, message: 'Quiz attempt already submitted' },
+        { status: 409 }
+      );
+    }
+
+    if (error.message.includes('time limit exceeded')) {
+      return NextResponse.json(
+        { success: false, message: 'Time limit exceeded. Your attempt was closed with the answers saved before the deadline.' },
+        { status: 410 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to save response' },
+      { status: 500 }
+    );
+  }
+}
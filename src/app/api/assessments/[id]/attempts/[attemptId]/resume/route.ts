@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { AssessmentService } from '@/services/assessment-service';
+import { resumeQuizAttemptSchema } from '@/lib/validation/assessment';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * POST /api/assessments/[id]/attempts/[attemptId]/resume - Reopen an in-progress attempt with its saved answers
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; attemptId: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-quiz-resume', {
+      max: 30,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const { id: assessmentId, attemptId } = params;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(assessmentId) || !uuidRegex.test(attemptId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = resumeQuizAttemptSchema.parse({ ...body, attempt_id: attemptId });
+
+    const result = await AssessmentService.resumeAttempt(
+      session.user.id,
+      assessmentId,
+      validatedData.attempt_id,
+      validatedData.session_id,
+      validatedData.take_over
+    );
+
+    if (result.conflict) {
+      return NextResponse.json({
+        success: false,
+        conflict: result.conflict,
+        attempt_id: result.attempt_id,
+        message: 'This quiz is already open in another tab. Continue here to take it over.'
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        attempt: result.attempt,
+        questions: result.questions,
+        responses: result.responses,
+        time_remaining_seconds: result.time_remaining_seconds
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error resuming quiz attempt:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('not found')) {
+      return NextResponse.json(
+        { success: false, message: 'Quiz attempt not found' },
+        { status: 404 }
+      );
+    }
+
+    if (error.message.includes('already submitted')) {
+      return NextResponse.json(
+        { success: false, message: 'Quiz attempt already submitted' },
+        { status: 409 }
+      );
+    }
+
+    if (error.message.includes('time limit exceeded')) {
+      return NextResponse.json(
+        { success: false, message: 'Time limit exceeded. Your attempt was closed with the answers saved before the deadline.' },
+        { status: 410 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to resume quiz attempt' },
+      { status: 500 }
+    );
+  }
+}
@@ -64,6 +64,8 @@ export async function GET(
         id,
         attempt_number,
         started_at,
+        expires_at,
+        expired_at,
         submitted_at,
         time_spent,
         status,
@@ -134,8 +136,13 @@ export async function GET(
     const pages = Math.ceil(total / validatedQuery.limit);
 
     // Process attempts data
-    const processedAttempts = (attempts || []).map(attempt => ({
+    const processedAttempts = (attempts || []).map((attempt: any) => ({
       ...attempt,
+      // Draft manual grades and suggested scores are instructor-only
+      ...(userRole === 'student' && attempt.responses
+        ? { responses: attempt.responses.map((r: Record<string, unknown>) => toStudentResponse(r, attempt.status === 'graded')) }
+        : {}),
+      time_remaining_seconds: getTimeRemaining(attempt.status, attempt.expires_at),
       time_spent_formatted: formatTimeSpent(attempt.time_spent || 0),
       performance_level: getPerformanceLevel(attempt.percentage || 0),
       status_display: getStatusDisplay(attempt.status, attempt.submitted_at, attempt.graded_at)
@@ -212,6 +219,22 @@ export async function GET(
 }
 
 // Helper functions
+function toStudentResponse(response: Record<string, unknown>, released: boolean) {
+  const visible = { ...response };
+  delete visible.suggested_points;
+  delete visible.suggested_feedback;
+  delete visible.suggestion_provider;
+
+  return released
+    ? visible
+    : { ...visible, is_correct: null, points_earned: null, feedback: null, rubric_scores: null };
+}
+
+function getTimeRemaining(status: string, expiresAt: string | null): number | null {
+  if (status !== 'in_progress' || !expiresAt) return null;
+  return Math.max(0, Math.floor((new Date(expiresAt).getTime() - Date.now()) / 1000));
+}
+
 function formatTimeSpent(minutes: number): string {
   if (minutes < 60) {
     return `${minutes} minutes`;
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { QuestionBankService } from '@/services/question-bank-service';
+import { createDrawSectionSchema } from '@/lib/validation/assessment';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * GET /api/assessments/[id]/draw-sections - List random-draw sections
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Check authorization - only the assessment instructor manages draw sections
+    const userRole = session.user.role || 'student';
+    if (!['instructor', 'admin'].includes(userRole)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied. Instructor role required.' },
+        { status: 403 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-draw-sections-list', {
+      max: 100,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const assessmentId = params.id;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(assessmentId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid assessment ID format' },
+        { status: 400 }
+      );
+    }
+
+    const sections = await QuestionBankService.getDrawSections(assessmentId, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { sections }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching draw sections:', error);
+
+    if (error.message.includes('not found') || error.message.includes('access denied')) {
+      return NextResponse.json(
+        { success: false, message: 'Assessment not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to fetch draw sections' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/assessments/[id]/draw-sections - Add a "draw N random questions" section
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Check authorization - only the assessment instructor manages draw sections
+    const userRole = session.user.role || 'student';
+    if (!['instructor', 'admin'].includes(userRole)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied. Instructor role required.' },
+        { status: 403 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-draw-sections-create', {
+      max: 30,
+      window: '1h'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const assessmentId = params.id;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(assessmentId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid assessment ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createDrawSectionSchema.parse(body);
+
+    const section = await QuestionBankService.createDrawSection(assessmentId, session.user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        section,
+        message: `Each attempt will draw ${section.draw_count} of ${section.pool_size} matching questions`
+      }
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Error creating draw section:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('not found') || error.message.includes('access denied')) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error.message.includes('Not enough matching questions')) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to create draw section' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { AssessmentService } from '@/services/assessment-service';
+import { manualGradingSchema } from '@/lib/validation/assessment';
+import { rateLimit } from '@/lib/security';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: any, fallback: string) {
+  if (error.name === 'ZodError') {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Validation failed',
+        errors: error.issues
+      },
+      { status: 400 }
+    );
+  }
+
+  if (error.message?.includes('not found') || error.message?.includes('access denied')) {
+    return NextResponse.json(
+      { success: false, message: error.message },
+      { status: 404 }
+    );
+  }
+
+  if (
+    error.message === 'Attempt is not ready for grading' ||
+    error.message === 'Ungraded responses remain'
+  ) {
+    return NextResponse.json(
+      { success: false, message: error.message },
+      { status: 409 }
+    );
+  }
+
+  if (
+    error.message === 'No rubric defined for question' ||
+    error.message === 'Unknown rubric criterion' ||
+    error.message === 'Every rubric criterion must be scored exactly once' ||
+    error.message?.startsWith('Points exceed')
+  ) {
+    return NextResponse.json(
+      { success: false, message: error.message },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    { success: false, message: error.message || fallback },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/assessments/[id]/grading/[attemptId] - Attempt with responses, rubrics and suggested scores
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; attemptId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userRole = session.user.role || 'student';
+    if (!['instructor', 'admin'].includes(userRole)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied. Instructor role required.' },
+        { status: 403 }
+      );
+    }
+
+    const rateLimitResult = await rateLimit.check(request, 'api-grading-get', {
+      max: 100,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    if (!uuidRegex.test(params.id) || !uuidRegex.test(params.attemptId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const detail = await AssessmentService.getAttemptForGrading(
+      params.id,
+      params.attemptId,
+      session.user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: detail
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching attempt for grading:', error);
+    return errorResponse(error, 'Failed to fetch attempt');
+  }
+}
+
+/**
+ * POST /api/assessments/[id]/grading/[attemptId] - Save manual grades, optionally releasing results
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; attemptId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userRole = session.user.role || 'student';
+    if (!['instructor', 'admin'].includes(userRole)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied. Instructor role required.' },
+        { status: 403 }
+      );
+    }
+
+    const rateLimitResult = await rateLimit.check(request, 'api-grading-submit', {
+      max: 200,
+      window: '1h'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    if (!uuidRegex.test(params.id) || !uuidRegex.test(params.attemptId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = manualGradingSchema.parse({
+      ...body,
+      attempt_id: params.attemptId
+    });
+
+    const attempt = await AssessmentService.gradeAttempt(
+      params.id,
+      params.attemptId,
+      session.user.id,
+      validatedData
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { attempt },
+      message: attempt.status === 'graded'
+        ? 'Grades saved and results released'
+        : 'Grades saved'
+    });
+
+  } catch (error: any) {
+    console.error('Error grading attempt:', error);
+    return errorResponse(error, 'Failed to save grades');
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { AssessmentService } from '@/services/assessment-service';
+import { gradingQueueQuerySchema } from '@/lib/validation/assessment';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * GET /api/assessments/[id]/grading - Submitted attempts awaiting manual grading
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Check authorization - only instructors and admins can grade
+    const userRole = session.user.role || 'student';
+    if (!['instructor', 'admin'].includes(userRole)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied. Instructor role required.' },
+        { status: 403 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-grading-queue', {
+      max: 100,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const assessmentId = params.id;
+    const url = new URL(request.url);
+    const queryParams = Object.fromEntries(url.searchParams.entries());
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(assessmentId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid assessment ID format' },
+        { status: 400 }
+      );
+    }
+
+    const validatedQuery = gradingQueueQuerySchema.parse({
+      ...queryParams,
+      assessment_id: assessmentId
+    });
+
+    const { items, total } = await AssessmentService.getGradingQueue(session.user.id, validatedQuery);
+    const pages = Math.ceil(total / validatedQuery.limit);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        attempts: items,
+        pagination: {
+          page: validatedQuery.page,
+          limit: validatedQuery.limit,
+          total,
+          pages,
+          has_next: validatedQuery.page < pages,
+          has_prev: validatedQuery.page > 1
+        }
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching grading queue:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to fetch grading queue' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { AssessmentService } from '@/services/assessment-service';
+import { createQuestionSchema } from '@/lib/validation/assessment';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * POST /api/assessments/[id]/questions - Add question to assessment
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Check authorization - only instructors and admins can author questions
+    const userRole = session.user.role || 'student';
+    if (!['instructor', 'admin'].includes(userRole)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied. Instructor role required.' },
+        { status: 403 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-question-create', {
+      max: 100,
+      window: '1h'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const assessmentId = params.id;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(assessmentId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid assessment ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = createQuestionSchema.parse(body);
+
+    const question = await AssessmentService.addQuestion(
+      assessmentId,
+      session.user.id,
+      validatedData
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        question,
+        message: 'Question added successfully'
+      }
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Error adding question:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('not found') || error.message.includes('access denied')) {
+      return NextResponse.json(
+        { success: false, message: 'Assessment not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to add question' },
+      { status: 500 }
+    );
+  }
+}
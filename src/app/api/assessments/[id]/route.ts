@@ -87,14 +87,16 @@ export async function GET(
       };
     }
 
-    // For students, hide sensitive information
+    // For students, hide answers and explanations until after submission
     if (userRole === 'student') {
-      if (responseData.questions) {
-        responseData.questions = responseData.questions.map((q: any) => ({
-          ...q,
-          correct_answer: undefined, // Hide correct answers
-          explanation: undefined // Hide explanations until after submission
-        }));
+      // Adaptive tests serve questions one at a time, so the pool stays hidden
+      if (assessment.adaptive_config) {
+        responseData.questions = [];
+      } else if (responseData.questions) {
+        // Pooled questions are only revealed when drawn for an attempt
+        responseData.questions = assessment.questions
+          .filter(q => !q.draw_section_id)
+          .map(q => AssessmentService.toAttemptQuestion(q));
       }
     }
 
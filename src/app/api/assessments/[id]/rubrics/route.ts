@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { AssessmentService } from '@/services/assessment-service';
+import { rubricSchema } from '@/lib/validation/assessment';
+import { rateLimit } from '@/lib/security';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/assessments/[id]/rubrics - Get grading rubrics
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userRole = session.user.role || 'student';
+    if (!['instructor', 'admin'].includes(userRole)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied. Instructor role required.' },
+        { status: 403 }
+      );
+    }
+
+    const rateLimitResult = await rateLimit.check(request, 'api-rubric-get', {
+      max: 100,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid assessment ID format' },
+        { status: 400 }
+      );
+    }
+
+    const rubrics = await AssessmentService.getRubrics(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: rubrics
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching rubrics:', error);
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to fetch rubrics' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/assessments/[id]/rubrics - Create or replace a grading rubric
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const userRole = session.user.role || 'student';
+    if (!['instructor', 'admin'].includes(userRole)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied. Instructor role required.' },
+        { status: 403 }
+      );
+    }
+
+    const rateLimitResult = await rateLimit.check(request, 'api-rubric-update', {
+      max: 50,
+      window: '1h'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid assessment ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = rubricSchema.parse({
+      ...body,
+      assessment_id: params.id
+    });
+
+    const rubric = await AssessmentService.saveRubric(session.user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rubric,
+        message: 'Rubric saved successfully'
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error saving rubric:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error.message.includes('not found') || error.message.includes('access denied')) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to save rubric' },
+      { status: 500 }
+    );
+  }
+}
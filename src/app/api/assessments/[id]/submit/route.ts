@@ -51,24 +51,39 @@ export async function POST(
     const action = url.searchParams.get('action') || 'submit';
 
     if (action === 'start') {
-      // Start a new quiz attempt
-      const validatedData = startQuizAttemptSchema.parse(body);
+      // Start a new quiz attempt, or resume the one still in progress
+      const validatedData = startQuizAttemptSchema.parse({ ...body, assessment_id: assessmentId });
       
-      const attempt = await AssessmentService.startQuizAttempt(
+      const result = await AssessmentService.startQuizAttempt(
         session.user.id,
         assessmentId,
-        validatedData.browser_fingerprint
+        validatedData.browser_fingerprint,
+        validatedData.session_id,
+        validatedData.take_over
       );
 
+      if (result.conflict) {
+        return NextResponse.json({
+          success: false,
+          conflict: result.conflict,
+          attempt_id: result.attempt_id,
+          message: 'This quiz is already open in another tab. Continue here to take it over.'
+        }, { status: 409 });
+      }
+
       const response = {
         success: true,
         data: {
-          attempt,
-          message: 'Quiz attempt started successfully'
+          attempt: result.attempt,
+          questions: result.questions,
+          responses: result.responses,
+          resumed: result.resumed,
+          time_remaining_seconds: result.time_remaining_seconds,
+          message: result.resumed ? 'Quiz attempt resumed' : 'Quiz attempt started successfully'
         }
       };
 
-      return NextResponse.json(response, { status: 201 });
+      return NextResponse.json(response, { status: result.resumed ? 200 : 201 });
 
     } else if (action === 'submit') {
       // Submit completed quiz attempt
@@ -79,9 +94,27 @@ export async function POST(
         validatedData
       );
 
+      // Essay and hybrid attempts are graded by the instructor before results are released
+      if (result.status === 'submitted') {
+        return NextResponse.json({
+          success: true,
+          data: {
+            result: {
+              attempt_id: result.attempt_id,
+              status: result.status,
+              completed_at: result.completed_at,
+              pending_manual_grading: result.pending_manual_grading
+            }
+          },
+          message: 'Quiz submitted successfully! Your results will be available once your instructor finishes grading.'
+        }, { status: 201 });
+      }
+
       // Determine response message based on performance
       let message = 'Quiz submitted successfully!';
-      if (result.passed) {
+      if (result.status === 'expired') {
+        message = `Time limit exceeded. Your attempt was closed with the answers saved before the deadline (${result.percentage}%).`;
+      } else if (result.passed) {
         if (result.percentage >= 90) {
           message = `Excellent work! You scored ${result.percentage}% and passed the quiz.`;
         } else if (result.percentage >= 80) {
@@ -168,6 +201,13 @@ export async function POST(
       );
     }
 
+    if (error.message.includes('another session')) {
+      return NextResponse.json(
+        { success: false, conflict: 'session', message: 'This quiz is open in another tab. Submit it from there or take it over first.' },
+        { status: 409 }
+      );
+    }
+
     if (error.message.includes('not available')) {
       return NextResponse.json(
         { success: false, message: 'Assessment is not available for submission' },
@@ -12,6 +12,7 @@ import GoogleProvider from 'next-auth/providers/google'
 import GitHubProvider from 'next-auth/providers/github'
 import { createClient } from '@supabase/supabase-js'
 import { EmailVerificationService } from '@/lib/auth/email-verification'
+import { mfaService } from '@/lib/auth/mfa'
 import bcrypt from 'bcryptjs'
 import { z } from 'zod'
 
@@ -293,6 +294,7 @@ export const authOptions: NextAuthOptions = {
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
+        mfaCode: { label: 'MFA Code', type: 'text' },
         rememberMe: { label: 'Remember Me', type: 'checkbox' }
       },
       async authorize(credentials, req) {
@@ -339,6 +341,18 @@ export const authOptions: NextAuthOptions = {
           throw new Error(result.error || 'Authentication failed')
         }
 
+        // Same MFA enforcement as the login API
+        const mfaCheck = await mfaService.checkSignIn(result.user.id, credentials.mfaCode || undefined)
+        if (mfaCheck.reason === 'mfa_required') {
+          throw new Error('MFA code is required')
+        }
+        if (mfaCheck.reason === 'invalid_mfa') {
+          throw new Error('Invalid MFA code')
+        }
+        if (mfaCheck.reason === 'mfa_setup_overdue') {
+          throw new Error('MFA enrollment is required for your role. Contact an administrator to restore access.')
+        }
+
         return {
           id: result.user.id,
           email: result.user.email,
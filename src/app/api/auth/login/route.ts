@@ -12,6 +12,7 @@ import { supabase } from '@/lib/supabase';
 import { AUTH_CONFIG, RATE_LIMIT_CONFIG } from '@/lib/auth/config';
 import { auditLogger } from '@/lib/auth/audit';
 import { AUDIT_EVENTS } from '@/lib/auth/config';
+import { mfaService } from '@/lib/auth/mfa';
 
 interface LoginRequest {
   email: string;
@@ -32,6 +33,8 @@ interface LoginResponse {
     mfa_enabled: boolean;
   };
   mfa_required?: boolean;
+  mfa_setup_required?: boolean;
+  mfa_setup_deadline?: string;
   message?: string;
   error?: string;
 }
@@ -112,7 +115,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<LoginResp
     // Get user from database
     const { data: userData, error: userError } = await supabase
       .from('users')
-      .select('id, email, password_hash, name, role, mfa_enabled, mfa_secret, failed_login_attempts, last_login_at')
+      .select('id, email, password_hash, name, role, mfa_enabled, failed_login_attempts, last_login_at')
       .eq('email', sanitizedEmail)
       .single();
 
@@ -165,37 +168,76 @@ export async function POST(request: NextRequest): Promise<NextResponse<LoginResp
       );
     }
 
-    // Check MFA if enabled
-    if (userData.mfa_enabled) {
-      if (!mfa_code) {
+    // Throttle MFA code guesses per user
+    if (userData.mfa_enabled && mfa_code) {
+      const mfaRateLimit = await securityService.checkRateLimit(
+        `mfa:${userData.id}`,
+        RATE_LIMIT_CONFIG.mfa_verify
+      );
+
+      if (!mfaRateLimit.allowed) {
         return NextResponse.json(
+          { success: false, error: RATE_LIMIT_CONFIG.mfa_verify.message },
           {
-            success: false,
-            mfa_required: true,
-            message: 'MFA code is required'
-          },
-          { status: 200 }
+            status: 429,
+            headers: {
+              'Retry-After': mfaRateLimit.retry_after?.toString() || '60'
+            }
+          }
         );
       }
+    }
 
-      // Verify MFA code (implementation would depend on MFA service)
-      const isMfaValid = await verifyMfaCode(userData.id, userData.mfa_secret, mfa_code);
-      if (!isMfaValid) {
-        await securityService.trackLoginAttempt(
-          sanitizedEmail,
-          false,
-          ipAddress,
-          userAgent,
-          'invalid_mfa'
-        );
+    // Accepts a TOTP code from the authenticator app or an unused recovery code;
+    // privileged roles must enroll in MFA and may sign in without it only during the grace period
+    const mfaCheck = await mfaService.checkSignIn(userData.id, mfa_code);
+    if (mfaCheck.reason === 'mfa_required') {
+      return NextResponse.json(
+        {
+          success: false,
+          mfa_required: true,
+          message: 'MFA code is required'
+        },
+        { status: 200 }
+      );
+    }
 
-        return NextResponse.json(
-          { success: false, error: 'Invalid MFA code' },
-          { status: 401 }
-        );
-      }
+    if (mfaCheck.reason === 'invalid_mfa') {
+      await securityService.trackLoginAttempt(
+        sanitizedEmail,
+        false,
+        ipAddress,
+        userAgent,
+        'invalid_mfa'
+      );
+
+      return NextResponse.json(
+        { success: false, error: 'Invalid MFA code' },
+        { status: 401 }
+      );
     }
 
+    if (mfaCheck.reason === 'mfa_setup_overdue') {
+      await securityService.trackLoginAttempt(
+        sanitizedEmail,
+        false,
+        ipAddress,
+        userAgent,
+        'mfa_setup_overdue'
+      );
+
+      return NextResponse.json(
+        {
+          success: false,
+          mfa_setup_required: true,
+          error: 'MFA enrollment is required for your role. Contact an administrator to restore access.'
+        },
+        { status: 403 }
+      );
+    }
+
+    const mfaSetupDeadline = mfaCheck.setup_deadline || null;
+
     // Generate device fingerprint
     const deviceFingerprint = securityService.generateDeviceFingerprint(userAgent, ipAddress);
 
@@ -258,7 +300,11 @@ export async function POST(request: NextRequest): Promise<NextResponse<LoginResp
         name: userData.name,
         role: userData.role,
         mfa_enabled: userData.mfa_enabled
-      }
+      },
+      ...(mfaSetupDeadline && {
+        mfa_setup_required: true,
+        mfa_setup_deadline: mfaSetupDeadline.toISOString()
+      })
     });
 
     // Set secure cookies
@@ -295,23 +341,6 @@ export async function POST(request: NextRequest): Promise<NextResponse<LoginResp
   }
 }
 
-/**
- * Verify MFA code (placeholder implementation)
- */
-async function verifyMfaCode(userId: string, mfaSecret: string, code: string): Promise<boolean> {
-  // This would integrate with your MFA service (TOTP, SMS, etc.)
-  // For now, return true as placeholder
-  // In production, implement proper TOTP verification
-  try {
-    // TODO: Implement actual MFA verification
-    // Example: Use speakeasy library for TOTP verification
-    return true;
-  } catch (error) {
-    console.error('MFA verification error:', error);
-    return false;
-  }
-}
-
 /**
  * Get client IP address
  */
@@ -0,0 +1,64 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for Supabase
+
+/**
+ * MFA Disable API Endpoint
+ * Turns off TOTP after re-verification; not allowed for roles that require MFA
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { mfaService, mfaErrorResponse } from '@/lib/auth/mfa';
+import { securityService } from '@/lib/auth/security';
+import { RATE_LIMIT_CONFIG } from '@/lib/auth/config';
+import { mfaVerifyCodeSchema } from '@/lib/validation/mfa';
+
+// POST /api/auth/mfa/disable - Disable MFA
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimit = await securityService.checkRateLimit(
+      `mfa:${session.user.id}`,
+      RATE_LIMIT_CONFIG.mfa_verify
+    );
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: RATE_LIMIT_CONFIG.mfa_verify.message },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': rateLimit.retry_after?.toString() || '60'
+          }
+        }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = mfaVerifyCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid MFA code' },
+        { status: 400 }
+      );
+    }
+
+    await mfaService.disable(session.user.id, parsed.data.code);
+
+    return NextResponse.json({
+      success: true,
+      message: 'MFA disabled'
+    });
+
+  } catch (error) {
+    console.error('MFA disable error:', error);
+    return mfaErrorResponse(error, 'Failed to disable MFA');
+  }
+}
@@ -0,0 +1,36 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for Supabase
+
+/**
+ * MFA Enrollment API Endpoint
+ * Generates a new TOTP secret, otpauth URI and QR code pending confirmation
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { mfaService, mfaErrorResponse } from '@/lib/auth/mfa';
+
+// POST /api/auth/mfa/enroll - Start TOTP enrollment
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const enrollment = await mfaService.beginEnrollment(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: enrollment,
+      message: 'Scan the QR code with your authenticator app and confirm with a code'
+    });
+
+  } catch (error) {
+    console.error('MFA enrollment error:', error);
+    return mfaErrorResponse(error, 'Failed to start MFA enrollment');
+  }
+}
@@ -0,0 +1,65 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for Supabase
+
+/**
+ * MFA Recovery Codes API Endpoint
+ * Replaces all recovery codes after re-verifying an authenticator code
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { mfaService, mfaErrorResponse } from '@/lib/auth/mfa';
+import { securityService } from '@/lib/auth/security';
+import { RATE_LIMIT_CONFIG } from '@/lib/auth/config';
+import { mfaTotpCodeSchema } from '@/lib/validation/mfa';
+
+// POST /api/auth/mfa/recovery-codes - Regenerate recovery codes
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimit = await securityService.checkRateLimit(
+      `mfa:${session.user.id}`,
+      RATE_LIMIT_CONFIG.mfa_verify
+    );
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: RATE_LIMIT_CONFIG.mfa_verify.message },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': rateLimit.retry_after?.toString() || '60'
+          }
+        }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = mfaTotpCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues[0]?.message || 'Invalid MFA code' },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await mfaService.regenerateRecoveryCodes(session.user.id, parsed.data.code);
+
+    return NextResponse.json({
+      success: true,
+      data: { recovery_codes: recoveryCodes },
+      message: 'New recovery codes generated. Previous codes no longer work.'
+    });
+
+  } catch (error) {
+    console.error('MFA recovery codes error:', error);
+    return mfaErrorResponse(error, 'Failed to regenerate recovery codes');
+  }
+}
@@ -0,0 +1,35 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for Supabase
+
+/**
+ * MFA Status API Endpoint
+ * Reports TOTP enrollment state and the role-based MFA policy for the current user
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { mfaService, mfaErrorResponse } from '@/lib/auth/mfa';
+
+// GET /api/auth/mfa - Current MFA status
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const status = await mfaService.getStatus(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: status
+    });
+
+  } catch (error) {
+    console.error('MFA status error:', error);
+    return mfaErrorResponse(error, 'Failed to load MFA status');
+  }
+}
@@ -37,6 +37,8 @@ const profileUpdateSchema = z.object({
     course_updates: z.boolean().optional(),
     marketing_emails: z.boolean().optional(),
     assignment_reminders: z.boolean().optional(),
+    leaderboard_opt_out: z.boolean().optional(),
+    leaderboard_show_name: z.boolean().optional(),
   }).optional()
 })
 
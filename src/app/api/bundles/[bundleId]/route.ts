@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { BundleService } from '@/services/bundle-service';
+
+/**
+ * GET /api/bundles/[bundleId] - Bundle details, with the buyer's pro-rated price when signed in
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { bundleId: string } }
+) {
+  try {
+    const bundleId = params.bundleId;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(bundleId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid bundle ID format' },
+        { status: 400 }
+      );
+    }
+
+    const bundle = await BundleService.getBundle(bundleId);
+
+    const session = await getServerSession(authOptions);
+    let quote = null;
+    let ownsAll = false;
+
+    if (session?.user) {
+      try {
+        quote = await BundleService.quoteBundle(bundleId, session.user.id);
+      } catch (error) {
+        if (!(error instanceof Error) || error.message !== 'You already own every course in this bundle') {
+          throw error;
+        }
+        ownsAll = true;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { bundle, quote, ownsAll }
+    });
+
+  } catch (error) {
+    console.error('Error fetching bundle:', error);
+
+    if (error instanceof Error && error.message === 'Bundle not found') {
+      return NextResponse.json(
+        { success: false, message: 'Bundle not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Failed to fetch bundle' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { BundleService } from '@/services/bundle-service';
+
+/**
+ * GET /api/bundles - List active course bundles
+ */
+export async function GET() {
+  try {
+    const bundles = await BundleService.getBundles();
+
+    return NextResponse.json({
+      success: true,
+      data: bundles
+    });
+
+  } catch (error) {
+    console.error('Error fetching bundles:', error);
+
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Failed to fetch bundles' },
+      { status: 500 }
+    );
+  }
+}
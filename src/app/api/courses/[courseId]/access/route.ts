@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { EntitlementService } from '@/services/entitlement-service';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * GET /api/courses/[courseId]/access - Whether the user may open the course's lessons,
+ * and through what (purchase, enrollment or subscription plan)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { courseId: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-course-access', {
+      max: 120,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const courseId = params.courseId;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(courseId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid course ID format' },
+        { status: 400 }
+      );
+    }
+
+    const access = await EntitlementService.getCourseAccess(session.user.id, courseId);
+
+    return NextResponse.json({
+      success: true,
+      data: access
+    });
+
+  } catch (error) {
+    console.error('Error checking course access:', error);
+
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Failed to check course access' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { EnrollmentService } from '@/services/enrollment-service';
+import { DISCOUNT_ERROR_STATUS } from '@/services/discount-service';
 import { enrollmentRequestSchema } from '@/lib/validation/enrollments';
 import { rateLimit } from '@/lib/security';
 
@@ -54,7 +55,10 @@ export async function POST(
     // Check enrollment eligibility
     const eligibility = await EnrollmentService.checkEnrollmentEligibility(courseId, session.user.id);
     
-    if (!eligibility.eligible) {
+    // Paid enrollments are retried safely: the same payment returns the existing enrollment
+    const isPaidRetry = paymentMethod === 'paid' && !!paymentIntentId && eligibility.userEnrollmentStatus === 'enrolled';
+
+    if (!eligibility.eligible && !isPaidRetry) {
       return NextResponse.json(
         { success: false, message: eligibility.reason },
         { status: 400 }
@@ -71,11 +75,26 @@ export async function POST(
       // Paid enrollment
       enrollment = await EnrollmentService.enrollInPaidCourse(courseId, session.user.id, paymentIntentId);
     } else if (paymentMethod === 'coupon' && couponCode) {
-      // TODO: Implement coupon-based enrollment
-      return NextResponse.json(
-        { success: false, message: 'Coupon enrollment not yet implemented' },
-        { status: 501 }
-      );
+      // Coupon enrollment (only when the code covers the full price)
+      const result = await EnrollmentService.enrollWithCoupon(courseId, session.user.id, couponCode);
+
+      if (!result.enrollment) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: 'Discount code does not cover the full course price',
+            requiresPayment: true,
+            coursePrice: eligibility.course?.price,
+            discount: result.quote
+          },
+          { status: 402 }
+        );
+      }
+
+      enrollment = result.enrollment;
+    } else if (paymentMethod === 'subscription') {
+      // Included in the user's subscription plan
+      enrollment = await EnrollmentService.enrollWithSubscription(courseId, session.user.id);
     } else {
       // Missing payment information for paid course
       if (eligibility.course && eligibility.course.price > 0) {
@@ -116,6 +135,41 @@ export async function POST(
       );
     }
 
+    if (error.message === 'Payment has already been used for another enrollment') {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error.message === 'Payment verification is not available') {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 503 }
+      );
+    }
+
+    if (error.message?.startsWith('Payment ')) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 402 }
+      );
+    }
+
+    if (error.message === 'Your subscription does not include this course') {
+      return NextResponse.json(
+        { success: false, message: error.message, requiresPayment: true },
+        { status: 402 }
+      );
+    }
+
+    if (DISCOUNT_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: DISCOUNT_ERROR_STATUS[error.message] }
+      );
+    }
+
     const response = {
       success: false,
       message: error.message || 'Failed to enroll in course'
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { PricingService } from '@/services/pricing-service';
+import { formatAmount } from '@/lib/stripe';
+import { getCoursePrices } from '@/lib/payments';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * GET /api/courses/[courseId]/prices - Course price in the buyer's currency (?currency=,
+ * saved preference or location) and the currencies the course is sold in
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { courseId: string } }
+) {
+  try {
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-course-prices', {
+      max: 120,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const courseId = params.courseId;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(courseId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid course ID format' },
+        { status: 400 }
+      );
+    }
+
+    // Pricing is public; a signed-in buyer's saved currency is honoured
+    const session = await getServerSession(authOptions);
+    const currency = await PricingService.resolveCurrency(
+      session?.user?.id ?? null,
+      request.headers,
+      request.nextUrl.searchParams.get('currency')
+    );
+
+    const prices = await getCoursePrices(courseId);
+    const price = prices.find(entry => entry.currency === currency) || prices[0];
+
+    if (!price) {
+      return NextResponse.json(
+        { success: false, message: 'Course price not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        price,
+        formatted: formatAmount(price.price_amount, price.currency),
+        currencies: prices.map(entry => entry.currency)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching course prices:', error);
+
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Failed to fetch course prices' },
+      { status: 500 }
+    );
+  }
+}
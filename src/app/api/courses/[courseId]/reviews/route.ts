@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { ReviewService } from '@/services/review-service';
+import { reviewInputSchema, reviewListQuerySchema } from '@/lib/validation/reviews';
+import { rateLimit } from '@/lib/security';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: any, fallback: string) {
+  if (error.name === 'ZodError') {
+    return NextResponse.json(
+      { success: false, message: error.issues?.[0]?.message || 'Invalid review data' },
+      { status: 400 }
+    );
+  }
+
+  if (error.message === 'Not enrolled in this course') {
+    return NextResponse.json(
+      { success: false, message: 'You must be enrolled in this course to review it' },
+      { status: 403 }
+    );
+  }
+
+  if (error.message === 'Insufficient progress') {
+    return NextResponse.json(
+      { success: false, message: 'Complete more of the course before reviewing it' },
+      { status: 403 }
+    );
+  }
+
+  if (error.message === 'Review already exists') {
+    return NextResponse.json(
+      { success: false, message: 'You have already reviewed this course' },
+      { status: 409 }
+    );
+  }
+
+  if (error.message === 'Review not found') {
+    return NextResponse.json(
+      { success: false, message: 'Review not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(
+    { success: false, message: fallback },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/courses/[courseId]/reviews - Approved reviews with rating summary
+ * Signed-in users also get their own review and whether they may review
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { courseId: string } }
+) {
+  try {
+    const courseId = params.courseId;
+    if (!uuidRegex.test(courseId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid course ID format' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = reviewListQuerySchema.parse(Object.fromEntries(searchParams.entries()));
+
+    const session = await getServerSession(authOptions);
+    const viewerId = session?.user?.id;
+
+    const [{ reviews, total, summary }, ownReview, eligibility] = await Promise.all([
+      ReviewService.getCourseReviews(courseId, query, viewerId),
+      viewerId ? ReviewService.getOwnReview(courseId, viewerId) : Promise.resolve(null),
+      viewerId ? ReviewService.getEligibility(courseId, viewerId) : Promise.resolve(null)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reviews,
+        summary,
+        ownReview,
+        eligibility,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+          hasNext: query.page * query.limit < total
+        }
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching course reviews:', error);
+    return errorResponse(error, 'Failed to fetch reviews');
+  }
+}
+
+/**
+ * POST /api/courses/[courseId]/reviews - Post a review (one per course)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { courseId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await rateLimit.check(request, 'api-course-review', {
+      max: 5,
+      window: '1h'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const courseId = params.courseId;
+    if (!uuidRegex.test(courseId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid course ID format' },
+        { status: 400 }
+      );
+    }
+
+    const input = reviewInputSchema.parse(await request.json());
+    const review = await ReviewService.createReview(courseId, session.user.id, input);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: review,
+        message: 'Review submitted and awaiting moderation'
+      },
+      { status: 201 }
+    );
+
+  } catch (error: any) {
+    console.error('Error creating course review:', error);
+    return errorResponse(error, 'Failed to submit review');
+  }
+}
+
+/**
+ * PUT /api/courses/[courseId]/reviews - Edit own review (returns it to moderation)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { courseId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await rateLimit.check(request, 'api-course-review', {
+      max: 5,
+      window: '1h'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const courseId = params.courseId;
+    if (!uuidRegex.test(courseId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid course ID format' },
+        { status: 400 }
+      );
+    }
+
+    const input = reviewInputSchema.parse(await request.json());
+    const review = await ReviewService.updateReview(courseId, session.user.id, input);
+
+    return NextResponse.json({
+      success: true,
+      data: review,
+      message: 'Review updated and awaiting moderation'
+    });
+
+  } catch (error: any) {
+    console.error('Error updating course review:', error);
+    return errorResponse(error, 'Failed to update review');
+  }
+}
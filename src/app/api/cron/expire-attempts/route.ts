@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AssessmentService } from '@/services/assessment-service';
+import { CRON_SECRET } from '@/lib/env';
+
+/**
+ * GET /api/cron/expire-attempts - Expire abandoned quiz attempts past their deadline
+ * Scheduled by Vercel Cron (see vercel.json), authenticated with CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  if (!CRON_SECRET || request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await AssessmentService.expireOverdueAttempts();
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error: any) {
+    console.error('Error expiring quiz attempts:', error);
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to expire attempts' },
+      { status: 500 }
+    );
+  }
+}
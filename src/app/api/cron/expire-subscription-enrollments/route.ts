@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EntitlementService } from '@/services/entitlement-service';
+import { CRON_SECRET } from '@/lib/env';
+
+/**
+ * GET /api/cron/expire-subscription-enrollments - Cancel subscription enrollments whose
+ * subscription no longer grants access (e.g. a past_due grace period ran out)
+ * Scheduled by Vercel Cron (see vercel.json), authenticated with CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  if (!CRON_SECRET || request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await EntitlementService.expireSubscriptionEnrollments();
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error expiring subscription enrollments:', error);
+
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Failed to expire subscription enrollments' },
+      { status: 500 }
+    );
+  }
+}
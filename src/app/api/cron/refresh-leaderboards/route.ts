@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LeaderboardService } from '@/services/leaderboard-service';
+import { CRON_SECRET } from '@/lib/env';
+
+/**
+ * GET /api/cron/refresh-leaderboards - Recompute the precomputed leaderboard rankings
+ * Scheduled by Vercel Cron (see vercel.json), authenticated with CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  if (!CRON_SECRET || request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await LeaderboardService.refresh();
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error refreshing leaderboards:', error);
+
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Failed to refresh leaderboards' },
+      { status: 500 }
+    );
+  }
+}
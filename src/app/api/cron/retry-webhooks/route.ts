@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookService } from '@/services/webhook-service';
+import { CRON_SECRET } from '@/lib/env';
+
+/**
+ * GET /api/cron/retry-webhooks - Retry failed Stripe webhook events whose backoff has passed
+ * Scheduled by Vercel Cron (see vercel.json), authenticated with CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  if (!CRON_SECRET || request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await WebhookService.retryDueEvents();
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error retrying webhook events:', error);
+
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Failed to retry webhook events' },
+      { status: 500 }
+    );
+  }
+}
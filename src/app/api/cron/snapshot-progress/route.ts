@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProgressSnapshotService } from '@/services/progress-snapshot-service';
+import { CRON_SECRET } from '@/lib/env';
+
+/**
+ * GET /api/cron/snapshot-progress - Snapshot every active enrollment's completion for the previous day
+ * Scheduled by Vercel Cron (see vercel.json), authenticated with CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  if (!CRON_SECRET || request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await ProgressSnapshotService.snapshotPreviousDay();
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error snapshotting course progress:', error);
+
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Failed to snapshot course progress' },
+      { status: 500 }
+    );
+  }
+}
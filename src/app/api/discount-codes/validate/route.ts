@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { DiscountService, DISCOUNT_ERROR_STATUS } from '@/services/discount-service';
+import { PricingService } from '@/services/pricing-service';
+import { validateDiscountCodeSchema } from '@/lib/validation/discounts';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * POST /api/discount-codes/validate - Check a discount code and preview the discounted price
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limit code guessing
+    const rateLimitResult = await rateLimit.check(request, 'api-discount-validate', {
+      max: 20,
+      window: '1h'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const { code, courseId, bundleId, currency } = validateDiscountCodeSchema.parse(body);
+
+    // Preview in the currency checkout will charge
+    const selectedCurrency = await PricingService.resolveCurrency(session.user.id, request.headers, currency);
+    const target = await DiscountService.getDiscountTarget({ courseId, bundleId, currency: selectedCurrency });
+    const quote = await DiscountService.quoteDiscount(code, session.user.id, target);
+
+    return NextResponse.json({
+      success: true,
+      data: quote
+    });
+
+  } catch (error: any) {
+    console.error('Error validating discount code:', error);
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (DISCOUNT_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: DISCOUNT_ERROR_STATUS[error.message] }
+      );
+    }
+
+    if (error.message === 'Course not found' || error.message === 'Bundle not found') {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to validate discount code' },
+      { status: 500 }
+    );
+  }
+}
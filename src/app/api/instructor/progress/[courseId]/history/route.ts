@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { ProgressSnapshotService } from '@/services/progress-snapshot-service';
+import { progressHistoryQuerySchema } from '@/lib/validation/progress';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * GET /api/instructor/progress/[courseId]/history - Get the class's daily completion over time
+ * Average completion, enrolled and completed learners per day from the daily progress snapshots
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ courseId: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-instructor-progress-history', {
+      max: 50,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const { courseId } = await params;
+    const url = new URL(request.url);
+    const query = progressHistoryQuerySchema
+      .omit({ course_id: true })
+      .parse(Object.fromEntries(url.searchParams.entries()));
+
+    if (!z.string().uuid().safeParse(courseId).success) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid course ID format' },
+        { status: 400 }
+      );
+    }
+
+    const series = await ProgressSnapshotService.getCourseSeries(session.user.id, courseId, query.days);
+
+    return NextResponse.json({
+      success: true,
+      data: series
+    });
+
+  } catch (error) {
+    console.error('Error fetching course progress history:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Course not found or access denied') {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch course progress history'
+      },
+      { status: 500 }
+    );
+  }
+}
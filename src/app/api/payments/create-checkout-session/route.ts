@@ -5,6 +5,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { 
   createSubscriptionCheckout, 
   createOneTimeCheckout, 
+  createCustomAmountCheckout,
+  createDiscountCoupon,
   handleStripeError 
 } from '@/lib/stripe';
 import { 
@@ -14,9 +16,41 @@ import {
 } from '@/lib/payments';
 import { supabase } from '@/lib/supabase';
 import { withPaymentGuard } from '@/lib/payment-guard';
+import { DiscountService, DISCOUNT_ERROR_STATUS } from '@/services/discount-service';
+import { BundleService, BUNDLE_ERROR_STATUS } from '@/services/bundle-service';
+import { PricingService } from '@/services/pricing-service';
+import type { DiscountQuote, DiscountTarget } from '@/types/discount';
 import Stripe from 'stripe';
 
+class FullDiscountError extends Error {
+  constructor(public quote: DiscountQuote) {
+    super('Discount code covers the full price; enroll with the code instead');
+  }
+}
+
+/**
+ * Reserve a discount code redemption and turn it into a single-use Stripe coupon
+ */
+async function applyDiscount(discountCode: string, userId: string, target: DiscountTarget) {
+  const quote = await DiscountService.quoteDiscount(discountCode, userId, target);
+  if (quote.is_free) {
+    throw new FullDiscountError(quote);
+  }
+
+  const { redemption } = await DiscountService.redeemDiscountCode(discountCode, userId, target);
+
+  try {
+    const coupon = await createDiscountCoupon(quote.discount_amount, quote.currency, quote.code);
+    return { redemptionId: redemption.id, quote, discounts: [{ coupon: coupon.id }] };
+  } catch (error) {
+    await DiscountService.voidRedemption(redemption.id);
+    throw error;
+  }
+}
+
 export const POST = withPaymentGuard(async (request: NextRequest) => {
+  let discount: Awaited<ReturnType<typeof applyDiscount>> | null = null;
+
   try {
     const { 
       type, 
@@ -24,7 +58,9 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
       courseId, 
       bundleId, 
       successUrl, 
-      cancelUrl 
+      cancelUrl,
+      discountCode,
+      currency
     } = await request.json();
 
     // Get authenticated user
@@ -88,8 +124,9 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
         );
       }
 
-      // Get course price
-      const coursePrice = await getCoursePrice(courseId);
+      // Get course price in the buyer's currency
+      const selectedCurrency = await PricingService.resolveCurrency(user.id, request.headers, currency);
+      const coursePrice = await getCoursePrice(courseId, selectedCurrency);
       if (!coursePrice) {
         return NextResponse.json(
           { error: 'Course price not found' },
@@ -97,6 +134,14 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
         );
       }
 
+      if (discountCode) {
+        discount = await applyDiscount(discountCode, user.id, {
+          course_id: courseId,
+          amount: coursePrice.price_amount,
+          currency: coursePrice.currency,
+        });
+      }
+
       // Create one-time checkout session
       session = await createOneTimeCheckout(
         coursePrice.stripe_price_id,
@@ -107,7 +152,10 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
           userId: user.id,
           courseId,
           type: 'course_purchase',
-        }
+          discountRedemptionId: discount?.redemptionId || '',
+          discountCodeId: discount?.quote.discount_code_id || '',
+        },
+        discount?.discounts
       );
 
     } else if (type === 'bundle') {
@@ -118,43 +166,65 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
         );
       }
 
-      // Get bundle
-      const { data: bundle, error: bundleError } = await supabase
-        .from('course_bundles')
-        .select('*')
-        .eq('id', bundleId)
-        .eq('is_active', true)
-        .single();
+      // Price the bundle for this buyer; courses they already own are not charged again
+      const quote = await BundleService.quoteBundle(bundleId, user.id);
+      const bundle = await BundleService.getBundle(bundleId);
 
-      if (bundleError || !bundle) {
-        return NextResponse.json(
-          { error: 'Bundle not found' },
-          { status: 404 }
-        );
+      if (discountCode) {
+        discount = await applyDiscount(discountCode, user.id, {
+          bundle_id: bundleId,
+          amount: quote.price,
+          currency: quote.currency,
+        });
       }
 
+      const metadata = {
+        userId: user.id,
+        bundleId,
+        courseIds: quote.course_ids.join(','),
+        type: 'bundle_purchase',
+        discountRedemptionId: discount?.redemptionId || '',
+        discountCodeId: discount?.quote.discount_code_id || '',
+      };
+      const bundleSuccessUrl = successUrl || `${process.env.NEXT_PUBLIC_APP_URL}/marketplace/bundles/${bundleId}?purchase=success`;
+      const bundleCancelUrl = cancelUrl || `${process.env.NEXT_PUBLIC_APP_URL}/marketplace/bundles/${bundleId}?canceled=true`;
+
       // Create one-time checkout session
-      session = await createOneTimeCheckout(
-        bundle.stripe_price_id,
-        stripeCustomer.stripe_customer_id,
-        successUrl || `${process.env.NEXT_PUBLIC_APP_URL}/bundles/${bundleId}?purchase=success`,
-        cancelUrl || `${process.env.NEXT_PUBLIC_APP_URL}/bundles?canceled=true`,
-        {
-          userId: user.id,
-          bundleId,
-          type: 'bundle_purchase',
-        }
-      );
+      session = quote.price === quote.full_price
+        ? await createOneTimeCheckout(
+          bundle.stripe_price_id,
+          stripeCustomer.stripe_customer_id,
+          bundleSuccessUrl,
+          bundleCancelUrl,
+          metadata,
+          discount?.discounts
+        )
+        : await createCustomAmountCheckout(
+          quote.price,
+          quote.currency,
+          bundle.stripe_product_id,
+          stripeCustomer.stripe_customer_id,
+          bundleSuccessUrl,
+          bundleCancelUrl,
+          metadata,
+          discount?.discounts
+        );
     }
 
     return NextResponse.json({
       sessionId: session!.id,
       url: session!.url,
+      discount: discount?.quote || null,
     });
 
   } catch (error) {
     console.error('Create checkout session error:', error);
 
+    // Release the reserved redemption when the checkout session could not be created
+    if (discount) {
+      await DiscountService.voidRedemption(discount.redemptionId).catch(console.error);
+    }
+
     if (error instanceof Stripe.errors.StripeError) {
       const stripeError = handleStripeError(error);
       return NextResponse.json(
@@ -163,9 +233,30 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
       );
     }
 
+    if (error instanceof FullDiscountError) {
+      return NextResponse.json(
+        { error: error.message, discount: error.quote },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && BUNDLE_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: BUNDLE_ERROR_STATUS[error.message] }
+      );
+    }
+
+    if (error instanceof Error && DISCOUNT_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: DISCOUNT_ERROR_STATUS[error.message] }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-});
\ No newline at end of file
+}, { stripeOnly: true });
\ No newline at end of file
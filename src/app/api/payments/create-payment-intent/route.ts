@@ -2,20 +2,83 @@ export const runtime = 'nodejs'; // Force Node.js runtime for Stripe
 
 import { mockApi } from '@/lib/mock-api';
 import { NextRequest, NextResponse } from 'next/server';
-import { createPaymentIntent, handleStripeError } from '@/lib/stripe';
+import { handleStripeError, type Currency } from '@/lib/stripe';
 import { 
   getOrCreateStripeCustomer, 
   createPaymentTransaction, 
   getCoursePrice, 
-  logPaymentEvent 
+  getPaymentProvider,
+  logPaymentEvent,
+  updatePaymentTransaction,
+  type PaymentTransaction
 } from '@/lib/payments';
+import type { PaymentProvider } from '@/lib/payment-providers/provider';
 import { supabase } from '@/lib/supabase';
 import { withPaymentGuard } from '@/lib/payment-guard';
+import { DiscountService, DISCOUNT_ERROR_STATUS } from '@/services/discount-service';
+import { BundleService, BUNDLE_ERROR_STATUS } from '@/services/bundle-service';
+import { PricingService } from '@/services/pricing-service';
+import type { DiscountQuote, DiscountRedemption } from '@/types/discount';
 import Stripe from 'stripe';
 
+// Intent states nobody is paying yet, so they can be canceled in favour of a new one;
+// requires_action is left alone, a 3D Secure challenge may be in progress in another tab
+const ABANDONED_INTENT_STATUSES = ['requires_payment_method', 'requires_confirmation'];
+
+/**
+ * Cancel the buyer's other unpaid payment intents for the same course or bundle and release
+ * their discount reservations, so reopening checkout does not pile up pending redemptions.
+ * Runs once the replacement intent exists, so the buyer always keeps one they can pay.
+ */
+async function cancelAbandonedPaymentIntents(
+  provider: PaymentProvider,
+  userId: string,
+  item: { courseId?: string; bundleId?: string },
+  keepPaymentIntentId: string
+): Promise<void> {
+  let query = supabase
+    .from('payment_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ['pending', 'failed'])
+    .not('stripe_payment_intent_id', 'is', null)
+    .neq('stripe_payment_intent_id', keepPaymentIntentId);
+
+  query = item.courseId
+    ? query.eq('type', 'course_purchase').eq('course_id', item.courseId)
+    : query.eq('type', 'bundle_purchase').eq('bundle_id', item.bundleId);
+
+  const { data: transactions, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to get open payments: ${error.message}`);
+  }
+
+  for (const transaction of (transactions || []) as PaymentTransaction[]) {
+    const intent = await provider.retrievePaymentIntent(transaction.stripe_payment_intent_id!);
+
+    // Paid, being processed or mid-authentication: left to the webhooks
+    if (!ABANDONED_INTENT_STATUSES.includes(intent.status)) {
+      continue;
+    }
+
+    await provider.cancelPaymentIntent(intent.id);
+
+    // Same as the payment_intent.canceled webhook, which may arrive later
+    await updatePaymentTransaction(transaction.id, { status: 'canceled' });
+
+    if (transaction.discount_code_id) {
+      const redemption = await DiscountService.getPendingRedemptionForTransaction(transaction.id);
+      if (redemption) {
+        await DiscountService.voidRedemption(redemption.id);
+      }
+    }
+  }
+}
+
 export const POST = withPaymentGuard(async (request: NextRequest) => {
   try {
-    const { courseId, bundleId } = await request.json();
+    const { courseId, bundleId, discountCode, currency: requestedCurrency } = await request.json();
 
     // Get authenticated user
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -46,10 +109,12 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
     let currency = 'USD';
     let description: string;
     let type: 'course_purchase' | 'bundle_purchase';
+    let bundleCourseIds: string[] = [];
 
     if (courseId) {
-      // Get course price
-      const coursePrice = await getCoursePrice(courseId);
+      // Get course price in the buyer's currency
+      const selectedCurrency = await PricingService.resolveCurrency(user.id, request.headers, requestedCurrency);
+      const coursePrice = await getCoursePrice(courseId, selectedCurrency);
       if (!coursePrice) {
         return NextResponse.json(
           { error: 'Course price not found' },
@@ -62,46 +127,70 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
       description = `Course purchase: ${courseId}`;
       type = 'course_purchase';
     } else {
-      // Get bundle price
-      const { data: bundle, error: bundleError } = await supabase
-        .from('course_bundles')
-        .select('*')
-        .eq('id', bundleId)
-        .eq('is_active', true)
-        .single();
-
-      if (bundleError || !bundle) {
+      // Pro-rated for courses the buyer already owns
+      const quote = await BundleService.quoteBundle(bundleId, user.id);
+
+      amount = quote.price;
+      currency = quote.currency;
+      bundleCourseIds = quote.course_ids;
+      description = `Bundle purchase: ${quote.name}`;
+      type = 'bundle_purchase';
+    }
+
+    // Apply discount code (reserves a pending redemption until the payment resolves)
+    let discount: { redemption: DiscountRedemption; quote: DiscountQuote } | null = null;
+
+    if (discountCode) {
+      const target = {
+        course_id: courseId || undefined,
+        bundle_id: bundleId || undefined,
+        amount,
+        currency: currency as Currency,
+      };
+
+      const quote = await DiscountService.quoteDiscount(discountCode, user.id, target);
+      if (quote.is_free) {
         return NextResponse.json(
-          { error: 'Bundle not found' },
-          { status: 404 }
+          { error: 'Discount code covers the full price; enroll with the code instead', discount: quote },
+          { status: 400 }
         );
       }
 
-      amount = bundle.price_amount;
-      currency = bundle.currency;
-      description = `Bundle purchase: ${bundle.name}`;
-      type = 'bundle_purchase';
+      discount = await DiscountService.redeemDiscountCode(discountCode, user.id, target);
+      amount = discount.quote.final_amount;
     }
 
-    // Get or create Stripe customer
+    // Get or create the customer with the payment provider (Stripe or mock)
+    const provider = getPaymentProvider();
     const stripeCustomer = await getOrCreateStripeCustomer(
       user.id,
       user.email!,
       user.role?.full_name
     );
 
-    // Create payment intent
-    const paymentIntent = await createPaymentIntent(
-      amount,
-      currency as any,
-      stripeCustomer.stripe_customer_id,
-      {
-        userId: user.id,
-        courseId: courseId || '',
-        bundleId: bundleId || '',
-        type,
+    let paymentIntent: Stripe.PaymentIntent;
+
+    try {
+      // Create payment intent
+      paymentIntent = await provider.createPaymentIntent({
+        amount,
+        currency: currency as Currency,
+        customerId: stripeCustomer.stripe_customer_id,
+        metadata: {
+          userId: user.id,
+          courseId: courseId || '',
+          bundleId: bundleId || '',
+          courseIds: bundleCourseIds.join(','),
+          type,
+          discountRedemptionId: discount?.redemption.id || '',
+        },
+      });
+    } catch (error) {
+      if (discount) {
+        await DiscountService.voidRedemption(discount.redemption.id);
       }
-    );
+      throw error;
+    }
 
     // Create transaction record
     const transaction = await createPaymentTransaction({
@@ -114,8 +203,20 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
       description,
       course_id: courseId || undefined,
       bundle_id: bundleId || undefined,
+      discount_code_id: discount?.quote.discount_code_id,
     });
 
+    if (discount) {
+      await DiscountService.attachTransaction(discount.redemption.id, transaction.id);
+    }
+
+    // Replace earlier unpaid checkouts for the same item; the new intent is usable either way
+    try {
+      await cancelAbandonedPaymentIntents(provider, user.id, { courseId, bundleId }, paymentIntent.id);
+    } catch (error) {
+      console.error('Error canceling earlier payment intents:', error);
+    }
+
     // Log the event
     await logPaymentEvent({
       user_id: user.id,
@@ -126,6 +227,8 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
         paymentIntentId: paymentIntent.id,
         amount,
         currency,
+        provider: provider.name,
+        discountCode: discount?.quote.code,
       },
     });
 
@@ -135,6 +238,8 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
       transactionId: transaction.id,
       amount,
       currency,
+      provider: provider.name,
+      discount: discount?.quote || null,
     });
 
   } catch (error) {
@@ -148,6 +253,20 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
       );
     }
 
+    if (error instanceof Error && BUNDLE_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: BUNDLE_ERROR_STATUS[error.message] }
+      );
+    }
+
+    if (error instanceof Error && DISCOUNT_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: DISCOUNT_ERROR_STATUS[error.message] }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
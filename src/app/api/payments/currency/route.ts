@@ -0,0 +1,67 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for payments
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { withPaymentGuard } from '@/lib/payment-guard';
+import { PricingService } from '@/services/pricing-service';
+import { currencyPreferenceSchema } from '@/lib/validation/pricing';
+
+export const GET = withPaymentGuard(async (request: NextRequest) => {
+  try {
+    // Signed-out buyers get the currency of their location
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const preferred = user ? await PricingService.getPreferredCurrency(user.id) : null;
+    const currency = await PricingService.resolveCurrency(user?.id ?? null, request.headers);
+
+    return NextResponse.json({
+      currency,
+      preferred,
+      available: PricingService.supportedCurrencies(),
+    });
+
+  } catch (error) {
+    console.error('Get currency error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = withPaymentGuard(async (request: NextRequest) => {
+  try {
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = currencyPreferenceSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Unsupported currency' },
+        { status: 400 }
+      );
+    }
+
+    await PricingService.setPreferredCurrency(user.id, parsed.data.currency);
+    const currency = await PricingService.resolveCurrency(user.id, request.headers);
+
+    return NextResponse.json({
+      currency,
+      preferred: parsed.data.currency,
+    });
+
+  } catch (error) {
+    console.error('Update currency error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -68,4 +68,4 @@ export const POST = withPaymentGuard(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
\ No newline at end of file
+}, { stripeOnly: true });
\ No newline at end of file
@@ -0,0 +1,51 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for PDF rendering
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { withPaymentGuard } from '@/lib/payment-guard';
+import { InvoiceService } from '@/services/invoice-service';
+import { renderInvoicePdf } from '@/lib/invoices/pdf';
+
+export const GET = withPaymentGuard(async (
+  request: NextRequest,
+  context?: { params: Promise<{ invoiceId: string }> }
+) => {
+  try {
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const params = await context?.params;
+    const invoice = await InvoiceService.getUserInvoice(params?.invoiceId || '', user.id);
+    const pdf = renderInvoicePdf(invoice);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${invoice.invoice_number}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Download invoice error:', error);
+
+    if (error instanceof Error && error.message === 'Invoice not found') {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
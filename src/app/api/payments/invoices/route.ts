@@ -0,0 +1,33 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for payments
+
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { withPaymentGuard } from '@/lib/payment-guard';
+import { InvoiceService } from '@/services/invoice-service';
+
+export const GET = withPaymentGuard(async () => {
+  try {
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const invoices = await InvoiceService.getUserInvoices(user.id);
+
+    return NextResponse.json({
+      invoices,
+    });
+
+  } catch (error) {
+    console.error('Get invoices error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
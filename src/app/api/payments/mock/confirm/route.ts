@@ -0,0 +1,86 @@
+export const runtime = 'nodejs'; // Force Node.js runtime for payments
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { withPaymentGuard } from '@/lib/payment-guard';
+import { MOCK_PAYMENTS_ENABLED } from '@/lib/env';
+import { mockPaymentProvider } from '@/lib/payment-providers/mock-provider';
+import { mockPaymentConfirmSchema } from '@/lib/validation/payments';
+
+const MOCK_PAYMENT_ERROR_STATUS: Record<string, number> = {
+  'Payment intent not found': 404,
+  'Payment intent cannot be confirmed': 409,
+  'Payment intent does not require authentication': 409,
+};
+
+/**
+ * POST /api/payments/mock/confirm - Confirm a mock payment intent (PAYMENTS_MODE=mock)
+ *
+ * Stands in for Stripe Elements: `scenario` picks the card outcome and `authentication`
+ * answers a 3D Secure challenge. The resulting events go through the webhook handlers
+ * before the response, so a succeeded payment is already enrolled.
+ */
+export const POST = withPaymentGuard(async (request: NextRequest) => {
+  try {
+    if (!MOCK_PAYMENTS_ENABLED) {
+      return NextResponse.json(
+        { error: 'Mock payments are not enabled' },
+        { status: 404 }
+      );
+    }
+
+    // Get authenticated user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = mockPaymentConfirmSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid confirmation', details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { paymentIntentId, scenario, authentication } = parsed.data;
+
+    const intent = await mockPaymentProvider.retrievePaymentIntent(paymentIntentId);
+    if (intent.metadata?.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Payment intent not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = authentication
+      ? await mockPaymentProvider.completeAuthentication(paymentIntentId, authentication)
+      : await mockPaymentProvider.confirmPaymentIntent(paymentIntentId, scenario ?? 'succeed');
+
+    return NextResponse.json({
+      paymentIntentId: result.id,
+      status: result.status,
+      requiresAction: result.status === 'requires_action',
+      failureReason: result.last_payment_error?.message ?? null,
+    });
+
+  } catch (error) {
+    console.error('Mock payment confirm error:', error);
+
+    if (error instanceof Error && MOCK_PAYMENT_ERROR_STATUS[error.message]) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: MOCK_PAYMENT_ERROR_STATUS[error.message] }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
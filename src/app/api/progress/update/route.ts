@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { headers } from 'next/headers';
+import { XpService } from '@/services/xp-service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -173,9 +174,12 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Update user XP and level if material completed
+    // Update user XP and level if material completed (once per material)
+    let levelUp = false;
     if (calculatedProgress >= 100 && xpEarned > 0) {
-      await updateUserXP(supabase, user.id, xpEarned, progressType);
+      const xpResult = await updateUserXP(user.id, materialId, material.course_id, xpEarned, progressType);
+      xpEarned = xpResult.xpEarned;
+      levelUp = xpResult.leveledUp;
     }
 
     // Calculate course progress
@@ -207,7 +211,7 @@ export async function POST(request: NextRequest) {
         courseProgress,
         xpEarned,
         achievements,
-        levelUp: false // Will be calculated in updateUserXP
+        levelUp
       }
     });
 
@@ -220,49 +224,24 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Helper function to update user XP and level
-async function updateUserXP(supabase: any, userId: string, xpEarned: number, activityType: string) {
+// Helper function to update user XP and level through the XP ledger
+async function updateUserXP(userId: string, materialId: string, courseId: string, xpEarned: number, activityType: string) {
   try {
-    // Get current user stats
-    const { data: userStats } = await supabase
-      .from('user_profiles')
-      .select('current_xp, current_level')
-      .eq('id', userId)
-      .single();
-
-    const currentXP = userStats?.current_xp || 0;
-    const newXP = currentXP + xpEarned;
-    
-    // Calculate new level using exponential formula from business logic
-    const newLevel = Math.floor(Math.sqrt(newXP / 1000)) + 1;
-    const leveledUp = newLevel > (userStats?.current_level || 1);
-
-    // Update user profile
-    await supabase
-      .from('user_profiles')
-      .update({
-        current_xp: newXP,
-        current_level: newLevel,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', userId);
-
-    // Log XP activity
-    await supabase
-      .from('user_xp_logs')
-      .insert({
-        user_id: userId,
-        activity_type: activityType,
-        xp_earned: xpEarned,
-        total_xp: newXP,
-        level_after: newLevel,
-        created_at: new Date().toISOString()
-      });
+    const award = await XpService.award(userId, {
+      activity_type: 'material_completed',
+      xp: xpEarned,
+      idempotency_key: `material:${materialId}`,
+      metadata: { material_id: materialId, course_id: courseId, progress_type: activityType }
+    });
 
-    return { leveledUp, newLevel, newXP };
+    return {
+      xpEarned: award?.xp_earned ?? 0,
+      leveledUp: award?.leveled_up ?? false,
+      newLevel: award?.level_after ?? null
+    };
   } catch (error) {
     console.error('XP update error:', error);
-    return { leveledUp: false, newLevel: 1, newXP: 0 };
+    return { xpEarned: 0, leveledUp: false, newLevel: null };
   }
 }
 
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { QuestionBankService } from '@/services/question-bank-service';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * GET /api/question-banks/[id] - Get question bank with its questions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Check authorization - question banks are instructor tools
+    const userRole = session.user.role || 'student';
+    if (!['instructor', 'admin'].includes(userRole)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied. Instructor role required.' },
+        { status: 403 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-question-banks-get', {
+      max: 100,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const bankId = params.id;
+
+    // Validate UUID format
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(bankId)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid bank ID format' },
+        { status: 400 }
+      );
+    }
+
+    const bank = await QuestionBankService.getQuestionBank(bankId, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: bank
+    });
+
+  } catch (error: any) {
+    console.error('Error fetching question bank:', error);
+
+    if (error.message.includes('not found') || error.message.includes('access denied')) {
+      return NextResponse.json(
+        { success: false, message: 'Question bank not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: error.message || 'Failed to fetch question bank' },
+      { status: 500 }
+    );
+  }
+}
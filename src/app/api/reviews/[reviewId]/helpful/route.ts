@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { ReviewService } from '@/services/review-service';
+import { reviewVoteSchema } from '@/lib/validation/reviews';
+import { rateLimit } from '@/lib/security';
+
+function errorResponse(error: any, fallback: string) {
+  if (error.message === 'Review not found') {
+    return NextResponse.json(
+      { success: false, message: 'Review not found' },
+      { status: 404 }
+    );
+  }
+
+  if (error.message === 'Cannot vote on own review') {
+    return NextResponse.json(
+      { success: false, message: 'You cannot vote on your own review' },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.json(
+    { success: false, message: fallback },
+    { status: 500 }
+  );
+}
+
+/**
+ * POST /api/reviews/[reviewId]/helpful - Vote a review helpful or not helpful
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { reviewId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await rateLimit.check(request, 'api-review-vote', {
+      max: 30,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const parsed = reviewVoteSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid vote' },
+        { status: 400 }
+      );
+    }
+
+    const review = await ReviewService.voteHelpful(params.reviewId, session.user.id, parsed.data.helpful);
+
+    return NextResponse.json({
+      success: true,
+      data: review
+    });
+
+  } catch (error: any) {
+    console.error('Error voting on review:', error);
+    return errorResponse(error, 'Failed to save vote');
+  }
+}
+
+/**
+ * DELETE /api/reviews/[reviewId]/helpful - Remove own vote
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { reviewId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const review = await ReviewService.removeVote(params.reviewId, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: review
+    });
+
+  } catch (error: any) {
+    console.error('Error removing review vote:', error);
+    return errorResponse(error, 'Failed to remove vote');
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { ReviewService } from '@/services/review-service';
+import { reviewReportSchema } from '@/lib/validation/reviews';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * POST /api/reviews/[reviewId]/report - Report a review to moderators
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { reviewId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const rateLimitResult = await rateLimit.check(request, 'api-review-report', {
+      max: 10,
+      window: '1h'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const parsed = reviewReportSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid report reason' },
+        { status: 400 }
+      );
+    }
+
+    await ReviewService.reportReview(params.reviewId, session.user.id, parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Review reported. Our moderators will take a look.'
+    });
+
+  } catch (error: any) {
+    console.error('Error reporting review:', error);
+
+    if (error.message === 'Review not found') {
+      return NextResponse.json(
+        { success: false, message: 'Review not found' },
+        { status: 404 }
+      );
+    }
+
+    if (error.message === 'Cannot report own review') {
+      return NextResponse.json(
+        { success: false, message: 'You cannot report your own review' },
+        { status: 403 }
+      );
+    }
+
+    if (error.message === 'Review already reported') {
+      return NextResponse.json(
+        { success: false, message: 'You have already reported this review' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, message: 'Failed to report review' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,11 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { ProgressService } from '@/services/progress-service';
+import { AchievementService } from '@/services/achievement-service';
 import { achievementQuerySchema } from '@/lib/validation/progress';
 import { rateLimit } from '@/lib/security';
+import type { AchievementProgress, UserAchievement } from '@/types/progress';
 
 /**
  * GET /api/student/achievements - Get student achievements/badges
+ * earned=false lists the locked badges with the student's progress towards each
  */
 export async function GET(request: NextRequest) {
   try {
@@ -39,32 +42,28 @@ export async function GET(request: NextRequest) {
     const validatedQuery = achievementQuerySchema.parse(queryParams);
 
     // Get user achievements based on filters
-    const achievements = await ProgressService.getUserAchievements(
-      session.user.id,
-      validatedQuery.course_id
-    );
+    let filteredAchievements: Array<UserAchievement | AchievementProgress>;
+
+    if (validatedQuery.earned === false) {
+      const progress = await AchievementService.getAchievementProgress(
+        session.user.id,
+        validatedQuery.course_id
+      );
+      filteredAchievements = progress.filter(item => item.earned_at === null);
+    } else {
+      filteredAchievements = await ProgressService.getUserAchievements(
+        session.user.id,
+        validatedQuery.course_id
+      );
+    }
 
     // Filter by category if specified
-    let filteredAchievements = achievements;
     if (validatedQuery.category !== 'all') {
-      filteredAchievements = achievements.filter(achievement => 
+      filteredAchievements = filteredAchievements.filter(achievement => 
         achievement.achievement.category === validatedQuery.category
       );
     }
 
-    // Filter by earned status if specified
-    if (validatedQuery.earned !== undefined) {
-      if (validatedQuery.earned) {
-        filteredAchievements = filteredAchievements.filter(achievement => 
-          achievement.earned_at !== null
-        );
-      } else {
-        // Show available achievements not yet earned (this would require additional logic)
-        // For now, we'll just return earned achievements when earned=false
-        filteredAchievements = [];
-      }
-    }
-
     // Get user level system for additional context
     const levelSystem = await ProgressService.getUserLevelSystem(session.user.id);
 
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { LeaderboardService } from '@/services/leaderboard-service';
+import { leaderboardQuerySchema } from '@/lib/validation/leaderboard';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * GET /api/student/leaderboard - Get a weekly, monthly or all-time leaderboard
+ * scope=global (default), course or cohort; course and cohort need course_id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-student-leaderboard', {
+      max: 60,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const query = leaderboardQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const leaderboard = await LeaderboardService.getLeaderboard(session.user.id, query);
+
+    return NextResponse.json({
+      success: true,
+      data: leaderboard
+    });
+
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.message === 'Not enrolled in this course') {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch leaderboard'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { ProgressSnapshotService } from '@/services/progress-snapshot-service';
+import { progressHistoryQuerySchema } from '@/lib/validation/progress';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * GET /api/student/progress/history - Get daily course completion over time
+ * One series per course from the daily progress snapshots; course_id limits it to one course
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-student-progress-history', {
+      max: 60,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const query = progressHistoryQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const series = await ProgressSnapshotService.getStudentSeries(session.user.id, query);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        days: query.days,
+        series
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching progress history:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch progress history'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { XpService } from '@/services/xp-service';
+import { xpHistoryQuerySchema } from '@/lib/validation/xp';
+import { rateLimit } from '@/lib/security';
+
+/**
+ * GET /api/student/xp - Get the student's XP history and level
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Apply rate limiting
+    const rateLimitResult = await rateLimit.check(request, 'api-student-xp', {
+      max: 100,
+      window: '1m'
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit exceeded' },
+        { status: 429 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const query = xpHistoryQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+    const [{ entries, total }, levelSystem] = await Promise.all([
+      XpService.getHistory(session.user.id, query),
+      XpService.getLevelSystem(session.user.id)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries,
+        level_system: levelSystem,
+        pagination: {
+          currentPage: query.page,
+          totalPages: Math.ceil(total / query.limit),
+          totalItems: total,
+          itemsPerPage: query.limit
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching XP history:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to fetch XP history'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -28,6 +28,7 @@ import {
   Link,
   FileIcon
 } from 'lucide-react';
+import type { QnaQuestion } from '@/types/qna';
 
 interface LessonMaterial {
   id: string;
@@ -41,6 +42,7 @@ interface QAItem {
   id: string;
   question: string;
   answer: string;
+  answered_by: string;
   student_name: string;
   created_at: string;
 }
@@ -64,6 +66,7 @@ export default function LessonDetailPage({
   const [newQuestion, setNewQuestion] = useState<string>('');
   const [displayedQAs, setDisplayedQAs] = useState<QAItem[]>([]);
   const [currentPage, setCurrentPage] = useState(0);
+  const [totalQAs, setTotalQAs] = useState(0);
   const [hasMoreQAs, setHasMoreQAs] = useState(true);
   const [loadingQAs, setLoadingQAs] = useState(false);
 
@@ -167,12 +170,8 @@ export default function LessonDetailPage({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          studentId: 'current_user_id', // Gerçek uygulamada session'dan gelecek
-          studentName: 'Mevcut Kullanıcı', // Gerçek uygulamada session'dan gelecek
           courseId: courseId,
-          courseName: course?.title,
           lessonId: lessonId,
-          lessonName: currentLesson?.title,
           question: newQuestion.trim()
         }),
       });
@@ -183,10 +182,7 @@ export default function LessonDetailPage({
         setNewQuestion('');
         
         // Refresh Q&A list
-        setDisplayedQAs([]);
-        setCurrentPage(0);
-        setHasMoreQAs(true);
-        loadQAs();
+        loadQAs(1, true);
         
         // Success toast
         toast.success('✅ Sorunuz başarıyla gönderildi!', {
@@ -232,73 +228,63 @@ export default function LessonDetailPage({
 
   // Initial load of Q&A items
   useEffect(() => {
-    if (activeTab === 'qa' && displayedQAs.length === 0) {
-      loadQAs();
+    if (activeTab === 'qa' && lessonId && displayedQAs.length === 0) {
+      loadQAs(1, true);
     }
   }, [activeTab, lessonId]);
 
-  // Load Q&A items from API
-  const loadQAs = async () => {
+  // Load a page of Q&A items (own questions + public threads of this lesson) from API
+  const loadQAs = async (page: number, reset = false) => {
     if (loadingQAs) return;
     
     setLoadingQAs(true);
     
     try {
-      const response = await fetch(`/api/student/questions?studentId=current_user_id&lessonId=${lessonId}`);
+      const params = new URLSearchParams({
+        courseId,
+        lessonId,
+        scope: 'public',
+        page: String(page),
+        limit: '5'
+      });
+      const response = await fetch(`/api/student/questions?${params}`);
       const result = await response.json();
       
       if (result.success) {
-        const questions = result.data.questions.map((q: any) => ({
-          id: q.id,
-          question: q.body,
-          answer: q.replies.length > 0 ? q.replies[q.replies.length - 1].body : '',
-          student_name: q.studentName,
-          created_at: q.createdAt
-        }));
+        const questions: QAItem[] = result.data.questions.map((q: QnaQuestion) => {
+          // Students can reply in the thread too; only staff replies answer the question
+          const answer = [...q.replies].reverse().find(reply => reply.authorRole !== 'student');
+          return {
+            id: q.id,
+            question: q.body,
+            answer: answer?.body || '',
+            answered_by: answer?.responderName || '',
+            student_name: q.studentName,
+            created_at: q.createdAt
+          };
+        });
         
-        setDisplayedQAs(questions);
-        setHasMoreQAs(false); // API'den tek seferde tüm veriler geldiği için
-        setLoadingQAs(false);
+        setDisplayedQAs(prev => reset ? questions : [...prev, ...questions]);
+        setCurrentPage(page);
+        setTotalQAs(result.data.total);
+        setHasMoreQAs(result.data.hasMore);
       } else {
-        // API response unsuccessful, fallback to mock data
-        console.log('API unsuccessful, loading mock data...');
-        await loadMoreQAs();
+        setHasMoreQAs(false);
+        toast.error(result.error || 'Sorular alınırken bir hata oluştu', {
+          position: 'top-left',
+        });
       }
     } catch (error) {
       console.error('Q&A load error:', error);
-      // Fallback to mock data
-      console.log('API error, loading mock data...');
-      await loadMoreQAs();
+      setHasMoreQAs(false);
+    } finally {
+      setLoadingQAs(false);
     }
   };
 
-  // Lazy loading function for mock data (fallback)
-  const loadMoreQAs = async () => {
+  const loadMoreQAs = () => {
     if (loadingQAs || !hasMoreQAs) return;
-    
-    setLoadingQAs(true);
-    
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    const itemsPerPage = 5;
-    const startIndex = currentPage * itemsPerPage;
-    const endIndex = startIndex + itemsPerPage;
-    const newQAs = allQAndA.slice(startIndex, endIndex);
-    
-    if (newQAs.length === 0) {
-      setHasMoreQAs(false);
-    } else {
-      setDisplayedQAs(prev => [...prev, ...newQAs]);
-      setCurrentPage(prev => prev + 1);
-      
-      // Check if we've loaded all items
-      if (endIndex >= allQAndA.length) {
-        setHasMoreQAs(false);
-      }
-    }
-    
-    setLoadingQAs(false);
+    loadQAs(currentPage + 1);
   };
 
   // Scroll handler for infinite scroll
@@ -422,116 +408,6 @@ export default function LessonDetailPage({
     }
   ];
 
-  // Extended Mock Q&A data for lazy loading demo
-  const allQAndA: QAItem[] = [
-    {
-      id: '1',
-      question: 'Amazon FBA için minimum bütçe ne kadar olmalı?',
-      answer: 'Amazon FBA\'ya başlamak için minimum 2000-3000$ bütçe önerilir. Bu bütçe ürün alımı, Amazon ücretleri ve pazarlama için yeterlidir.',
-      student_name: 'Ahmet Y.',
-      created_at: '2024-01-15T10:30:00Z'
-    },
-    {
-      id: '2',
-      question: 'Ürün araştırması yaparken hangi araçları kullanmalıyım?',
-      answer: 'Helium 10, Jungle Scout ve AMZScout gibi araçlar çok etkili. Başlangıç için Helium 10\'un ücretsiz versiyonu yeterli olacaktır.',
-      student_name: 'Zeynep K.',
-      created_at: '2024-01-14T15:45:00Z'
-    },
-    {
-      id: '3',
-      question: 'Private label ürünler için patent araştırması nasıl yapılır?',
-      answer: 'USPTO veritabanını kullanarak patent araştırması yapabilirsiniz. Ayrıca patent avukatından danışmanlık almanızı önemle tavsiye ederim.',
-      student_name: 'Mehmet S.',
-      created_at: '2024-01-13T09:20:00Z'
-    },
-    {
-      id: '4',
-      question: 'Amazon\'da marka tescili yapmak zorunlu mu?',
-      answer: 'Zorunlu değil ama Brand Registry için marka tescili gerekli. Bu da birçok avantaj sağlıyor: A+ Content, Sponsored Brands reklamları, marka koruması vb.',
-      student_name: 'Elif T.',
-      created_at: '2024-01-12T14:15:00Z'
-    },
-    {
-      id: '5',
-      question: 'FBA ücretleri ne kadar ve nasıl hesaplanıyor?',
-      answer: 'FBA ücretleri ürünün boyutu, ağırlığı ve kategori, kategori bazında değişiyor. Amazon\'un FBA hesaplama aracını kullanarak net kar marjınızı hesaplayabilirsiniz.',
-      student_name: 'Burak D.',
-      created_at: '2024-01-11T16:40:00Z'
-    },
-    {
-      id: '6',
-      question: 'Ürün fotoğrafları için profesyonel çekim şart mı?',
-      answer: 'Ana fotoğraf mutlaka profesyonel olmalı. Diğer fotoğraflar için kendiniz de kaliteli çekimler yapabilirsiniz. Önemli olan ürünü doğru tanıtmak.',
-      student_name: 'Ayşe M.',
-      created_at: '2024-01-10T11:25:00Z'
-    },
-    {
-      id: '7',
-      question: 'Amazon PPC reklamlarına ne kadar bütçe ayırmalıyım?',
-      answer: 'Başlangıçta satış fiyatının %10-15\'i kadar PPC bütçesi ayırmanızı öneriyorum. Sonrasında ACOS değerlerinize göre ayarlayabilirsiniz.',
-      student_name: 'Emre K.',
-      created_at: '2024-01-09T13:50:00Z'
-    },
-    {
-      id: '8',
-      question: 'Türkiye\'den Amazon ABD\'ye nasıl ürün gönderebilirim?',
-      answer: 'DHL, UPS gibi kargo firmalarıyla veya freight forwarder şirketlerle çalışabilirsiniz. Customs değeri ve gümrük işlemleri önemli.',
-      student_name: 'Can Ö.',
-      created_at: '2024-01-08T08:30:00Z'
-    },
-    {
-      id: '9',
-      question: 'Amazon\'da negatif review aldığımda ne yapmalıyım?',
-      answer: 'Önce review\'ı analiz edin, haklı bir şikayet varsa düzeltin. Müşteriye özel mesaj atarak sorunu çözmeye çalışın. Amazon\'a da report edebilirsiniz.',
-      student_name: 'Deniz A.',
-      created_at: '2024-01-07T19:45:00Z'
-    },
-    {
-      id: '10',
-      question: 'Seasonal ürünlerde stok planlaması nasıl yapılmalı?',
-      answer: 'Seasonal ürünlerde önceki yılın verilerini analiz edin, talep tahmini yapın ve erken stok hazırlığı yapın. Q4 için özellikle kritik.',
-      student_name: 'Fatma L.',
-      created_at: '2024-01-06T12:10:00Z'
-    },
-    {
-      id: '11',
-      question: 'Amazon\'da competitor analizi nasıl yapılır?',
-      answer: 'Helium 10 X-Ray, Jungle Scout, AMZScout gibi araçlarla rakip analizi yapabilirsiniz. Fiyat, BSR, review sayısı gibi metrikleri takip edin.',
-      student_name: 'Oğuz V.',
-      created_at: '2024-01-05T15:20:00Z'
-    },
-    {
-      id: '12',
-      question: 'FBA\'da return oranı yüksekse ne yapmalı?',
-      answer: 'Ürün açıklama ve fotoğraflarınızı gözden geçirin. Müşteri beklentileriyle ürün arasında uyumsuzluk olabilir. Kalite kontrol de önemli.',
-      student_name: 'Selin R.',
-      created_at: '2024-01-04T10:35:00Z'
-    },
-    {
-      id: '13',
-      question: 'Amazon\'da yeni hesap açarken nelere dikkat etmeli?',
-      answer: 'Temiz IP, yeni bilgiler, doğru dokümantasyon çok önemli. Suspended account geçmişi varsa özellikle dikkatli olun.',
-      student_name: 'Murat B.',
-      created_at: '2024-01-03T17:25:00Z'
-    },
-    {
-      id: '14',
-      question: 'Product listing optimization için en önemli faktörler neler?',
-      answer: 'Title\'da önemli keywordler, bullet pointlerde fayda odaklı açıklamalar, yüksek kaliteli fotoğraflar ve A+ Content kritik faktörler.',
-      student_name: 'Gizem C.',
-      created_at: '2024-01-02T14:40:00Z'
-    },
-    {
-      id: '15',
-      question: 'Amazon\'da launch stratejim ne olmalı?',
-      answer: 'Önce organik sıralamaya odaklanın, sonra PPC ekleyin. İlk 2-3 hafta agresif pricing, sonrasında kar marjınızı artırın.',
-      student_name: 'Kemal P.',
-      created_at: '2024-01-01T09:15:00Z'
-    }
-  ];
-
-
   const { next } = getAdjacentLessons();
 
   if (loading) {
@@ -669,7 +545,7 @@ export default function LessonDetailPage({
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                     activeTab === 'qa' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
                   }`}>
-                    {allQAndA.length}
+                    {totalQAs}
                   </span>
                 </button>
                 <button
@@ -801,7 +677,7 @@ export default function LessonDetailPage({
                       onScroll={handleScroll}
                       style={{ scrollBehavior: 'smooth' }}
                     >
-                      <h3 className="text-lg font-semibold text-gray-900 mb-4">Sorular ve Cevaplar ({allQAndA.length})</h3>
+                      <h3 className="text-lg font-semibold text-gray-900 mb-4">Sorular ve Cevaplar ({totalQAs})</h3>
                       <div className="space-y-6">
                         {displayedQAs.map((qa) => (
                           <div key={qa.id} className="border-l-4 border-blue-500 pl-4">
@@ -815,19 +691,19 @@ export default function LessonDetailPage({
                               </div>
                               <p className="font-medium text-gray-900 mb-2">Soru: {qa.question}</p>
                             </div>
-                            <div className="bg-blue-50 rounded-lg p-4">
-                              <div className="flex items-start space-x-3">
-                                <img 
-                                  src="https://i.hizliresim.com/ocgo6rs.jpg"
-                                  alt="Haşem Başaran"
-                                  className="w-8 h-8 rounded-full object-cover"
-                                />
-                                <div>
-                                  <div className="text-sm font-medium text-blue-900 mb-1">Haşem Başaran</div>
-                                  <p className="text-gray-700">{qa.answer}</p>
+                            {qa.answer ? (
+                              <div className="bg-blue-50 rounded-lg p-4">
+                                <div className="flex items-start space-x-3">
+                                  <User className="h-8 w-8 p-1.5 rounded-full bg-blue-100 text-blue-600" />
+                                  <div>
+                                    <div className="text-sm font-medium text-blue-900 mb-1">{qa.answered_by}</div>
+                                    <p className="text-gray-700">{qa.answer}</p>
+                                  </div>
                                 </div>
                               </div>
-                            </div>
+                            ) : (
+                              <p className="text-sm text-gray-500 italic">Eğitmen yanıtı bekleniyor...</p>
+                            )}
                           </div>
                         ))}
                         
@@ -852,7 +728,7 @@ export default function LessonDetailPage({
                   ) : (
                     <div className="text-center py-8 text-gray-500">
                       <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                      <p>Sorular yükleniyor...</p>
+                      <p>{loadingQAs ? 'Sorular yükleniyor...' : 'Bu ders için henüz soru sorulmamış.'}</p>
                       {loadingQAs && (
                         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mt-4"></div>
                       )}
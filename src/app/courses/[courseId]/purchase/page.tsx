@@ -4,11 +4,12 @@ import React, { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import StripeProvider from '@/components/payments/StripeProvider';
 import PaymentForm from '@/components/payments/PaymentForm';
+import MockPaymentForm from '@/components/payments/MockPaymentForm';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/lib/supabase';
-import { formatAmount } from '@/lib/stripe';
+import { formatAmount, type Currency } from '@/lib/stripe';
 import { usePaymentMode } from '@/hooks/usePaymentMode';
 
 interface Course {
@@ -36,13 +37,15 @@ export default function CoursePurchasePage() {
 
   const [course, setCourse] = useState<Course | null>(null);
   const [coursePrice, setCoursePrice] = useState<CoursePrice | null>(null);
+  const [currencies, setCurrencies] = useState<string[]>([]);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [paymentIntentId, setPaymentIntentId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [user, setUser] = useState<any>(null);
   const [hasAccess, setHasAccess] = useState(false);
   const [transactionId, setTransactionId] = useState<string | null>(null);
-  const { paymentsEnabled } = usePaymentMode();
+  const { paymentsEnabled, mode: paymentMode, loading: paymentModeLoading } = usePaymentMode();
 
   useEffect(() => {
     checkAuthAndLoadData();
@@ -50,10 +53,10 @@ export default function CoursePurchasePage() {
 
   useEffect(() => {
     // Redirect to course page if payments are disabled
-    if (!paymentsEnabled && courseId) {
+    if (!paymentModeLoading && !paymentsEnabled && courseId) {
       router.push(`/courses/${courseId}?payments=disabled`);
     }
-  }, [paymentsEnabled, courseId, router]);
+  }, [paymentsEnabled, paymentModeLoading, courseId, router]);
 
   const checkAuthAndLoadData = async () => {
     try {
@@ -94,19 +97,28 @@ export default function CoursePurchasePage() {
     setCourse(data);
   };
 
-  const loadCoursePrice = async () => {
-    const { data, error } = await supabase
-      .from('course_prices')
-      .select('*')
-      .eq('course_id', courseId)
-      .eq('is_active', true)
-      .single();
+  // Price in the chosen currency, or the one picked from the buyer's preference and location
+  const loadCoursePrice = async (currency?: string) => {
+    const query = currency ? `?currency=${currency}` : '';
+    const response = await fetch(`/api/courses/${courseId}/prices${query}`);
+    const result = await response.json();
 
-    if (error) {
+    if (!response.ok || !result.success) {
       throw new Error('Course pricing not available');
     }
 
-    setCoursePrice(data);
+    setCoursePrice(result.data.price);
+    setCurrencies(result.data.currencies);
+  };
+
+  const handleCurrencyChange = async (currency: string) => {
+    try {
+      setError('');
+      setClientSecret(null);
+      await loadCoursePrice(currency);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load course price');
+    }
   };
 
   const checkCourseAccess = async (userId: string) => {
@@ -138,6 +150,7 @@ export default function CoursePurchasePage() {
         },
         body: JSON.stringify({
           courseId,
+          currency: coursePrice?.currency,
         }),
       });
 
@@ -148,6 +161,7 @@ export default function CoursePurchasePage() {
 
       const data = await response.json();
       setClientSecret(data.clientSecret);
+      setPaymentIntentId(data.paymentIntentId);
       setTransactionId(data.transactionId);
     } catch (err: any) {
       setError(err.message || 'Failed to initialize payment');
@@ -179,6 +193,7 @@ export default function CoursePurchasePage() {
         body: JSON.stringify({
           type: 'course',
           courseId,
+          currency: coursePrice?.currency,
           successUrl: `${window.location.origin}/courses/${courseId}?purchase=success`,
           cancelUrl: `${window.location.origin}/courses/${courseId}/purchase?canceled=true`,
         }),
@@ -311,6 +326,22 @@ export default function CoursePurchasePage() {
                 {formatAmount(coursePrice.price_amount, coursePrice.currency as any)}
               </div>
               <p className="text-gray-600 text-sm mb-4">One-time payment • Lifetime access</p>
+
+              {currencies.length > 1 && (
+                <div className="mb-4">
+                  <label htmlFor="currency" className="block text-sm text-gray-600 mb-1">Currency</label>
+                  <select
+                    id="currency"
+                    value={coursePrice.currency}
+                    onChange={(event) => handleCurrencyChange(event.target.value)}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    {currencies.map(currency => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               
               <Badge className="bg-blue-100 text-blue-800">
                 30-day money-back guarantee
@@ -348,25 +379,29 @@ export default function CoursePurchasePage() {
                   </div>
                 )}
                 
-                {/* Stripe Checkout (Recommended) */}
-                <Button
-                  onClick={handleCheckoutRedirect}
-                  className="w-full justify-between"
-                  size="lg"
-                  disabled={!user}
-                >
-                  <span>Pay with Stripe Checkout</span>
-                  <Badge variant="outline">Recommended</Badge>
-                </Button>
+                {/* Stripe Checkout (Recommended); the mock provider only simulates the payment form */}
+                {paymentMode !== 'mock' && (
+                  <>
+                    <Button
+                      onClick={handleCheckoutRedirect}
+                      className="w-full justify-between"
+                      size="lg"
+                      disabled={!user}
+                    >
+                      <span>Pay with Stripe Checkout</span>
+                      <Badge variant="outline">Recommended</Badge>
+                    </Button>
 
-                <div className="relative">
-                  <div className="absolute inset-0 flex items-center">
-                    <div className="w-full border-t border-gray-300" />
-                  </div>
-                  <div className="relative flex justify-center text-sm">
-                    <span className="px-2 bg-white text-gray-500">or</span>
-                  </div>
-                </div>
+                    <div className="relative">
+                      <div className="absolute inset-0 flex items-center">
+                        <div className="w-full border-t border-gray-300" />
+                      </div>
+                      <div className="relative flex justify-center text-sm">
+                        <span className="px-2 bg-white text-gray-500">or</span>
+                      </div>
+                    </div>
+                  </>
+                )}
 
                 {/* Custom Payment Form */}
                 <Button
@@ -382,7 +417,17 @@ export default function CoursePurchasePage() {
             </Card>
 
             {/* Custom Payment Form */}
-            {clientSecret && (
+            {clientSecret && paymentIntentId && paymentMode === 'mock' && (
+              <MockPaymentForm
+                paymentIntentId={paymentIntentId}
+                amount={coursePrice.price_amount}
+                currency={coursePrice.currency as Currency}
+                onSuccess={handlePaymentSuccess}
+                onError={handlePaymentError}
+              />
+            )}
+
+            {clientSecret && paymentMode !== 'mock' && (
               <StripeProvider clientSecret={clientSecret}>
                 <PaymentForm
                   clientSecret={clientSecret}
@@ -8,6 +8,7 @@ import ContinueLearning from '@/components/dashboard/ContinueLearning';
 import EnrolledCoursesGrid from '@/components/dashboard/EnrolledCoursesGrid';
 import QuickActions from '@/components/dashboard/QuickActions';
 import RecentMaterials from '@/components/dashboard/RecentMaterials';
+import ProgressTrendChart from '@/components/dashboard/ProgressTrendChart';
 import { getUserEnrolledCourses } from '@/lib/enrollment';
 import { ALL_COURSES } from '@/data/courses';
 import toast, { Toaster } from 'react-hot-toast';
@@ -369,6 +370,11 @@ export default function DashboardPage() {
         />
       </DashboardSection>
 
+      {/* Progress Trend Section */}
+      <DashboardSection title="İlerleme Grafiğin">
+        <ProgressTrendChart courses={enrolledCourses} />
+      </DashboardSection>
+
       {/* Quick Actions Section */}
       <DashboardSection title="Hızlı Erişim">
         <QuickActions />
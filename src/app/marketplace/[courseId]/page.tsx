@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { 
   getCourseDetailBySlug,
@@ -40,10 +40,16 @@ import {
   Share2,
   CreditCard,
   Zap,
-  TrendingUp
+  TrendingUp,
+  ThumbsUp,
+  Flag,
+  MessageSquare
 } from 'lucide-react';
 import Link from 'next/link';
 import toast, { Toaster } from 'react-hot-toast';
+import type { CourseReview, ReviewEligibility, ReviewSummary } from '@/types/review';
+
+const REVIEWS_PAGE_SIZE = 5;
 
 export default function MarketplaceCourseDetailPage({ 
   params 
@@ -425,6 +431,13 @@ export default function MarketplaceCourseDetailPage({
         </DashboardSection>
       </div>
 
+      {/* Course Reviews */}
+      <div className="pt-8">
+        <DashboardSection title="Öğrenci Değerlendirmeleri" subtitle="Kursu alan öğrencilerin yorumları">
+          <CourseReviewsSection courseId={course.id} />
+        </DashboardSection>
+      </div>
+
       <Toaster />
     </DashboardLayout>
   );
@@ -554,3 +567,341 @@ function MarketplaceModuleAccordion({
     </DashboardCard>
   );
 }
+
+// Course Reviews Component (paginated approved reviews + own review form)
+interface CourseReviewsSectionProps {
+  courseId: string;
+}
+
+function CourseReviewsSection({ courseId }: CourseReviewsSectionProps) {
+  const [reviews, setReviews] = useState<CourseReview[]>([]);
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [ownReview, setOwnReview] = useState<CourseReview | null>(null);
+  const [eligibility, setEligibility] = useState<ReviewEligibility | null>(null);
+  const [sort, setSort] = useState<'helpful' | 'newest' | 'rating_high' | 'rating_low'>('helpful');
+  const [page, setPage] = useState(1);
+  const [hasNext, setHasNext] = useState(false);
+  const [loadingReviews, setLoadingReviews] = useState(true);
+  const [formRating, setFormRating] = useState(0);
+  const [formText, setFormText] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadReviews = useCallback(async (pageToLoad: number, reset: boolean) => {
+    try {
+      setLoadingReviews(true);
+      const params = new URLSearchParams({
+        sort,
+        page: pageToLoad.toString(),
+        limit: REVIEWS_PAGE_SIZE.toString()
+      });
+
+      const response = await fetch(`/api/courses/${courseId}/reviews?${params}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      setReviews(prev => reset ? result.data.reviews : [...prev, ...result.data.reviews]);
+      setSummary(result.data.summary);
+      setOwnReview(result.data.ownReview);
+      setEligibility(result.data.eligibility);
+      setHasNext(result.data.pagination.hasNext);
+      setPage(pageToLoad);
+    } catch (error) {
+      console.error('Reviews fetch error:', error);
+      if (reset) setReviews([]);
+    } finally {
+      setLoadingReviews(false);
+    }
+  }, [courseId, sort]);
+
+  useEffect(() => {
+    loadReviews(1, true);
+  }, [loadReviews]);
+
+  const startEditing = () => {
+    setFormRating(ownReview?.rating || 0);
+    setFormText(ownReview?.body || '');
+    setIsEditing(true);
+  };
+
+  const submitReview = async () => {
+    if (formRating < 1) {
+      toast.error('Lütfen bir puan seçin');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/courses/${courseId}/reviews`, {
+        method: ownReview ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating: formRating, review: formText.trim() || undefined })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      setOwnReview(result.data);
+      setIsEditing(false);
+      toast.success('Değerlendirmeniz alındı, onaylandıktan sonra yayınlanacak');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Değerlendirme gönderilemedi');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const voteHelpful = async (review: CourseReview) => {
+    try {
+      const response = await fetch(`/api/reviews/${review.id}/helpful`, {
+        method: review.viewerVote === true ? 'DELETE' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: review.viewerVote === true ? undefined : JSON.stringify({ helpful: true })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      setReviews(prev => prev.map(item => item.id === review.id ? result.data : item));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Oy kaydedilemedi');
+    }
+  };
+
+  const reportReview = async (review: CourseReview) => {
+    if (!window.confirm('Bu değerlendirmeyi uygunsuz olarak bildirmek istiyor musunuz?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/reviews/${review.id}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'offensive' })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      toast.success('Değerlendirme moderatörlere bildirildi');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Bildirim gönderilemedi');
+    }
+  };
+
+  const renderRatingInput = () => (
+    <div className="flex items-center space-x-1">
+      {Array.from({ length: 5 }, (_, i) => (
+        <button key={i} type="button" onClick={() => setFormRating(i + 1)}>
+          <Star className={`h-6 w-6 ${i < formRating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} />
+        </button>
+      ))}
+    </div>
+  );
+
+  const ownReviewStatusLabel = {
+    pending: 'Onay bekliyor',
+    approved: 'Yayında',
+    rejected: 'Reddedildi'
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      {summary && summary.totalReviews > 0 && (
+        <DashboardCard>
+          <div className="p-6 flex flex-col md:flex-row md:items-center gap-6">
+            <div className="text-center md:w-40">
+              <div className="text-4xl font-bold text-gray-900 dark:text-white">{summary.averageRating.toFixed(1)}</div>
+              <div className="flex justify-center my-1">
+                {Array.from({ length: 5 }, (_, i) => (
+                  <Star
+                    key={i}
+                    className={`h-4 w-4 ${i < Math.round(summary.averageRating) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+                  />
+                ))}
+              </div>
+              <div className="text-sm text-gray-500">{summary.totalReviews} değerlendirme</div>
+            </div>
+            <div className="flex-1 space-y-1">
+              {([5, 4, 3, 2, 1] as const).map(star => {
+                const count = summary.distribution[star];
+                const percent = summary.totalReviews > 0 ? (count / summary.totalReviews) * 100 : 0;
+                return (
+                  <div key={star} className="flex items-center space-x-2 text-sm">
+                    <span className="w-4 text-gray-600">{star}</span>
+                    <Star className="h-3 w-3 text-yellow-400 fill-current" />
+                    <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                      <div className="h-full bg-yellow-400" style={{ width: `${percent}%` }} />
+                    </div>
+                    <span className="w-8 text-right text-gray-500">{count}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </DashboardCard>
+      )}
+
+      {/* Own review / review form */}
+      {eligibility && (
+        <DashboardCard>
+          <div className="p-6">
+            {ownReview && !isEditing ? (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-semibold text-gray-900 dark:text-white">Değerlendirmeniz</h4>
+                  <Badge variant="outline">{ownReviewStatusLabel[ownReview.status]}</Badge>
+                </div>
+                <div className="mb-2"><ReviewStars rating={ownReview.rating} /></div>
+                {ownReview.body && <p className="text-gray-700 dark:text-gray-300 mb-3">{ownReview.body}</p>}
+                {ownReview.status === 'rejected' && ownReview.moderatorNotes && (
+                  <p className="text-sm text-red-600 mb-3">Red gerekçesi: {ownReview.moderatorNotes}</p>
+                )}
+                {eligibility.eligible && (
+                  <Button variant="outline" size="sm" onClick={startEditing}>
+                    Düzenle
+                  </Button>
+                )}
+              </div>
+            ) : eligibility.eligible ? (
+              <div className="space-y-3">
+                <h4 className="font-semibold text-gray-900 dark:text-white">
+                  {ownReview ? 'Değerlendirmenizi düzenleyin' : 'Bu kursu değerlendirin'}
+                </h4>
+                {renderRatingInput()}
+                <textarea
+                  value={formText}
+                  onChange={(e) => setFormText(e.target.value)}
+                  rows={4}
+                  maxLength={5000}
+                  placeholder="Kurs hakkındaki düşüncelerinizi paylaşın (isteğe bağlı)"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <div className="flex items-center space-x-3">
+                  <Button
+                    onClick={submitReview}
+                    disabled={submitting || formRating < 1}
+                    className="bg-blue-600 hover:bg-blue-700 text-white"
+                  >
+                    {submitting ? 'Gönderiliyor...' : 'Gönder'}
+                  </Button>
+                  {isEditing && (
+                    <Button variant="outline" onClick={() => setIsEditing(false)} disabled={submitting}>
+                      İptal
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : eligibility.reason === 'insufficient_progress' ? (
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Değerlendirme yapabilmek için kursun en az %{eligibility.requiredProgress}&apos;ini tamamlamalısınız
+                (şu an %{eligibility.progress}).
+              </p>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Değerlendirme yapabilmek için bu kursa kayıtlı olmalısınız.
+              </p>
+            )}
+          </div>
+        </DashboardCard>
+      )}
+
+      {/* Review list */}
+      <div className="flex items-center justify-end">
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as typeof sort)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white dark:bg-gray-800 dark:border-gray-600"
+        >
+          <option value="helpful">En faydalı</option>
+          <option value="newest">En yeni</option>
+          <option value="rating_high">En yüksek puan</option>
+          <option value="rating_low">En düşük puan</option>
+        </select>
+      </div>
+
+      {reviews.length > 0 ? (
+        <div className="space-y-4">
+          {reviews.map(review => (
+            <DashboardCard key={review.id}>
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-3">
+                    <span className="font-medium text-gray-900 dark:text-white">{review.reviewerName}</span>
+                    <ReviewStars rating={review.rating} />
+                    {review.isFeatured && (
+                      <Badge className="bg-orange-500 text-white">
+                        <Award className="h-3 w-3 mr-1" />
+                        Öne Çıkan
+                      </Badge>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-500">
+                    {new Date(review.createdAt).toLocaleDateString('tr-TR')}
+                  </span>
+                </div>
+                {review.body && (
+                  <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{review.body}</p>
+                )}
+                {review.id !== ownReview?.id && (
+                  <div className="flex items-center space-x-4 mt-4 text-sm">
+                    <button
+                      onClick={() => voteHelpful(review)}
+                      className={`inline-flex items-center ${review.viewerVote ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                    >
+                      <ThumbsUp className="h-4 w-4 mr-1" />
+                      Faydalı ({review.helpfulCount})
+                    </button>
+                    <button
+                      onClick={() => reportReview(review)}
+                      className="inline-flex items-center text-gray-400 hover:text-red-600"
+                    >
+                      <Flag className="h-4 w-4 mr-1" />
+                      Bildir
+                    </button>
+                  </div>
+                )}
+              </div>
+            </DashboardCard>
+          ))}
+        </div>
+      ) : !loadingReviews && (
+        <div className="text-center py-8">
+          <MessageSquare className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600 dark:text-gray-300">Bu kurs için henüz değerlendirme yok</p>
+        </div>
+      )}
+
+      {hasNext && (
+        <div className="text-center">
+          <Button variant="outline" onClick={() => loadReviews(page + 1, false)} disabled={loadingReviews}>
+            {loadingReviews ? 'Yükleniyor...' : 'Daha fazla göster'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReviewStars({ rating }: { rating: number }) {
+  return (
+    <div className="flex items-center">
+      {Array.from({ length: 5 }, (_, i) => (
+        <Star
+          key={i}
+          className={`h-4 w-4 ${i < rating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+        />
+      ))}
+    </div>
+  );
+}
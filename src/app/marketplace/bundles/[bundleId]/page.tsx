@@ -0,0 +1,267 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { DashboardCard, DashboardSection } from '@/components/layout/DashboardContent';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  ArrowLeft,
+  BookOpen,
+  CheckCircle,
+  Package,
+  ShoppingCart,
+  Tag
+} from 'lucide-react';
+import Link from 'next/link';
+import toast, { Toaster } from 'react-hot-toast';
+import type { BundleDetails, BundleQuote } from '@/types/bundle';
+
+interface BundleResponse {
+  bundle: BundleDetails;
+  quote: BundleQuote | null;
+  ownsAll: boolean;
+}
+
+// Bundle amounts are in cents
+const formatPrice = (amount: number, currency: string = 'TRY') =>
+  new Intl.NumberFormat('tr-TR', { style: 'currency', currency }).format(amount / 100);
+
+export default function MarketplaceBundleDetailPage({
+  params
+}: {
+  params: Promise<{ bundleId: string }>
+}) {
+  const searchParams = useSearchParams();
+  const [bundleId, setBundleId] = useState<string>('');
+  const [data, setData] = useState<BundleResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [purchaseLoading, setPurchaseLoading] = useState(false);
+
+  useEffect(() => {
+    const resolveParams = async () => {
+      const resolvedParams = await params;
+      setBundleId(resolvedParams.bundleId);
+    };
+    resolveParams();
+  }, [params]);
+
+  useEffect(() => {
+    if (bundleId) {
+      fetchBundle();
+    }
+  }, [bundleId]);
+
+  useEffect(() => {
+    if (searchParams.get('purchase') === 'success') {
+      toast.success('🎉 Paket satın alındı! Kurslarınız hesabınıza ekleniyor.', { duration: 4000 });
+    } else if (searchParams.get('canceled') === 'true') {
+      toast.error('Ödeme iptal edildi.');
+    }
+  }, [searchParams]);
+
+  const fetchBundle = async () => {
+    try {
+      setLoading(true);
+      setError('');
+
+      const response = await fetch(`/api/bundles/${bundleId}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(response.status === 404 ? 'Paket bulunamadı' : result.message);
+      }
+
+      setData(result.data);
+
+    } catch (err) {
+      console.error('Bundle fetch error:', err);
+      setError(err instanceof Error && err.message ? err.message : 'Paket yüklenirken bir hata oluştu');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePurchase = async () => {
+    try {
+      setPurchaseLoading(true);
+
+      const response = await fetch('/api/payments/create-checkout-session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'bundle', bundleId })
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.url) {
+        throw new Error(result.error || 'Ödeme başlatılamadı');
+      }
+
+      window.location.href = result.url;
+
+    } catch (error) {
+      console.error('Bundle purchase error:', error);
+      toast.error(error instanceof Error && error.message ? error.message : 'Satın alma işlemi başarısız. Lütfen tekrar deneyin.', {
+        duration: 4000,
+        position: 'top-center'
+      });
+      setPurchaseLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center py-16">
+          <div className="text-center">
+            <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+            <p className="text-gray-600">Paket yükleniyor...</p>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center py-16">
+          <div className="text-center">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Paket Bulunamadı</h3>
+            <p className="text-gray-600 mb-4">{error}</p>
+            <Button asChild>
+              <Link href="/marketplace">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Mağazaya Dön
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const { bundle, quote, ownsAll } = data;
+  const ownedCourseIds = new Set(quote?.owned_course_ids || []);
+  const price = quote?.price ?? bundle.price_amount;
+  const savings = quote?.savings ?? Math.max(bundle.individual_total - bundle.price_amount, 0);
+
+  return (
+    <DashboardLayout>
+      <div className="bg-gradient-to-r from-blue-900 to-blue-700 rounded-xl text-white p-8 mb-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2">
+            <div className="flex items-center space-x-2 mb-4">
+              <Badge className="bg-orange-500 text-white">
+                <Package className="h-3 w-3 mr-1" />
+                Kurs Paketi
+              </Badge>
+              {bundle.discount_percentage > 0 && (
+                <Badge className="bg-green-500 text-white">
+                  %{bundle.discount_percentage} indirim
+                </Badge>
+              )}
+            </div>
+            <h1 className="text-3xl font-bold mb-4">{bundle.name}</h1>
+            {bundle.description && (
+              <p className="text-blue-100 text-lg mb-4">{bundle.description}</p>
+            )}
+            <div className="flex items-center text-blue-100">
+              <BookOpen className="h-5 w-5 mr-2" />
+              {bundle.courses.length} kurs
+            </div>
+          </div>
+
+          <DashboardCard className="text-gray-900 dark:text-white">
+            <div className="text-center mb-6">
+              <div className="text-4xl font-bold mb-1">
+                {formatPrice(price, bundle.currency)}
+              </div>
+              {bundle.individual_total > price && (
+                <div className="text-lg text-gray-500 dark:text-gray-400 line-through">
+                  {formatPrice(bundle.individual_total, bundle.currency)}
+                </div>
+              )}
+              {savings > 0 && (
+                <p className="text-sm text-green-600 mt-2">
+                  <Tag className="h-4 w-4 inline mr-1" />
+                  {formatPrice(savings, bundle.currency)} tasarruf
+                </p>
+              )}
+              {ownedCourseIds.size > 0 && (
+                <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">
+                  Sahip olduğunuz {ownedCourseIds.size} kurs fiyattan düşüldü
+                </p>
+              )}
+            </div>
+
+            {ownsAll ? (
+              <Button asChild className="w-full h-12 text-base bg-green-600 hover:bg-green-700 rounded-xl">
+                <Link href="/courses">
+                  <CheckCircle className="h-5 w-5 mr-2" />
+                  Kurslarıma Git
+                </Link>
+              </Button>
+            ) : (
+              <Button
+                onClick={handlePurchase}
+                disabled={purchaseLoading}
+                className="w-full h-12 text-base bg-blue-600 hover:bg-blue-700 rounded-xl"
+              >
+                {purchaseLoading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                    İşleniyor...
+                  </>
+                ) : (
+                  <>
+                    <ShoppingCart className="h-5 w-5 mr-2" />
+                    Paketi Satın Al
+                  </>
+                )}
+              </Button>
+            )}
+          </DashboardCard>
+        </div>
+      </div>
+
+      <DashboardSection title="Paketteki Kurslar" subtitle="Satın aldığınızda tüm kurslara otomatik olarak kaydolursunuz">
+        <div className="space-y-4">
+          {bundle.courses.map(course => (
+            <DashboardCard key={course.course_id} className="flex items-center justify-between">
+              <div className="flex items-center gap-4">
+                {course.thumbnail_url ? (
+                  <img
+                    src={course.thumbnail_url}
+                    alt={course.title}
+                    className="w-20 h-12 object-cover rounded-lg"
+                  />
+                ) : (
+                  <div className="w-20 h-12 bg-gray-100 dark:bg-gray-700 rounded-lg flex items-center justify-center">
+                    <BookOpen className="h-6 w-6 text-gray-400" />
+                  </div>
+                )}
+                <div>
+                  <h3 className="font-semibold text-gray-900 dark:text-white">{course.title}</h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {formatPrice(course.price_amount, bundle.currency)}
+                  </p>
+                </div>
+              </div>
+              {(ownsAll || ownedCourseIds.has(course.course_id)) && (
+                <Badge className="bg-green-100 text-green-800">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Sahipsiniz
+                </Badge>
+              )}
+            </DashboardCard>
+          ))}
+        </div>
+      </DashboardSection>
+
+      <Toaster />
+    </DashboardLayout>
+  );
+}
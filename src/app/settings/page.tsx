@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { DashboardCard } from '@/components/layout/DashboardContent';
 import { Button } from '@/components/ui/button';
@@ -13,9 +13,7 @@ import {
   getNotificationSettings,
   getActiveDevices,
   getSubscription,
-  getInvoices,
   getPaymentMethods,
-  getSecuritySettings,
   AVAILABLE_LANGUAGES,
   AVAILABLE_TIMEZONES,
   LANDING_PAGE_OPTIONS,
@@ -23,12 +21,11 @@ import {
   type UserProfile,
   type PlatformPreferences,
   type NotificationSettings,
-  type SecuritySettings,
   type ActiveDevice,
   type Subscription,
-  type Invoice,
   type PaymentMethod
 } from '@/data';
+import type { InvoiceSummary } from '@/types/invoice';
 
 import { 
   Settings,
@@ -49,7 +46,10 @@ import {
   Plus,
   Eye,
   EyeOff,
-  X
+  X,
+  KeyRound,
+  ShieldCheck,
+  RefreshCw
 } from 'lucide-react';
 
 // Security interface for password changes
@@ -59,6 +59,23 @@ interface PasswordChangeForm {
   confirm_password: string;
 }
 
+// MFA status returned by /api/auth/mfa
+interface MfaStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  pending_enrollment: boolean;
+  required: boolean;
+  setup_deadline: string | null;
+  recovery_codes_remaining: number;
+}
+
+// Pending TOTP enrollment returned by /api/auth/mfa/enroll
+interface MfaEnrollment {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
 // Toggle Switch Component
 interface ToggleSwitchProps {
   enabled: boolean;
@@ -112,9 +129,17 @@ export default function SettingsPage() {
   // Static data from organized mock data
   const [activeDevices] = useState<ActiveDevice[]>(getActiveDevices());
   const [subscription] = useState<Subscription>(getSubscription());
-  const [invoices] = useState<Invoice[]>(getInvoices());
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [invoicesLoading, setInvoicesLoading] = useState(false);
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(getPaymentMethods());
 
+  // Two-factor authentication state
+  const [mfaStatus, setMfaStatus] = useState<MfaStatus | null>(null);
+  const [mfaEnrollment, setMfaEnrollment] = useState<MfaEnrollment | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [mfaLoading, setMfaLoading] = useState(false);
+
   // Modal state
   const [showAddCardModal, setShowAddCardModal] = useState(false);
   const [newCard, setNewCard] = useState({
@@ -124,6 +149,10 @@ export default function SettingsPage() {
     name: ''
   });
 
+  // Para birimi tercihi ('' = konuma göre otomatik)
+  const [preferredCurrency, setPreferredCurrency] = useState('');
+  const [availableCurrencies, setAvailableCurrencies] = useState<string[]>([]);
+
   // UI state
   const [activeTab, setActiveTab] = useState<'profile' | 'platform' | 'notifications' | 'security' | 'billing'>('profile');
   const [isLoading, setIsLoading] = useState(false);
@@ -146,8 +175,15 @@ export default function SettingsPage() {
   const savePlatform = async () => {
     setIsLoading(true);
     try {
-      // Simulated save - replace with actual API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const response = await fetch('/api/payments/currency', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currency: preferredCurrency || null })
+      });
+      // Ödemeler kapalıyken (501) para birimi tercihi saklanmaz
+      if (!response.ok && response.status !== 501) {
+        throw new Error('Para birimi kaydedilemedi');
+      }
       toast.success('Platform ayarları başarıyla kaydedildi!');
     } catch (error) {
       toast.error('Platform ayarları kaydedilirken bir hata oluştu!');
@@ -186,6 +222,115 @@ export default function SettingsPage() {
     }
   };
 
+  const loadMfaStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/mfa');
+      const result = await response.json();
+      if (result.success) {
+        setMfaStatus(result.data);
+      }
+    } catch (error) {
+      console.error('MFA status error:', error);
+    }
+  }, []);
+
+  const loadCurrency = useCallback(async () => {
+    try {
+      const response = await fetch('/api/payments/currency');
+      if (!response.ok) return;
+      const result = await response.json();
+      setPreferredCurrency(result.preferred || '');
+      setAvailableCurrencies(result.available || []);
+    } catch (error) {
+      console.error('Currency preference error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'platform') {
+      loadCurrency();
+    }
+  }, [activeTab, loadCurrency]);
+
+  useEffect(() => {
+    if (activeTab === 'security') {
+      loadMfaStatus();
+    }
+  }, [activeTab, loadMfaStatus]);
+
+  const postMfa = async (endpoint: string, body?: Record<string, string>) => {
+    const response = await fetch(`/api/auth/mfa/${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body || {})
+    });
+    const result = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || 'İşlem başarısız');
+    }
+    return result;
+  };
+
+  const startMfaEnrollment = async () => {
+    setMfaLoading(true);
+    try {
+      const result = await postMfa('enroll');
+      setMfaEnrollment(result.data);
+      setRecoveryCodes([]);
+      setMfaCode('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'İşlem başarısız');
+    } finally {
+      setMfaLoading(false);
+    }
+  };
+
+  const confirmMfaEnrollment = async () => {
+    setMfaLoading(true);
+    try {
+      const result = await postMfa('confirm', { code: mfaCode });
+      setRecoveryCodes(result.data.recovery_codes);
+      setMfaEnrollment(null);
+      setMfaCode('');
+      toast.success('İki faktörlü doğrulama etkinleştirildi!');
+      await loadMfaStatus();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'İşlem başarısız');
+    } finally {
+      setMfaLoading(false);
+    }
+  };
+
+  const disableMfa = async () => {
+    setMfaLoading(true);
+    try {
+      await postMfa('disable', { code: mfaCode });
+      setMfaCode('');
+      setRecoveryCodes([]);
+      toast.success('İki faktörlü doğrulama kapatıldı');
+      await loadMfaStatus();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'İşlem başarısız');
+    } finally {
+      setMfaLoading(false);
+    }
+  };
+
+  const regenerateRecoveryCodes = async () => {
+    setMfaLoading(true);
+    try {
+      const result = await postMfa('recovery-codes', { code: mfaCode });
+      setRecoveryCodes(result.data.recovery_codes);
+      setMfaCode('');
+      toast.success('Yeni kurtarma kodları oluşturuldu');
+      await loadMfaStatus();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'İşlem başarısız');
+    } finally {
+      setMfaLoading(false);
+    }
+  };
+
   const logoutDevice = async (deviceId: string) => {
     try {
       toast.success('Cihaz oturumu başarıyla kapatıldı!');
@@ -194,9 +339,30 @@ export default function SettingsPage() {
     }
   };
 
-  const downloadInvoice = (invoice: Invoice) => {
-    // Simulated download
+  const loadInvoices = useCallback(async () => {
+    setInvoicesLoading(true);
+    try {
+      const response = await fetch('/api/payments/invoices');
+      const result = await response.json();
+      if (response.ok) {
+        setInvoices(result.invoices || []);
+      }
+    } catch (error) {
+      console.error('Invoices error:', error);
+    } finally {
+      setInvoicesLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'billing') {
+      loadInvoices();
+    }
+  }, [activeTab, loadInvoices]);
+
+  const downloadInvoice = (invoice: InvoiceSummary) => {
     toast.success('Fatura indiriliyor...');
+    window.location.href = `/api/payments/invoices/${invoice.id}/pdf`;
   };
 
   const removePaymentMethod = async (methodId: string) => {
@@ -231,9 +397,6 @@ export default function SettingsPage() {
     }
   };
 
-  // Load additional options from organized data
-  const securitySettings = getSecuritySettings();
-
   return (
     <DashboardLayout
       title="Ayarlar"
@@ -434,6 +597,30 @@ export default function SettingsPage() {
                     Giriş yaptıktan sonra yönlendirilmek istediğiniz sayfa
                   </p>
                 </div>
+
+                {/* Currency */}
+                {availableCurrencies.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                      Para Birimi
+                    </label>
+                    <select
+                      value={preferredCurrency}
+                      onChange={(e) => setPreferredCurrency(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">Otomatik (konumuma göre)</option>
+                      {availableCurrencies.map((currency) => (
+                        <option key={currency} value={currency}>
+                          {currency}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                      Kurs fiyatları ve ödemeler bu para biriminde gösterilir
+                    </p>
+                  </div>
+                )}
               </div>
 
               <div className="mt-8 pt-6 border-t border-gray-200">
@@ -678,6 +865,158 @@ export default function SettingsPage() {
               </div>
             </div>
           </DashboardCard>
+
+          {/* Two-Factor Authentication */}
+          <DashboardCard className="lg:col-span-2">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center">
+                  <ShieldCheck className="h-6 w-6 text-gray-400 mr-3" />
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">İki Faktörlü Doğrulama</h3>
+                </div>
+                {mfaStatus && (
+                  <span className={cn(
+                    "inline-flex items-center px-3 py-1 rounded-full text-sm font-medium",
+                    mfaStatus.enabled ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+                  )}>
+                    {mfaStatus.enabled ? 'Etkin' : 'Kapalı'}
+                  </span>
+                )}
+              </div>
+
+              {!mfaStatus ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Yükleniyor...</p>
+              ) : (
+                <div className="space-y-4 max-w-xl">
+                  {mfaStatus.required && !mfaStatus.enabled && (
+                    <div className="p-4 rounded-lg border border-yellow-200 bg-yellow-50 text-sm text-yellow-800">
+                      Rolünüz için iki faktörlü doğrulama zorunludur.
+                      {mfaStatus.setup_deadline && (
+                        <> Son kurulum tarihi: {new Date(mfaStatus.setup_deadline).toLocaleString('tr-TR')}</>
+                      )}
+                    </div>
+                  )}
+
+                  {!mfaStatus.enabled && !mfaEnrollment && (
+                    <>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        Girişlerde şifrenize ek olarak kimlik doğrulayıcı uygulamanızdaki 6 haneli kodu isteyerek hesabınızı koruyun.
+                      </p>
+                      <Button
+                        onClick={startMfaEnrollment}
+                        disabled={mfaLoading}
+                        className="bg-blue-600 hover:bg-blue-700 text-white"
+                      >
+                        <KeyRound className="h-4 w-4 mr-2" />
+                        {mfaLoading ? 'Hazırlanıyor...' : 'İki Faktörlü Doğrulamayı Etkinleştir'}
+                      </Button>
+                    </>
+                  )}
+
+                  {mfaEnrollment && (
+                    <div className="space-y-4">
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        QR kodu Google Authenticator, 1Password veya benzeri bir uygulama ile tarayın, ardından uygulamanın ürettiği kodu girin.
+                      </p>
+                      <img
+                        src={mfaEnrollment.qr_code}
+                        alt="İki faktörlü doğrulama QR kodu"
+                        className="h-48 w-48 border border-gray-200 rounded-lg"
+                      />
+                      <div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">QR kodu tarayamıyorsanız bu anahtarı girin:</p>
+                        <code className="block p-2 bg-gray-100 dark:bg-gray-800 rounded text-sm break-all">
+                          {mfaEnrollment.secret}
+                        </code>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <Input
+                          value={mfaCode}
+                          onChange={(e) => setMfaCode(e.target.value)}
+                          placeholder="6 haneli kod"
+                          inputMode="numeric"
+                          maxLength={6}
+                          className="max-w-[160px]"
+                        />
+                        <Button
+                          onClick={confirmMfaEnrollment}
+                          disabled={mfaLoading || mfaCode.trim().length !== 6}
+                          className="bg-blue-600 hover:bg-blue-700 text-white"
+                        >
+                          {mfaLoading ? 'Doğrulanıyor...' : 'Doğrula ve Etkinleştir'}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => { setMfaEnrollment(null); setMfaCode(''); }}
+                          disabled={mfaLoading}
+                        >
+                          İptal
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {recoveryCodes.length > 0 && (
+                    <div className="p-4 rounded-lg border border-blue-200 bg-blue-50 dark:bg-gray-800 dark:border-gray-600">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                        Kurtarma kodlarınız (yalnızca bir kez gösterilir)
+                      </p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+                        Telefonunuza erişemediğinizde her kodu bir kez kullanarak giriş yapabilirsiniz. Güvenli bir yerde saklayın.
+                      </p>
+                      <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                        {recoveryCodes.map((code) => (
+                          <span key={code} className="px-2 py-1 bg-white dark:bg-gray-900 rounded border border-gray-200 dark:border-gray-700">
+                            {code}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {mfaStatus.enabled && (
+                    <div className="space-y-4">
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {mfaStatus.enabled_at && (
+                          <>Etkinleştirilme: {new Date(mfaStatus.enabled_at).toLocaleDateString('tr-TR')} • </>
+                        )}
+                        Kalan kurtarma kodu: {mfaStatus.recovery_codes_remaining}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <Input
+                          value={mfaCode}
+                          onChange={(e) => setMfaCode(e.target.value)}
+                          placeholder="Doğrulama kodu"
+                          className="max-w-[180px]"
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={regenerateRecoveryCodes}
+                          disabled={mfaLoading || mfaCode.trim().length !== 6}
+                        >
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Yeni Kurtarma Kodları
+                        </Button>
+                        {!mfaStatus.required && (
+                          <Button
+                            variant="outline"
+                            onClick={disableMfa}
+                            disabled={mfaLoading || mfaCode.trim().length < 6}
+                            className="text-red-600 border-red-200 hover:bg-red-50"
+                          >
+                            Devre Dışı Bırak
+                          </Button>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        İşlemi onaylamak için kimlik doğrulayıcı uygulamanızdaki kodu girin.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </DashboardCard>
         </div>
       )}
 
@@ -790,21 +1129,32 @@ export default function SettingsPage() {
                     </tr>
                   </thead>
                   <tbody>
+                    {invoices.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="py-6 px-4 text-sm text-center text-gray-500 dark:text-gray-400">
+                          {invoicesLoading ? 'Faturalar yükleniyor...' : 'Henüz faturanız bulunmuyor'}
+                        </td>
+                      </tr>
+                    )}
                     {invoices.map((invoice) => (
                       <tr key={invoice.id} className="border-b border-gray-100 dark:border-gray-700">
-                        <td className="py-3 px-4 text-sm text-gray-900 dark:text-white">{invoice.id}</td>
-                        <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400">{invoice.date}</td>
-                        <td className="py-3 px-4 text-sm font-medium text-gray-900 dark:text-white">₺{invoice.amount}</td>
+                        <td className="py-3 px-4 text-sm text-gray-900 dark:text-white">{invoice.invoice_number}</td>
+                        <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400">
+                          {new Date(invoice.issued_at).toLocaleDateString('tr-TR')}
+                        </td>
+                        <td className="py-3 px-4 text-sm font-medium text-gray-900 dark:text-white">
+                          {new Intl.NumberFormat('tr-TR', { style: 'currency', currency: invoice.currency }).format(invoice.total / 100)}
+                        </td>
                         <td className="py-3 px-4">
                           <span className={cn(
                             "inline-flex items-center px-2 py-1 rounded-full text-xs font-medium",
-                            invoice.status === 'paid' 
-                              ? "bg-green-100 text-green-800" 
-                              : invoice.status === 'pending'
+                            invoice.status === 'succeeded'
+                              ? "bg-green-100 text-green-800"
+                              : invoice.status === 'partially_refunded'
                               ? "bg-yellow-100 text-yellow-800"
                               : "bg-red-100 text-red-800"
                           )}>
-                            {invoice.status === 'paid' ? 'Ödendi' : invoice.status === 'pending' ? 'Bekliyor' : 'Başarısız'}
+                            {invoice.status === 'succeeded' ? 'Ödendi' : invoice.status === 'partially_refunded' ? 'Kısmi İade' : 'İade Edildi'}
                           </span>
                         </td>
                         <td className="py-3 px-4">
@@ -0,0 +1,135 @@
+"use client";
+
+import React, { memo, useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { TrendingUp } from 'lucide-react';
+import type { StudentProgressSeries } from '@/types/progress-snapshot';
+
+interface ProgressTrendChartProps {
+  courses?: Array<{
+    id: string;
+    title: string;
+  }>;
+  days?: number;
+}
+
+const LINE_COLORS = ['#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777'];
+
+const ProgressTrendChart: React.FC<ProgressTrendChartProps> = ({ courses = [], days = 30 }) => {
+  const [series, setSeries] = useState<StudentProgressSeries[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/student/progress/history?days=${days}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(result => {
+        if (!cancelled) {
+          setSeries(result?.success ? result.data.series : []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setSeries([]);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  // One row per day with each course's completion under its course id
+  const rows = useMemo(() => {
+    const byDate = new Map<string, Record<string, string | number>>();
+
+    for (const courseSeries of series) {
+      for (const point of courseSeries.points) {
+        const row = byDate.get(point.date) ?? { date: point.date };
+        row[courseSeries.course_id] = point.completion;
+        byDate.set(point.date, row);
+      }
+    }
+
+    return [...byDate.values()].sort((a, b) => String(a.date).localeCompare(String(b.date)));
+  }, [series]);
+
+  const courseTitle = (courseId: string) =>
+    courses.find(course => course.id === courseId)?.title ?? 'Kurs';
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('tr-TR', { day: 'numeric', month: 'short' });
+
+  if (loading) {
+    return (
+      <div className="card p-6 animate-pulse">
+        <div className="h-4 bg-muted rounded w-1/3 mb-6"></div>
+        <div className="h-56 bg-muted rounded"></div>
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return (
+      <div className="card p-8 text-center">
+        <TrendingUp className="h-12 w-12 text-muted mx-auto mb-4" />
+        <h3 className="font-medium text-primary mb-2">
+          Henüz ilerleme geçmişi yok
+        </h3>
+        <p className="text-sm text-muted">
+          Kurslarındaki günlük ilerlemen burada grafik olarak görünecek
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card p-6">
+      <p className="text-sm text-muted mb-4">
+        Son {days} günde kurs tamamlanma oranın (%)
+      </p>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={rows} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-slate-200 dark:stroke-slate-700" />
+            <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 12 }} />
+            <YAxis domain={[0, 100]} tick={{ fontSize: 12 }} />
+            <Tooltip
+              labelFormatter={label => formatDate(String(label))}
+              formatter={(value, name) => [`%${value}`, courseTitle(String(name))]}
+            />
+            <Legend formatter={value => courseTitle(String(value))} />
+            {series.map((courseSeries, index) => (
+              <Line
+                key={courseSeries.course_id}
+                type="monotone"
+                dataKey={courseSeries.course_id}
+                stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default memo(ProgressTrendChart);
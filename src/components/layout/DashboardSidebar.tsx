@@ -17,6 +17,7 @@ import {
   ShoppingCart,
   Shield,
   MessageSquare,
+  Star,
   FileText,
   HelpCircle
 } from 'lucide-react';
@@ -119,6 +120,12 @@ const adminNavigation: NavigationSection[] = [
         icon: MessageSquare,
         description: 'Öğrenci sorularını yönet'
       },
+      {
+        name: 'Değerlendirmeler',
+        href: '/admin/reviews',
+        icon: Star,
+        description: 'Kurs değerlendirmelerini denetle'
+      },
       {
         name: 'Ödeme Yönetimi',
         href: '/admin/payments',
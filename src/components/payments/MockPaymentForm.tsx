@@ -0,0 +1,162 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { formatAmount } from '@/lib/stripe';
+import type { Currency } from '@/lib/stripe';
+import type { MockAuthenticationResult, MockPaymentScenario } from '@/types/payment-provider';
+
+interface MockPaymentFormProps {
+  paymentIntentId: string;
+  amount: number;
+  currency: Currency;
+  onSuccess: (paymentIntentId: string) => void;
+  onError: (error: string) => void;
+}
+
+const SCENARIOS: Array<{ value: MockPaymentScenario; label: string }> = [
+  { value: 'succeed', label: 'Successful payment' },
+  { value: 'card_declined', label: 'Card declined' },
+  { value: 'insufficient_funds', label: 'Insufficient funds' },
+  { value: 'requires_action', label: '3D Secure authentication' },
+];
+
+/**
+ * Payment form for PAYMENTS_MODE=mock: picks the outcome of the mock card payment
+ * instead of collecting card details
+ */
+export default function MockPaymentForm({
+  paymentIntentId,
+  amount,
+  currency,
+  onSuccess,
+  onError,
+}: MockPaymentFormProps) {
+  const [scenario, setScenario] = useState<MockPaymentScenario>('succeed');
+  const [isLoading, setIsLoading] = useState(false);
+  const [requiresAction, setRequiresAction] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const confirm = async (body: { scenario?: MockPaymentScenario; authentication?: MockAuthenticationResult }) => {
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/payments/mock/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paymentIntentId, ...body }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Payment failed');
+      }
+
+      setRequiresAction(result.requiresAction);
+
+      if (result.status === 'succeeded') {
+        setMessage('Payment succeeded!');
+        onSuccess(result.paymentIntentId);
+      } else if (result.failureReason) {
+        setMessage(result.failureReason);
+        onError(result.failureReason);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred.';
+      setMessage(errorMessage);
+      onError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">
+            Complete Your Payment
+          </h3>
+          <Badge variant="outline">Test mode</Badge>
+        </div>
+        <div className="text-2xl font-bold text-green-600">
+          {formatAmount(amount, currency)}
+        </div>
+      </div>
+
+      {requiresAction ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Your bank asks you to confirm this payment (3D Secure).
+          </p>
+          <div className="flex gap-3">
+            <Button
+              onClick={() => confirm({ authentication: 'approve' })}
+              disabled={isLoading}
+              className="flex-1"
+            >
+              Complete authentication
+            </Button>
+            <Button
+              onClick={() => confirm({ authentication: 'reject' })}
+              disabled={isLoading}
+              variant="outline"
+              className="flex-1"
+            >
+              Fail authentication
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Payment outcome
+          </label>
+          <select
+            value={scenario}
+            onChange={(event) => setScenario(event.target.value as MockPaymentScenario)}
+            disabled={isLoading}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            {SCENARIOS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          <Button
+            onClick={() => confirm({ scenario })}
+            disabled={isLoading}
+            className="w-full"
+            size="lg"
+          >
+            {isLoading ? (
+              <div className="flex items-center space-x-2">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                <span>Processing...</span>
+              </div>
+            ) : (
+              `Pay ${formatAmount(amount, currency)}`
+            )}
+          </Button>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mt-4 p-3 rounded-md ${
+          message.includes('succeeded')
+            ? 'bg-green-50 text-green-800 border border-green-200'
+            : 'bg-red-50 text-red-800 border border-red-200'
+        }`}>
+          {message}
+        </div>
+      )}
+
+      <p className="mt-4 text-center text-xs text-gray-500">
+        Mock payment provider: no card is charged.
+      </p>
+    </Card>
+  );
+}
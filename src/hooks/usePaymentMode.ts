@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react';
 
 interface PaymentModeInfo {
   paymentsEnabled: boolean;
-  mode: 'stripe' | 'disabled';
+  mode: 'stripe' | 'mock' | 'disabled';
   loading: boolean;
   error: string | null;
 }
@@ -30,10 +30,12 @@ export function usePaymentMode(): PaymentModeInfo {
         const healthData = await response.json();
         
         const stripeEnabled = healthData.checks?.stripe !== null;
+        // PAYMENTS_MODE=mock runs the full purchase flow against the local mock provider
+        const mockEnabled = healthData.paymentsMode === 'mock';
         
         setPaymentMode({
-          paymentsEnabled: stripeEnabled,
-          mode: stripeEnabled ? 'stripe' : 'disabled',
+          paymentsEnabled: stripeEnabled || mockEnabled,
+          mode: mockEnabled ? 'mock' : stripeEnabled ? 'stripe' : 'disabled',
           loading: false,
           error: null
         });
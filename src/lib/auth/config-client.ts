@@ -23,7 +23,7 @@ export const DEFAULT_MFA_CONFIG: MFAConfig = {
   methods: [AuthMethod.MFA_TOTP],
   backup_codes_count: 10,
   totp_issuer: '7P Education',
-  required_for_roles: [UserRole.ADMIN, UserRole.SUPER_ADMIN],
+  required_for_roles: [UserRole.SUPER_ADMIN, UserRole.ADMIN, UserRole.INSTRUCTOR],
   grace_period_hours: 24
 };
 
@@ -128,6 +128,7 @@ export const AUDIT_EVENTS = {
   MFA_DISABLED: 'auth.mfa.disabled',
   MFA_VERIFIED: 'auth.mfa.verified',
   MFA_FAILED: 'auth.mfa.failed',
+  MFA_RESET: 'auth.mfa.reset',
   BACKUP_CODES_GENERATED: 'auth.backup_codes.generated',
   BACKUP_CODE_USED: 'auth.backup_code.used',
   
@@ -0,0 +1,529 @@
+/**
+ * Multi-Factor Authentication Service
+ * RFC 6238 TOTP enrollment, verification and one-time recovery codes
+ */
+
+import { NextResponse } from 'next/server';
+import crypto from 'crypto-js';
+import speakeasy from 'speakeasy';
+import QRCode from 'qrcode';
+import { supabase } from '@/lib/supabase';
+import { UserRole } from '@/lib/types/auth';
+import { AUTH_CONFIG, DEFAULT_MFA_CONFIG, AUDIT_EVENTS } from '@/lib/auth/config';
+import { auditLogger } from '@/lib/auth/audit';
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_WINDOW = 1; // Accept one step of clock drift in each direction
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  pending_enrollment: boolean;
+  required: boolean;
+  setup_deadline: string | null;
+  recovery_codes_remaining: number;
+}
+
+export interface MfaVerificationResult {
+  valid: boolean;
+  method?: 'totp' | 'recovery_code';
+}
+
+export interface MfaSignInCheck {
+  allowed: boolean;
+  reason?: 'mfa_required' | 'invalid_mfa' | 'mfa_setup_overdue';
+  setup_deadline?: Date;
+}
+
+interface MfaUserRow {
+  id: string;
+  email: string;
+  role: string;
+  mfa_enabled: boolean | null;
+  mfa_secret: string | null;
+  mfa_pending_secret: string | null;
+  mfa_enabled_at: string | null;
+  mfa_last_used_step: number | null;
+  mfa_required_since: string | null;
+}
+
+const MFA_USER_SELECT =
+  'id, email, role, mfa_enabled, mfa_secret, mfa_pending_secret, mfa_enabled_at, mfa_last_used_step, mfa_required_since';
+
+export class MfaService {
+  private static instance: MfaService;
+
+  static getInstance(): MfaService {
+    if (!MfaService.instance) {
+      MfaService.instance = new MfaService();
+    }
+    return MfaService.instance;
+  }
+
+  private get encryptionKey(): string {
+    return process.env.MFA_ENCRYPTION_KEY || AUTH_CONFIG.JWT_SECRET;
+  }
+
+  /**
+   * Encrypt a TOTP secret for storage
+   */
+  encryptSecret(secret: string): string {
+    return crypto.AES.encrypt(secret, this.encryptionKey).toString();
+  }
+
+  /**
+   * Decrypt a stored TOTP secret
+   */
+  decryptSecret(encrypted: string): string {
+    return crypto.AES.decrypt(encrypted, this.encryptionKey).toString(crypto.enc.Utf8);
+  }
+
+  /**
+   * Verify a TOTP code and return the matched time step, or null when invalid.
+   * Codes at or before `lastUsedStep` are rejected to prevent replay.
+   */
+  verifyTotp(secret: string, code: string, lastUsedStep: number | null = null, now: number = Date.now()): number | null {
+    const token = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(token)) {
+      return null;
+    }
+
+    const delta = speakeasy.totp.verifyDelta({
+      secret,
+      encoding: 'base32',
+      token,
+      window: TOTP_WINDOW,
+      step: TOTP_STEP_SECONDS,
+      time: Math.floor(now / 1000)
+    });
+
+    if (!delta) {
+      return null;
+    }
+
+    const step = Math.floor(now / 1000 / TOTP_STEP_SECONDS) + delta.delta;
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      return null;
+    }
+
+    return step;
+  }
+
+  /**
+   * Generate plain-text recovery codes (shown to the user exactly once)
+   */
+  generateRecoveryCodes(count: number = DEFAULT_MFA_CONFIG.backup_codes_count): string[] {
+    return Array.from({ length: count }, () => {
+      const raw = crypto.lib.WordArray.random(5).toString();
+      return `${raw.slice(0, 5)}-${raw.slice(5, 10)}`;
+    });
+  }
+
+  /**
+   * Hash a recovery code for storage (keyed so leaked hashes cannot be brute-forced offline)
+   */
+  hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+    return crypto.HmacSHA256(normalized, this.encryptionKey).toString();
+  }
+
+  /**
+   * Whether MFA is mandatory for the given role
+   */
+  isRequiredForRole(role: string): boolean {
+    return DEFAULT_MFA_CONFIG.required_for_roles.includes(role as UserRole);
+  }
+
+  /**
+   * Deadline by which a privileged user must finish enrollment
+   */
+  getSetupDeadline(requiredSince: string): Date {
+    return new Date(
+      new Date(requiredSince).getTime() + DEFAULT_MFA_CONFIG.grace_period_hours * 60 * 60 * 1000
+    );
+  }
+
+  /**
+   * Current MFA state of a user
+   */
+  async getStatus(userId: string): Promise<MfaStatus> {
+    const user = await this.fetchUser(userId);
+    const required = this.isRequiredForRole(user.role);
+
+    const { count } = await supabase
+      .from('mfa_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    return {
+      enabled: !!user.mfa_enabled,
+      enabled_at: user.mfa_enabled_at,
+      pending_enrollment: !!user.mfa_pending_secret,
+      required,
+      setup_deadline: required && !user.mfa_enabled && user.mfa_required_since
+        ? this.getSetupDeadline(user.mfa_required_since).toISOString()
+        : null,
+      recovery_codes_remaining: user.mfa_enabled ? count || 0 : 0
+    };
+  }
+
+  /**
+   * Start enrollment: generate a new secret and keep it pending until confirmed
+   */
+  async beginEnrollment(userId: string): Promise<MfaEnrollment> {
+    const user = await this.fetchUser(userId);
+
+    if (user.mfa_enabled) {
+      throw new Error('MFA already enabled');
+    }
+
+    const generated = speakeasy.generateSecret({ length: 20 });
+
+    const otpauthUrl = speakeasy.otpauthURL({
+      secret: generated.base32,
+      encoding: 'base32',
+      label: `${encodeURIComponent(DEFAULT_MFA_CONFIG.totp_issuer)}:${encodeURIComponent(user.email)}`,
+      issuer: DEFAULT_MFA_CONFIG.totp_issuer,
+      period: TOTP_STEP_SECONDS
+    });
+
+    const { error } = await supabase
+      .from('users')
+      .update({
+        mfa_pending_secret: this.encryptSecret(generated.base32),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', userId);
+
+    if (error) {
+      throw new Error(`Failed to start MFA enrollment: ${error.message}`);
+    }
+
+    return {
+      secret: generated.base32,
+      otpauth_url: otpauthUrl,
+      qr_code: await QRCode.toDataURL(otpauthUrl)
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the plain recovery codes; only their hashes are stored.
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.fetchUser(userId);
+
+    if (user.mfa_enabled) {
+      throw new Error('MFA already enabled');
+    }
+
+    if (!user.mfa_pending_secret) {
+      throw new Error('No pending MFA enrollment');
+    }
+
+    const encryptedSecret = user.mfa_pending_secret;
+    const step = this.verifyTotp(this.decryptSecret(encryptedSecret), code);
+    if (step === null) {
+      await auditLogger.logAuth(AUDIT_EVENTS.MFA_FAILED, userId, { stage: 'enrollment' }, 'medium');
+      throw new Error('Invalid MFA code');
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('users')
+      .update({
+        mfa_enabled: true,
+        mfa_secret: encryptedSecret,
+        mfa_pending_secret: null,
+        mfa_enabled_at: now,
+        mfa_last_used_step: step,
+        updated_at: now
+      })
+      .eq('id', userId);
+
+    if (error) {
+      throw new Error(`Failed to enable MFA: ${error.message}`);
+    }
+
+    const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+    await auditLogger.logAuth(AUDIT_EVENTS.MFA_ENABLED, userId, { method: 'totp' }, 'medium');
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a login code: a TOTP code from the authenticator or an unused recovery code
+   */
+  async verifyLoginCode(userId: string, code: string): Promise<MfaVerificationResult> {
+    const user = await this.fetchUser(userId);
+
+    if (!user.mfa_enabled || !user.mfa_secret) {
+      return { valid: false };
+    }
+
+    const step = this.verifyTotp(this.decryptSecret(user.mfa_secret), code, user.mfa_last_used_step);
+    if (step !== null && await this.consumeTotpStep(userId, user.mfa_last_used_step, step)) {
+      await auditLogger.logAuth(AUDIT_EVENTS.MFA_VERIFIED, userId, { method: 'totp' });
+      return { valid: true, method: 'totp' };
+    }
+
+    if (await this.consumeRecoveryCode(userId, code)) {
+      return { valid: true, method: 'recovery_code' };
+    }
+
+    await auditLogger.logAuth(AUDIT_EVENTS.MFA_FAILED, userId, { stage: 'login' }, 'medium');
+    return { valid: false };
+  }
+
+  /**
+   * MFA step shared by every password sign-in path: enrolled users must pass a login code,
+   * privileged roles without MFA may sign in only until their enrollment deadline
+   */
+  async checkSignIn(userId: string, code?: string): Promise<MfaSignInCheck> {
+    const user = await this.fetchUser(userId);
+
+    if (user.mfa_enabled) {
+      if (!code) {
+        return { allowed: false, reason: 'mfa_required' };
+      }
+
+      const verification = await this.verifyLoginCode(userId, code);
+      return verification.valid ? { allowed: true } : { allowed: false, reason: 'invalid_mfa' };
+    }
+
+    if (!this.isRequiredForRole(user.role)) {
+      return { allowed: true };
+    }
+
+    const deadline = await this.ensureSetupDeadline(userId, user.mfa_required_since);
+    if (deadline.getTime() <= Date.now()) {
+      return { allowed: false, reason: 'mfa_setup_overdue' };
+    }
+
+    return { allowed: true, setup_deadline: deadline };
+  }
+
+  /**
+   * Disable MFA after re-verifying a current code. Privileged roles cannot opt out.
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.fetchUser(userId);
+
+    if (!user.mfa_enabled) {
+      throw new Error('MFA not enabled');
+    }
+
+    if (this.isRequiredForRole(user.role)) {
+      throw new Error('MFA required for role');
+    }
+
+    const verification = await this.verifyLoginCode(userId, code);
+    if (!verification.valid) {
+      throw new Error('Invalid MFA code');
+    }
+
+    const { error } = await supabase
+      .from('users')
+      .update({
+        mfa_enabled: false,
+        mfa_secret: null,
+        mfa_pending_secret: null,
+        mfa_enabled_at: null,
+        mfa_last_used_step: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', userId);
+
+    if (error) {
+      throw new Error(`Failed to disable MFA: ${error.message}`);
+    }
+
+    await supabase.from('mfa_recovery_codes').delete().eq('user_id', userId);
+
+    await auditLogger.logAuth(AUDIT_EVENTS.MFA_DISABLED, userId, {}, 'high');
+  }
+
+  /**
+   * Admin reset for a user locked out of MFA (lost authenticator, or a privileged user past
+   * the enrollment deadline): clears the TOTP setup and recovery codes and, for roles that
+   * require MFA, starts a new enrollment grace period
+   */
+  async adminReset(userId: string, adminId: string): Promise<MfaStatus> {
+    const user = await this.fetchUser(userId);
+
+    const { error } = await supabase
+      .from('users')
+      .update({
+        mfa_enabled: false,
+        mfa_secret: null,
+        mfa_pending_secret: null,
+        mfa_enabled_at: null,
+        mfa_last_used_step: null,
+        mfa_required_since: this.isRequiredForRole(user.role) ? new Date().toISOString() : null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', userId);
+
+    if (error) {
+      throw new Error(`Failed to reset MFA: ${error.message}`);
+    }
+
+    await supabase.from('mfa_recovery_codes').delete().eq('user_id', userId);
+
+    await auditLogger.logAuth(AUDIT_EVENTS.MFA_RESET, userId, { reset_by: adminId }, 'high');
+
+    return this.getStatus(userId);
+  }
+
+  /**
+   * Issue a fresh set of recovery codes after re-verifying a TOTP code
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.fetchUser(userId);
+
+    if (!user.mfa_enabled || !user.mfa_secret) {
+      throw new Error('MFA not enabled');
+    }
+
+    const step = this.verifyTotp(this.decryptSecret(user.mfa_secret), code, user.mfa_last_used_step);
+    if (step === null || !await this.consumeTotpStep(userId, user.mfa_last_used_step, step)) {
+      throw new Error('Invalid MFA code');
+    }
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Start (or read) the enrollment grace period for a privileged user without MFA.
+   * Returns the enrollment deadline.
+   */
+  async ensureSetupDeadline(userId: string, requiredSince: string | null): Promise<Date> {
+    if (requiredSince) {
+      return this.getSetupDeadline(requiredSince);
+    }
+
+    const now = new Date().toISOString();
+    await supabase
+      .from('users')
+      .update({ mfa_required_since: now })
+      .eq('id', userId);
+
+    return this.getSetupDeadline(now);
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = this.generateRecoveryCodes();
+
+    const { error: deleteError } = await supabase
+      .from('mfa_recovery_codes')
+      .delete()
+      .eq('user_id', userId);
+
+    if (deleteError) {
+      throw new Error(`Failed to reset recovery codes: ${deleteError.message}`);
+    }
+
+    const { error } = await supabase
+      .from('mfa_recovery_codes')
+      .insert(codes.map(code => ({
+        user_id: userId,
+        code_hash: this.hashRecoveryCode(code)
+      })));
+
+    if (error) {
+      throw new Error(`Failed to store recovery codes: ${error.message}`);
+    }
+
+    await auditLogger.logAuth(AUDIT_EVENTS.BACKUP_CODES_GENERATED, userId, { count: codes.length });
+
+    return codes;
+  }
+
+  /**
+   * Record a verified TOTP step. Only advances the step if no concurrent request already
+   * consumed it, so the same code cannot be used twice.
+   */
+  private async consumeTotpStep(userId: string, lastUsedStep: number | null, step: number): Promise<boolean> {
+    let update = supabase
+      .from('users')
+      .update({ mfa_last_used_step: step })
+      .eq('id', userId);
+
+    update = lastUsedStep === null
+      ? update.is('mfa_last_used_step', null)
+      : update.eq('mfa_last_used_step', lastUsedStep);
+
+    const { data, error } = await update.select('id');
+    return !error && !!data && data.length > 0;
+  }
+
+  private async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const normalized = code.replace(/[\s-]/g, '');
+    if (!/^[0-9a-f]{10}$/i.test(normalized)) {
+      return false;
+    }
+
+    // Conditional update so a code can only be redeemed once
+    const { data, error } = await supabase
+      .from('mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('code_hash', this.hashRecoveryCode(normalized))
+      .is('used_at', null)
+      .select('id');
+
+    if (error || !data || data.length === 0) {
+      return false;
+    }
+
+    await auditLogger.logAuth(AUDIT_EVENTS.BACKUP_CODE_USED, userId, {}, 'medium');
+    return true;
+  }
+
+  private async fetchUser(userId: string): Promise<MfaUserRow> {
+    const { data, error } = await supabase
+      .from('users')
+      .select(MFA_USER_SELECT)
+      .eq('id', userId)
+      .single()
+      .overrideTypes<MfaUserRow, { merge: false }>();
+
+    if (error || !data) {
+      throw new Error('User not found');
+    }
+
+    return data;
+  }
+}
+
+export const mfaService = MfaService.getInstance();
+
+// Client message and HTTP status for the errors MfaService throws
+const MFA_ERROR_RESPONSES: Record<string, { message: string; status: number }> = {
+  'Invalid MFA code': { message: 'Invalid MFA code', status: 400 },
+  'MFA already enabled': { message: 'MFA is already enabled', status: 409 },
+  'MFA not enabled': { message: 'MFA is not enabled', status: 409 },
+  'No pending MFA enrollment': { message: 'Start MFA enrollment first', status: 409 },
+  'MFA required for role': { message: 'MFA is mandatory for your role and cannot be disabled', status: 403 },
+  'User not found': { message: 'User not found', status: 404 }
+};
+
+/**
+ * Error response of the MFA API routes; unknown errors get the route's fallback message
+ */
+export function mfaErrorResponse(error: unknown, fallback: string): NextResponse {
+  const known = error instanceof Error ? MFA_ERROR_RESPONSES[error.message] : undefined;
+
+  return NextResponse.json(
+    { success: false, error: known?.message || fallback },
+    { status: known?.status || 500 }
+  );
+}
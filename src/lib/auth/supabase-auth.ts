@@ -5,6 +5,8 @@
 
 import { createClient } from '@/utils/supabase/client';
 import type { User, Session } from '@supabase/supabase-js';
+import { DEFAULT_MFA_CONFIG } from './config-client';
+import type { UserRole } from '@/lib/types/auth';
 
 export interface AuthResult {
   user: User | null;
@@ -86,6 +88,26 @@ class SupabaseAuth {
         };
       }
 
+      // This path cannot verify an MFA code, so accounts that need one must use the login API
+      const { data: profile, error: profileError } = await this.supabase
+        .from('users')
+        .select('role, mfa_enabled')
+        .eq('id', data.user.id)
+        .maybeSingle();
+
+      if (
+        profileError ||
+        profile?.mfa_enabled ||
+        (profile && DEFAULT_MFA_CONFIG.required_for_roles.includes(profile.role as UserRole))
+      ) {
+        await this.supabase.auth.signOut();
+        return {
+          user: null,
+          session: null,
+          error: 'This account requires multi-factor authentication. Sign in with your MFA code.'
+        };
+      }
+
       return {
         user: data.user,
         session: data.session,
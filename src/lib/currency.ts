@@ -0,0 +1,63 @@
+import { DEFAULT_CURRENCY, isSupportedCurrency, type Currency } from './stripe';
+
+/**
+ * 7P Education - Currency selection
+ *
+ * Picks the currency a buyer sees prices and pays in: an explicit choice first, then the
+ * saved preference, then the country from the CDN geo headers, then the browser language.
+ */
+
+const EURO_COUNTRIES = [
+  'AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT',
+  'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'
+];
+
+const COUNTRY_HEADERS = ['x-vercel-ip-country', 'cf-ipcountry', 'x-country-code'];
+
+export function currencyForCountry(country: string | null | undefined): Currency | null {
+  const code = country?.trim().toUpperCase();
+  if (!code) return null;
+
+  if (code === 'TR') return 'TRY';
+  if (code === 'GB') return 'GBP';
+  if (code === 'US') return 'USD';
+  if (EURO_COUNTRIES.includes(code)) return 'EUR';
+  return null;
+}
+
+function currencyForLanguage(acceptLanguage: string | null): Currency | null {
+  // Only the primary language: "tr-TR,tr;q=0.9,en;q=0.8" -> tr-TR
+  const primary = acceptLanguage?.split(',')[0]?.trim();
+  if (!primary) return null;
+
+  const [language, region] = primary.split('-');
+  return currencyForCountry(region) || (language.toLowerCase() === 'tr' ? 'TRY' : null);
+}
+
+export function selectCurrency(options: {
+  requested?: unknown;
+  preferred?: string | null;
+  headers?: Headers;
+}): Currency {
+  const requested = typeof options.requested === 'string' ? options.requested.toUpperCase() : null;
+  if (isSupportedCurrency(requested)) {
+    return requested;
+  }
+
+  const preferred = options.preferred?.toUpperCase();
+  if (isSupportedCurrency(preferred)) {
+    return preferred;
+  }
+
+  if (options.headers) {
+    for (const header of COUNTRY_HEADERS) {
+      const currency = currencyForCountry(options.headers.get(header));
+      if (currency) return currency;
+    }
+
+    const currency = currencyForLanguage(options.headers.get('accept-language'));
+    if (currency) return currency;
+  }
+
+  return DEFAULT_CURRENCY;
+}
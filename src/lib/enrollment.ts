@@ -46,17 +46,23 @@ export const isUserEnrolledInCourse = async (courseId: string): Promise<boolean>
 
 /**
  * Kullanıcının bir derse erişim yetkisi olup olmadığını kontrol eder
+ * (satın alma, kayıt veya aboneliğin kapsadığı kurslar)
  */
 export const canUserAccessLesson = async (courseId: string, lessonId: string): Promise<boolean> => {
-  // Önce kursa kayıtlı mı kontrol et
-  const isEnrolled = await isUserEnrolledInCourse(courseId);
-  if (!isEnrolled) {
+  const userId = await getCurrentUserId();
+  if (!userId) return false;
+
+  // Abonelik erişimi dönem sonunda / ödeme süresi dolunca kapanır; kontrol sunucuda yapılır
+  try {
+    const response = await fetch(`/api/courses/${courseId}/access`);
+    if (!response.ok) return false;
+
+    const result = await response.json();
+    return result.success && result.data.has_access === true;
+  } catch (error) {
+    console.error('Error checking lesson access:', error);
     return false;
   }
-
-  // Preview derslere herkes erişebilir
-  // Bu bilgiyi course data'sından alacağız
-  return true;
 };
 
 /**
@@ -5,18 +5,21 @@
  * for payment modes, free enrollment, and feature toggles
  */
 
+// Application environment
+export const NODE_ENV = process.env.NODE_ENV ?? 'development';
+export const IS_PRODUCTION = NODE_ENV === 'production';
+
 // Payment system configuration
 export const PAYMENTS_MODE = process.env.PAYMENTS_MODE ?? 'disabled';
 export const STRIPE_ENABLED = PAYMENTS_MODE === 'stripe';
+// Local provider that simulates Stripe (payments, 3DS, refunds) for offline development and tests.
+// Never enabled in production: anyone could confirm their own mock payment and get enrolled.
+export const MOCK_PAYMENTS_ENABLED = PAYMENTS_MODE === 'mock' && !IS_PRODUCTION;
 
 // Free enrollment feature flags
 export const FEATURE_ENROLL_FREE = process.env.FEATURE_ENROLL_FREE === 'true';
 export const FREE_ENROLLMENT_CODE = process.env.FREE_ENROLLMENT_CODE ?? null;
 
-// Application environment
-export const NODE_ENV = process.env.NODE_ENV ?? 'development';
-export const IS_PRODUCTION = NODE_ENV === 'production';
-
 // Authentication
 export const NEXTAUTH_SECRET = process.env.NEXTAUTH_SECRET;
 export const NEXTAUTH_URL = process.env.NEXTAUTH_URL;
@@ -31,6 +34,12 @@ export const NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY = STRIPE_ENABLED ? process.env.N
 export const STRIPE_SECRET_KEY = STRIPE_ENABLED ? process.env.STRIPE_SECRET_KEY : undefined;
 export const STRIPE_WEBHOOK_SECRET = STRIPE_ENABLED ? process.env.STRIPE_WEBHOOK_SECRET : undefined;
 
+// Assessment grading: suggested essay scores shown to instructors ('heuristic' | 'none')
+export const ESSAY_SCORE_PROVIDER = process.env.ESSAY_SCORE_PROVIDER ?? 'heuristic';
+
+// Scheduled jobs (Vercel Cron sends it as a bearer token)
+export const CRON_SECRET = process.env.CRON_SECRET;
+
 // Monitoring
 export const NEXT_PUBLIC_SENTRY_DSN = process.env.NEXT_PUBLIC_SENTRY_DSN;
 export const SENTRY_ORG = process.env.SENTRY_ORG;
@@ -78,8 +87,12 @@ export const validateEnvironment = (): { valid: boolean; errors: string[] } => {
   }
 
   // Payment mode validation
-  if (!['stripe', 'disabled'].includes(PAYMENTS_MODE)) {
-    errors.push('PAYMENTS_MODE must be either "stripe" or "disabled"');
+  if (!['stripe', 'mock', 'disabled'].includes(PAYMENTS_MODE)) {
+    errors.push('PAYMENTS_MODE must be "stripe", "mock" or "disabled"');
+  }
+
+  if (PAYMENTS_MODE === 'mock' && IS_PRODUCTION) {
+    errors.push('PAYMENTS_MODE=mock is not allowed in production');
   }
 
   return {
@@ -92,6 +105,7 @@ export const validateEnvironment = (): { valid: boolean; errors: string[] } => {
 export const getEnvironmentInfo = () => ({
   payments_mode: PAYMENTS_MODE,
   stripe_enabled: STRIPE_ENABLED,
+  mock_payments_enabled: MOCK_PAYMENTS_ENABLED,
   free_enrollment_enabled: FEATURE_ENROLL_FREE,
   has_enrollment_code: !!FREE_ENROLLMENT_CODE,
   environment: NODE_ENV,
@@ -0,0 +1,167 @@
+import type { InvoiceParty, PaymentInvoice } from '@/types/invoice';
+
+/**
+ * 7P Education - Invoice PDF rendering
+ *
+ * Writes a single-page A4 PDF with the built-in Helvetica fonts, so no font files or
+ * rendering engine are needed on the server. Text is encoded as ISO-8859-9 (Latin-5)
+ * through a Differences table, which covers the Turkish letters Helvetica ships with.
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+// Latin-5 positions that differ from Latin-1
+const LATIN5_CODES: Record<string, number> = {
+  'Ğ': 0xd0, 'İ': 0xdd, 'Ş': 0xde, 'ğ': 0xf0, 'ı': 0xfd, 'ş': 0xfe
+};
+
+const FONT_ENCODING = '<< /Type /Encoding /BaseEncoding /WinAnsiEncoding ' +
+  '/Differences [208 /Gbreve 221 /Idotaccent /Scedilla 240 /gbreve 253 /dotlessi /scedilla] >>';
+
+const TAX_LABELS: Record<string, string> = {
+  TRY: 'KDV'
+};
+
+function encodeText(text: string): string {
+  let encoded = '';
+
+  for (const char of text) {
+    const code = LATIN5_CODES[char] ?? char.charCodeAt(0);
+    const byte = code <= 0xff ? code : 0x3f; // '?' for anything outside Latin-5
+    const escaped = byte === 0x28 || byte === 0x29 || byte === 0x5c ? `\\${String.fromCharCode(byte)}` : String.fromCharCode(byte);
+    encoded += escaped;
+  }
+
+  return encoded;
+}
+
+export function formatInvoiceAmount(amount: number, currency: string): string {
+  const value = (amount / 100).toLocaleString('tr-TR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${value} ${currency}`;
+}
+
+class PageContent {
+  private commands: string[] = [];
+
+  text(x: number, y: number, text: string, size: number = 10, bold: boolean = false) {
+    this.commands.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${PAGE_HEIGHT - y} Td (${encodeText(text)}) Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number) {
+    this.commands.push(`${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`);
+  }
+
+  toString(): string {
+    return this.commands.join('\n');
+  }
+}
+
+function partyBlock(page: PageContent, x: number, y: number, title: string, party: InvoiceParty): number {
+  page.text(x, y, title, 9, true);
+  page.text(x, y + 14, party.name, 10, true);
+
+  let offset = y + 28;
+  const details = [
+    ...party.address_lines,
+    party.tax_office ? `Vergi Dairesi: ${party.tax_office}` : null,
+    party.tax_id ? `VKN/TCKN: ${party.tax_id}` : null,
+    party.email
+  ].filter((detail): detail is string => !!detail);
+
+  for (const detail of details) {
+    page.text(x, offset, detail, 9);
+    offset += 12;
+  }
+
+  return offset;
+}
+
+function buildPdf(content: string): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding ${FONT_ENCODING} >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding ${FONT_ENCODING} >>`,
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Render an invoice (fatura) as a PDF document
+ */
+export function renderInvoicePdf(invoice: PaymentInvoice): Buffer {
+  const page = new PageContent();
+  const taxLabel = TAX_LABELS[invoice.currency] || 'VAT';
+  const issuedAt = new Date(invoice.issued_at).toLocaleDateString('tr-TR');
+
+  page.text(MARGIN, 60, 'FATURA / INVOICE', 20, true);
+  page.text(MARGIN, 82, `Fatura No: ${invoice.invoice_number}`, 10);
+  page.text(MARGIN, 96, `Tarih: ${issuedAt}`, 10);
+
+  const sellerEnd = partyBlock(page, MARGIN, 130, 'SATICI', invoice.seller);
+  const buyerEnd = partyBlock(page, 320, 130, 'ALICI', invoice.buyer);
+
+  // Line items
+  let y = Math.max(sellerEnd, buyerEnd) + 24;
+  const columns = { description: MARGIN, quantity: 290, net: 330, rate: 410, tax: 450, gross: 510 };
+
+  page.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 14;
+  page.text(columns.description, y, 'Açıklama', 9, true);
+  page.text(columns.quantity, y, 'Adet', 9, true);
+  page.text(columns.net, y, 'Tutar', 9, true);
+  page.text(columns.rate, y, `${taxLabel} %`, 9, true);
+  page.text(columns.tax, y, taxLabel, 9, true);
+  page.text(columns.gross, y, 'Toplam', 9, true);
+  y += 8;
+  page.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+
+  for (const line of invoice.lines) {
+    y += 16;
+    page.text(columns.description, y, line.description.slice(0, 45), 9);
+    page.text(columns.quantity, y, String(line.quantity), 9);
+    page.text(columns.net, y, formatInvoiceAmount(line.net_amount, invoice.currency), 9);
+    page.text(columns.rate, y, `%${line.tax_rate}`, 9);
+    page.text(columns.tax, y, formatInvoiceAmount(line.tax_amount, invoice.currency), 9);
+    page.text(columns.gross, y, formatInvoiceAmount(line.gross_amount, invoice.currency), 9);
+  }
+
+  y += 10;
+  page.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+
+  // Totals
+  const totals: Array<[string, number, boolean]> = [
+    ['Ara Toplam', invoice.subtotal, false],
+    [`${taxLabel} Toplamı`, invoice.tax_amount, false],
+    ['Genel Toplam', invoice.total, true]
+  ];
+
+  for (const [label, amount, bold] of totals) {
+    y += 18;
+    page.text(columns.rate, y, label, 10, bold);
+    page.text(columns.gross, y, formatInvoiceAmount(amount, invoice.currency), 10, bold);
+  }
+
+  page.text(MARGIN, PAGE_HEIGHT - 60, 'Bu belge elektronik ortamda oluşturulmuştur.', 8);
+
+  return buildPdf(page.toString());
+}
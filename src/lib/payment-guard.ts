@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { STRIPE_ENABLED } from '@/lib/env';
+import { STRIPE_ENABLED, MOCK_PAYMENTS_ENABLED } from '@/lib/env';
 import { getSecurityHeaders } from '@/lib/security';
 
 /**
  * 7P Education - Payment Guard Middleware
  * 
  * Guards payment-related routes when payments are disabled
- * Returns 501 Not Implemented when PAYMENTS_MODE !== 'stripe'
+ * Returns 501 Not Implemented unless PAYMENTS_MODE is 'stripe' or 'mock'
  */
 
 interface PaymentDisabledResponse {
@@ -34,20 +34,44 @@ export function createPaymentDisabledResponse(): NextResponse<PaymentDisabledRes
   );
 }
 
+/**
+ * Response for Stripe-hosted flows (Checkout, customer portal) the mock provider does not simulate
+ */
+export function createStripeRequiredResponse(): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      message: 'stripe_required',
+      error: 'This payment flow needs Stripe and is not available with mock payments. Use the payment form instead.',
+      mode: 'mock',
+    },
+    {
+      status: 501,
+      headers: getSecurityHeaders(),
+    }
+  );
+}
+
 /**
  * Middleware wrapper that guards payment routes
  * @param handler The original route handler
+ * @param options stripeOnly: the route needs a Stripe-hosted page and is closed in mock mode
  * @returns Guarded route handler
  */
 export function withPaymentGuard<T = any>(
-  handler: (request: NextRequest, context?: T) => Promise<NextResponse>
+  handler: (request: NextRequest, context?: T) => Promise<NextResponse>,
+  options: { stripeOnly?: boolean } = {}
 ) {
   return async (request: NextRequest, context?: T): Promise<NextResponse> => {
-    // Check if payments are enabled
-    if (!STRIPE_ENABLED) {
+    // Check if payments are enabled (Stripe or the local mock provider)
+    if (!isPaymentsEnabled()) {
       return createPaymentDisabledResponse();
     }
 
+    if (options.stripeOnly && !STRIPE_ENABLED) {
+      return createStripeRequiredResponse();
+    }
+
     // Payments are enabled, proceed with original handler
     return handler(request, context);
   };
@@ -58,7 +82,7 @@ export function withPaymentGuard<T = any>(
  * @returns boolean indicating if payments are enabled
  */
 export function isPaymentsEnabled(): boolean {
-  return STRIPE_ENABLED;
+  return !!STRIPE_ENABLED || !!MOCK_PAYMENTS_ENABLED;
 }
 
 /**
@@ -66,8 +90,8 @@ export function isPaymentsEnabled(): boolean {
  */
 export function getPaymentModeInfo() {
   return {
-    enabled: STRIPE_ENABLED,
-    mode: STRIPE_ENABLED ? 'stripe' : 'disabled',
+    enabled: isPaymentsEnabled(),
+    mode: STRIPE_ENABLED ? 'stripe' : MOCK_PAYMENTS_ENABLED ? 'mock' : 'disabled',
     timestamp: new Date().toISOString(),
   };
 }
\ No newline at end of file
@@ -0,0 +1,256 @@
+import type Stripe from 'stripe';
+import type { PaymentProvider } from '@/lib/payment-providers/provider';
+import type { MockAuthenticationResult, MockPaymentScenario } from '@/types/payment-provider';
+
+/**
+ * 7P Education - Mock payment provider (PAYMENTS_MODE=mock)
+ *
+ * Keeps payment intents and refunds in memory and reports every outcome as a Stripe
+ * event, delivered through the webhook handlers like a real Stripe webhook. Events are
+ * delivered before the call returns, so a confirmed payment is already fulfilled
+ * (transaction, purchase, enrollment, invoice) when the client hears back.
+ */
+
+export type MockEventDispatcher = (event: Stripe.Event) => Promise<void>;
+
+export interface MockPaymentProvider extends PaymentProvider {
+  readonly name: 'mock';
+  confirmPaymentIntent(paymentIntentId: string, scenario: MockPaymentScenario): Promise<Stripe.PaymentIntent>;
+  completeAuthentication(paymentIntentId: string, result: MockAuthenticationResult): Promise<Stripe.PaymentIntent>;
+  reset(): void;
+}
+
+interface MockPaymentStore {
+  customers: Map<string, string>;
+  intents: Map<string, Stripe.PaymentIntent>;
+  refunds: Map<string, Stripe.Refund[]>;
+}
+
+const DECLINES: Record<'card_declined' | 'insufficient_funds', { code: string; message: string }> = {
+  card_declined: { code: 'card_declined', message: 'Your card was declined.' },
+  insufficient_funds: { code: 'insufficient_funds', message: 'Your card has insufficient funds.' }
+};
+
+const mockId = (prefix: string) => `${prefix}_mock_${Date.now()}${Math.random().toString(36).slice(2, 10)}`;
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// Default delivery: the same path as the Stripe webhook endpoint (logged, retried on failure)
+const deliverToWebhookHandlers: MockEventDispatcher = async event => {
+  const { WebhookService } = await import('@/services/webhook-service');
+  await WebhookService.deliverEvent(event);
+};
+
+export function createMockProvider(dispatch: MockEventDispatcher = deliverToWebhookHandlers): MockPaymentProvider {
+  const store: MockPaymentStore = { customers: new Map(), intents: new Map(), refunds: new Map() };
+
+  const emit = async (type: string, object: Stripe.Event.Data.Object) => {
+    await dispatch({
+      id: mockId('evt'),
+      object: 'event',
+      type,
+      data: { object },
+      created: now(),
+      livemode: false,
+      pending_webhooks: 0,
+      request: { id: null, idempotency_key: null },
+      api_version: null
+    } as unknown as Stripe.Event);
+  };
+
+  const getIntent = (paymentIntentId: string) => {
+    const intent = store.intents.get(paymentIntentId);
+    if (!intent) {
+      throw new Error('Payment intent not found');
+    }
+    return intent;
+  };
+
+  const update = (intent: Stripe.PaymentIntent, changes: Partial<Stripe.PaymentIntent>) => {
+    const updated = { ...intent, ...changes } as Stripe.PaymentIntent;
+    store.intents.set(intent.id, updated);
+    return updated;
+  };
+
+  const succeed = async (intent: Stripe.PaymentIntent) => {
+    const succeeded = update(intent, {
+      status: 'succeeded',
+      amount_received: intent.amount,
+      latest_charge: mockId('ch'),
+      next_action: null,
+      last_payment_error: null
+    });
+    await emit('payment_intent.succeeded', succeeded);
+    return succeeded;
+  };
+
+  const fail = async (intent: Stripe.PaymentIntent, code: string, message: string) => {
+    // A declined intent can be confirmed again, as with Stripe
+    const failed = update(intent, {
+      status: 'requires_payment_method',
+      next_action: null,
+      last_payment_error: { type: 'card_error', code, message } as Stripe.PaymentIntent.LastPaymentError
+    });
+    await emit('payment_intent.payment_failed', failed);
+    return failed;
+  };
+
+  return {
+    name: 'mock',
+
+    async createCustomer({ userId, email }) {
+      const existing = store.customers.get(email);
+      if (existing) {
+        return existing;
+      }
+
+      // Deterministic, so a customer survives a restart of the dev server
+      const customerId = `cus_mock_${userId.replace(/-/g, '')}`;
+      store.customers.set(email, customerId);
+      return customerId;
+    },
+
+    async createPaymentIntent({ amount, currency, customerId, metadata = {} }) {
+      const id = mockId('pi');
+      const intent = {
+        id,
+        object: 'payment_intent',
+        amount,
+        amount_received: 0,
+        currency: currency.toLowerCase(),
+        customer: customerId,
+        metadata,
+        status: 'requires_payment_method',
+        client_secret: `${id}_secret_${Math.random().toString(36).slice(2, 10)}`,
+        created: now(),
+        livemode: false,
+        latest_charge: null,
+        last_payment_error: null,
+        next_action: null,
+        cancellation_reason: null
+      } as unknown as Stripe.PaymentIntent;
+
+      store.intents.set(id, intent);
+      return intent;
+    },
+
+    async retrievePaymentIntent(paymentIntentId) {
+      return getIntent(paymentIntentId);
+    },
+
+    async cancelPaymentIntent(paymentIntentId) {
+      const intent = getIntent(paymentIntentId);
+
+      if (!['requires_payment_method', 'requires_confirmation', 'requires_action'].includes(intent.status)) {
+        throw new Error('Payment intent cannot be canceled');
+      }
+
+      const canceled = update(intent, {
+        status: 'canceled',
+        cancellation_reason: 'abandoned',
+        next_action: null
+      });
+      await emit('payment_intent.canceled', canceled);
+      return canceled;
+    },
+
+    async confirmPaymentIntent(paymentIntentId, scenario) {
+      const intent = getIntent(paymentIntentId);
+
+      if (!['requires_payment_method', 'requires_confirmation'].includes(intent.status)) {
+        throw new Error('Payment intent cannot be confirmed');
+      }
+
+      switch (scenario) {
+        case 'succeed':
+          return succeed(intent);
+
+        case 'card_declined':
+        case 'insufficient_funds':
+          return fail(intent, DECLINES[scenario].code, DECLINES[scenario].message);
+
+        case 'requires_action':
+          // No event: Stripe only reports the intent once the challenge is over
+          return update(intent, {
+            status: 'requires_action',
+            next_action: { type: 'use_stripe_sdk', use_stripe_sdk: { type: 'three_d_secure_redirect' } }
+          } as Partial<Stripe.PaymentIntent>);
+
+        default:
+          throw new Error('Unknown payment scenario');
+      }
+    },
+
+    async completeAuthentication(paymentIntentId, result) {
+      const intent = getIntent(paymentIntentId);
+
+      if (intent.status !== 'requires_action') {
+        throw new Error('Payment intent does not require authentication');
+      }
+
+      return result === 'approve'
+        ? succeed(intent)
+        : fail(intent, 'payment_intent_authentication_failure', 'The provided payment method has failed authentication.');
+    },
+
+    async createRefund({ paymentIntentId, amount, reason, metadata = {} }) {
+      const intent = getIntent(paymentIntentId);
+
+      if (intent.status !== 'succeeded') {
+        throw new Error('Payment intent has not succeeded');
+      }
+
+      const refunds = store.refunds.get(paymentIntentId) || [];
+      const refunded = refunds.reduce((sum, refund) => sum + refund.amount, 0);
+      const refundAmount = amount ?? intent.amount - refunded;
+
+      if (refundAmount <= 0 || refunded + refundAmount > intent.amount) {
+        throw new Error('Refund amount exceeds the charge');
+      }
+
+      const refund = {
+        id: mockId('re'),
+        object: 'refund',
+        amount: refundAmount,
+        currency: intent.currency,
+        payment_intent: paymentIntentId,
+        charge: intent.latest_charge,
+        reason: reason ?? null,
+        metadata,
+        status: 'succeeded',
+        failure_reason: null,
+        created: now()
+      } as unknown as Stripe.Refund;
+
+      store.refunds.set(paymentIntentId, [...refunds, refund]);
+
+      await emit('charge.refunded', {
+        id: intent.latest_charge,
+        object: 'charge',
+        amount: intent.amount,
+        amount_refunded: refunded + refundAmount,
+        currency: intent.currency,
+        payment_intent: paymentIntentId,
+        refunded: refunded + refundAmount === intent.amount
+      } as unknown as Stripe.Charge);
+
+      return refund;
+    },
+
+    async listRefunds(paymentIntentId) {
+      return store.refunds.get(paymentIntentId) || [];
+    },
+
+    reset() {
+      store.customers.clear();
+      store.intents.clear();
+      store.refunds.clear();
+    }
+  };
+}
+
+// One store per server process; kept on globalThis so dev-server module reloads share it
+const globalForMock = globalThis as typeof globalThis & { mockPaymentProvider?: MockPaymentProvider };
+
+export const mockPaymentProvider: MockPaymentProvider =
+  globalForMock.mockPaymentProvider ?? (globalForMock.mockPaymentProvider = createMockProvider());
@@ -0,0 +1,82 @@
+import type Stripe from 'stripe';
+import {
+  stripe,
+  createOrGetCustomer,
+  createPaymentIntent,
+  processRefund,
+  type Currency
+} from '@/lib/stripe';
+import type { PaymentProviderName } from '@/types/payment-provider';
+
+/**
+ * 7P Education - Payment providers
+ *
+ * Payment routes and services talk to the provider through this interface, so the
+ * purchase flow runs against Stripe or the local mock provider without code changes.
+ * Objects keep Stripe's shape; the mock provider reports its outcomes as Stripe events
+ * through the same webhook handlers.
+ */
+
+export interface CreatePaymentIntentInput {
+  amount: number; // cents
+  currency: Currency;
+  customerId: string;
+  metadata?: Record<string, string>;
+}
+
+export interface CreateRefundInput {
+  paymentIntentId: string;
+  amount?: number; // cents; omitted = full refund
+  reason?: Stripe.RefundCreateParams.Reason;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createCustomer(input: { userId: string; email: string; name?: string }): Promise<string>;
+  createPaymentIntent(input: CreatePaymentIntentInput): Promise<Stripe.PaymentIntent>;
+  retrievePaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent>;
+  cancelPaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent>;
+  createRefund(input: CreateRefundInput): Promise<Stripe.Refund>;
+  listRefunds(paymentIntentId: string): Promise<Stripe.Refund[]>;
+}
+
+function requireStripe(): Stripe {
+  if (!stripe) {
+    throw new Error('Stripe is not configured');
+  }
+  return stripe;
+}
+
+/**
+ * Stripe API provider
+ */
+export const stripePaymentProvider: PaymentProvider = {
+  name: 'stripe',
+
+  async createCustomer({ userId, email, name }) {
+    const customer = await createOrGetCustomer(userId, email, name);
+    return customer.id;
+  },
+
+  createPaymentIntent({ amount, currency, customerId, metadata }) {
+    return createPaymentIntent(amount, currency, customerId, metadata);
+  },
+
+  retrievePaymentIntent(paymentIntentId) {
+    return requireStripe().paymentIntents.retrieve(paymentIntentId);
+  },
+
+  cancelPaymentIntent(paymentIntentId) {
+    return requireStripe().paymentIntents.cancel(paymentIntentId, { cancellation_reason: 'abandoned' });
+  },
+
+  createRefund({ paymentIntentId, amount, reason, metadata }) {
+    return processRefund(paymentIntentId, amount, reason, metadata);
+  },
+
+  async listRefunds(paymentIntentId) {
+    const refunds = await requireStripe().refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+    return refunds.data;
+  }
+};
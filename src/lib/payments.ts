@@ -1,6 +1,9 @@
 import { supabase } from './supabase';
-import { stripe, createOrGetCustomer } from './stripe';
 import type { Currency } from './stripe';
+import { MOCK_PAYMENTS_ENABLED } from './env';
+import { stripePaymentProvider, type PaymentProvider } from './payment-providers/provider';
+import { mockPaymentProvider } from './payment-providers/mock-provider';
+import { EntitlementService } from '@/services/entitlement-service';
 
 // =====================================
 // TYPE DEFINITIONS
@@ -54,8 +57,9 @@ export interface PaymentTransaction {
   stripe_payment_intent_id: string | null;
   stripe_charge_id: string | null;
   type: 'course_purchase' | 'bundle_purchase' | 'subscription' | 'subscription_renewal';
-  status: 'pending' | 'processing' | 'succeeded' | 'failed' | 'canceled' | 'refunded';
+  status: 'pending' | 'processing' | 'succeeded' | 'failed' | 'canceled' | 'partially_refunded' | 'refunded';
   amount: number;
+  refunded_amount: number;
   currency: Currency;
   description: string | null;
   course_id: string | null;
@@ -103,9 +107,21 @@ export interface CoursePurchase {
   purchase_type: 'individual' | 'bundle';
   amount_paid: number;
   currency: Currency;
+  refunded_at: string | null;
   created_at: string;
 }
 
+// =====================================
+// PAYMENT PROVIDER
+// =====================================
+
+/**
+ * Provider that takes payments: the local mock provider when PAYMENTS_MODE=mock, Stripe otherwise
+ */
+export function getPaymentProvider(): PaymentProvider {
+  return MOCK_PAYMENTS_ENABLED ? mockPaymentProvider : stripePaymentProvider;
+}
+
 // =====================================
 // CUSTOMER MANAGEMENT
 // =====================================
@@ -129,15 +145,15 @@ export async function getOrCreateStripeCustomer(
     return existingCustomer;
   }
 
-  // Create Stripe customer
-  const stripeCustomer = await createOrGetCustomer(userId, email, name);
+  // Create the customer with the payment provider
+  const customerId = await getPaymentProvider().createCustomer({ userId, email, name });
 
   // Save to database
   const { data: newCustomer, error } = await supabase
     .from('stripe_customers')
     .insert({
       user_id: userId,
-      stripe_customer_id: stripeCustomer.id,
+      stripe_customer_id: customerId,
       email,
     })
     .select()
@@ -262,21 +278,31 @@ export async function upsertSubscription(subscriptionData: {
 // =====================================
 
 /**
- * Get course price by course ID
+ * Get course price by course ID, in the given currency when the course has a price in
+ * it; otherwise the course's first price list entry
+ */
+export async function getCoursePrice(courseId: string, currency?: Currency): Promise<CoursePrice | null> {
+  const prices = await getCoursePrices(courseId);
+
+  return prices.find(price => price.currency === currency) || prices[0] || null;
+}
+
+/**
+ * Get the active price list of a course (one price per currency)
  */
-export async function getCoursePrice(courseId: string): Promise<CoursePrice | null> {
+export async function getCoursePrices(courseId: string): Promise<CoursePrice[]> {
   const { data, error } = await supabase
     .from('course_prices')
     .select('*')
     .eq('course_id', courseId)
     .eq('is_active', true)
-    .single();
+    .order('created_at', { ascending: true });
 
-  if (error && error.message !== 'PGRST116') {
-    throw new Error(`Failed to get course price: ${error.message}`);
+  if (error) {
+    throw new Error(`Failed to get course prices: ${error.message}`);
   }
 
-  return data;
+  return data || [];
 }
 
 /**
@@ -423,9 +449,10 @@ export async function createCoursePurchase(purchaseData: {
   amount_paid: number;
   currency: Currency;
 }): Promise<CoursePurchase> {
+  // Upsert so a retried webhook event does not trip the (transaction_id, course_id) unique index
   const { data, error } = await supabase
     .from('course_purchases')
-    .insert(purchaseData)
+    .upsert(purchaseData, { onConflict: 'transaction_id,course_id' })
     .select()
     .single();
 
@@ -437,7 +464,7 @@ export async function createCoursePurchase(purchaseData: {
 }
 
 /**
- * Check if user has access to course
+ * Check if user has access to course (purchase or subscription entitlement)
  */
 export async function userHasCourseAccess(userId: string, courseId: string): Promise<boolean> {
   const { data, error } = await supabase
@@ -448,10 +475,19 @@ export async function userHasCourseAccess(userId: string, courseId: string): Pro
 
   if (error) {
     console.error('Error checking course access:', error);
-    return false;
   }
 
-  return data === true;
+  if (data === true) {
+    return true;
+  }
+
+  try {
+    const access = await EntitlementService.getCourseAccess(userId, courseId);
+    return access.has_access;
+  } catch (entitlementError) {
+    console.error('Error checking subscription access:', entitlementError);
+    return false;
+  }
 }
 
 /**
@@ -462,7 +498,8 @@ export async function getUserPurchasedCourses(userId: string): Promise<string[]>
     .from('course_purchases')
     .select('course_id, bundle_courses!inner(course_id)')
     .eq('user_id', userId)
-    .not('course_id', 'is', null);
+    .not('course_id', 'is', null)
+    .is('refunded_at', null);
 
   if (error) {
     throw new Error(`Failed to get purchased courses: ${error.message}`);
@@ -484,7 +521,8 @@ export async function getUserPurchasedCourses(userId: string): Promise<string[]>
       bundle_courses!inner(course_id)
     `)
     .eq('user_id', userId)
-    .not('bundle_id', 'is', null);
+    .not('bundle_id', 'is', null)
+    .is('refunded_at', null);
 
   bundlePurchases?.forEach(purchase => {
     // @ts-ignore - Supabase types are complex here
@@ -527,6 +565,8 @@ export async function markWebhookEventProcessed(stripeEventId: string): Promise<
     .update({
       processed: true,
       processed_at: new Date().toISOString(),
+      status: 'processed',
+      next_retry_at: null,
     })
     .eq('stripe_event_id', stripeEventId);
 
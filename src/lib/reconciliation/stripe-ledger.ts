@@ -0,0 +1,105 @@
+import type Stripe from 'stripe';
+import type {
+  StripeLedgerSnapshot,
+  StripePaymentRecord,
+  StripeRefundRecord,
+  StripeSubscriptionRecord
+} from '@/types/reconciliation';
+
+/**
+ * 7P Education - Stripe ledger sources for payment reconciliation
+ *
+ * Reconciliation reads Stripe through this interface, so it can run against the live
+ * API or a recorded fixture (local development, tests) without code changes.
+ */
+
+export interface ReconciliationRange {
+  from: Date;
+  to: Date;
+}
+
+export interface StripeLedger {
+  fetch(range: ReconciliationRange): Promise<StripeLedgerSnapshot>;
+}
+
+const toIso = (timestamp: number | null | undefined) =>
+  timestamp ? new Date(timestamp * 1000).toISOString() : null;
+
+/**
+ * Stripe API ledger: payment intents, refunds and subscriptions created in the range
+ */
+export function createStripeLedger(client: Stripe): StripeLedger {
+  return {
+    async fetch(range) {
+      const created = {
+        gte: Math.floor(range.from.getTime() / 1000),
+        lte: Math.floor(range.to.getTime() / 1000)
+      };
+
+      const payment_intents: StripePaymentRecord[] = [];
+      for await (const intent of client.paymentIntents.list({ created, limit: 100 })) {
+        payment_intents.push({
+          id: intent.id,
+          status: intent.status,
+          amount: intent.amount,
+          amount_received: intent.amount_received,
+          currency: intent.currency.toUpperCase(),
+          customer: typeof intent.customer === 'string' ? intent.customer : intent.customer?.id ?? null,
+          created: toIso(intent.created)!,
+          metadata: intent.metadata || {}
+        });
+      }
+
+      // Refunds of payments in the range, including ones issued after it ended
+      const refunds: StripeRefundRecord[] = [];
+      for await (const refund of client.refunds.list({ created: { gte: created.gte }, limit: 100 })) {
+        refunds.push({
+          id: refund.id,
+          payment_intent: typeof refund.payment_intent === 'string'
+            ? refund.payment_intent
+            : refund.payment_intent?.id ?? null,
+          amount: refund.amount,
+          status: refund.status || 'pending',
+          created: toIso(refund.created)!
+        });
+      }
+
+      const subscriptions: StripeSubscriptionRecord[] = [];
+      for await (const subscription of client.subscriptions.list({ created, status: 'all', limit: 100 })) {
+        const item = subscription.items.data[0];
+        subscriptions.push({
+          id: subscription.id,
+          customer: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+          status: subscription.status,
+          current_period_start: toIso(item?.current_period_start),
+          current_period_end: toIso(item?.current_period_end),
+          cancel_at_period_end: subscription.cancel_at_period_end,
+          created: toIso(subscription.created)!
+        });
+      }
+
+      return { payment_intents, refunds, subscriptions };
+    }
+  };
+}
+
+/**
+ * Fixture ledger (a local fake Stripe): serves a recorded snapshot, filtered to the range
+ * the same way the API filters by creation time
+ */
+export function createFixtureLedger(snapshot: Partial<StripeLedgerSnapshot>): StripeLedger {
+  return {
+    async fetch(range) {
+      const inRange = (created: string) => {
+        const time = new Date(created).getTime();
+        return time >= range.from.getTime() && time <= range.to.getTime();
+      };
+
+      return {
+        payment_intents: (snapshot.payment_intents || []).filter(intent => inRange(intent.created)),
+        refunds: (snapshot.refunds || []).filter(refund => new Date(refund.created) >= range.from),
+        subscriptions: (snapshot.subscriptions || []).filter(subscription => inRange(subscription.created))
+      };
+    }
+  };
+}
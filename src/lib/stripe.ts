@@ -74,6 +74,7 @@ export const STRIPE_CONFIG = {
   WEBHOOK_EVENTS: [
     'payment_intent.succeeded',
     'payment_intent.payment_failed',
+    'payment_intent.canceled',
     'invoice.payment_succeeded',
     'invoice.payment_failed',
     'customer.subscription.created',
@@ -81,6 +82,10 @@ export const STRIPE_CONFIG = {
     'customer.subscription.deleted',
     'customer.subscription.trial_will_end',
     'checkout.session.completed',
+    'checkout.session.expired',
+    'charge.refunded',
+    'charge.dispute.created',
+    'charge.dispute.closed',
     'payment_method.attached',
   ] as const,
 } as const;
@@ -95,6 +100,17 @@ export type SubscriptionStatus = typeof STRIPE_CONFIG.SUBSCRIPTION_STATUSES[numb
 export type PaymentStatus = typeof STRIPE_CONFIG.PAYMENT_STATUSES[number];
 export type WebhookEvent = typeof STRIPE_CONFIG.WEBHOOK_EVENTS[number];
 
+// Currency used when neither the buyer nor their location selects one
+export const DEFAULT_CURRENCY: Currency = 'USD';
+
+// Locale each currency is formatted in
+export const CURRENCY_LOCALES: Record<Currency, string> = {
+  USD: 'en-US',
+  EUR: 'de-DE',
+  GBP: 'en-GB',
+  TRY: 'tr-TR',
+};
+
 // =====================================
 // UTILITY FUNCTIONS
 // =====================================
@@ -105,13 +121,22 @@ export type WebhookEvent = typeof STRIPE_CONFIG.WEBHOOK_EVENTS[number];
  * @param currency Currency code
  * @returns Formatted amount string
  */
-export function formatAmount(amount: number, currency: Currency = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
+export function formatAmount(amount: number, currency: Currency = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat(CURRENCY_LOCALES[currency] || 'en-US', {
     style: 'currency',
     currency,
   }).format(amount / 100);
 }
 
+/**
+ * Check whether a value is a supported currency code
+ * @param value Currency code (any case)
+ * @returns Whether the currency is supported
+ */
+export function isSupportedCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && (STRIPE_CONFIG.CURRENCIES as readonly string[]).includes(value);
+}
+
 /**
  * Convert amount to cents for Stripe
  * @param amount Amount in dollars
@@ -258,6 +283,7 @@ export async function createSubscriptionCheckout(
  * @param successUrl Success redirect URL
  * @param cancelUrl Cancel redirect URL
  * @param metadata Additional metadata
+ * @param discounts Coupons to apply (see createDiscountCoupon)
  * @returns Checkout session
  */
 export async function createOneTimeCheckout(
@@ -265,7 +291,8 @@ export async function createOneTimeCheckout(
   customerId: string,
   successUrl: string,
   cancelUrl: string,
-  metadata: Record<string, string> = {}
+  metadata: Record<string, string> = {},
+  discounts?: Stripe.Checkout.SessionCreateParams.Discount[]
 ): Promise<Stripe.Checkout.Session> {
   return await stripe.checkout.sessions.create({
     customer: customerId,
@@ -285,6 +312,56 @@ export async function createOneTimeCheckout(
       name: 'auto',
     },
     metadata,
+    discounts,
+  });
+}
+
+/**
+ * Create one-time payment checkout session for an amount computed at checkout time
+ * (e.g. a bundle pro-rated for courses the buyer already owns)
+ * @param amount Amount in cents
+ * @param currency Currency code
+ * @param productId Stripe product ID
+ * @param customerId Stripe customer ID
+ * @param successUrl Success redirect URL
+ * @param cancelUrl Cancel redirect URL
+ * @param metadata Additional metadata
+ * @param discounts Coupons to apply (see createDiscountCoupon)
+ * @returns Checkout session
+ */
+export async function createCustomAmountCheckout(
+  amount: number,
+  currency: Currency,
+  productId: string,
+  customerId: string,
+  successUrl: string,
+  cancelUrl: string,
+  metadata: Record<string, string> = {},
+  discounts?: Stripe.Checkout.SessionCreateParams.Discount[]
+): Promise<Stripe.Checkout.Session> {
+  return await stripe.checkout.sessions.create({
+    customer: customerId,
+    payment_method_types: ['card'],
+    line_items: [
+      {
+        price_data: {
+          currency: currency.toLowerCase(),
+          unit_amount: amount,
+          product: productId,
+        },
+        quantity: 1,
+      },
+    ],
+    mode: 'payment',
+    success_url: successUrl,
+    cancel_url: cancelUrl,
+    billing_address_collection: 'required',
+    customer_update: {
+      address: 'auto',
+      name: 'auto',
+    },
+    metadata,
+    discounts,
   });
 }
 
@@ -328,15 +405,18 @@ export async function createPortalSession(
  * @param paymentIntentId Payment intent ID
  * @param amount Amount to refund in cents (optional, full refund if not provided)
  * @param reason Refund reason
+ * @param metadata Additional metadata
  * @returns Refund object
  */
 export async function processRefund(
   paymentIntentId: string,
   amount?: number,
-  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer'
+  reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer',
+  metadata: Record<string, string> = {}
 ): Promise<Stripe.Refund> {
   const refundParams: Stripe.RefundCreateParams = {
     payment_intent: paymentIntentId,
+    metadata,
   };
 
   if (amount) {
@@ -351,21 +431,23 @@ export async function processRefund(
 }
 
 /**
- * Apply discount code to checkout session
- * @param sessionId Checkout session ID
- * @param couponId Stripe coupon ID
- * @returns Updated session
+ * Create a single-use Stripe coupon for a discount already priced by DiscountService
+ * @param amountOff Discount amount in cents
+ * @param currency Currency
+ * @param name Discount code shown on the checkout page
+ * @returns Coupon to pass to a checkout session's discounts
  */
-export async function applyDiscountCode(
-  sessionId: string,
-  couponId: string
-): Promise<Stripe.Checkout.Session> {
-  return await stripe.checkout.sessions.update(sessionId, {
-    discounts: [
-      {
-        coupon: couponId,
-      },
-    ],
+export async function createDiscountCoupon(
+  amountOff: number,
+  currency: Currency,
+  name: string
+): Promise<Stripe.Coupon> {
+  return await stripe.coupons.create({
+    amount_off: amountOff,
+    currency: currency.toLowerCase(),
+    duration: 'once',
+    max_redemptions: 1,
+    name,
   });
 }
 
@@ -1,7 +1,19 @@
 import { z } from 'zod';
 
+// Adaptive tests stop at max_questions, at the time limit, or once min_questions are
+// answered and the ability estimate reaches the confidence (reliability) threshold
+export const adaptiveStoppingCriteriaSchema = z.object({
+  max_questions: z.number().min(5).max(50).default(20),
+  min_questions: z.number().min(3).max(30).default(10),
+  confidence_threshold: z.number().min(0.1).max(1.0).default(0.95),
+  time_limit: z.number().min(5).max(240).default(60), // minutes
+}).refine(
+  (criteria) => criteria.min_questions <= criteria.max_questions,
+  { message: 'min_questions cannot exceed max_questions', path: ['min_questions'] }
+);
+
 // Assessment Creation & Update Schemas
-export const createAssessmentSchema = z.object({
+const assessmentBaseSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   description: z.string().min(1, 'Description is required').max(1000, 'Description too long'),
   lesson_id: z.string().uuid().optional(),
@@ -20,12 +32,40 @@ export const createAssessmentSchema = z.object({
   available_until: z.string().datetime().optional(),
   grading_method: z.enum(['automatic', 'manual', 'hybrid']).default('automatic'),
   anti_cheating_enabled: z.boolean().default(false),
+  adaptive_config: adaptiveStoppingCriteriaSchema.nullable().optional(),
 });
 
-export const updateAssessmentSchema = createAssessmentSchema.partial();
+/**
+ * Adaptive questions are scored as they are answered, so adaptive tests must be auto-graded
+ */
+function validateAdaptive(
+  assessment: { grading_method?: string; adaptive_config?: unknown },
+  ctx: z.RefinementCtx
+) {
+  if (assessment.adaptive_config && assessment.grading_method && assessment.grading_method !== 'automatic') {
+    ctx.addIssue({ code: 'custom', path: ['grading_method'], message: 'Adaptive assessments must use automatic grading' });
+  }
+}
+
+export const createAssessmentSchema = assessmentBaseSchema.superRefine(validateAdaptive);
+
+export const updateAssessmentSchema = assessmentBaseSchema.partial().superRefine(validateAdaptive);
 
 // Question Schemas
-export const createQuestionSchema = z.object({
+const dragDropItemSchema = z.object({
+  id: z.string().min(1, 'Item ID is required').max(50, 'Item ID too long').regex(/^[^:]+$/, 'Item ID cannot contain ":"'),
+  content: z.string().min(1, 'Item content is required').max(500, 'Item content too long'),
+  media_url: z.string().url().optional(),
+});
+
+export const dragDropConfigSchema = z.object({
+  mode: z.enum(['ordering', 'matching']),
+  items: z.array(dragDropItemSchema).min(2, 'At least two items are required').max(20, 'Cannot exceed 20 items'),
+  targets: z.array(dragDropItemSchema).min(1).max(20, 'Cannot exceed 20 targets').optional(),
+  partial_credit: z.boolean().default(true),
+});
+
+const questionBaseSchema = z.object({
   question_text: z.string().min(1, 'Question text is required').max(2000, 'Question text too long'),
   question_type: z.enum(['multiple_choice', 'true_false', 'fill_blank', 'essay', 'drag_drop']),
   options: z.array(z.object({
@@ -33,6 +73,9 @@ export const createQuestionSchema = z.object({
     is_correct: z.boolean(),
     order_index: z.number().min(0)
   })).optional(),
+  multi_select: z.boolean().default(false),
+  scoring_strategy: z.enum(['all_or_nothing', 'proportional', 'penalty']).default('all_or_nothing'),
+  drag_drop: dragDropConfigSchema.optional(),
   correct_answer: z.union([z.string(), z.array(z.string())]).refine(
     (val) => Array.isArray(val) ? val.length > 0 : val.length > 0,
     { message: 'Correct answer is required' }
@@ -46,32 +89,158 @@ export const createQuestionSchema = z.object({
   time_limit: z.number().min(1).max(300).optional(), // 5 minutes max per question
 });
 
-export const updateQuestionSchema = createQuestionSchema.partial();
+/**
+ * Drag-drop answers must reference the configured items/targets:
+ * ordering = every item id exactly once, matching = one "itemId:targetId" pair per item
+ */
+function validateDragDrop(
+  question: { question_type?: string; drag_drop?: z.infer<typeof dragDropConfigSchema>; correct_answer?: string | string[] },
+  ctx: z.RefinementCtx
+) {
+  // Partial updates that leave the question type unchanged skip the cross-field checks
+  if (question.question_type === undefined) {
+    return;
+  }
+
+  if (question.question_type !== 'drag_drop') {
+    if (question.drag_drop) {
+      ctx.addIssue({ code: 'custom', path: ['drag_drop'], message: 'Drag-drop settings are only allowed on drag_drop questions' });
+    }
+    return;
+  }
+
+  const config = question.drag_drop;
+  if (!config) {
+    ctx.addIssue({ code: 'custom', path: ['drag_drop'], message: 'Drag-drop settings are required' });
+    return;
+  }
+
+  const itemIds = config.items.map(item => item.id);
+  if (new Set(itemIds).size !== itemIds.length) {
+    ctx.addIssue({ code: 'custom', path: ['drag_drop', 'items'], message: 'Item IDs must be unique' });
+  }
+
+  const answer = question.correct_answer;
+  if (!Array.isArray(answer)) {
+    ctx.addIssue({ code: 'custom', path: ['correct_answer'], message: 'Correct answer must be a list' });
+    return;
+  }
+
+  if (config.mode === 'ordering') {
+    if (config.targets) {
+      ctx.addIssue({ code: 'custom', path: ['drag_drop', 'targets'], message: 'Ordering questions do not use targets' });
+    }
+    const isPermutation = answer.length === itemIds.length && itemIds.every(id => answer.includes(id));
+    if (!isPermutation) {
+      ctx.addIssue({ code: 'custom', path: ['correct_answer'], message: 'Correct order must list every item exactly once' });
+    }
+    return;
+  }
+
+  const targetIds = (config.targets || []).map(target => target.id);
+  if (targetIds.length === 0) {
+    ctx.addIssue({ code: 'custom', path: ['drag_drop', 'targets'], message: 'Matching questions require targets' });
+    return;
+  }
+  if (new Set(targetIds).size !== targetIds.length) {
+    ctx.addIssue({ code: 'custom', path: ['drag_drop', 'targets'], message: 'Target IDs must be unique' });
+  }
+
+  const pairs = answer.map(pair => pair.split(':'));
+  const validPairs = pairs.every(([itemId, targetId]) => itemIds.includes(itemId) && targetIds.includes(targetId));
+  const matchedItems = new Set(pairs.map(([itemId]) => itemId));
+  if (!validPairs || matchedItems.size !== itemIds.length || pairs.length !== itemIds.length) {
+    ctx.addIssue({ code: 'custom', path: ['correct_answer'], message: 'Each item must be matched to exactly one target as "itemId:targetId"' });
+  }
+}
+
+/**
+ * Multiple-choice options must agree with correct_answer (option texts);
+ * single-select questions have exactly one correct option
+ */
+function validateMultipleChoice(
+  question: {
+    question_type?: string;
+    multi_select?: boolean;
+    options?: { option_text: string; is_correct: boolean }[];
+    correct_answer?: string | string[];
+  },
+  ctx: z.RefinementCtx
+) {
+  if (question.question_type !== 'multiple_choice') {
+    if (question.question_type !== undefined && question.multi_select) {
+      ctx.addIssue({ code: 'custom', path: ['multi_select'], message: 'Multi-select is only allowed on multiple_choice questions' });
+    }
+    return;
+  }
+
+  if (!question.options || question.options.length < 2) {
+    if (question.multi_select) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: 'Multi-select questions require at least two options' });
+    }
+    return;
+  }
+
+  const correctOptions = question.options.filter(option => option.is_correct).map(option => option.option_text);
+  if (correctOptions.length === 0) {
+    ctx.addIssue({ code: 'custom', path: ['options'], message: 'At least one option must be correct' });
+    return;
+  }
+  if (!question.multi_select && correctOptions.length > 1) {
+    ctx.addIssue({ code: 'custom', path: ['options'], message: 'Single-select questions must have exactly one correct option' });
+    return;
+  }
+
+  const answers = Array.isArray(question.correct_answer) ? question.correct_answer : [question.correct_answer];
+  const matches = answers.length === correctOptions.length && correctOptions.every(text => answers.includes(text));
+  if (!matches) {
+    ctx.addIssue({ code: 'custom', path: ['correct_answer'], message: 'Correct answer must list the text of every correct option' });
+  }
+}
+
+export const createQuestionSchema = questionBaseSchema
+  .superRefine(validateDragDrop)
+  .superRefine(validateMultipleChoice);
+
+export const updateQuestionSchema = questionBaseSchema
+  .partial()
+  .superRefine(validateDragDrop)
+  .superRefine(validateMultipleChoice);
 
 // Quiz Attempt & Submission Schemas
 export const startQuizAttemptSchema = z.object({
   assessment_id: z.string().uuid('Invalid assessment ID'),
   browser_fingerprint: z.string().optional(),
+  session_id: z.string().uuid('Invalid session ID').optional(),
+  take_over: z.boolean().default(false),
 });
 
+// Autosave of a single answer; an empty answer clears it
 export const submitQuizResponseSchema = z.object({
   attempt_id: z.string().uuid('Invalid attempt ID'),
   question_id: z.string().uuid('Invalid question ID'),
-  answer: z.union([z.string(), z.array(z.string())]).refine(
-    (val) => Array.isArray(val) ? val.length > 0 : val.length > 0,
-    { message: 'Answer is required' }
-  ),
+  answer: z.union([z.string(), z.array(z.string())]),
   time_spent: z.number().min(0).max(1800), // 30 minutes max per question
+  session_id: z.string().uuid('Invalid session ID'),
+  base_revision: z.number().int().min(0).optional(), // 0 = client saw no saved answer
+});
+
+export const resumeQuizAttemptSchema = z.object({
+  attempt_id: z.string().uuid('Invalid attempt ID'),
+  session_id: z.string().uuid('Invalid session ID'),
+  take_over: z.boolean().default(false),
 });
 
 export const submitQuizAttemptSchema = z.object({
   attempt_id: z.string().uuid('Invalid attempt ID'),
+  // Autosaved answers are already on the server, so the final submission may be empty
   responses: z.array(z.object({
     question_id: z.string().uuid('Invalid question ID'),
     answer: z.union([z.string(), z.array(z.string())]),
     time_spent: z.number().min(0).optional(),
-  })).min(1, 'At least one response is required'),
+  })).default([]),
   total_time_spent: z.number().min(0).max(28800), // 8 hours max
+  session_id: z.string().uuid('Invalid session ID').optional(),
 });
 
 // Assessment Query Schemas
@@ -141,42 +310,88 @@ export const createQuestionBankSchema = z.object({
   is_public: z.boolean().default(false),
 });
 
+export const createQuestionCategorySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  description: z.string().max(500, 'Description too long').default(''),
+  parent_id: z.string().uuid('Invalid parent category ID').optional(),
+});
+
+// Bank questions have no position; order is set when they are imported into an assessment
+export const createBankQuestionSchema = questionBaseSchema
+  .omit({ order_index: true })
+  .superRefine(validateDragDrop)
+  .superRefine(validateMultipleChoice);
+
+export const importBankQuestionsSchema = z.object({
+  bank_id: z.string().uuid('Invalid bank ID'),
+  question_ids: z.array(z.string().uuid('Invalid question ID')).min(1, 'Select at least one question').max(100, 'Cannot import more than 100 questions at once'),
+});
+
+export const createDrawSectionSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
+  bank_id: z.string().uuid('Invalid bank ID').optional(),
+  category_id: z.string().uuid('Invalid category ID').optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  tags: z.array(z.string()).default([]),
+  question_type: z.enum(['multiple_choice', 'true_false', 'fill_blank', 'essay', 'drag_drop']).optional(),
+  draw_count: z.number().int().min(1, 'Draw at least one question').max(100, 'Cannot draw more than 100 questions'),
+}).refine(
+  (section) => Boolean(section.bank_id || section.category_id),
+  { message: 'A bank or category is required', path: ['bank_id'] }
+);
+
 // Grading Schemas
+const rubricLevelSchema = z.object({
+  points: z.number().min(0),
+  description: z.string(),
+});
+
+export const rubricCriterionScoreSchema = z.object({
+  criterion_id: z.string().uuid('Invalid criterion ID'),
+  level: z.enum(['excellent', 'good', 'satisfactory', 'needs_improvement']).optional(),
+  points: z.number().min(0),
+  comment: z.string().max(1000, 'Comment too long').optional(),
+});
+
 export const manualGradingSchema = z.object({
   attempt_id: z.string().uuid('Invalid attempt ID'),
   question_responses: z.array(z.object({
     question_id: z.string().uuid('Invalid question ID'),
-    points_earned: z.number().min(0),
-    feedback: z.string().optional(),
-  })),
-  overall_feedback: z.string().optional(),
+    points_earned: z.number().min(0).optional(),
+    rubric_scores: z.array(rubricCriterionScoreSchema).min(1).optional(),
+    feedback: z.string().max(5000, 'Feedback too long').optional(),
+  }).refine(
+    (val) => val.points_earned !== undefined || val.rubric_scores !== undefined,
+    { message: 'Either points_earned or rubric_scores is required' }
+  )).default([]),
+  overall_feedback: z.string().max(5000, 'Feedback too long').optional(),
+  release: z.boolean().default(false),
+});
+
+export const gradingQueueQuerySchema = z.object({
+  assessment_id: z.string().uuid().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
 });
 
 export const rubricSchema = z.object({
   assessment_id: z.string().uuid('Invalid assessment ID'),
+  question_id: z.string().uuid('Invalid question ID').optional(),
   criteria: z.array(z.object({
+    id: z.string().uuid().optional(),
     name: z.string().min(1, 'Criterion name is required'),
     description: z.string().min(1, 'Criterion description is required'),
     max_points: z.number().min(1, 'Max points must be at least 1'),
     levels: z.object({
-      excellent: z.object({
-        points: z.number().min(0),
-        description: z.string(),
-      }),
-      good: z.object({
-        points: z.number().min(0),
-        description: z.string(),
-      }),
-      satisfactory: z.object({
-        points: z.number().min(0),
-        description: z.string(),
-      }),
-      needs_improvement: z.object({
-        points: z.number().min(0),
-        description: z.string(),
-      }),
+      excellent: rubricLevelSchema,
+      good: rubricLevelSchema,
+      satisfactory: rubricLevelSchema,
+      needs_improvement: rubricLevelSchema,
     }),
-  })).min(1, 'At least one criterion is required'),
+  }).refine(
+    (criterion) => Object.values(criterion.levels).every(level => level.points <= criterion.max_points),
+    { message: 'Level points cannot exceed the criterion max points' }
+  )).min(1, 'At least one criterion is required'),
 });
 
 // Anti-Cheating Schemas
@@ -201,10 +416,16 @@ export const browserSecuritySchema = z.object({
 // Adaptive Assessment Schemas
 export const adaptiveConfigSchema = z.object({
   assessment_id: z.string().uuid('Invalid assessment ID'),
-  max_questions: z.number().min(5).max(50).default(20),
-  min_questions: z.number().min(3).max(30).default(10),
-  confidence_threshold: z.number().min(0.1).max(1.0).default(0.95),
-  time_limit: z.number().min(5).max(240).default(60), // minutes
+  stopping_criteria: adaptiveStoppingCriteriaSchema,
+});
+
+// Answer to the question currently served by an adaptive attempt
+export const adaptiveAnswerSchema = z.object({
+  attempt_id: z.string().uuid('Invalid attempt ID'),
+  question_id: z.string().uuid('Invalid question ID'),
+  answer: z.union([z.string(), z.array(z.string())]),
+  time_spent: z.number().min(0).max(1800),
+  session_id: z.string().uuid('Invalid session ID'),
 });
 
 // Export types
@@ -215,13 +436,21 @@ export type UpdateQuestion = z.infer<typeof updateQuestionSchema>;
 export type StartQuizAttempt = z.infer<typeof startQuizAttemptSchema>;
 export type SubmitQuizResponse = z.infer<typeof submitQuizResponseSchema>;
 export type SubmitQuizAttempt = z.infer<typeof submitQuizAttemptSchema>;
+export type ResumeQuizAttempt = z.infer<typeof resumeQuizAttemptSchema>;
 export type AssessmentQuery = z.infer<typeof assessmentQuerySchema>;
 export type AttemptQuery = z.infer<typeof attemptQuerySchema>;
 export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
 export type QuestionBankQuery = z.infer<typeof questionBankQuerySchema>;
 export type CreateQuestionBank = z.infer<typeof createQuestionBankSchema>;
+export type CreateQuestionCategory = z.infer<typeof createQuestionCategorySchema>;
+export type CreateBankQuestion = z.infer<typeof createBankQuestionSchema>;
+export type ImportBankQuestions = z.infer<typeof importBankQuestionsSchema>;
+export type CreateDrawSection = z.infer<typeof createDrawSectionSchema>;
 export type ManualGrading = z.infer<typeof manualGradingSchema>;
+export type RubricCriterionScoreInput = z.infer<typeof rubricCriterionScoreSchema>;
+export type GradingQueueQuery = z.infer<typeof gradingQueueQuerySchema>;
 export type RubricDefinition = z.infer<typeof rubricSchema>;
 export type CheatingReport = z.infer<typeof cheatingReportSchema>;
 export type BrowserSecurityConfig = z.infer<typeof browserSecuritySchema>;
-export type AdaptiveConfig = z.infer<typeof adaptiveConfigSchema>;
\ No newline at end of file
+export type AdaptiveConfig = z.infer<typeof adaptiveConfigSchema>;
+export type AdaptiveAnswer = z.infer<typeof adaptiveAnswerSchema>;
\ No newline at end of file
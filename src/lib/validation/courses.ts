@@ -46,6 +46,9 @@ export const courseCreateSchema = z.object({
   certificate_enabled: z.boolean().default(true),
   has_assignments: z.boolean().default(false),
   has_quizzes: z.boolean().default(false),
+  // Cancellation/refund policy; omitted = platform default (14 days, 25% progress)
+  refund_window_days: z.number().int().min(0).max(365).optional(),
+  refund_max_progress: z.number().int().min(0).max(100).optional(),
 });
 
 // Course update schema (partial)
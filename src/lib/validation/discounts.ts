@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { STRIPE_CONFIG } from '@/lib/stripe';
+
+const codeSchema = z.string()
+  .trim()
+  .min(3)
+  .max(50)
+  .regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, numbers, dashes and underscores')
+  .transform(code => code.toUpperCase());
+
+// Base discount code schema (admin)
+const discountCodeBaseSchema = z.object({
+  code: codeSchema,
+  description: z.string().trim().max(500).optional(),
+  discount_type: z.enum(['percentage', 'fixed', 'free']),
+  percent_off: z.number().int().min(1).max(100).optional(),
+  amount_off: z.number().int().positive().optional(), // cents
+  currency: z.enum(['USD', 'EUR', 'GBP', 'TRY']).optional(),
+  applies_to: z.enum(['all', 'courses', 'bundles']),
+  course_ids: z.array(z.string().uuid()),
+  bundle_ids: z.array(z.string().uuid()),
+  max_redemptions: z.number().int().positive().nullable().optional(),
+  max_redemptions_per_user: z.number().int().positive(),
+  starts_at: z.string().datetime().nullable().optional(),
+  expires_at: z.string().datetime().nullable().optional(),
+  is_active: z.boolean(),
+});
+
+type DiscountCodeFields = Partial<z.infer<typeof discountCodeBaseSchema>>;
+
+const validateDiscountCode = (data: DiscountCodeFields, ctx: z.RefinementCtx) => {
+  if (data.discount_type === 'percentage' && !data.percent_off) {
+    ctx.addIssue({ code: 'custom', message: 'Percentage codes require percent_off', path: ['percent_off'] });
+  }
+
+  if (data.discount_type === 'fixed' && (!data.amount_off || !data.currency)) {
+    ctx.addIssue({ code: 'custom', message: 'Fixed codes require amount_off and currency', path: ['amount_off'] });
+  }
+
+  if (data.applies_to === 'courses' && data.course_ids?.length === 0) {
+    ctx.addIssue({ code: 'custom', message: 'Select at least one course', path: ['course_ids'] });
+  }
+
+  if (data.applies_to === 'bundles' && data.bundle_ids?.length === 0) {
+    ctx.addIssue({ code: 'custom', message: 'Select at least one bundle', path: ['bundle_ids'] });
+  }
+
+  if (data.starts_at && data.expires_at && new Date(data.starts_at) >= new Date(data.expires_at)) {
+    ctx.addIssue({ code: 'custom', message: 'expires_at must be after starts_at', path: ['expires_at'] });
+  }
+};
+
+export const createDiscountCodeSchema = discountCodeBaseSchema.extend({
+  applies_to: discountCodeBaseSchema.shape.applies_to.default('all'),
+  course_ids: discountCodeBaseSchema.shape.course_ids.default([]),
+  bundle_ids: discountCodeBaseSchema.shape.bundle_ids.default([]),
+  max_redemptions_per_user: discountCodeBaseSchema.shape.max_redemptions_per_user.default(1),
+  is_active: discountCodeBaseSchema.shape.is_active.default(true),
+}).superRefine(validateDiscountCode);
+
+// No defaults on update so omitted fields stay untouched; the code itself and its type
+// cannot change once it may have been redeemed
+export const updateDiscountCodeSchema = discountCodeBaseSchema
+  .omit({ code: true, discount_type: true })
+  .partial()
+  .superRefine(validateDiscountCode);
+
+// Admin list schema
+export const discountCodeQuerySchema = z.object({
+  status: z.enum(['all', 'active', 'inactive', 'expired']).default('all'),
+  search: z.string().trim().max(50).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(50).default(20),
+});
+
+// Checkout-time validation schema
+export const validateDiscountCodeSchema = z.object({
+  code: codeSchema,
+  courseId: z.string().uuid().optional(),
+  bundleId: z.string().uuid().optional(),
+  currency: z.enum(STRIPE_CONFIG.CURRENCIES).optional(),
+}).refine(data => !!data.courseId !== !!data.bundleId, {
+  message: 'Either courseId or bundleId is required',
+  path: ['courseId'],
+});
+
+// Types
+export type CreateDiscountCode = z.infer<typeof createDiscountCodeSchema>;
+export type UpdateDiscountCode = z.infer<typeof updateDiscountCodeSchema>;
+export type DiscountCodeQuery = z.infer<typeof discountCodeQuerySchema>;
+export type ValidateDiscountCode = z.infer<typeof validateDiscountCodeSchema>;
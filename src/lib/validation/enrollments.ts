@@ -3,7 +3,7 @@ import { z } from 'zod';
 // Enrollment request schema
 export const enrollmentRequestSchema = z.object({
   paymentIntentId: z.string().optional(),
-  paymentMethod: z.enum(['free', 'paid', 'coupon']).default('free'),
+  paymentMethod: z.enum(['free', 'paid', 'coupon', 'subscription']).default('free'),
   couponCode: z.string().min(3).max(50).optional(),
 });
 
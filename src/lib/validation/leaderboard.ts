@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// Leaderboard query schema
+export const leaderboardQuerySchema = z.object({
+  scope: z.enum(['global', 'course', 'cohort']).default('global'),
+  period: z.enum(['weekly', 'monthly', 'all_time']).default('weekly'),
+  course_id: z.string().uuid().optional(),
+  limit: z.coerce.number().min(1).max(100).default(20),
+}).refine(data => data.scope === 'global' || !!data.course_id, {
+  message: 'course_id is required for course and cohort leaderboards',
+  path: ['course_id'],
+});
+
+// Types
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
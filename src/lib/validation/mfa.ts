@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+// TOTP confirmation schema (6-digit authenticator code)
+export const mfaTotpCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+// Verification schema (authenticator code or recovery code)
+export const mfaVerifyCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Code is required').max(20),
+});
+
+// Types
+export type MfaTotpCode = z.infer<typeof mfaTotpCodeSchema>;
+export type MfaVerifyCode = z.infer<typeof mfaVerifyCodeSchema>;
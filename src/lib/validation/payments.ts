@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Mock provider confirmation: a card outcome, or the answer to a pending 3D Secure challenge
+export const mockPaymentConfirmSchema = z.object({
+  paymentIntentId: z.string().startsWith('pi_mock_'),
+  scenario: z.enum(['succeed', 'card_declined', 'insufficient_funds', 'requires_action']).optional(),
+  authentication: z.enum(['approve', 'reject']).optional(),
+}).refine(data => !(data.scenario && data.authentication), {
+  message: 'Send either scenario or authentication',
+  path: ['authentication'],
+});
+
+// Types
+export type MockPaymentConfirmInput = z.infer<typeof mockPaymentConfirmSchema>;
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { STRIPE_CONFIG } from '@/lib/stripe';
+
+const currencySchema = z.enum(STRIPE_CONFIG.CURRENCIES);
+
+// Admin: set the price of a course in one currency (amount in cents)
+export const coursePriceSchema = z.object({
+  currency: currencySchema,
+  amount: z.number().int().positive().max(100000000),
+});
+
+// Buyer currency preference (null = choose from location)
+export const currencyPreferenceSchema = z.object({
+  currency: currencySchema.nullable(),
+});
+
+// Types
+export type CoursePriceInput = z.infer<typeof coursePriceSchema>;
+export type CurrencyPreference = z.infer<typeof currencyPreferenceSchema>;
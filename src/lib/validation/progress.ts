@@ -38,10 +38,16 @@ export const instructorProgressQuerySchema = z.object({
   include_details: z.coerce.boolean().default(false),
 });
 
+// Progress history (chart series) query schema
+export const progressHistoryQuerySchema = z.object({
+  course_id: z.string().uuid().optional(),
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
 // Achievement query schema
 export const achievementQuerySchema = z.object({
   category: z.enum(['completion', 'performance', 'engagement', 'special', 'all']).default('all'),
-  earned: z.coerce.boolean().optional(),
+  earned: z.stringbool().optional(),
   course_id: z.string().uuid().optional(),
 });
 
@@ -76,6 +82,7 @@ export type ProgressUpdate = z.infer<typeof progressUpdateSchema>;
 export type QuizResultSubmission = z.infer<typeof quizResultSchema>;
 export type ProgressQuery = z.infer<typeof progressQuerySchema>;
 export type InstructorProgressQuery = z.infer<typeof instructorProgressQuerySchema>;
+export type ProgressHistoryQuery = z.infer<typeof progressHistoryQuerySchema>;
 export type AchievementQuery = z.infer<typeof achievementQuerySchema>;
 export type BatchLessonCompletion = z.infer<typeof batchLessonCompletionSchema>;
 export type AnalyticsRequest = z.infer<typeof analyticsRequestSchema>;
\ No newline at end of file
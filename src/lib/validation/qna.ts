@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+// New question schema (student)
+export const createQuestionSchema = z.object({
+  courseId: z.string().uuid('Invalid course ID'),
+  lessonId: z.string().uuid('Invalid lesson ID'),
+  question: z.string().trim().min(1, 'Soru metni boş olamaz').max(5000),
+  isPublic: z.boolean().default(true),
+});
+
+// Student question list schema
+export const studentQuestionQuerySchema = z.object({
+  courseId: z.string().uuid().optional(),
+  lessonId: z.string().uuid().optional(),
+  // 'mine' = only own questions, 'public' = own + public threads of the lesson/course
+  scope: z.enum(['mine', 'public']).default('mine'),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(50).default(10),
+});
+
+// Admin/instructor question list schema
+export const adminQuestionQuerySchema = z.object({
+  status: z.enum(['all', 'new', 'answered', 'hidden']).default('all'),
+  courseId: z.string().optional(),
+  search: z.string().trim().max(200).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(50).default(5),
+});
+
+// Status update schema
+export const questionStatusSchema = z.object({
+  status: z.enum(['new', 'answered', 'hidden']),
+});
+
+// Reply schema
+export const questionReplySchema = z.object({
+  reply: z.string().trim().min(1, 'Cevap metni boş olamaz').max(5000),
+});
+
+// Types
+export type CreateQuestionInput = z.infer<typeof createQuestionSchema>;
+export type StudentQuestionQuery = z.infer<typeof studentQuestionQuerySchema>;
+export type AdminQuestionQuery = z.infer<typeof adminQuestionQuerySchema>;
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Admin reconciliation request (ISO dates; to defaults to now)
+export const reconciliationRequestSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date().optional(),
+  repair: z.boolean().default(false),
+}).refine(data => !data.to || data.to > data.from, {
+  message: 'to must be after from',
+  path: ['to'],
+});
+
+// Types
+export type ReconciliationRequest = z.infer<typeof reconciliationRequestSchema>;
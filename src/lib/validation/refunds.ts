@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+// Admin refund request schema (amount in cents; omitted = refund the remaining balance)
+export const refundRequestSchema = z.object({
+  transactionId: z.string().uuid(),
+  amount: z.number().int().positive().optional(),
+  reason: z.enum(['requested_by_customer', 'duplicate', 'fraudulent', 'course_issue', 'other'])
+    .default('requested_by_customer'),
+  note: z.string().trim().max(1000).optional(),
+}).refine(data => data.reason !== 'other' || !!data.note, {
+  message: 'A note is required when the reason is other',
+  path: ['note'],
+});
+
+// Types
+export type RefundRequest = z.infer<typeof refundRequestSchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+// Create / edit review schema (student)
+export const reviewInputSchema = z.object({
+  rating: z.coerce.number().int().min(1, 'Rating must be between 1 and 5').max(5, 'Rating must be between 1 and 5'),
+  review: z.string().trim().max(5000).optional(),
+});
+
+// Public course review list schema
+export const reviewListQuerySchema = z.object({
+  sort: z.enum(['newest', 'helpful', 'rating_high', 'rating_low']).default('helpful'),
+  rating: z.coerce.number().int().min(1).max(5).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(50).default(10),
+});
+
+// Helpfulness vote schema
+export const reviewVoteSchema = z.object({
+  helpful: z.boolean(),
+});
+
+// Report schema
+export const reviewReportSchema = z.object({
+  reason: z.enum(['spam', 'offensive', 'irrelevant', 'other']),
+  details: z.string().trim().max(1000).optional(),
+});
+
+// Admin moderation queue schema
+export const moderationQueueQuerySchema = z.object({
+  status: z.enum(['all', 'pending', 'approved', 'rejected', 'reported']).default('pending'),
+  courseId: z.string().uuid().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(50).default(20),
+});
+
+// Moderation action schema (rejections must explain why)
+export const moderationActionSchema = z.object({
+  action: z.enum(['approve', 'reject', 'feature', 'unfeature']),
+  notes: z.string().trim().max(2000).optional(),
+}).refine(data => data.action !== 'reject' || !!data.notes, {
+  message: 'Moderator notes are required when rejecting a review',
+  path: ['notes'],
+});
+
+// Types
+export type ReviewInput = z.infer<typeof reviewInputSchema>;
+export type ReviewListQuery = z.infer<typeof reviewListQuerySchema>;
+export type ReviewReportInput = z.infer<typeof reviewReportSchema>;
+export type ModerationQueueQuery = z.infer<typeof moderationQueueQuerySchema>;
+export type ModerationAction = z.infer<typeof moderationActionSchema>;
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+const planEntitlementSchema = z.discriminatedUnion('entitlement_type', [
+  z.object({ entitlement_type: z.literal('all_courses') }),
+  z.object({ entitlement_type: z.literal('course'), course_id: z.string().uuid() }),
+  z.object({ entitlement_type: z.literal('category'), category: z.string().trim().min(1).max(100) }),
+]);
+
+// Replaces the full entitlement set of a plan
+export const planEntitlementsSchema = z.object({
+  entitlements: z.array(planEntitlementSchema).max(500),
+  grace_period_days: z.number().int().min(0).max(60).optional(),
+});
+
+// Types
+export type PlanEntitlementInput = z.infer<typeof planEntitlementSchema>;
+export type PlanEntitlementsInput = z.infer<typeof planEntitlementsSchema>;
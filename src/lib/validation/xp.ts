@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+const xpActivityTypeSchema = z.enum([
+  'lesson_completed',
+  'quiz_completed',
+  'assignment_submitted',
+  'course_completed',
+  'daily_login',
+  'streak_milestone',
+  'achievement_earned',
+  'material_completed',
+]);
+
+// XP rule schema (admin)
+export const createXpRuleSchema = z.object({
+  activity_type: xpActivityTypeSchema,
+  min_value: z.number().int().min(0).default(0),
+  xp: z.number().int().min(0).max(100000),
+  description: z.string().trim().max(200).nullable().optional(),
+  is_active: z.boolean().default(true),
+});
+
+// The band a rule covers is fixed; move it by creating a new rule
+export const updateXpRuleSchema = z.object({
+  xp: z.number().int().min(0).max(100000).optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+// XP history query schema
+export const xpHistoryQuerySchema = z.object({
+  activity_type: xpActivityTypeSchema.optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+// Types
+export type CreateXpRule = z.infer<typeof createXpRuleSchema>;
+export type UpdateXpRule = z.infer<typeof updateXpRuleSchema>;
+export type XpHistoryQuery = z.infer<typeof xpHistoryQuerySchema>;
@@ -0,0 +1,701 @@
+import { type Currency } from '@/lib/stripe';
+import {
+  upsertSubscription,
+  updatePaymentTransaction,
+  createPaymentTransaction,
+  createCoursePurchase,
+  getPaymentTransactionByStripeId,
+  logPaymentEvent,
+  type PaymentTransaction,
+} from '@/lib/payments';
+import { supabase } from '@/lib/supabase';
+import { DiscountService } from '@/services/discount-service';
+import { RefundService } from '@/services/refund-service';
+import { BundleService } from '@/services/bundle-service';
+import { InvoiceService } from '@/services/invoice-service';
+import { EntitlementService } from '@/services/entitlement-service';
+import Stripe from 'stripe';
+
+/**
+ * 7P Education - Stripe webhook event handlers
+ *
+ * Shared by the webhook endpoint and the replay of failed events (admin and cron).
+ */
+
+/**
+ * Apply a Stripe event to the platform. Handlers throw when the event could not be
+ * applied, so the caller can keep it for a retry.
+ */
+export async function processWebhookEvent(event: Stripe.Event) {
+  console.log(`Processing webhook event: ${event.type}`);
+
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent);
+      break;
+
+    case 'payment_intent.payment_failed':
+      await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
+      break;
+
+    case 'payment_intent.canceled':
+      await handlePaymentIntentCanceled(event.data.object as Stripe.PaymentIntent);
+      break;
+
+    case 'invoice.payment_succeeded':
+      await handleInvoicePaymentSucceeded(event.data.object as Stripe.Invoice);
+      break;
+
+    case 'invoice.payment_failed':
+      await handleInvoicePaymentFailed(event.data.object as Stripe.Invoice);
+      break;
+
+    case 'customer.subscription.created':
+      await handleSubscriptionCreated(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'customer.subscription.updated':
+      await handleSubscriptionUpdated(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'customer.subscription.deleted':
+      await handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'customer.subscription.trial_will_end':
+      await handleTrialWillEnd(event.data.object as Stripe.Subscription);
+      break;
+
+    case 'checkout.session.completed':
+      await handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session);
+      break;
+
+    case 'checkout.session.expired':
+      await handleCheckoutSessionExpired(event.data.object as Stripe.Checkout.Session);
+      break;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object as Stripe.Charge);
+      break;
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.closed':
+      await handleChargeDispute(event.data.object as Stripe.Dispute);
+      break;
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  try {
+    const transaction = await getPaymentTransactionByStripeId(paymentIntent.id);
+    
+    if (!transaction) {
+      // Checkout session payments are recorded by checkout.session.completed
+      console.error(`Transaction not found for payment intent: ${paymentIntent.id}`);
+      return;
+    }
+
+    if (transaction.status === 'succeeded') {
+      console.log(`Transaction ${transaction.id} already fulfilled, skipping`);
+      return;
+    }
+
+    // Fulfil before marking the transaction succeeded, so a failed fulfilment is retried
+    await fulfillPurchase(transaction, paymentIntent.id, paymentIntent.metadata?.courseIds);
+
+    // Update transaction status
+    await updatePaymentTransaction(transaction.id, {
+      status: 'succeeded',
+      stripe_charge_id: typeof paymentIntent.latest_charge === 'string'
+        ? paymentIntent.latest_charge
+        : paymentIntent.latest_charge?.id || null,
+    });
+
+    // The discount code use reserved at checkout now counts as redeemed
+    if (transaction.discount_code_id) {
+      const redemption = await DiscountService.getPendingRedemptionForTransaction(transaction.id);
+      if (redemption) {
+        await DiscountService.completeRedemption(redemption.id);
+      }
+    }
+
+    await issueInvoice(transaction.id);
+
+    await logPaymentEvent({
+      user_id: transaction.user_id,
+      transaction_id: transaction.id,
+      event_type: 'payment_succeeded',
+      message: `Payment succeeded for ${transaction.type}`,
+      metadata: {
+        paymentIntentId: paymentIntent.id,
+        amount: transaction.amount,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error handling payment intent succeeded:', error);
+    throw error;
+  }
+}
+
+/**
+ * Grant what a successful one-time payment bought: the course, or every course of the
+ * bundle not already owned at checkout (courseIds metadata). Safe to repeat for a retried event.
+ */
+async function fulfillPurchase(transaction: PaymentTransaction, paymentIntentId: string, courseIds?: string) {
+  if (transaction.type === 'course_purchase' && transaction.course_id) {
+    await createCoursePurchase({
+      user_id: transaction.user_id,
+      course_id: transaction.course_id,
+      transaction_id: transaction.id,
+      purchase_type: 'individual',
+      amount_paid: transaction.amount,
+      currency: transaction.currency,
+    });
+
+    // Automatically enroll user in the course
+    const { error: enrollmentError } = await supabase
+      .from('enrollments')
+      .upsert({
+        user_id: transaction.user_id,
+        course_id: transaction.course_id,
+        status: 'active',
+        payment_intent_id: paymentIntentId,
+        // Reopen a previously cancelled enrollment; the purchase replaces any subscription access
+        cancelled_at: null,
+        cancellation_reason: null,
+        subscription_id: null,
+      }, {
+        onConflict: 'user_id,course_id'
+      });
+
+    if (enrollmentError) {
+      throw new Error(`Failed to create enrollment: ${enrollmentError.message}`);
+    }
+
+  } else if (transaction.type === 'bundle_purchase' && transaction.bundle_id) {
+    const enrolledCourseIds = await BundleService.fulfillBundlePurchase(
+      transaction,
+      courseIds ? courseIds.split(',') : undefined
+    );
+
+    console.log(`Bundle ${transaction.bundle_id} granted ${enrolledCourseIds.length} courses`);
+  }
+}
+
+/**
+ * Invoice a succeeded transaction. An invoice failure must not fail the purchase; the
+ * invoice list issues missing ones.
+ */
+async function issueInvoice(transactionId: string) {
+  await InvoiceService.issueInvoice(transactionId)
+    .catch(error => console.error('Error issuing invoice:', error));
+}
+
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
+  try {
+    const transaction = await getPaymentTransactionByStripeId(paymentIntent.id);
+    
+    if (!transaction) {
+      console.error(`Transaction not found for payment intent: ${paymentIntent.id}`);
+      return;
+    }
+
+    // Update transaction status
+    await updatePaymentTransaction(transaction.id, {
+      status: 'failed',
+      failure_reason: paymentIntent.last_payment_error?.message || 'Payment failed',
+    });
+
+    await logPaymentEvent({
+      user_id: transaction.user_id,
+      transaction_id: transaction.id,
+      event_type: 'payment_failed',
+      message: `Payment failed for ${transaction.type}`,
+      metadata: {
+        paymentIntentId: paymentIntent.id,
+        failureReason: paymentIntent.last_payment_error?.message,
+      },
+      level: 'error',
+    });
+
+  } catch (error) {
+    console.error('Error handling payment intent failed:', error);
+    throw error;
+  }
+}
+
+async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent) {
+  try {
+    const transaction = await getPaymentTransactionByStripeId(paymentIntent.id);
+
+    if (!transaction) {
+      console.error(`Transaction not found for payment intent: ${paymentIntent.id}`);
+      return;
+    }
+
+    await updatePaymentTransaction(transaction.id, {
+      status: 'canceled',
+    });
+
+    // Give the reserved discount code use back
+    if (transaction.discount_code_id) {
+      const redemption = await DiscountService.getPendingRedemptionForTransaction(transaction.id);
+      if (redemption) {
+        await DiscountService.voidRedemption(redemption.id);
+      }
+    }
+
+    await logPaymentEvent({
+      user_id: transaction.user_id,
+      transaction_id: transaction.id,
+      event_type: 'payment_canceled',
+      message: `Payment canceled for ${transaction.type}`,
+      metadata: {
+        paymentIntentId: paymentIntent.id,
+        cancellationReason: paymentIntent.cancellation_reason,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error handling payment intent canceled:', error);
+    throw error;
+  }
+}
+
+async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
+  try {
+    // Get customer info to find user_id
+    const { stripe } = await import('@/lib/stripe');
+    const customer = await stripe.customers.retrieve(subscription.customer as string);
+    
+    if (!customer || customer.deleted) {
+      console.error('Customer not found for subscription:', subscription.id);
+      return;
+    }
+
+    // Find user by email or customer metadata
+    const { data: stripeCustomer } = await supabase
+      .from('stripe_customers')
+      .select('user_id')
+      .eq('stripe_customer_id', customer.id)
+      .single();
+
+    if (!stripeCustomer) {
+      console.error('User not found for customer:', customer.id);
+      return;
+    }
+
+    // Find the subscription plan
+    const { data: plan } = await supabase
+      .from('subscription_plans')
+      .select('id')
+      .eq('stripe_price_id', subscription.items.data[0].price.id)
+      .single();
+
+    if (!plan) {
+      console.error('Subscription plan not found for price:', subscription.items.data[0].price.id);
+      return;
+    }
+
+    // Create subscription record
+    await upsertSubscription({
+      user_id: stripeCustomer.user_id,
+      stripe_subscription_id: subscription.id,
+      stripe_customer_id: customer.id,
+      plan_id: plan.id,
+      status: subscription.status,
+      current_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
+      current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+      trial_start: subscription.trial_start 
+        ? new Date(subscription.trial_start * 1000).toISOString() 
+        : undefined,
+      trial_end: subscription.trial_end 
+        ? new Date(subscription.trial_end * 1000).toISOString() 
+        : undefined,
+      cancel_at_period_end: subscription.cancel_at_period_end,
+    });
+
+    await logPaymentEvent({
+      user_id: stripeCustomer.user_id,
+      event_type: 'subscription_created',
+      message: 'Subscription created',
+      metadata: {
+        subscriptionId: subscription.id,
+        planId: plan.id,
+        status: subscription.status,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error handling subscription created:', error);
+    throw error;
+  }
+}
+
+async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
+  try {
+    // Find existing subscription record
+    const { data: existingSubscription } = await supabase
+      .from('subscriptions')
+      .select('id, user_id, plan_id')
+      .eq('stripe_subscription_id', subscription.id)
+      .single();
+
+    if (!existingSubscription) {
+      console.error('Subscription record not found:', subscription.id);
+      return;
+    }
+
+    // Update subscription record
+    const { error } = await supabase
+      .from('subscriptions')
+      .update({
+        status: subscription.status,
+        current_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
+        current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+        canceled_at: subscription.canceled_at 
+          ? new Date(subscription.canceled_at * 1000).toISOString() 
+          : null,
+        cancel_at_period_end: subscription.cancel_at_period_end,
+      })
+      .eq('stripe_subscription_id', subscription.id);
+
+    if (error) {
+      console.error('Error updating subscription:', error);
+    }
+
+    // Cancel or reopen the course enrollments the subscription opened
+    await EntitlementService.syncSubscriptionEnrollments(existingSubscription.id);
+
+    await logPaymentEvent({
+      user_id: existingSubscription.user_id,
+      event_type: 'subscription_updated',
+      message: 'Subscription updated',
+      metadata: {
+        subscriptionId: subscription.id,
+        status: subscription.status,
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error handling subscription updated:', error);
+    throw error;
+  }
+}
+
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
+  try {
+    // Find existing subscription record
+    const { data: existingSubscription } = await supabase
+      .from('subscriptions')
+      .select('id, user_id')
+      .eq('stripe_subscription_id', subscription.id)
+      .single();
+
+    if (!existingSubscription) {
+      console.error('Subscription record not found:', subscription.id);
+      return;
+    }
+
+    // Update subscription status
+    const { error } = await supabase
+      .from('subscriptions')
+      .update({
+        status: 'canceled',
+        canceled_at: new Date().toISOString(),
+      })
+      .eq('stripe_subscription_id', subscription.id);
+
+    if (error) {
+      console.error('Error updating canceled subscription:', error);
+    }
+
+    // Courses opened through the subscription are no longer accessible
+    await EntitlementService.syncSubscriptionEnrollments(existingSubscription.id);
+
+    await logPaymentEvent({
+      user_id: existingSubscription.user_id,
+      event_type: 'subscription_canceled',
+      message: 'Subscription canceled',
+      metadata: {
+        subscriptionId: subscription.id,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error handling subscription deleted:', error);
+    throw error;
+  }
+}
+
+async function handleTrialWillEnd(subscription: Stripe.Subscription) {
+  try {
+    // Find existing subscription record
+    const { data: existingSubscription } = await supabase
+      .from('subscriptions')
+      .select('user_id')
+      .eq('stripe_subscription_id', subscription.id)
+      .single();
+
+    if (!existingSubscription) {
+      console.error('Subscription record not found:', subscription.id);
+      return;
+    }
+
+    await logPaymentEvent({
+      user_id: existingSubscription.user_id,
+      event_type: 'trial_will_end',
+      message: 'Trial period will end soon',
+      metadata: {
+        subscriptionId: subscription.id,
+        trialEnd: subscription.trial_end,
+      },
+    });
+
+    // Here you could send email notifications or other actions
+
+  } catch (error) {
+    console.error('Error handling trial will end:', error);
+    throw error;
+  }
+}
+
+async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session) {
+  try {
+    if (session.mode === 'subscription') {
+      // Subscription checkout completed - subscription.created event will handle database updates
+      console.log('Subscription checkout completed:', session.id);
+    } else if (session.mode === 'payment') {
+      await fulfillCheckoutPayment(session);
+    }
+
+    if (session.metadata?.discountRedemptionId) {
+      await DiscountService.completeRedemption(session.metadata.discountRedemptionId);
+    }
+
+    // Log the checkout completion
+    if (session.metadata?.userId) {
+      await logPaymentEvent({
+        user_id: session.metadata.userId,
+        event_type: 'checkout_completed',
+        message: `Checkout session completed (${session.mode})`,
+        metadata: {
+          sessionId: session.id,
+          mode: session.mode,
+          amountTotal: session.amount_total,
+        },
+      });
+    }
+
+  } catch (error) {
+    console.error('Error handling checkout session completed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Record and fulfill a paid one-time checkout session. Checkout sessions have no
+ * transaction up front, so payment_intent.succeeded cannot fulfill them on its own.
+ */
+async function fulfillCheckoutPayment(session: Stripe.Checkout.Session) {
+  const paymentIntentId = typeof session.payment_intent === 'string'
+    ? session.payment_intent
+    : session.payment_intent?.id;
+  const metadata = session.metadata || {};
+
+  if (session.payment_status !== 'paid' || !paymentIntentId || !metadata.userId) {
+    console.log('Payment checkout completed without a settled payment:', session.id);
+    return;
+  }
+
+  const existing = await getPaymentTransactionByStripeId(paymentIntentId);
+  if (existing?.status === 'succeeded') {
+    return;
+  }
+
+  // Recorded as processing until fulfilled, so a failed fulfilment is retried
+  const transaction = existing ?? await createPaymentTransaction({
+    user_id: metadata.userId,
+    stripe_payment_intent_id: paymentIntentId,
+    type: metadata.type === 'bundle_purchase' ? 'bundle_purchase' : 'course_purchase',
+    status: 'processing',
+    amount: session.amount_total || 0,
+    currency: (session.currency || 'usd').toUpperCase() as Currency,
+    description: `Checkout session ${session.id}`,
+    course_id: metadata.courseId || undefined,
+    bundle_id: metadata.bundleId || undefined,
+    discount_code_id: metadata.discountCodeId || undefined,
+  });
+
+  if (metadata.discountRedemptionId) {
+    await DiscountService.attachTransaction(metadata.discountRedemptionId, transaction.id);
+  }
+
+  await fulfillPurchase(
+    transaction,
+    paymentIntentId,
+    metadata.type === 'bundle_purchase' ? metadata.courseIds : undefined
+  );
+
+  await updatePaymentTransaction(transaction.id, { status: 'succeeded' });
+  await issueInvoice(transaction.id);
+}
+
+async function handleCheckoutSessionExpired(session: Stripe.Checkout.Session) {
+  try {
+    // Abandoned checkout: give the reserved discount code use back
+    if (session.metadata?.discountRedemptionId) {
+      await DiscountService.voidRedemption(session.metadata.discountRedemptionId);
+    }
+
+    if (session.metadata?.userId) {
+      await logPaymentEvent({
+        user_id: session.metadata.userId,
+        event_type: 'checkout_expired',
+        message: `Checkout session expired (${session.mode})`,
+        metadata: {
+          sessionId: session.id,
+          discountRedemptionId: session.metadata.discountRedemptionId || null,
+        },
+      });
+    }
+
+  } catch (error) {
+    console.error('Error handling checkout session expired:', error);
+    throw error;
+  }
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  try {
+    await RefundService.syncChargeRefunds(charge);
+    console.log('Charge refund synced:', charge.id, charge.amount_refunded);
+  } catch (error) {
+    console.error('Error handling charge refunded:', error);
+    throw error;
+  }
+}
+
+async function handleChargeDispute(dispute: Stripe.Dispute) {
+  try {
+    const transaction = await RefundService.syncDispute(dispute);
+
+    if (transaction) {
+      await logPaymentEvent({
+        user_id: transaction.user_id,
+        transaction_id: transaction.id,
+        event_type: `dispute_${dispute.status}`,
+        message: `Charge dispute ${dispute.status} (${dispute.reason})`,
+        metadata: {
+          disputeId: dispute.id,
+          chargeId: dispute.charge,
+          amount: dispute.amount,
+          reason: dispute.reason,
+          status: dispute.status,
+        },
+        level: dispute.status === 'won' ? 'info' : 'warning',
+      });
+    }
+  } catch (error) {
+    console.error('Error handling charge dispute:', error);
+    throw error;
+  }
+}
+
+async function handleInvoicePaymentSucceeded(invoice: Stripe.Invoice) {
+  try {
+    if (!invoice.subscription) {
+      return; // Not a subscription invoice
+    }
+
+    // Find subscription record
+    const { data: subscription } = await supabase
+      .from('subscriptions')
+      .select('user_id')
+      .eq('stripe_subscription_id', invoice.subscription)
+      .single();
+
+    if (!subscription) {
+      console.error('Subscription not found for invoice:', invoice.id);
+      return;
+    }
+
+    // Create invoice record
+    const { error } = await supabase
+      .from('invoices')
+      .insert({
+        user_id: subscription.user_id,
+        stripe_invoice_id: invoice.id,
+        subscription_id: invoice.subscription as string,
+        status: invoice.status || 'paid',
+        amount_paid: invoice.amount_paid || 0,
+        amount_due: invoice.amount_due || 0,
+        currency: invoice.currency || 'usd',
+        invoice_pdf_url: invoice.invoice_pdf,
+        hosted_invoice_url: invoice.hosted_invoice_url,
+        invoice_date: new Date(invoice.created * 1000).toISOString(),
+        due_date: invoice.due_date ? new Date(invoice.due_date * 1000).toISOString() : null,
+        paid_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      console.error('Error creating invoice record:', error);
+    }
+
+    await logPaymentEvent({
+      user_id: subscription.user_id,
+      event_type: 'invoice_payment_succeeded',
+      message: 'Invoice payment succeeded',
+      metadata: {
+        invoiceId: invoice.id,
+        subscriptionId: invoice.subscription,
+        amountPaid: invoice.amount_paid,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error handling invoice payment succeeded:', error);
+    throw error;
+  }
+}
+
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
+  try {
+    if (!invoice.subscription) {
+      return; // Not a subscription invoice
+    }
+
+    // Find subscription record
+    const { data: subscription } = await supabase
+      .from('subscriptions')
+      .select('user_id')
+      .eq('stripe_subscription_id', invoice.subscription)
+      .single();
+
+    if (!subscription) {
+      console.error('Subscription not found for invoice:', invoice.id);
+      return;
+    }
+
+    await logPaymentEvent({
+      user_id: subscription.user_id,
+      event_type: 'invoice_payment_failed',
+      message: 'Invoice payment failed',
+      metadata: {
+        invoiceId: invoice.id,
+        subscriptionId: invoice.subscription,
+        amountDue: invoice.amount_due,
+      },
+      level: 'error',
+    });
+
+  } catch (error) {
+    console.error('Error handling invoice payment failed:', error);
+    throw error;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,387 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import { StreakService } from '@/services/streak-service';
+import {
+  Achievement,
+  AchievementCounters,
+  AchievementMetric,
+  AchievementProgress,
+  AchievementRule,
+  AchievementRuleResult,
+  BadgeCriteria,
+  LearningActivity,
+  UserAchievement
+} from '@/types/progress';
+
+// Counters an activity can move; only rules over these are re-evaluated for it
+const ACTIVITY_METRICS: Record<LearningActivity['type'], AchievementMetric[]> = {
+  lesson_completed: ['lessons_completed', 'courses_completed', 'quizzes_completed', 'quiz_average', 'best_quiz_score', 'study_minutes'],
+  quiz_completed: ['quizzes_completed', 'quiz_average', 'best_quiz_score', 'study_minutes'],
+  course_completed: ['courses_completed'],
+  assignment_submitted: [],
+  daily_login: ['streak_days'],
+  streak_milestone: ['streak_days']
+};
+
+// Legacy type/threshold criteria as a single condition; 'special' badges are awarded by hand
+const LEGACY_CRITERIA_METRICS: Partial<Record<BadgeCriteria['type'], AchievementMetric>> = {
+  completion: 'lessons_completed',
+  score: 'best_quiz_score',
+  time: 'study_minutes',
+  streak: 'streak_days'
+};
+
+interface CounterScope {
+  courseId?: string;
+  timeframe?: number; // days
+}
+
+interface EarnedAchievement {
+  achievement_id: string;
+  course_id: string | null;
+  earned_at: string;
+}
+
+export class AchievementService {
+  /**
+   * Rule an achievement is evaluated with, or null when it is never awarded automatically
+   */
+  static ruleFor(criteria: BadgeCriteria): AchievementRule | null {
+    if (criteria.rule) {
+      return criteria.rule;
+    }
+
+    const metric = LEGACY_CRITERIA_METRICS[criteria.type];
+    return metric ? { metric, min: criteria.threshold } : null;
+  }
+
+  static ruleMetrics(rule: AchievementRule): AchievementMetric[] {
+    if ('all' in rule) {
+      return rule.all.flatMap(child => this.ruleMetrics(child));
+    }
+    if ('any' in rule) {
+      return rule.any.flatMap(child => this.ruleMetrics(child));
+    }
+    return [rule.metric];
+  }
+
+  /**
+   * Evaluate a rule against counters. A condition's progress is how far the counter is
+   * towards its minimum; `all` averages its parts and `any` takes the closest one.
+   */
+  static evaluateRule(rule: AchievementRule, counters: Partial<AchievementCounters>): AchievementRuleResult {
+    if ('all' in rule) {
+      const results = rule.all.map(child => this.evaluateRule(child, counters));
+      const met = results.every(result => result.met);
+      const progress = results.length > 0
+        ? results.reduce((sum, result) => sum + result.progress, 0) / results.length
+        : 100;
+
+      return { met, progress: met ? 100 : Math.min(99, Math.floor(progress)) };
+    }
+
+    if ('any' in rule) {
+      const results = rule.any.map(child => this.evaluateRule(child, counters));
+      const met = results.some(result => result.met);
+
+      return { met, progress: met ? 100 : Math.max(0, ...results.map(result => result.progress)) };
+    }
+
+    const value = counters[rule.metric] ?? 0;
+    const met = value >= rule.min;
+
+    return {
+      met,
+      progress: met || rule.min <= 0 ? 100 : Math.min(99, Math.floor((value / rule.min) * 100))
+    };
+  }
+
+  /**
+   * Longest run of consecutive calendar days
+   */
+  static longestRun(dates: string[]): number {
+    const sorted = [...new Set(dates)].sort();
+    let longest = 0;
+    let run = 0;
+
+    sorted.forEach((date, index) => {
+      run = index > 0 && StreakService.daysBetween(sorted[index - 1], date) === 1 ? run + 1 : 1;
+      longest = Math.max(longest, run);
+    });
+
+    return longest;
+  }
+
+  /**
+   * Award the achievements an activity completes. Only unearned achievements whose rule
+   * reads a counter the activity can move are evaluated; course-specific achievements
+   * are evaluated for the activity's course.
+   */
+  static async evaluateActivity(userId: string, activity: LearningActivity): Promise<UserAchievement[]> {
+    const metrics = ACTIVITY_METRICS[activity.type];
+    if (metrics.length === 0) {
+      return [];
+    }
+
+    const supabase = createServiceClient();
+    const [achievements, earned] = await Promise.all([
+      this.getActiveAchievements(),
+      this.getEarned(userId)
+    ]);
+
+    const counterCache = new Map<string, Promise<AchievementCounters>>();
+    const newAchievements: UserAchievement[] = [];
+
+    for (const achievement of achievements) {
+      const rule = this.ruleFor(achievement.criteria);
+      if (!rule || !this.ruleMetrics(rule).some(metric => metrics.includes(metric))) {
+        continue;
+      }
+
+      const courseId = achievement.criteria.course_specific ? activity.courseId : undefined;
+      if (achievement.criteria.course_specific && !courseId) {
+        continue;
+      }
+
+      const alreadyEarned = earned.some(item =>
+        item.achievement_id === achievement.id && (item.course_id ?? undefined) === courseId
+      );
+      if (alreadyEarned) {
+        continue;
+      }
+
+      const counters = await this.getCountersCached(counterCache, userId, {
+        courseId,
+        timeframe: achievement.criteria.timeframe
+      });
+
+      const result = this.evaluateRule(rule, counters);
+      if (!result.met) {
+        continue;
+      }
+
+      const { data: userAchievement, error } = await supabase
+        .from('user_achievements')
+        .insert({
+          user_id: userId,
+          achievement_id: achievement.id,
+          course_id: courseId ?? null,
+          achievement_type: achievement.category,
+          achievement_name: achievement.name,
+          achievement_description: achievement.description,
+          points_earned: achievement.points,
+          progress_value: result.progress,
+          earned_at: new Date().toISOString()
+        })
+        .select(`
+          *,
+          achievement:achievements(*)
+        `)
+        .single();
+
+      if (error) {
+        // Awarded by a concurrent activity
+        if (error.code === '23505') {
+          continue;
+        }
+        throw new Error(`Failed to award achievement: ${error.message}`);
+      }
+
+      newAchievements.push(userAchievement);
+    }
+
+    return newAchievements;
+  }
+
+  /**
+   * Progress towards every automatically awarded achievement. Course-specific
+   * achievements are only included when a course is given.
+   */
+  static async getAchievementProgress(userId: string, courseId?: string): Promise<AchievementProgress[]> {
+    const [achievements, earned] = await Promise.all([
+      this.getActiveAchievements(),
+      this.getEarned(userId)
+    ]);
+
+    const counterCache = new Map<string, Promise<AchievementCounters>>();
+    const progress: AchievementProgress[] = [];
+
+    for (const achievement of achievements) {
+      const rule = this.ruleFor(achievement.criteria);
+      if (!rule) {
+        continue;
+      }
+
+      const scopeCourseId = achievement.criteria.course_specific ? courseId : undefined;
+      if (achievement.criteria.course_specific && !scopeCourseId) {
+        continue;
+      }
+
+      const earnedItem = earned.find(item =>
+        item.achievement_id === achievement.id && (item.course_id ?? undefined) === scopeCourseId
+      );
+
+      const counters = await this.getCountersCached(counterCache, userId, {
+        courseId: scopeCourseId,
+        timeframe: achievement.criteria.timeframe
+      });
+      const metrics = new Set(this.ruleMetrics(rule));
+
+      progress.push({
+        achievement_id: achievement.id,
+        achievement,
+        course_id: scopeCourseId,
+        earned_at: earnedItem?.earned_at ?? null,
+        progress_value: earnedItem ? 100 : this.evaluateRule(rule, counters).progress,
+        counters: Object.fromEntries(
+          [...metrics].map(metric => [metric, counters[metric]])
+        ) as Partial<AchievementCounters>
+      });
+    }
+
+    return progress;
+  }
+
+  /**
+   * Counters for a user, optionally limited to a course and to the last `timeframe` days
+   */
+  static async getCounters(userId: string, scope: CounterScope = {}): Promise<AchievementCounters> {
+    const supabase = createServiceClient();
+    const since = scope.timeframe
+      ? new Date(Date.now() - scope.timeframe * 86400000).toISOString()
+      : null;
+    const inTimeframe = (timestamp: string | null | undefined) =>
+      !!timestamp && (!since || timestamp >= since);
+
+    let lessonQuery = supabase
+      .from('lesson_progress')
+      .select('completed_at, quiz_score, time_spent_minutes, updated_at')
+      .eq('user_id', userId);
+
+    let enrollmentQuery = supabase
+      .from('enrollments')
+      .select('completed_at')
+      .eq('user_id', userId)
+      .not('completed_at', 'is', null);
+
+    if (scope.courseId) {
+      lessonQuery = lessonQuery.eq('course_id', scope.courseId);
+      enrollmentQuery = enrollmentQuery.eq('course_id', scope.courseId);
+    }
+
+    const [lessons, enrollments, streakDays] = await Promise.all([
+      lessonQuery.overrideTypes<Array<{
+        completed_at: string | null;
+        quiz_score: number | null;
+        time_spent_minutes: number;
+        updated_at: string;
+      }>, { merge: false }>(),
+      enrollmentQuery.overrideTypes<Array<{ completed_at: string }>, { merge: false }>(),
+      this.getStreakDays(userId, scope.timeframe)
+    ]);
+
+    if (lessons.error) {
+      throw new Error(`Failed to fetch lesson progress: ${lessons.error.message}`);
+    }
+    if (enrollments.error) {
+      throw new Error(`Failed to fetch enrollments: ${enrollments.error.message}`);
+    }
+
+    const lessonRows = lessons.data || [];
+    const quizScores = lessonRows
+      .filter(row => row.quiz_score !== null && inTimeframe(row.updated_at))
+      .map(row => row.quiz_score as number);
+
+    return {
+      lessons_completed: lessonRows.filter(row => inTimeframe(row.completed_at)).length,
+      courses_completed: (enrollments.data || []).filter(row => inTimeframe(row.completed_at)).length,
+      quizzes_completed: quizScores.length,
+      quiz_average: quizScores.length > 0
+        ? Math.round(quizScores.reduce((sum, score) => sum + score, 0) / quizScores.length)
+        : 0,
+      best_quiz_score: quizScores.length > 0 ? Math.round(Math.max(...quizScores)) : 0,
+      study_minutes: lessonRows
+        .filter(row => inTimeframe(row.updated_at))
+        .reduce((sum, row) => sum + (row.time_spent_minutes || 0), 0),
+      streak_days: streakDays
+    };
+  }
+
+  private static getCountersCached(
+    cache: Map<string, Promise<AchievementCounters>>,
+    userId: string,
+    scope: CounterScope
+  ): Promise<AchievementCounters> {
+    const key = `${scope.courseId ?? ''}:${scope.timeframe ?? ''}`;
+
+    if (!cache.has(key)) {
+      cache.set(key, this.getCounters(userId, scope));
+    }
+
+    return cache.get(key)!;
+  }
+
+  /**
+   * Longest streak ever, or the longest run of streak days (frozen ones included) inside
+   * the timeframe
+   */
+  private static async getStreakDays(userId: string, timeframe?: number): Promise<number> {
+    const supabase = createServiceClient();
+
+    if (!timeframe) {
+      const { data } = await supabase
+        .from('learning_streaks')
+        .select('longest_streak')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      return data?.longest_streak ?? 0;
+    }
+
+    const since = new Date(Date.now() - timeframe * 86400000).toISOString().slice(0, 10);
+    const { data, error } = await supabase
+      .from('learning_streak_days')
+      .select('activity_date')
+      .eq('user_id', userId)
+      .gte('activity_date', since)
+      .overrideTypes<Array<{ activity_date: string }>, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch streak days: ${error.message}`);
+    }
+
+    return this.longestRun((data || []).map(day => day.activity_date));
+  }
+
+  private static async getActiveAchievements(): Promise<Achievement[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('achievements')
+      .select('*')
+      .eq('is_active', true)
+      .overrideTypes<Achievement[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch achievements: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  private static async getEarned(userId: string): Promise<EarnedAchievement[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('achievement_id, course_id, earned_at')
+      .eq('user_id', userId)
+      .not('achievement_id', 'is', null)
+      .overrideTypes<EarnedAchievement[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch earned achievements: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
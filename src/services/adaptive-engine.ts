@@ -0,0 +1,212 @@
+import {
+  Question,
+  DifficultyLevel,
+  AdaptiveAssessment,
+  AdaptiveItemResult,
+  AdaptiveStopReason,
+  AdaptiveStoppingCriteria
+} from '@/types/assessment';
+
+// Rasch difficulty parameter per level, on the same logit scale as the ability estimate
+const DIFFICULTY_PARAMETERS: Record<DifficultyLevel, number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1
+};
+
+// Ability estimates are kept within a plausible range so all-correct or all-wrong runs stay finite
+const ABILITY_BOUND = 4;
+
+// z value for the reported 95% confidence interval
+const CONFIDENCE_Z = 1.96;
+
+/**
+ * Computerized adaptive testing on a Rasch (1PL) model. Ability is a MAP estimate with a
+ * standard normal prior, so it is defined from the first answer onwards.
+ */
+export class AdaptiveEngine {
+  /**
+   * Initial state before the first answer: average ability, first question at medium difficulty
+   */
+  static initialState(
+    assessmentId: string,
+    userId: string,
+    criteria: AdaptiveStoppingCriteria,
+    pool: Question[],
+    random: () => number = Math.random
+  ): AdaptiveAssessment {
+    const state: AdaptiveAssessment = {
+      assessment_id: assessmentId,
+      user_id: userId,
+      current_difficulty: 'medium',
+      ability_estimate: 0,
+      standard_error: 1,
+      confidence_interval: CONFIDENCE_Z,
+      stopping_criteria: criteria,
+      completed_questions: [],
+      remaining_questions: pool.map(question => question.id),
+      item_results: []
+    };
+
+    return this.advance(state, pool, 0, random);
+  }
+
+  /**
+   * Record an answer, re-estimate ability and either pick the next question or stop
+   */
+  static recordAnswer(
+    state: AdaptiveAssessment,
+    pool: Question[],
+    result: AdaptiveItemResult,
+    elapsedMinutes: number,
+    random: () => number = Math.random
+  ): AdaptiveAssessment {
+    const itemResults = [...state.item_results, result];
+    const { ability, standardError } = this.estimateAbility(itemResults);
+
+    return this.advance({
+      ...state,
+      ability_estimate: ability,
+      standard_error: standardError,
+      confidence_interval: this.round(CONFIDENCE_Z * standardError),
+      completed_questions: [...state.completed_questions, result.question_id],
+      remaining_questions: state.remaining_questions.filter(id => id !== result.question_id),
+      item_results: itemResults
+    }, pool, elapsedMinutes, random);
+  }
+
+  /**
+   * Close the state early (manual submission or timer expiry)
+   */
+  static stop(state: AdaptiveAssessment, reason: AdaptiveStopReason): AdaptiveAssessment {
+    const stopped = { ...state, stop_reason: state.stop_reason ?? reason };
+    delete stopped.next_question_id;
+    return stopped;
+  }
+
+  /**
+   * Probability of a correct answer under the Rasch model
+   */
+  static probabilityCorrect(ability: number, difficulty: DifficultyLevel): number {
+    return 1 / (1 + Math.exp(-(ability - DIFFICULTY_PARAMETERS[difficulty])));
+  }
+
+  /**
+   * MAP ability estimate (Newton-Raphson) and its standard error
+   */
+  static estimateAbility(results: AdaptiveItemResult[]): { ability: number; standardError: number } {
+    let ability = 0;
+    let information = 1;
+
+    for (let iteration = 0; iteration < 25; iteration++) {
+      // The N(0, 1) prior contributes -ability to the slope and 1 to the information
+      let slope = -ability;
+      information = 1;
+
+      for (const result of results) {
+        const p = this.probabilityCorrect(ability, result.difficulty);
+        slope += (result.correct ? 1 : 0) - p;
+        information += p * (1 - p);
+      }
+
+      const step = slope / information;
+      ability = Math.max(-ABILITY_BOUND, Math.min(ABILITY_BOUND, ability + step));
+
+      if (Math.abs(step) < 0.001) {
+        break;
+      }
+    }
+
+    return {
+      ability: this.round(ability),
+      standardError: this.round(1 / Math.sqrt(information))
+    };
+  }
+
+  /**
+   * Reason to end the test, or null to continue
+   */
+  static stopReason(state: AdaptiveAssessment, elapsedMinutes: number): AdaptiveStopReason | null {
+    const criteria = state.stopping_criteria;
+    const answered = state.completed_questions.length;
+
+    if (answered >= criteria.max_questions) {
+      return 'max_questions';
+    }
+
+    if (state.remaining_questions.length === 0) {
+      return 'pool_exhausted';
+    }
+
+    if (elapsedMinutes >= criteria.time_limit) {
+      return 'time_limit';
+    }
+
+    // With a unit-variance prior, reliability is 1 - SE²
+    const reliability = 1 - state.standard_error ** 2;
+    if (answered >= criteria.min_questions && reliability >= criteria.confidence_threshold) {
+      return 'confidence';
+    }
+
+    return null;
+  }
+
+  /**
+   * Difficulty level closest to the ability estimate, i.e. the most informative one
+   */
+  static targetDifficulty(ability: number): DifficultyLevel {
+    return (Object.keys(DIFFICULTY_PARAMETERS) as DifficultyLevel[]).reduce((best, level) =>
+      Math.abs(DIFFICULTY_PARAMETERS[level] - ability) < Math.abs(DIFFICULTY_PARAMETERS[best] - ability)
+        ? level
+        : best
+    );
+  }
+
+  /**
+   * Pick a random remaining question at the most informative level available
+   */
+  static selectNextQuestion(
+    ability: number,
+    pool: Question[],
+    remainingIds: string[],
+    random: () => number = Math.random
+  ): Question | null {
+    const remaining = pool.filter(question => remainingIds.includes(question.id));
+    if (remaining.length === 0) {
+      return null;
+    }
+
+    const distance = (question: Question) => Math.abs(DIFFICULTY_PARAMETERS[question.difficulty] - ability);
+    const closest = Math.min(...remaining.map(distance));
+    const candidates = remaining.filter(question => distance(question) === closest);
+
+    return candidates[Math.floor(random() * candidates.length)];
+  }
+
+  private static advance(
+    state: AdaptiveAssessment,
+    pool: Question[],
+    elapsedMinutes: number,
+    random: () => number
+  ): AdaptiveAssessment {
+    const reason = this.stopReason(state, elapsedMinutes);
+    if (reason) {
+      return this.stop(state, reason);
+    }
+
+    const next = this.selectNextQuestion(state.ability_estimate, pool, state.remaining_questions, random);
+    if (!next) {
+      return this.stop(state, 'pool_exhausted');
+    }
+
+    return {
+      ...state,
+      current_difficulty: this.targetDifficulty(state.ability_estimate),
+      next_question_id: next.id
+    };
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
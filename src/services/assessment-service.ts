@@ -1,24 +1,72 @@
-import { createClient } from '@/utils/supabase/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient, createServiceClient } from '@/utils/supabase/server';
 import {
   Assessment,
   Question,
+  AttemptQuestion,
   QuizAttempt,
   QuizResult,
   QuestionResult,
   AssessmentAnalytics,
   QuestionAnalytics,
+  QuestionResponse,
   PersonalizedFeedback,
   EssayGradeResult,
+  EssayScoreSuggestion,
   CheatingDetection,
-  AnomalyReport
+  AnomalyReport,
+  GradingMethod,
+  GradingRubric,
+  GradingQueueItem,
+  SavedQuestionResponse,
+  AutosaveResult,
+  OpenAttemptResult,
+  AdaptiveAssessment,
+  AdaptiveStep,
+  QuestionDrawSection,
+  AttemptGradingDetail,
+  RubricCriterionScore
 } from '@/types/assessment';
 import {
+  createQuestionSchema,
   CreateAssessment,
   UpdateAssessment,
   CreateQuestion,
   SubmitQuizAttempt,
-  ManualGrading
+  SubmitQuizResponse,
+  AdaptiveAnswer,
+  ManualGrading,
+  GradingQueueQuery,
+  RubricDefinition
 } from '@/lib/validation/assessment';
+import { getEssayScoringProvider } from '@/services/essay-scoring';
+import { AdaptiveEngine } from '@/services/adaptive-engine';
+
+// Share of a question's points needed for a response to count as correct
+const CORRECT_THRESHOLD = 0.7;
+
+// Allowance for network latency after an attempt or question deadline
+const SUBMISSION_GRACE_SECONDS = 30;
+
+// A tab's hold on an attempt lapses after this long without a save or resume (e.g. a crashed browser)
+const SESSION_STALE_SECONDS = 120;
+
+const SAVED_RESPONSE_FIELDS = 'question_id, answer, time_spent, revision, updated_at';
+
+interface GradableAttemptRow {
+  id: string;
+  assessment_id: string;
+  user_id: string;
+  status: QuizAttempt['status'];
+  feedback: string | null;
+  question_ids: string[] | null;
+  assessment: {
+    instructor_id: string;
+    title: string;
+    passing_score: number;
+    grading_method: GradingMethod;
+  };
+}
 
 export class AssessmentService {
   /**
@@ -180,10 +228,13 @@ export class AssessmentService {
       throw new Error('Assessment not found or access denied');
     }
 
+    // Schema cross-field checks (drag-drop items vs correct answer) also guard non-route callers
+    const { options, ...validatedQuestion } = createQuestionSchema.parse(questionData);
+
     const { data: question, error } = await supabase
       .from('questions')
       .insert({
-        ...questionData,
+        ...validatedQuestion,
         assessment_id: assessmentId,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
@@ -196,8 +247,8 @@ export class AssessmentService {
     }
 
     // Add question options if provided
-    if (questionData.options && questionData.options.length > 0) {
-      const optionsData = questionData.options.map(option => ({
+    if (options && options.length > 0) {
+      const optionsData = options.map(option => ({
         ...option,
         question_id: question.id
       }));
@@ -216,8 +267,10 @@ export class AssessmentService {
   static async startQuizAttempt(
     userId: string,
     assessmentId: string,
-    browserFingerprint?: string
-  ): Promise<QuizAttempt> {
+    browserFingerprint?: string,
+    sessionId: string = crypto.randomUUID(),
+    takeOver = false
+  ): Promise<OpenAttemptResult> {
     const supabase = createClient();
 
     // Check if assessment exists and is available
@@ -245,6 +298,28 @@ export class AssessmentService {
       throw new Error('You are not enrolled in this course');
     }
 
+    // Reopening the assessment resumes an attempt still in progress; overdue ones are closed first
+    const { data: openAttempt } = await supabase
+      .from('quiz_attempts')
+      .select(`
+        *,
+        assessment:assessments(*)
+      `)
+      .eq('assessment_id', assessmentId)
+      .eq('user_id', userId)
+      .eq('status', 'in_progress')
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (openAttempt) {
+      const deadline = this.getAttemptDeadline(openAttempt);
+      if (Date.now() <= deadline.getTime() + SUBMISSION_GRACE_SECONDS * 1000) {
+        return this.resumeAttempt(userId, assessmentId, openAttempt.id, sessionId, takeOver);
+      }
+      await this.expireAttempt(supabase, openAttempt, deadline);
+    }
+
     // Check attempt limits
     const { data: previousAttempts } = await supabase
       .from('quiz_attempts')
@@ -259,6 +334,40 @@ export class AssessmentService {
       throw new Error(`Maximum attempts (${assessment.max_attempts}) reached`);
     }
 
+    // The deadline is fixed when the attempt starts; later time limit edits don't move it
+    const startedAt = new Date();
+    const expiresAt = this.calculateDeadline(startedAt, assessment);
+
+    if (expiresAt.getTime() <= startedAt.getTime()) {
+      throw new Error('Assessment not found or not available');
+    }
+
+    // Adaptive tests draw from the auto-graded questions, starting at medium difficulty
+    let adaptiveState: AdaptiveAssessment | null = null;
+    if (assessment.adaptive_config) {
+      adaptiveState = AdaptiveEngine.initialState(
+        assessmentId,
+        userId,
+        assessment.adaptive_config,
+        this.adaptivePool(assessment.questions || [])
+      );
+
+      if (!adaptiveState.next_question_id) {
+        throw new Error('Assessment has no auto-graded questions for adaptive mode');
+      }
+    }
+
+    // Fixed-form attempts draw their own questions from any random-draw sections
+    let questionIds: string[] | null = null;
+    if (!adaptiveState) {
+      const { data: drawSections } = await supabase
+        .from('assessment_draw_sections')
+        .select('id, draw_count')
+        .eq('assessment_id', assessmentId);
+
+      questionIds = this.drawQuestionIds(assessment.questions || [], drawSections || []);
+    }
+
     // Create new attempt
     const { data: attempt, error } = await supabase
       .from('quiz_attempts')
@@ -266,8 +375,13 @@ export class AssessmentService {
         assessment_id: assessmentId,
         user_id: userId,
         attempt_number: nextAttemptNumber,
-        started_at: new Date().toISOString(),
+        started_at: startedAt.toISOString(),
+        expires_at: expiresAt.toISOString(),
         status: 'in_progress',
+        active_session_id: sessionId,
+        active_session_seen_at: startedAt.toISOString(),
+        adaptive_state: adaptiveState,
+        question_ids: questionIds,
         browser_fingerprint: browserFingerprint,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
@@ -279,9 +393,510 @@ export class AssessmentService {
       throw new Error(`Failed to start quiz attempt: ${error.message}`);
     }
 
+    const questions = await this.getServedQuestions(assessmentId, attempt);
+
+    return {
+      resumed: false,
+      attempt,
+      questions,
+      responses: [],
+      time_remaining_seconds: Math.floor((expiresAt.getTime() - startedAt.getTime()) / 1000)
+    };
+  }
+
+  /**
+   * Reopen an in_progress attempt with its saved answers. The calling tab takes over the
+   * attempt unless another tab still holds it (then take_over is required).
+   */
+  static async resumeAttempt(
+    userId: string,
+    assessmentId: string,
+    attemptId: string,
+    sessionId: string,
+    takeOver = false
+  ): Promise<OpenAttemptResult> {
+    const supabase = createClient();
+    const attempt = await this.getOpenAttempt(supabase, userId, assessmentId, attemptId);
+
+    if (!takeOver && this.isHeldByOtherSession(attempt, sessionId)) {
+      return { conflict: 'session', attempt_id: attempt.id };
+    }
+
+    // Conditional on the previous holder so two tabs resuming at once can't both win
+    let claim = supabase
+      .from('quiz_attempts')
+      .update({
+        active_session_id: sessionId,
+        active_session_seen_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', attempt.id)
+      .eq('status', 'in_progress');
+
+    claim = attempt.active_session_id
+      ? claim.eq('active_session_id', attempt.active_session_id)
+      : claim.is('active_session_id', null);
+
+    const { data: claimed } = await claim.select().maybeSingle();
+
+    if (!claimed) {
+      return { conflict: 'session', attempt_id: attempt.id };
+    }
+
+    const [questions, { data: responses }] = await Promise.all([
+      this.getServedQuestions(assessmentId, claimed),
+      supabase
+        .from('question_responses')
+        .select(SAVED_RESPONSE_FIELDS)
+        .eq('attempt_id', attempt.id)
+        .overrideTypes<SavedQuestionResponse[], { merge: false }>()
+    ]);
+
+    const deadline = this.getAttemptDeadline(attempt);
+
+    return {
+      resumed: true,
+      attempt: claimed,
+      questions,
+      responses: responses || [],
+      time_remaining_seconds: Math.max(0, Math.floor((deadline.getTime() - Date.now()) / 1000))
+    };
+  }
+
+  /**
+   * Autosave one answer of an in_progress attempt. Saves from a tab that lost the attempt,
+   * or based on an outdated revision of the answer, are reported as conflicts.
+   */
+  static async saveResponse(
+    userId: string,
+    assessmentId: string,
+    input: SubmitQuizResponse
+  ): Promise<AutosaveResult> {
+    const supabase = createClient();
+    const attempt = await this.getOpenAttempt(supabase, userId, assessmentId, input.attempt_id);
+
+    if (this.isHeldByOtherSession(attempt, input.session_id)) {
+      return { saved: false, conflict: 'session' };
+    }
+
+    const { data: question } = await supabase
+      .from('questions')
+      .select('id, draw_section_id')
+      .eq('id', input.question_id)
+      .eq('assessment_id', assessmentId)
+      .maybeSingle();
+
+    // Adaptive attempts only accept answers to the question currently being asked
+    const asked = attempt.adaptive_state
+      ? attempt.adaptive_state.next_question_id === question?.id
+      : question && this.isInAttempt(attempt, question);
+
+    if (!question || !asked) {
+      throw new Error('Question not found in assessment');
+    }
+
+    const current = await this.getSavedResponse(supabase, attempt.id, input.question_id);
+
+    if (input.base_revision !== undefined && (current?.revision ?? 0) !== input.base_revision) {
+      return { saved: false, conflict: 'revision', current: current ?? undefined };
+    }
+
+    const now = new Date().toISOString();
+
+    // Revision-guarded write: a concurrent save in between turns into a conflict instead of being overwritten
+    const { data: saved, error } = current
+      ? await supabase
+          .from('question_responses')
+          .update({
+            answer: input.answer,
+            time_spent: input.time_spent,
+            revision: current.revision + 1,
+            updated_at: now
+          })
+          .eq('attempt_id', attempt.id)
+          .eq('question_id', input.question_id)
+          .eq('revision', current.revision)
+          .select(SAVED_RESPONSE_FIELDS)
+          .maybeSingle()
+          .overrideTypes<SavedQuestionResponse | null, { merge: false }>()
+      : await supabase
+          .from('question_responses')
+          .insert({
+            attempt_id: attempt.id,
+            question_id: input.question_id,
+            answer: input.answer,
+            time_spent: input.time_spent,
+            revision: 1,
+            created_at: now,
+            updated_at: now
+          })
+          .select(SAVED_RESPONSE_FIELDS)
+          .maybeSingle()
+          .overrideTypes<SavedQuestionResponse | null, { merge: false }>();
+
+    if (error && error.code !== '23505') {
+      throw new Error(`Failed to save response: ${error.message}`);
+    }
+
+    if (!saved) {
+      const latest = await this.getSavedResponse(supabase, attempt.id, input.question_id);
+      return { saved: false, conflict: 'revision', current: latest ?? undefined };
+    }
+
+    await supabase
+      .from('quiz_attempts')
+      .update({
+        active_session_id: input.session_id,
+        active_session_seen_at: now,
+        last_saved_at: now
+      })
+      .eq('id', attempt.id)
+      .eq('status', 'in_progress');
+
+    return { saved: true, response: saved };
+  }
+
+  /**
+   * Answer the current question of an adaptive attempt. The answer is graded right away to
+   * update the ability estimate; the attempt is finalized once a stopping criterion is met.
+   */
+  static async answerAdaptiveQuestion(
+    userId: string,
+    assessmentId: string,
+    input: AdaptiveAnswer
+  ): Promise<AdaptiveStep> {
+    const supabase = createClient();
+    const attempt = await this.getOpenAttempt(supabase, userId, assessmentId, input.attempt_id);
+    const state: AdaptiveAssessment | null = attempt.adaptive_state ?? null;
+
+    if (!state) {
+      throw new Error('Assessment is not adaptive');
+    }
+
+    if (this.isHeldByOtherSession(attempt, input.session_id)) {
+      throw new Error('Attempt is open in another session');
+    }
+
+    if (state.next_question_id !== input.question_id) {
+      throw new Error('Question already answered or not the current question');
+    }
+
+    const { data: questions } = await supabase
+      .from('questions')
+      .select(`
+        *,
+        options:question_options(*)
+      `)
+      .eq('assessment_id', assessmentId)
+      .order('order_index');
+
+    const pool = this.adaptivePool(questions || []);
+    const question = pool.find(q => q.id === input.question_id);
+
+    if (!question) {
+      throw new Error('Question not found in assessment');
+    }
+
+    const timedOut = Boolean(question.time_limit && input.time_spent > question.time_limit + SUBMISSION_GRACE_SECONDS);
+    const correct = !timedOut && this.gradeQuestion(question, input.answer).is_correct;
+
+    const now = new Date();
+    const elapsedSeconds = Math.max(0, Math.round((now.getTime() - new Date(attempt.started_at).getTime()) / 1000));
+    const nextState = AdaptiveEngine.recordAnswer(
+      state,
+      pool,
+      { question_id: question.id, difficulty: question.difficulty, correct },
+      elapsedSeconds / 60
+    );
+
+    // Conditional on the question just answered so a double submit can't advance the test twice
+    const { data: advanced } = await supabase
+      .from('quiz_attempts')
+      .update({
+        adaptive_state: nextState,
+        ability_estimate: nextState.ability_estimate,
+        active_session_id: input.session_id,
+        active_session_seen_at: now.toISOString(),
+        last_saved_at: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+      .eq('id', attempt.id)
+      .eq('status', 'in_progress')
+      .eq('adaptive_state->>next_question_id', question.id)
+      .select(`
+        *,
+        assessment:assessments(*)
+      `)
+      .maybeSingle();
+
+    if (!advanced) {
+      throw new Error('Question already answered or not the current question');
+    }
+
+    const { error: saveError } = await supabase
+      .from('question_responses')
+      .upsert({
+        attempt_id: attempt.id,
+        question_id: question.id,
+        answer: input.answer,
+        time_spent: input.time_spent,
+        updated_at: now.toISOString()
+      }, { onConflict: 'attempt_id,question_id' });
+
+    if (saveError) {
+      throw new Error(`Failed to save response: ${saveError.message}`);
+    }
+
+    if (nextState.stop_reason) {
+      const { data: savedResponses } = await supabase
+        .from('question_responses')
+        .select('question_id, answer, time_spent')
+        .eq('attempt_id', attempt.id);
+
+      const result = await this.finalizeAttempt(supabase, advanced, questions || [], savedResponses || [], {
+        submittedAt: now,
+        timeSpent: elapsedSeconds,
+        expired: false
+      });
+
+      return { completed: true, result };
+    }
+
+    const nextQuestion = pool.find(q => q.id === nextState.next_question_id) as Question;
+
+    return {
+      completed: false,
+      question: this.toAdaptiveQuestion(advanced, nextQuestion),
+      answered: nextState.completed_questions.length,
+      max_questions: nextState.stopping_criteria.max_questions
+    };
+  }
+
+  /**
+   * Questions an adaptive test can ask: those graded without an instructor
+   */
+  private static adaptivePool(questions: Question[]): Question[] {
+    return questions.filter(question => !this.requiresManualGrading(question, 'automatic'));
+  }
+
+  /**
+   * Questions to show for an attempt; adaptive attempts only show the one currently being asked
+   */
+  private static async getServedQuestions(assessmentId: string, attempt: any): Promise<AttemptQuestion[]> {
+    const state: AdaptiveAssessment | null = attempt.adaptive_state ?? null;
+
+    if (!state) {
+      const questions = await this.getAttemptQuestions(assessmentId, attempt.id);
+      return questions.filter(question => this.isInAttempt(attempt, question));
+    }
+
+    const assessment = await this.getAssessment(assessmentId);
+    const question = assessment.questions.find(q => q.id === state.next_question_id);
+
+    return question ? [this.toAdaptiveQuestion({ ...attempt, assessment }, question)] : [];
+  }
+
+  /**
+   * Questions asked in a fixed-form attempt: its drawn set, or every question outside draw pools
+   */
+  private static isInAttempt(
+    attempt: { question_ids?: string[] | null },
+    question: Pick<Question, 'id' | 'draw_section_id'>
+  ): boolean {
+    return attempt.question_ids ? attempt.question_ids.includes(question.id) : !question.draw_section_id;
+  }
+
+  /**
+   * Pick the questions of a new attempt: every fixed question plus draw_count random questions
+   * from each section's pool, in assessment order. Null when the assessment has no draw sections.
+   */
+  private static drawQuestionIds(
+    questions: Pick<Question, 'id' | 'draw_section_id' | 'order_index'>[],
+    sections: Pick<QuestionDrawSection, 'id' | 'draw_count'>[],
+    random: () => number = Math.random
+  ): string[] | null {
+    if (sections.length === 0) {
+      return null;
+    }
+
+    const drawn = new Set(questions.filter(question => !question.draw_section_id).map(question => question.id));
+
+    for (const section of sections) {
+      const pool = questions.filter(question => question.draw_section_id === section.id);
+      this.shuffle(pool, random).slice(0, section.draw_count).forEach(question => drawn.add(question.id));
+    }
+
+    return [...questions]
+      .sort((a, b) => a.order_index - b.order_index)
+      .filter(question => drawn.has(question.id))
+      .map(question => question.id);
+  }
+
+  /**
+   * Seeded per attempt and question so a resumed adaptive question keeps its option order
+   */
+  private static toAdaptiveQuestion(attempt: any, question: Question): AttemptQuestion {
+    return this.toAttemptQuestion(question, {
+      shuffleOptions: Boolean(attempt.assessment?.randomize_options),
+      random: this.seededRandom(`${attempt.id}:${question.id}`)
+    });
+  }
+
+  /**
+   * Load an attempt the student can still answer
+   */
+  private static async getOpenAttempt(
+    supabase: SupabaseClient,
+    userId: string,
+    assessmentId: string,
+    attemptId: string
+  ): Promise<any> {
+    const { data: attempt } = await supabase
+      .from('quiz_attempts')
+      .select(`
+        *,
+        assessment:assessments(*)
+      `)
+      .eq('id', attemptId)
+      .eq('assessment_id', assessmentId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!attempt) {
+      throw new Error('Quiz attempt not found');
+    }
+
+    if (attempt.status !== 'in_progress') {
+      throw new Error('Quiz attempt already submitted');
+    }
+
+    const deadline = this.getAttemptDeadline(attempt);
+    if (Date.now() > deadline.getTime() + SUBMISSION_GRACE_SECONDS * 1000) {
+      await this.expireAttempt(supabase, attempt, deadline);
+      throw new Error('Attempt time limit exceeded');
+    }
+
     return attempt;
   }
 
+  /**
+   * Another tab holds the attempt and has been active recently
+   */
+  private static isHeldByOtherSession(
+    attempt: Pick<QuizAttempt, 'active_session_id' | 'active_session_seen_at'>,
+    sessionId: string
+  ): boolean {
+    if (!attempt.active_session_id || attempt.active_session_id === sessionId) {
+      return false;
+    }
+
+    const lastSeen = attempt.active_session_seen_at ? new Date(attempt.active_session_seen_at).getTime() : 0;
+    return Date.now() - lastSeen < SESSION_STALE_SECONDS * 1000;
+  }
+
+  private static async getSavedResponse(
+    supabase: SupabaseClient,
+    attemptId: string,
+    questionId: string
+  ): Promise<SavedQuestionResponse | null> {
+    const { data } = await supabase
+      .from('question_responses')
+      .select(SAVED_RESPONSE_FIELDS)
+      .eq('attempt_id', attemptId)
+      .eq('question_id', questionId)
+      .maybeSingle()
+      .overrideTypes<SavedQuestionResponse | null, { merge: false }>();
+
+    return data;
+  }
+
+  /**
+   * Questions for rendering an attempt, without answers or explanations.
+   * Shuffles are seeded by the attempt so reloading the same attempt keeps its order.
+   */
+  static async getAttemptQuestions(assessmentId: string, attemptId?: string): Promise<AttemptQuestion[]> {
+    const assessment = await this.getAssessment(assessmentId);
+    const random = attemptId ? this.seededRandom(attemptId) : Math.random;
+
+    return assessment.questions.map(question => this.toAttemptQuestion(question, {
+      shuffleOptions: assessment.randomize_options,
+      random
+    }));
+  }
+
+  /**
+   * Strip answer data from a question; drag-drop items are shuffled so their order gives nothing away
+   */
+  static toAttemptQuestion(
+    question: Question,
+    { shuffleOptions = false, random = Math.random }: { shuffleOptions?: boolean; random?: () => number } = {}
+  ): AttemptQuestion {
+    const { correct_answer: correctAnswer, options, ...rest } = question;
+
+    const servedOptions = options?.map(option => ({
+      id: option.id,
+      question_id: option.question_id,
+      option_text: option.option_text,
+      order_index: option.order_index
+    }));
+
+    const attemptQuestion: AttemptQuestion = {
+      ...rest,
+      options: servedOptions && shuffleOptions ? this.shuffle(servedOptions, random) : servedOptions
+    };
+    delete (attemptQuestion as Partial<Question>).explanation;
+
+    if (question.drag_drop) {
+      const items = this.shuffle(question.drag_drop.items, random);
+
+      // Never present an ordering question already solved
+      if (
+        question.drag_drop.mode === 'ordering' &&
+        items.length > 1 &&
+        items.every((item, index) => item.id === correctAnswer[index])
+      ) {
+        items.push(items.shift() as typeof items[number]);
+      }
+
+      attemptQuestion.drag_drop = {
+        ...question.drag_drop,
+        items,
+        targets: question.drag_drop.targets && this.shuffle(question.drag_drop.targets, random)
+      };
+    }
+
+    return attemptQuestion;
+  }
+
+  /**
+   * Fisher-Yates shuffle returning a new array
+   */
+  private static shuffle<T>(values: T[], random: () => number = Math.random): T[] {
+    const shuffled = [...values];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Deterministic PRNG (FNV-1a seed, mulberry32 stream) for per-attempt shuffles
+   */
+  private static seededRandom(seed: string): () => number {
+    let state = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+    }
+
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
   /**
    * Submit quiz attempt with auto-grading
    */
@@ -307,6 +922,17 @@ export class AssessmentService {
       throw new Error('Quiz attempt not found or already submitted');
     }
 
+    if (submissionData.session_id && this.isHeldByOtherSession(attempt, submissionData.session_id)) {
+      throw new Error('Attempt is open in another session');
+    }
+
+    // Past the grace window the submitted answers are rejected and the attempt closes with what was saved
+    const now = new Date();
+    const deadline = this.getAttemptDeadline(attempt);
+    if (now.getTime() > deadline.getTime() + SUBMISSION_GRACE_SECONDS * 1000) {
+      return this.expireAttempt(supabase, attempt, deadline);
+    }
+
     // Get questions and correct answers
     const { data: questions } = await supabase
       .from('questions')
@@ -321,51 +947,213 @@ export class AssessmentService {
       throw new Error('Questions not found');
     }
 
-    // Save responses
-    const responsesData = submissionData.responses.map(response => ({
-      ...response,
-      attempt_id: submissionData.attempt_id,
-      created_at: new Date().toISOString()
-    }));
+    // Final answers replace autosaved ones; autosaved answers not resubmitted are kept
+    if (submissionData.responses.length > 0) {
+      const responsesData = submissionData.responses.map(response => ({
+        ...response,
+        attempt_id: submissionData.attempt_id,
+        updated_at: now.toISOString()
+      }));
 
-    await supabase
+      const { error: saveError } = await supabase
+        .from('question_responses')
+        .upsert(responsesData, { onConflict: 'attempt_id,question_id' });
+
+      if (saveError) {
+        throw new Error(`Failed to save responses: ${saveError.message}`);
+      }
+    }
+
+    const { data: savedResponses } = await supabase
       .from('question_responses')
-      .insert(responsesData);
+      .select('question_id, answer, time_spent')
+      .eq('attempt_id', attempt.id);
+
+    return this.finalizeAttempt(supabase, attempt, questions, savedResponses || [], {
+      submittedAt: now,
+      timeSpent: submissionData.total_time_spent,
+      expired: false
+    });
+  }
+
+  /**
+   * Deadline for an attempt: the stored expires_at, or the time limit capped by the availability window
+   */
+  static getAttemptDeadline(attempt: {
+    started_at: string;
+    expires_at?: string | null;
+    assessment: Pick<Assessment, 'time_limit' | 'available_until'>;
+  }): Date {
+    if (attempt.expires_at) {
+      return new Date(attempt.expires_at);
+    }
+
+    return this.calculateDeadline(new Date(attempt.started_at), attempt.assessment);
+  }
+
+  private static calculateDeadline(
+    startedAt: Date,
+    assessment: Pick<Assessment, 'time_limit' | 'available_until'>
+  ): Date {
+    const timeLimitEnd = startedAt.getTime() + assessment.time_limit * 60 * 1000;
+    const availableUntil = assessment.available_until
+      ? new Date(assessment.available_until).getTime()
+      : Infinity;
+
+    return new Date(Math.min(timeLimitEnd, availableUntil));
+  }
+
+  /**
+   * Move abandoned in_progress attempts past their deadline to expired, grading whatever was saved
+   */
+  static async expireOverdueAttempts(limit = 100): Promise<{ expired: number; failed: number }> {
+    const supabase = createServiceClient();
+    const cutoff = new Date(Date.now() - SUBMISSION_GRACE_SECONDS * 1000).toISOString();
+
+    const { data: attempts, error } = await supabase
+      .from('quiz_attempts')
+      .select(`
+        *,
+        assessment:assessments(*)
+      `)
+      .eq('status', 'in_progress')
+      .lt('expires_at', cutoff)
+      .order('expires_at')
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch overdue attempts: ${error.message}`);
+    }
+
+    let expired = 0;
+    let failed = 0;
+
+    for (const attempt of attempts || []) {
+      try {
+        await this.expireAttempt(supabase, attempt, this.getAttemptDeadline(attempt));
+        expired++;
+      } catch (expireError) {
+        console.error(`Failed to expire attempt ${attempt.id}:`, expireError);
+        failed++;
+      }
+    }
+
+    return { expired, failed };
+  }
+
+  /**
+   * Close an attempt at its deadline using the responses saved before it
+   */
+  private static async expireAttempt(
+    supabase: SupabaseClient,
+    attempt: any,
+    deadline: Date
+  ): Promise<QuizResult> {
+    const [{ data: questions }, { data: savedResponses }] = await Promise.all([
+      supabase
+        .from('questions')
+        .select(`
+          *,
+          options:question_options(*)
+        `)
+        .eq('assessment_id', attempt.assessment_id)
+        .order('order_index'),
+      supabase
+        .from('question_responses')
+        .select('question_id, answer, time_spent')
+        .eq('attempt_id', attempt.id)
+    ]);
+
+    return this.finalizeAttempt(supabase, attempt, questions || [], savedResponses || [], {
+      submittedAt: deadline,
+      timeSpent: Math.max(0, Math.round((deadline.getTime() - new Date(attempt.started_at).getTime()) / 1000)),
+      expired: true
+    });
+  }
 
-    // Grade the quiz
-    const result = await this.gradeQuizAttempt(attempt, questions, submissionData.responses);
+  /**
+   * Grade responses and close the attempt. Essays and hybrid assessments wait in the
+   * manual grading queue; otherwise the attempt ends graded (or expired when timed out).
+   */
+  private static async finalizeAttempt(
+    supabase: SupabaseClient,
+    attempt: any,
+    questions: Question[],
+    responses: any[],
+    { submittedAt, timeSpent, expired }: { submittedAt: Date; timeSpent: number; expired: boolean }
+  ): Promise<QuizResult> {
+    // Adaptive and drawn attempts are scored on the questions actually asked
+    const adaptive: AdaptiveAssessment | undefined = attempt.adaptive_state
+      ? AdaptiveEngine.stop(attempt.adaptive_state, expired ? 'time_limit' : 'submitted')
+      : undefined;
+    const scoredQuestions = adaptive
+      ? questions.filter(question => adaptive.completed_questions.includes(question.id))
+      : questions.filter(question => this.isInAttempt(attempt, question));
+
+    const result = await this.gradeQuizAttempt(attempt, scoredQuestions, responses);
+
+    const awaitingReview = result.pending_manual_grading > 0 || attempt.assessment.grading_method === 'hybrid';
+    const status = awaitingReview ? 'submitted' : expired ? 'expired' : 'graded';
+    const suggestions = await this.suggestEssayScores(
+      supabase,
+      attempt.assessment_id,
+      scoredQuestions,
+      result.question_results.filter(q => q.needs_manual_grading)
+    );
 
-    // Update attempt status
-    await supabase
+    // Only an in_progress attempt can be closed, so a submission racing the sweeper finalizes once
+    const { data: closed } = await supabase
       .from('quiz_attempts')
       .update({
-        submitted_at: new Date().toISOString(),
-        time_spent: submissionData.total_time_spent,
-        status: 'graded',
-        score: result.score,
+        submitted_at: submittedAt.toISOString(),
+        time_spent: timeSpent,
+        status,
+        score: awaitingReview ? null : result.score,
         max_score: result.max_score,
-        percentage: result.percentage,
-        passed: result.passed,
-        graded_at: new Date().toISOString(),
-        feedback: result.overall_feedback,
+        percentage: awaitingReview ? null : result.percentage,
+        passed: awaitingReview ? null : result.passed,
+        graded_at: awaitingReview ? null : new Date().toISOString(),
+        feedback: awaitingReview ? null : result.overall_feedback,
+        requires_manual_grading: awaitingReview,
+        expired_at: expired ? submittedAt.toISOString() : null,
+        ...(adaptive && { adaptive_state: adaptive, ability_estimate: adaptive.ability_estimate }),
         updated_at: new Date().toISOString()
       })
-      .eq('id', submissionData.attempt_id);
+      .eq('id', attempt.id)
+      .eq('status', 'in_progress')
+      .select('id');
+
+    if (!closed || closed.length === 0) {
+      throw new Error('Quiz attempt not found or already submitted');
+    }
 
     // Update question responses with grading results
     for (const questionResult of result.question_results) {
+      const suggestion = suggestions.get(questionResult.question_id);
+
       await supabase
         .from('question_responses')
-        .update({
-          is_correct: questionResult.is_correct,
-          points_earned: questionResult.points_earned,
-          feedback: questionResult.feedback
-        })
-        .eq('attempt_id', submissionData.attempt_id)
+        .update(questionResult.needs_manual_grading
+          ? {
+              is_correct: null,
+              points_earned: null,
+              feedback: null,
+              needs_manual_grading: true,
+              suggested_points: suggestion?.points ?? null,
+              suggested_feedback: suggestion?.feedback ?? null,
+              suggestion_provider: suggestion?.provider ?? null
+            }
+          : {
+              is_correct: questionResult.is_correct,
+              points_earned: questionResult.points_earned,
+              feedback: questionResult.feedback,
+              needs_manual_grading: false
+            })
+        .eq('attempt_id', attempt.id)
         .eq('question_id', questionResult.question_id);
     }
 
-    return result;
+    return { ...result, status, adaptive, completed_at: submittedAt.toISOString(), time_spent: timeSpent };
   }
 
   /**
@@ -380,12 +1168,30 @@ export class AssessmentService {
     let maxPossibleScore = 0;
     const questionResults: QuestionResult[] = [];
 
+    let pendingManualGrading = 0;
+    const gradingMethod: GradingMethod = attempt.assessment.grading_method || 'automatic';
+
     for (const question of questions) {
       const response = responses.find(r => r.question_id === question.id);
       const userAnswer = response?.answer || '';
+      const timedOut = Boolean(
+        question.time_limit && (response?.time_spent || 0) > question.time_limit + SUBMISSION_GRACE_SECONDS
+      );
+      const needsManualGrading = !timedOut && this.requiresManualGrading(question, gradingMethod);
+
+      let gradeResult;
+      if (timedOut) {
+        gradeResult = { is_correct: false, points_earned: 0, feedback: 'Answered after the question time limit' };
+      } else if (needsManualGrading) {
+        gradeResult = { is_correct: false, points_earned: 0, feedback: 'Awaiting instructor grading' };
+      } else {
+        gradeResult = this.gradeQuestion(question, userAnswer);
+      }
+
+      if (needsManualGrading) {
+        pendingManualGrading++;
+      }
 
-      const gradeResult = await this.gradeQuestion(question, userAnswer);
-      
       totalScore += gradeResult.points_earned;
       maxPossibleScore += question.points;
 
@@ -399,10 +1205,14 @@ export class AssessmentService {
         max_points: question.points,
         feedback: gradeResult.feedback,
         explanation: question.explanation,
-        time_spent: response?.time_spent
+        time_spent: response?.time_spent,
+        needs_manual_grading: needsManualGrading
       });
     }
 
+    // Partial credit leaves fractional points; avoid float drift in the stored score
+    totalScore = Math.round(totalScore * 100) / 100;
+
     const percentage = maxPossibleScore > 0 ? Math.round((totalScore / maxPossibleScore) * 100) : 0;
     const passed = percentage >= attempt.assessment.passing_score;
 
@@ -413,12 +1223,14 @@ export class AssessmentService {
       attempt_id: attempt.id,
       user_id: attempt.user_id,
       assessment_id: attempt.assessment_id,
+      status: 'graded',
       score: totalScore,
       max_score: maxPossibleScore,
       percentage,
       passed,
       completed_at: new Date().toISOString(),
       time_spent: attempt.time_spent || 0,
+      pending_manual_grading: pendingManualGrading,
       question_results: questionResults,
       overall_feedback: feedback.summary,
       strengths: feedback.strengths,
@@ -427,26 +1239,33 @@ export class AssessmentService {
     };
   }
 
+  /**
+   * Essays always need an instructor; manual assessments route every question to the queue
+   */
+  private static requiresManualGrading(question: Question, gradingMethod: GradingMethod): boolean {
+    return question.question_type === 'essay' || gradingMethod === 'manual';
+  }
+
   /**
    * Grade individual question based on type
    */
-  private static async gradeQuestion(question: Question, userAnswer: string | string[]): Promise<{
+  private static gradeQuestion(question: Question, userAnswer: string | string[]): {
     is_correct: boolean;
     points_earned: number;
     feedback: string;
-  }> {
+  } {
     switch (question.question_type) {
       case 'multiple_choice':
-        return this.gradeMultipleChoice(question, userAnswer as string);
+        return this.gradeMultipleChoice(question, userAnswer);
       
       case 'true_false':
         return this.gradeTrueFalse(question, userAnswer as string);
       
       case 'fill_blank':
         return this.gradeFillBlank(question, userAnswer as string);
-      
-      case 'essay':
-        return await this.gradeEssayAI(question, userAnswer as string);
+
+      case 'drag_drop':
+        return this.gradeDragDrop(question, userAnswer);
       
       default:
         return {
@@ -458,21 +1277,77 @@ export class AssessmentService {
   }
 
   /**
-   * Grade multiple choice question
+   * Grade multiple choice question. Answers may reference options by id or text;
+   * multi-select questions earn fractional credit according to their scoring strategy.
    */
-  private static gradeMultipleChoice(question: Question, userAnswer: string): {
+  private static gradeMultipleChoice(question: Question, userAnswer: string | string[]): {
     is_correct: boolean;
     points_earned: number;
     feedback: string;
   } {
-    const isCorrect = userAnswer === question.correct_answer;
-    
+    const options = question.options || [];
+    const selections = Array.isArray(userAnswer) ? userAnswer : [userAnswer];
+    const correctOptions = options.filter(option => option.is_correct);
+
+    // Legacy questions without flagged options compare against correct_answer directly
+    if (correctOptions.length === 0) {
+      const isCorrect = userAnswer === question.correct_answer;
+
+      return {
+        is_correct: isCorrect,
+        points_earned: isCorrect ? question.points : 0,
+        feedback: isCorrect
+          ? 'Correct!'
+          : `Incorrect. The correct answer is: ${question.correct_answer}`
+      };
+    }
+
+    const selected = options.filter(option =>
+      selections.includes(option.id) || selections.includes(option.option_text)
+    );
+    const correctPicks = selected.filter(option => option.is_correct).length;
+    const wrongPicks = selected.length - correctPicks;
+    const isCorrect = correctPicks === correctOptions.length && wrongPicks === 0;
+    const correctText = correctOptions.map(option => option.option_text).join(', ');
+
+    if (!question.multi_select) {
+      return {
+        is_correct: isCorrect,
+        points_earned: isCorrect ? question.points : 0,
+        feedback: isCorrect ? 'Correct!' : `Incorrect. The correct answer is: ${correctText}`
+      };
+    }
+
+    let fraction: number;
+    switch (question.scoring_strategy) {
+      case 'proportional': {
+        // A blank answer judges no option, even though the incorrect ones were left alone
+        const missedCorrect = correctOptions.length - correctPicks;
+        fraction = selected.length === 0 ? 0 : (options.length - wrongPicks - missedCorrect) / options.length;
+        break;
+      }
+      case 'penalty':
+        fraction = Math.max(0, (correctPicks - wrongPicks) / correctOptions.length);
+        break;
+      default:
+        fraction = isCorrect ? 1 : 0;
+    }
+
+    const pointsEarned = Math.round(fraction * question.points * 100) / 100;
+
+    let feedback = `Incorrect. The correct answers are: ${correctText}`;
+    if (isCorrect) {
+      feedback = 'Correct!';
+    } else if (pointsEarned > 0) {
+      feedback = `Partially correct: ${correctPicks} of ${correctOptions.length} correct options selected`
+        + (wrongPicks > 0 ? `, ${wrongPicks} incorrect.` : '.')
+        + ` The correct answers are: ${correctText}`;
+    }
+
     return {
       is_correct: isCorrect,
-      points_earned: isCorrect ? question.points : 0,
-      feedback: isCorrect 
-        ? 'Correct!' 
-        : `Incorrect. The correct answer is: ${question.correct_answer}`
+      points_earned: pointsEarned,
+      feedback
     };
   }
 
@@ -522,60 +1397,119 @@ export class AssessmentService {
   }
 
   /**
-   * AI-powered essay grading (simplified implementation)
+   * Grade drag-and-drop question (ordering or matching), with optional partial credit
    */
-  private static async gradeEssayAI(question: Question, userAnswer: string): Promise<{
+  private static gradeDragDrop(question: Question, userAnswer: string | string[]): {
     is_correct: boolean;
     points_earned: number;
     feedback: string;
-  }> {
-    // Simplified essay grading - in a real implementation, this would use NLP/AI
-    const wordCount = userAnswer.split(' ').length;
-    const hasKeywords = question.tags.some(tag => 
-      userAnswer.toLowerCase().includes(tag.toLowerCase())
-    );
+  } {
+    const config = question.drag_drop;
+    const correctAnswer = Array.isArray(question.correct_answer) ? question.correct_answer : [];
+    const answer = Array.isArray(userAnswer) ? userAnswer : [];
 
-    let score = 0;
-    
-    // Basic scoring criteria
-    if (wordCount >= 50) score += 0.3; // Adequate length
-    if (wordCount >= 100) score += 0.2; // Good length
-    if (hasKeywords) score += 0.3; // Contains relevant keywords
-    if (userAnswer.length > 200) score += 0.2; // Detailed response
+    if (!config || correctAnswer.length === 0) {
+      return {
+        is_correct: false,
+        points_earned: 0,
+        feedback: 'Question is missing drag-and-drop settings'
+      };
+    }
+
+    let correctCount: number;
+    let extraPairs = 0;
+
+    if (config.mode === 'ordering') {
+      // Count items in their correct position
+      correctCount = correctAnswer.filter((itemId, index) => answer[index] === itemId).length;
+    } else {
+      // Each item is dropped on one target; an item placed more than once scores nothing and
+      // every additional placement is deducted, so submitting every pair earns no credit
+      const itemIds = new Set(config.items.map(item => item.id));
+      const targetIds = new Set((config.targets || []).map(target => target.id));
+      const placements = new Map<string, string[]>();
+
+      for (const entry of answer) {
+        const [itemId, targetId, ...rest] = String(entry).split(':');
+
+        if (rest.length > 0 || !itemIds.has(itemId) || !targetIds.has(targetId)) {
+          return {
+            is_correct: false,
+            points_earned: 0,
+            feedback: 'Invalid answer: unknown item or drop zone.'
+          };
+        }
+
+        placements.set(itemId, [...(placements.get(itemId) ?? []), targetId]);
+      }
+
+      correctCount = correctAnswer.filter(pair => {
+        const [itemId, targetId] = pair.split(':');
+        const targets = placements.get(itemId);
+        return targets?.length === 1 && targets[0] === targetId;
+      }).length;
+      extraPairs = [...placements.values()].reduce((sum, targets) => sum + targets.length - 1, 0);
+    }
 
-    const pointsEarned = Math.round(score * question.points);
-    const isCorrect = pointsEarned >= (question.points * 0.7); // 70% threshold
+    const isCorrect = correctCount === correctAnswer.length && extraPairs === 0
+      && (config.mode === 'ordering' || answer.length === correctAnswer.length);
+
+    const fraction = isCorrect
+      ? 1
+      : config.partial_credit ? Math.max(0, correctCount - extraPairs) / correctAnswer.length : 0;
+    const pointsEarned = Math.round(fraction * question.points * 100) / 100;
+
+    let feedback = 'Incorrect. Review the correct arrangement.';
+    if (isCorrect) {
+      feedback = 'Correct!';
+    } else if (pointsEarned > 0) {
+      feedback = `Partially correct: ${correctCount} of ${correctAnswer.length} items placed correctly.`;
+    }
 
     return {
       is_correct: isCorrect,
       points_earned: pointsEarned,
-      feedback: this.generateEssayFeedback(userAnswer, score, wordCount)
+      feedback
     };
   }
 
   /**
-   * Generate essay feedback
+   * Ask the configured provider for suggested essay scores shown in the grading queue
    */
-  private static generateEssayFeedback(answer: string, score: number, wordCount: number): string {
-    const feedback = [];
-    
-    if (score >= 0.8) {
-      feedback.push('Excellent response! Well-structured and comprehensive.');
-    } else if (score >= 0.6) {
-      feedback.push('Good response. Shows understanding of the topic.');
-    } else if (score >= 0.4) {
-      feedback.push('Adequate response. Could be more detailed.');
-    } else {
-      feedback.push('Response needs improvement. Consider adding more detail.');
+  private static async suggestEssayScores(
+    supabase: SupabaseClient,
+    assessmentId: string,
+    questions: Question[],
+    pendingResults: QuestionResult[]
+  ): Promise<Map<string, EssayScoreSuggestion>> {
+    const suggestions = new Map<string, EssayScoreSuggestion>();
+    const provider = getEssayScoringProvider();
+    const essayResults = pendingResults.filter(result =>
+      questions.find(q => q.id === result.question_id)?.question_type === 'essay'
+    );
+
+    if (!provider || essayResults.length === 0) {
+      return suggestions;
     }
 
-    if (wordCount < 50) {
-      feedback.push('Response is quite brief. Consider expanding your answer.');
-    } else if (wordCount > 200) {
-      feedback.push('Comprehensive response with good detail.');
+    const rubrics = await this.getRubrics(assessmentId, supabase);
+
+    for (const result of essayResults) {
+      const question = questions.find(q => q.id === result.question_id) as Question;
+      const answer = Array.isArray(result.user_answer) ? result.user_answer.join(' ') : result.user_answer;
+
+      try {
+        suggestions.set(
+          question.id,
+          await provider.suggest(question, answer, this.findRubric(rubrics, question.id))
+        );
+      } catch (error) {
+        // Suggestions are advisory; grading continues without one
+        console.error(`Essay score suggestion failed (${provider.name}):`, error);
+      }
     }
 
-    return feedback.join(' ');
+    return suggestions;
   }
 
   /**
@@ -641,6 +1575,399 @@ export class AssessmentService {
     return { summary, strengths, weaknesses, recommendations };
   }
 
+  /**
+   * Get grading rubrics for an assessment
+   */
+  static async getRubrics(assessmentId: string, supabase: SupabaseClient = createClient()): Promise<GradingRubric[]> {
+    const { data, error } = await supabase
+      .from('grading_rubrics')
+      .select('*')
+      .eq('assessment_id', assessmentId)
+      .overrideTypes<GradingRubric[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch rubrics: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create or replace the rubric for an assessment (or one of its questions)
+   */
+  static async saveRubric(instructorId: string, rubricData: RubricDefinition): Promise<GradingRubric> {
+    const supabase = createClient();
+
+    await this.verifyAssessmentOwnership(rubricData.assessment_id, instructorId);
+
+    if (rubricData.question_id) {
+      const { data: question } = await supabase
+        .from('questions')
+        .select('id')
+        .eq('id', rubricData.question_id)
+        .eq('assessment_id', rubricData.assessment_id)
+        .single();
+
+      if (!question) {
+        throw new Error('Question not found in assessment');
+      }
+    }
+
+    const criteria = rubricData.criteria.map(criterion => ({
+      ...criterion,
+      id: criterion.id || crypto.randomUUID()
+    }));
+
+    const existing = (await this.getRubrics(rubricData.assessment_id))
+      .find(rubric => (rubric.question_id || null) === (rubricData.question_id || null));
+
+    const payload = {
+      assessment_id: rubricData.assessment_id,
+      question_id: rubricData.question_id || null,
+      criteria,
+      total_points: criteria.reduce((sum, criterion) => sum + criterion.max_points, 0),
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = existing
+      ? await supabase
+          .from('grading_rubrics')
+          .update(payload)
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('grading_rubrics')
+          .insert({ ...payload, created_at: new Date().toISOString() })
+          .select()
+          .single();
+
+    if (error) {
+      throw new Error(`Failed to save rubric: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Submitted attempts waiting for the instructor's manual grading
+   */
+  static async getGradingQueue(
+    instructorId: string,
+    query: GradingQueueQuery
+  ): Promise<{ items: GradingQueueItem[]; total: number }> {
+    const supabase = createClient();
+    const offset = (query.page - 1) * query.limit;
+
+    let request = supabase
+      .from('quiz_attempts')
+      .select(`
+        id,
+        assessment_id,
+        user_id,
+        attempt_number,
+        submitted_at,
+        assessment:assessments!inner(title, instructor_id),
+        student:users!user_id(name),
+        responses:question_responses(needs_manual_grading)
+      `, { count: 'exact' })
+      .eq('status', 'submitted')
+      .eq('assessment.instructor_id', instructorId);
+
+    if (query.assessment_id) {
+      request = request.eq('assessment_id', query.assessment_id);
+    }
+
+    const { data, error, count } = await request
+      .order('submitted_at', { ascending: true })
+      .range(offset, offset + query.limit - 1)
+      .overrideTypes<Array<{
+        id: string;
+        assessment_id: string;
+        user_id: string;
+        attempt_number: number;
+        submitted_at: string;
+        assessment: { title: string };
+        student: { name: string } | null;
+        responses: { needs_manual_grading: boolean | null }[];
+      }>, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch grading queue: ${error.message}`);
+    }
+
+    return {
+      items: (data || []).map(row => ({
+        attempt_id: row.id,
+        assessment_id: row.assessment_id,
+        assessment_title: row.assessment.title,
+        user_id: row.user_id,
+        student_name: row.student?.name || 'Unknown',
+        attempt_number: row.attempt_number,
+        submitted_at: row.submitted_at,
+        pending_responses: row.responses.filter(r => r.needs_manual_grading).length,
+        total_responses: row.responses.length
+      })),
+      total: count || 0
+    };
+  }
+
+  /**
+   * Load an attempt with questions, responses and rubrics for grading
+   */
+  static async getAttemptForGrading(
+    assessmentId: string,
+    attemptId: string,
+    instructorId: string
+  ): Promise<AttemptGradingDetail> {
+    const supabase = createClient();
+
+    const { data: attempt } = await supabase
+      .from('quiz_attempts')
+      .select(`
+        *,
+        assessment:assessments(id, title, passing_score, grading_method, instructor_id)
+      `)
+      .eq('id', attemptId)
+      .eq('assessment_id', assessmentId)
+      .single();
+
+    if (!attempt || attempt.assessment?.instructor_id !== instructorId) {
+      throw new Error('Attempt not found or access denied');
+    }
+
+    const [{ data: questions }, { data: responses }, rubrics] = await Promise.all([
+      supabase
+        .from('questions')
+        .select(`
+          *,
+          options:question_options(*)
+        `)
+        .eq('assessment_id', attempt.assessment_id)
+        .order('order_index'),
+      supabase
+        .from('question_responses')
+        .select('*')
+        .eq('attempt_id', attemptId),
+      this.getRubrics(attempt.assessment_id)
+    ]);
+
+    const { assessment, ...attemptFields } = attempt;
+
+    return {
+      attempt: attemptFields,
+      assessment: {
+        id: assessment.id,
+        title: assessment.title,
+        passing_score: assessment.passing_score,
+        grading_method: assessment.grading_method
+      },
+      questions: questions || [],
+      responses: responses || [],
+      rubrics
+    };
+  }
+
+  /**
+   * Record manual grades and optionally release the results to the student.
+   * Released (or re-graded) attempts get their score, percentage and pass state recomputed.
+   */
+  static async gradeAttempt(
+    assessmentId: string,
+    attemptId: string,
+    graderId: string,
+    gradingData: ManualGrading
+  ): Promise<QuizAttempt> {
+    const supabase = createClient();
+
+    const { data: attempt } = await supabase
+      .from('quiz_attempts')
+      .select(`
+        id,
+        assessment_id,
+        user_id,
+        status,
+        feedback,
+        question_ids,
+        assessment:assessments(instructor_id, title, passing_score, grading_method)
+      `)
+      .eq('id', attemptId)
+      .eq('assessment_id', assessmentId)
+      .single()
+      .overrideTypes<GradableAttemptRow | null, { merge: false }>();
+
+    if (!attempt || attempt.assessment.instructor_id !== graderId) {
+      throw new Error('Attempt not found or access denied');
+    }
+
+    if (attempt.status !== 'submitted' && attempt.status !== 'graded') {
+      throw new Error('Attempt is not ready for grading');
+    }
+
+    const [{ data: questions }, rubrics] = await Promise.all([
+      supabase
+        .from('questions')
+        .select('id, points, question_type, draw_section_id')
+        .eq('assessment_id', attempt.assessment_id)
+        .overrideTypes<Pick<Question, 'id' | 'points' | 'question_type' | 'draw_section_id'>[], { merge: false }>(),
+      this.getRubrics(attempt.assessment_id)
+    ]);
+
+    const now = new Date().toISOString();
+
+    for (const grade of gradingData.question_responses) {
+      const question = questions?.find(q => q.id === grade.question_id);
+      if (!question) {
+        throw new Error('Question not found in assessment');
+      }
+
+      let pointsEarned = grade.points_earned ?? 0;
+      let rubricScores: RubricCriterionScore[] | null = null;
+
+      if (grade.rubric_scores) {
+        const rubric = this.findRubric(rubrics, question.id);
+        if (!rubric) {
+          throw new Error('No rubric defined for question');
+        }
+
+        rubricScores = grade.rubric_scores;
+        pointsEarned = this.scoreRubric(rubric, rubricScores, question.points);
+      }
+
+      if (pointsEarned > question.points) {
+        throw new Error('Points exceed question maximum');
+      }
+
+      const { data: updated, error } = await supabase
+        .from('question_responses')
+        .update({
+          points_earned: pointsEarned,
+          is_correct: pointsEarned >= question.points * CORRECT_THRESHOLD,
+          rubric_scores: rubricScores,
+          feedback: grade.feedback ?? null,
+          needs_manual_grading: false,
+          graded_at: now,
+          graded_by: graderId
+        })
+        .eq('attempt_id', attemptId)
+        .eq('question_id', question.id)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to save grade: ${error.message}`);
+      }
+
+      if (!updated || updated.length === 0) {
+        throw new Error('Response not found for question');
+      }
+    }
+
+    const { data: responses } = await supabase
+      .from('question_responses')
+      .select('question_id, points_earned, needs_manual_grading')
+      .eq('attempt_id', attemptId)
+      .overrideTypes<Pick<QuestionResponse, 'question_id' | 'points_earned' | 'needs_manual_grading'>[], { merge: false }>();
+
+    const attemptUpdate: Record<string, unknown> = {
+      feedback: gradingData.overall_feedback ?? attempt.feedback,
+      updated_at: now
+    };
+
+    if (gradingData.release || attempt.status === 'graded') {
+      if (responses?.some(r => r.needs_manual_grading)) {
+        throw new Error('Ungraded responses remain');
+      }
+
+      const score = Math.round((responses || []).reduce((sum, r) => sum + (r.points_earned || 0), 0) * 100) / 100;
+      const maxScore = (questions || [])
+        .filter(q => this.isInAttempt(attempt, q))
+        .reduce((sum, q) => sum + q.points, 0);
+      const percentage = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+
+      Object.assign(attemptUpdate, {
+        status: 'graded',
+        score,
+        max_score: maxScore,
+        percentage,
+        passed: percentage >= attempt.assessment.passing_score,
+        graded_at: now,
+        graded_by: graderId,
+        requires_manual_grading: false
+      });
+    }
+
+    const { data: gradedAttempt, error } = await supabase
+      .from('quiz_attempts')
+      .update(attemptUpdate)
+      .eq('id', attemptId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update attempt: ${error.message}`);
+    }
+
+    return gradedAttempt;
+  }
+
+  /**
+   * Question-specific rubric, falling back to the assessment-wide one
+   */
+  private static findRubric(rubrics: GradingRubric[], questionId: string): GradingRubric | undefined {
+    return rubrics.find(r => r.question_id === questionId)
+      || rubrics.find(r => !r.question_id);
+  }
+
+  /**
+   * Scale rubric criterion points to the question's point value
+   */
+  private static scoreRubric(
+    rubric: GradingRubric,
+    scores: RubricCriterionScore[],
+    questionPoints: number
+  ): number {
+    let earned = 0;
+
+    const scoredCriteria = new Set(scores.map(score => score.criterion_id));
+    if (scoredCriteria.size !== scores.length || scoredCriteria.size !== rubric.criteria.length) {
+      throw new Error('Every rubric criterion must be scored exactly once');
+    }
+
+    for (const score of scores) {
+      const criterion = rubric.criteria.find(c => c.id === score.criterion_id);
+      if (!criterion) {
+        throw new Error('Unknown rubric criterion');
+      }
+      if (score.points > criterion.max_points) {
+        throw new Error(`Points exceed maximum for criterion "${criterion.name}"`);
+      }
+      earned += score.points;
+    }
+
+    if (rubric.total_points <= 0) {
+      return 0;
+    }
+
+    return Math.round((earned / rubric.total_points) * questionPoints * 100) / 100;
+  }
+
+  /**
+   * Verify the instructor owns the assessment
+   */
+  private static async verifyAssessmentOwnership(assessmentId: string, instructorId: string): Promise<void> {
+    const supabase = createClient();
+
+    const { data: assessment } = await supabase
+      .from('assessments')
+      .select('instructor_id')
+      .eq('id', assessmentId)
+      .single();
+
+    if (!assessment || assessment.instructor_id !== instructorId) {
+      throw new Error('Assessment not found or access denied');
+    }
+  }
+
   /**
    * Get assessment analytics
    */
@@ -0,0 +1,254 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import { toCents } from '@/lib/stripe';
+import type { CourseBundle, PaymentTransaction } from '@/lib/payments';
+import { BundleCourse, BundleDetails, BundleQuote } from '@/types/bundle';
+
+interface BundleCourseRow {
+  course_id: string;
+  course: { id: string; title: string; slug: string | null; thumbnail_url: string | null; price: number } | null;
+}
+
+export const BUNDLE_ERROR_STATUS: Record<string, number> = {
+  'Bundle not found': 404,
+  'You already own every course in this bundle': 409
+};
+
+export class BundleService {
+  /**
+   * Bundle price for the courses still to be bought, in proportion to their share of the
+   * individual prices, so owned courses are not paid for twice
+   */
+  static calculateProratedPrice(
+    bundlePrice: number,
+    courses: Array<{ price_amount: number; owned: boolean }>
+  ): number {
+    const total = courses.reduce((sum, course) => sum + course.price_amount, 0);
+    const remaining = courses
+      .filter(course => !course.owned)
+      .reduce((sum, course) => sum + course.price_amount, 0);
+
+    if (total === 0 || remaining === total) {
+      return bundlePrice;
+    }
+
+    return Math.round(bundlePrice * remaining / total);
+  }
+
+  /**
+   * Split an amount paid across courses by individual price; rounding goes to the last course
+   */
+  static allocateAmount(
+    amount: number,
+    courses: Array<{ course_id: string; price_amount: number }>
+  ): Record<string, number> {
+    const total = courses.reduce((sum, course) => sum + course.price_amount, 0);
+    const allocation: Record<string, number> = {};
+    let allocated = 0;
+
+    courses.forEach((course, index) => {
+      const share = index === courses.length - 1
+        ? amount - allocated
+        : total === 0
+          ? Math.floor(amount / courses.length)
+          : Math.round(amount * course.price_amount / total);
+
+      allocation[course.course_id] = share;
+      allocated += share;
+    });
+
+    return allocation;
+  }
+
+  /**
+   * Active bundles with their courses
+   */
+  static async getBundles(): Promise<BundleDetails[]> {
+    const supabase = createServiceClient();
+
+    const { data: bundles, error } = await supabase
+      .from('course_bundles')
+      .select('*')
+      .eq('is_active', true)
+      .order('price_amount')
+      .overrideTypes<CourseBundle[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to get course bundles: ${error.message}`);
+    }
+
+    return Promise.all((bundles || []).map(bundle => this.withCourses(bundle)));
+  }
+
+  /**
+   * Active bundle with its courses and their individual prices
+   */
+  static async getBundle(bundleId: string): Promise<BundleDetails> {
+    const supabase = createServiceClient();
+
+    const { data: bundle } = await supabase
+      .from('course_bundles')
+      .select('*')
+      .eq('id', bundleId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!bundle) {
+      throw new Error('Bundle not found');
+    }
+
+    return this.withCourses(bundle);
+  }
+
+  /**
+   * Price a bundle for a buyer
+   */
+  static async quoteBundle(bundleId: string, userId: string): Promise<BundleQuote> {
+    const bundle = await this.getBundle(bundleId);
+    const owned = await this.getOwnedCourseIds(userId, bundle.courses.map(course => course.course_id));
+
+    const courses = bundle.courses.map(course => ({ ...course, owned: owned.has(course.course_id) }));
+    const remaining = courses.filter(course => !course.owned);
+
+    if (remaining.length === 0) {
+      throw new Error('You already own every course in this bundle');
+    }
+
+    const price = this.calculateProratedPrice(bundle.price_amount, courses);
+    const remainingTotal = remaining.reduce((sum, course) => sum + course.price_amount, 0);
+
+    return {
+      bundle_id: bundle.id,
+      name: bundle.name,
+      full_price: bundle.price_amount,
+      price,
+      currency: bundle.currency,
+      course_ids: remaining.map(course => course.course_id),
+      owned_course_ids: courses.filter(course => course.owned).map(course => course.course_id),
+      savings: Math.max(remainingTotal - price, 0)
+    };
+  }
+
+  /**
+   * Grant a paid bundle: one purchase row per included course (amount allocated by
+   * individual price) and an enrollment in each. Safe to run twice for one transaction.
+   */
+  static async fulfillBundlePurchase(transaction: PaymentTransaction, courseIds?: string[]): Promise<string[]> {
+    const supabase = createServiceClient();
+
+    if (!transaction.bundle_id) {
+      throw new Error('Transaction is not a bundle purchase');
+    }
+
+    const bundle = await this.getBundle(transaction.bundle_id);
+    const covered = courseIds?.length
+      ? bundle.courses.filter(course => courseIds.includes(course.course_id))
+      : bundle.courses;
+
+    const allocation = this.allocateAmount(transaction.amount, covered);
+
+    const { error: purchaseError } = await supabase
+      .from('course_purchases')
+      .upsert(covered.map(course => ({
+        user_id: transaction.user_id,
+        course_id: course.course_id,
+        bundle_id: transaction.bundle_id,
+        transaction_id: transaction.id,
+        purchase_type: 'bundle',
+        amount_paid: allocation[course.course_id],
+        currency: transaction.currency
+      })), {
+        onConflict: 'transaction_id,course_id'
+      });
+
+    if (purchaseError) {
+      throw new Error(`Failed to create course purchases: ${purchaseError.message}`);
+    }
+
+    const { error: enrollmentError } = await supabase
+      .from('enrollments')
+      .upsert(covered.map(course => ({
+        user_id: transaction.user_id,
+        course_id: course.course_id,
+        status: 'active',
+        // Reopen a previously cancelled enrollment; the purchase replaces any subscription access
+        cancelled_at: null,
+        cancellation_reason: null,
+        subscription_id: null
+      })), {
+        onConflict: 'user_id,course_id'
+      });
+
+    if (enrollmentError) {
+      throw new Error(`Failed to enroll in bundle courses: ${enrollmentError.message}`);
+    }
+
+    return covered.map(course => course.course_id);
+  }
+
+  /**
+   * Courses the user already has access to (active enrollment or unrefunded purchase)
+   */
+  private static async getOwnedCourseIds(userId: string, courseIds: string[]): Promise<Set<string>> {
+    const supabase = createServiceClient();
+
+    const [{ data: enrollments }, { data: purchases }] = await Promise.all([
+      supabase
+        .from('enrollments')
+        .select('course_id')
+        .eq('user_id', userId)
+        .in('course_id', courseIds)
+        .is('cancelled_at', null),
+      supabase
+        .from('course_purchases')
+        .select('course_id')
+        .eq('user_id', userId)
+        .in('course_id', courseIds)
+        .is('refunded_at', null)
+    ]);
+
+    return new Set([...(enrollments || []), ...(purchases || [])].map(row => row.course_id));
+  }
+
+  private static async withCourses(bundle: CourseBundle): Promise<BundleDetails> {
+    const supabase = createServiceClient();
+
+    const { data: rows, error } = await supabase
+      .from('bundle_courses')
+      .select(`
+        course_id,
+        course:courses!course_id ( id, title, slug, thumbnail_url, price )
+      `)
+      .eq('bundle_id', bundle.id)
+      .overrideTypes<BundleCourseRow[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to get bundle courses: ${error.message}`);
+    }
+
+    const courseIds = (rows || []).map(row => row.course_id);
+
+    // Stripe prices in the bundle's currency win over the course list price, as at course checkout
+    const { data: prices } = await supabase
+      .from('course_prices')
+      .select('course_id, price_amount')
+      .in('course_id', courseIds)
+      .eq('currency', bundle.currency)
+      .eq('is_active', true);
+
+    const priceByCourse = new Map((prices || []).map(price => [price.course_id, price.price_amount]));
+
+    const courses: BundleCourse[] = (rows || []).map(row => ({
+      course_id: row.course_id,
+      title: row.course?.title || '',
+      slug: row.course?.slug ?? null,
+      thumbnail_url: row.course?.thumbnail_url ?? null,
+      price_amount: priceByCourse.get(row.course_id) ?? toCents(row.course?.price || 0)
+    }));
+
+    return {
+      ...bundle,
+      courses,
+      individual_total: courses.reduce((sum, course) => sum + course.price_amount, 0)
+    };
+  }
+}
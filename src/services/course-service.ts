@@ -311,7 +311,8 @@ export class CourseService {
     // Get average rating
     let ratingsQuery = supabase
       .from('course_reviews')
-      .select('rating, courses!inner(instructor_id)');
+      .select('rating, courses!inner(instructor_id)')
+      .eq('is_approved', true);
 
     if (instructorId) {
       ratingsQuery = ratingsQuery.eq('courses.instructor_id', instructorId);
@@ -0,0 +1,501 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import { toCents, type Currency } from '@/lib/stripe';
+import {
+  DiscountCode,
+  DiscountQuote,
+  DiscountRedemption,
+  DiscountTarget,
+  DiscountType
+} from '@/types/discount';
+import {
+  CreateDiscountCode,
+  UpdateDiscountCode,
+  DiscountCodeQuery
+} from '@/lib/validation/discounts';
+import { PricingService } from '@/services/pricing-service';
+
+// HTTP status for the validation errors a student can hit when applying a code
+export const DISCOUNT_ERROR_STATUS: Record<string, number> = {
+  'Discount code not found': 404,
+  'Discount code is not active yet': 400,
+  'Discount code has expired': 410,
+  'Discount code does not apply to this course': 400,
+  'Discount code does not apply to this bundle': 400,
+  'Discount code is not valid for this currency': 400,
+  'Discount code usage limit reached': 409,
+  'You have already used this discount code': 409
+};
+
+export interface DiscountCodeDetails extends DiscountCode {
+  redemptions: DiscountRedemption[];
+  total_discounted: number;
+}
+
+export class DiscountService {
+  /**
+   * Price after applying a discount code; amounts are in cents and never go below zero
+   */
+  static calculateDiscount(discountCode: DiscountCode, target: DiscountTarget): DiscountQuote {
+    let discountAmount: number;
+
+    switch (discountCode.discount_type) {
+      case 'free':
+        discountAmount = target.amount;
+        break;
+      case 'percentage':
+        discountAmount = Math.round(target.amount * (discountCode.percent_off ?? 0) / 100);
+        break;
+      case 'fixed':
+        discountAmount = discountCode.amount_off ?? 0;
+        break;
+    }
+
+    discountAmount = Math.min(discountAmount, target.amount);
+    const finalAmount = target.amount - discountAmount;
+
+    return {
+      discount_code_id: discountCode.id,
+      code: discountCode.code,
+      discount_type: discountCode.discount_type,
+      original_amount: target.amount,
+      discount_amount: discountAmount,
+      final_amount: finalAmount,
+      currency: target.currency,
+      is_free: finalAmount === 0
+    };
+  }
+
+  /**
+   * Check activity window, scope and currency of a code against the item being bought.
+   * Usage caps need the database and are checked separately.
+   */
+  static assertApplicable(discountCode: DiscountCode, target: DiscountTarget, now: Date = new Date()): void {
+    if (!discountCode.is_active) {
+      throw new Error('Discount code not found');
+    }
+
+    if (discountCode.starts_at && new Date(discountCode.starts_at) > now) {
+      throw new Error('Discount code is not active yet');
+    }
+
+    if (discountCode.expires_at && new Date(discountCode.expires_at) <= now) {
+      throw new Error('Discount code has expired');
+    }
+
+    if (discountCode.applies_to === 'courses' &&
+      (!target.course_id || !discountCode.course_ids.includes(target.course_id))) {
+      throw new Error('Discount code does not apply to this course');
+    }
+
+    if (discountCode.applies_to === 'bundles' &&
+      (!target.bundle_id || !discountCode.bundle_ids.includes(target.bundle_id))) {
+      throw new Error('Discount code does not apply to this bundle');
+    }
+
+    if (discountCode.discount_type === 'fixed' && discountCode.currency !== target.currency) {
+      throw new Error('Discount code is not valid for this currency');
+    }
+  }
+
+  /**
+   * Validate a code for a user and item and price it, without reserving a redemption
+   */
+  static async quoteDiscount(code: string, userId: string, target: DiscountTarget): Promise<DiscountQuote> {
+    const supabase = createServiceClient();
+    const discountCode = await this.getDiscountCodeByCode(code);
+
+    this.assertApplicable(discountCode, target);
+
+    if (discountCode.max_redemptions !== null && discountCode.redemption_count >= discountCode.max_redemptions) {
+      throw new Error('Discount code usage limit reached');
+    }
+
+    const { count, error } = await supabase
+      .from('discount_redemptions')
+      .select('*', { count: 'exact', head: true })
+      .eq('discount_code_id', discountCode.id)
+      .eq('user_id', userId)
+      .neq('status', 'voided');
+
+    if (error) {
+      throw new Error(`Failed to check discount code usage: ${error.message}`);
+    }
+
+    if ((count ?? 0) >= discountCode.max_redemptions_per_user) {
+      throw new Error('You have already used this discount code');
+    }
+
+    return this.calculateDiscount(discountCode, target);
+  }
+
+  /**
+   * Price of a course or bundle as checkout would charge it (the Stripe price when the
+   * course has one, otherwise its list price)
+   */
+  static async getDiscountTarget(item: { courseId?: string; bundleId?: string; currency?: Currency }): Promise<DiscountTarget> {
+    const supabase = createServiceClient();
+
+    if (item.bundleId) {
+      const { data: bundle } = await supabase
+        .from('course_bundles')
+        .select('price_amount, currency')
+        .eq('id', item.bundleId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (!bundle) {
+        throw new Error('Bundle not found');
+      }
+
+      return { bundle_id: item.bundleId, amount: bundle.price_amount, currency: bundle.currency };
+    }
+
+    // Same price checkout charges: the requested currency when the course is priced in it
+    const coursePrice = item.courseId ? await PricingService.getCoursePrice(item.courseId, item.currency) : null;
+
+    if (coursePrice) {
+      return { course_id: item.courseId, amount: coursePrice.price_amount, currency: coursePrice.currency };
+    }
+
+    const { data: course } = await supabase
+      .from('courses')
+      .select('price, currency')
+      .eq('id', item.courseId)
+      .maybeSingle();
+
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    return { course_id: item.courseId, amount: toCents(course.price), currency: course.currency || 'USD' };
+  }
+
+  /**
+   * Reserve a pending redemption. Caps are enforced again inside the database function,
+   * under a row lock, so concurrent checkouts cannot exceed them.
+   */
+  static async redeemDiscountCode(
+    code: string,
+    userId: string,
+    target: DiscountTarget
+  ): Promise<{ redemption: DiscountRedemption; quote: DiscountQuote }> {
+    const supabase = createServiceClient();
+    const quote = await this.quoteDiscount(code, userId, target);
+
+    const { data: redemption, error } = await supabase
+      .rpc('redeem_discount_code', {
+        p_discount_code_id: quote.discount_code_id,
+        p_user_id: userId,
+        p_course_id: target.course_id ?? null,
+        p_bundle_id: target.bundle_id ?? null,
+        p_original_amount: quote.original_amount,
+        p_amount_discounted: quote.discount_amount,
+        p_currency: quote.currency
+      })
+      .single();
+
+    if (error) {
+      // The database function raises the same messages as quoteDiscount for lost races
+      if (error.message === 'Discount code usage limit reached' ||
+        error.message === 'You have already used this discount code') {
+        throw new Error(error.message);
+      }
+      throw new Error(`Failed to redeem discount code: ${error.message}`);
+    }
+
+    return { redemption: redemption as DiscountRedemption, quote };
+  }
+
+  /**
+   * Attach a pending redemption to the payment transaction it discounts
+   */
+  static async attachTransaction(redemptionId: string, transactionId: string): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+      .from('discount_redemptions')
+      .update({ transaction_id: transactionId })
+      .eq('id', redemptionId);
+
+    if (error) {
+      throw new Error(`Failed to link discount redemption: ${error.message}`);
+    }
+  }
+
+  /**
+   * Mark a pending redemption as used (payment succeeded or free enrollment created)
+   */
+  static async completeRedemption(
+    redemptionId: string,
+    links: { transaction_id?: string; enrollment_id?: string } = {}
+  ): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+      .from('discount_redemptions')
+      .update({
+        ...links,
+        status: 'completed',
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', redemptionId)
+      .eq('status', 'pending');
+
+    if (error) {
+      throw new Error(`Failed to complete discount redemption: ${error.message}`);
+    }
+  }
+
+  /**
+   * Release a pending redemption so it no longer counts towards the usage caps
+   */
+  static async voidRedemption(redemptionId: string): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase.rpc('void_discount_redemption', {
+      p_redemption_id: redemptionId
+    });
+
+    if (error) {
+      throw new Error(`Failed to void discount redemption: ${error.message}`);
+    }
+  }
+
+  /**
+   * Pending redemption reserved for a payment transaction, if any
+   */
+  static async getPendingRedemptionForTransaction(transactionId: string): Promise<DiscountRedemption | null> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('discount_redemptions')
+      .select('*')
+      .eq('transaction_id', transactionId)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get discount redemption: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // =====================================
+  // ADMIN MANAGEMENT
+  // =====================================
+
+  /**
+   * List discount codes (admin)
+   */
+  static async getDiscountCodes(
+    options: DiscountCodeQuery
+  ): Promise<{ discountCodes: DiscountCode[]; total: number }> {
+    const supabase = createServiceClient();
+    const { status, search, page, limit } = options;
+    const now = new Date().toISOString();
+
+    let query = supabase
+      .from('discount_codes')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false });
+
+    if (status === 'active') {
+      query = query.eq('is_active', true).or(`expires_at.is.null,expires_at.gt.${now}`);
+    } else if (status === 'inactive') {
+      query = query.eq('is_active', false);
+    } else if (status === 'expired') {
+      query = query.lte('expires_at', now);
+    }
+
+    if (search) query = query.ilike('code', `%${search}%`);
+
+    const from = (page - 1) * limit;
+    query = query.range(from, from + limit - 1);
+
+    const { data, error, count } = await query.overrideTypes<DiscountCode[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch discount codes: ${error.message}`);
+    }
+
+    return { discountCodes: data || [], total: count || 0 };
+  }
+
+  /**
+   * Discount code with its redemption history (admin)
+   */
+  static async getDiscountCode(discountCodeId: string): Promise<DiscountCodeDetails> {
+    const supabase = createServiceClient();
+
+    const { data: discountCode, error } = await supabase
+      .from('discount_codes')
+      .select('*')
+      .eq('id', discountCodeId)
+      .single();
+
+    if (error || !discountCode) {
+      throw new Error('Discount code not found');
+    }
+
+    const { data: redemptions, error: redemptionsError } = await supabase
+      .from('discount_redemptions')
+      .select('*')
+      .eq('discount_code_id', discountCodeId)
+      .order('redeemed_at', { ascending: false })
+      .overrideTypes<DiscountRedemption[], { merge: false }>();
+
+    if (redemptionsError) {
+      throw new Error(`Failed to fetch discount redemptions: ${redemptionsError.message}`);
+    }
+
+    return {
+      ...discountCode,
+      redemptions: redemptions || [],
+      total_discounted: (redemptions || [])
+        .filter(redemption => redemption.status === 'completed')
+        .reduce((sum, redemption) => sum + redemption.amount_discounted, 0)
+    };
+  }
+
+  /**
+   * Create a discount code (admin)
+   */
+  static async createDiscountCode(adminId: string, input: CreateDiscountCode): Promise<DiscountCode> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('discount_codes')
+      .insert({
+        ...this.normalize(input, input.discount_type),
+        created_by: adminId
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('Discount code already exists');
+      }
+      throw new Error(`Failed to create discount code: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Update a discount code (admin)
+   */
+  static async updateDiscountCode(discountCodeId: string, input: UpdateDiscountCode): Promise<DiscountCode> {
+    const supabase = createServiceClient();
+    const existing = await this.getDiscountCode(discountCodeId);
+
+    // The partial update is only consistent together with the stored fields
+    const merged = { ...existing, ...input };
+    if (merged.discount_type === 'percentage' && !merged.percent_off) {
+      throw new Error('Percentage codes require percent_off');
+    }
+    if (merged.discount_type === 'fixed' && (!merged.amount_off || !merged.currency)) {
+      throw new Error('Fixed codes require amount_off and currency');
+    }
+    if ((merged.applies_to === 'courses' && merged.course_ids.length === 0) ||
+      (merged.applies_to === 'bundles' && merged.bundle_ids.length === 0)) {
+      throw new Error('Scoped codes require at least one course or bundle');
+    }
+
+    const { data, error } = await supabase
+      .from('discount_codes')
+      .update(this.normalize(input, existing.discount_type))
+      .eq('id', discountCodeId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update discount code: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a discount code (admin). Codes with redemptions are only deactivated so the
+   * redemption history and transaction references stay intact.
+   */
+  static async deleteDiscountCode(discountCodeId: string): Promise<{ deleted: boolean }> {
+    const supabase = createServiceClient();
+    const existing = await this.getDiscountCode(discountCodeId);
+
+    if (existing.redemptions.length > 0) {
+      const { error } = await supabase
+        .from('discount_codes')
+        .update({ is_active: false })
+        .eq('id', discountCodeId);
+
+      if (error) {
+        throw new Error(`Failed to deactivate discount code: ${error.message}`);
+      }
+
+      return { deleted: false };
+    }
+
+    const { error } = await supabase
+      .from('discount_codes')
+      .delete()
+      .eq('id', discountCodeId);
+
+    if (error) {
+      throw new Error(`Failed to delete discount code: ${error.message}`);
+    }
+
+    return { deleted: true };
+  }
+
+  private static async getDiscountCodeByCode(code: string): Promise<DiscountCode> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('discount_codes')
+      .select('*')
+      .eq('code', code.trim().toUpperCase())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get discount code: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Discount code not found');
+    }
+
+    return data;
+  }
+
+  /**
+   * Clear the value fields that do not belong to the code's type and scope
+   */
+  private static normalize(
+    input: CreateDiscountCode | UpdateDiscountCode,
+    type: DiscountType
+  ): Record<string, unknown> {
+    const row: Record<string, unknown> = { ...input };
+
+    if (type === 'percentage' || type === 'free') {
+      row.amount_off = null;
+      row.currency = null;
+    }
+    if (type === 'fixed' || type === 'free') {
+      row.percent_off = null;
+    }
+
+    if (input.applies_to === 'all') {
+      row.course_ids = [];
+      row.bundle_ids = [];
+    } else if (input.applies_to === 'courses') {
+      row.bundle_ids = [];
+    } else if (input.applies_to === 'bundles') {
+      row.course_ids = [];
+    }
+
+    return row;
+  }
+}
@@ -1,11 +1,22 @@
 import { createClient } from '@/utils/supabase/server';
 import { Enrollment } from '@/types/course';
+import { DiscountQuote } from '@/types/discount';
+import { DiscountService } from '@/services/discount-service';
+import { RefundService } from '@/services/refund-service';
+import { EntitlementService } from '@/services/entitlement-service';
+import { stripe, toCents, type Currency } from '@/lib/stripe';
+import {
+  getCoursePrice,
+  getPaymentProvider,
+  getPaymentTransactionByStripeId,
+  getStripeCustomerByUserId
+} from '@/lib/payments';
 
 export interface EnrollmentRequest {
   courseId: string;
   userId: string;
   paymentIntentId?: string; // For paid courses
-  paymentMethod?: 'free' | 'paid' | 'coupon';
+  paymentMethod?: 'free' | 'paid' | 'coupon' | 'subscription';
   couponCode?: string;
 }
 
@@ -25,6 +36,7 @@ export interface EnrollmentEligibility {
     id: string;
     title: string;
     price: number;
+    currency?: string;
     max_students?: number;
     published: boolean;
   };
@@ -32,6 +44,13 @@ export interface EnrollmentEligibility {
   userEnrollmentStatus?: 'not_enrolled' | 'enrolled' | 'completed' | 'cancelled';
 }
 
+const ENROLLMENT_SELECT = `
+  *,
+  course:courses!course_id (
+    id, title, price, instructor_id
+  )
+`;
+
 export class EnrollmentService {
   /**
    * Check if user can enroll in a course
@@ -45,7 +64,7 @@ export class EnrollmentService {
     // Get course details
     const { data: course, error: courseError } = await supabase
       .from('courses')
-      .select('id, title, price, max_students, published, instructor_id')
+      .select('id, title, price, currency, max_students, published, instructor_id')
       .eq('id', courseId)
       .single();
 
@@ -162,7 +181,9 @@ export class EnrollmentService {
   }
 
   /**
-   * Enroll user in a paid course (requires payment verification)
+   * Enroll user in a paid course (requires payment verification).
+   * Idempotent per payment: the Stripe webhook enrolls with the same payment intent, so
+   * whichever of the two arrives second gets the existing enrollment back.
    */
   static async enrollInPaidCourse(
     courseId: string,
@@ -171,6 +192,11 @@ export class EnrollmentService {
   ): Promise<EnrollmentResult> {
     const supabase = createClient();
 
+    const existing = await this.getEnrollmentForPayment(paymentIntentId, courseId, userId);
+    if (existing) {
+      return existing;
+    }
+
     // Check eligibility first
     const eligibility = await this.checkEnrollmentEligibility(courseId, userId);
     if (!eligibility.eligible) {
@@ -182,13 +208,8 @@ export class EnrollmentService {
       throw new Error('This is a free course. No payment required.');
     }
 
-    // TODO: Verify payment with Stripe
-    // const paymentVerified = await this.verifyStripePayment(paymentIntentId, eligibility.course.price);
-    // if (!paymentVerified) {
-    //   throw new Error('Payment verification failed');
-    // }
+    await this.verifyStripePayment(paymentIntentId, courseId, userId);
 
-    // For now, assume payment is verified
     const { data: enrollment, error } = await supabase
       .from('enrollments')
       .insert({
@@ -198,21 +219,208 @@ export class EnrollmentService {
         progress_percentage: 0,
         payment_intent_id: paymentIntentId
       })
-      .select(`
-        *,
-        course:courses!course_id (
-          id, title, price, instructor_id
-        )
-      `)
+      .select(ENROLLMENT_SELECT)
       .single();
 
     if (error) {
+      // Lost the race against the webhook: return the enrollment it created
+      if (error.code === '23505') {
+        const created = await this.getEnrollmentForPayment(paymentIntentId, courseId, userId);
+        if (created) {
+          return created;
+        }
+      }
       throw new Error(`Failed to enroll in course: ${error.message}`);
     }
 
     return enrollment;
   }
 
+  /**
+   * Enroll user in a paid course with a discount code that covers the full price.
+   * When the code only reduces the price, no enrollment is created and the quote is
+   * returned so the client can continue to checkout with the discounted amount.
+   */
+  static async enrollWithCoupon(
+    courseId: string,
+    userId: string,
+    couponCode: string
+  ): Promise<{ enrollment: EnrollmentResult | null; quote: DiscountQuote }> {
+    const supabase = createClient();
+
+    // Check eligibility first
+    const eligibility = await this.checkEnrollmentEligibility(courseId, userId);
+    if (!eligibility.eligible) {
+      throw new Error(eligibility.reason || 'Enrollment not allowed');
+    }
+
+    if (!eligibility.course || eligibility.course.price === 0) {
+      throw new Error('This is a free course. No coupon required.');
+    }
+
+    const target = {
+      course_id: courseId,
+      amount: toCents(eligibility.course.price),
+      currency: (eligibility.course.currency || 'USD') as Currency
+    };
+
+    const quote = await DiscountService.quoteDiscount(couponCode, userId, target);
+    if (!quote.is_free) {
+      return { enrollment: null, quote };
+    }
+
+    const { redemption } = await DiscountService.redeemDiscountCode(couponCode, userId, target);
+
+    const { data: enrollment, error } = await supabase
+      .from('enrollments')
+      .insert({
+        user_id: userId,
+        course_id: courseId,
+        enrolled_at: new Date().toISOString(),
+        progress_percentage: 0
+      })
+      .select(ENROLLMENT_SELECT)
+      .single();
+
+    if (error) {
+      // Give the use back so the student can retry with the same code
+      await DiscountService.voidRedemption(redemption.id);
+      throw new Error(`Failed to enroll in course: ${error.message}`);
+    }
+
+    await DiscountService.completeRedemption(redemption.id, { enrollment_id: enrollment.id });
+
+    return { enrollment, quote };
+  }
+
+  /**
+   * Enroll user in a paid course through a subscription plan that includes it. The
+   * enrollment is tied to the subscription, so access ends when the subscription does.
+   */
+  static async enrollWithSubscription(
+    courseId: string,
+    userId: string
+  ): Promise<EnrollmentResult> {
+    const supabase = createClient();
+
+    // Check eligibility first
+    const eligibility = await this.checkEnrollmentEligibility(courseId, userId);
+    if (!eligibility.eligible) {
+      throw new Error(eligibility.reason || 'Enrollment not allowed');
+    }
+
+    const access = await EntitlementService.getCourseAccess(userId, courseId);
+    if (!access.has_access || !access.subscription_id) {
+      throw new Error('Your subscription does not include this course');
+    }
+
+    const { data: enrollment, error } = await supabase
+      .from('enrollments')
+      .insert({
+        user_id: userId,
+        course_id: courseId,
+        enrolled_at: new Date().toISOString(),
+        progress_percentage: 0,
+        subscription_id: access.subscription_id
+      })
+      .select(ENROLLMENT_SELECT)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to enroll in course: ${error.message}`);
+    }
+
+    return enrollment;
+  }
+
+  /**
+   * Enrollment already created for a payment intent. A payment can only ever pay for
+   * one enrollment, so reuse for another user or course is rejected.
+   */
+  private static async getEnrollmentForPayment(
+    paymentIntentId: string,
+    courseId: string,
+    userId: string
+  ): Promise<EnrollmentResult | null> {
+    const supabase = createClient();
+
+    const { data: enrollment } = await supabase
+      .from('enrollments')
+      .select(ENROLLMENT_SELECT)
+      .eq('payment_intent_id', paymentIntentId)
+      .maybeSingle();
+
+    if (!enrollment) {
+      return null;
+    }
+
+    if (enrollment.user_id !== userId || enrollment.course_id !== courseId) {
+      throw new Error('Payment has already been used for another enrollment');
+    }
+
+    return enrollment;
+  }
+
+  /**
+   * Check with Stripe that the payment intent succeeded, was paid by this user's
+   * customer and covers this course at its current price
+   */
+  private static async verifyStripePayment(
+    paymentIntentId: string,
+    courseId: string,
+    userId: string
+  ): Promise<void> {
+    const provider = getPaymentProvider();
+    if (provider.name === 'stripe' && !stripe) {
+      throw new Error('Payment verification is not available');
+    }
+
+    let paymentIntent;
+    try {
+      paymentIntent = await provider.retrievePaymentIntent(paymentIntentId);
+    } catch {
+      throw new Error('Payment not found');
+    }
+
+    if (paymentIntent.status !== 'succeeded') {
+      throw new Error('Payment has not succeeded');
+    }
+
+    const customer = await getStripeCustomerByUserId(userId);
+    const paymentCustomerId = typeof paymentIntent.customer === 'string'
+      ? paymentIntent.customer
+      : paymentIntent.customer?.id;
+
+    if (!customer || paymentCustomerId !== customer.stripe_customer_id) {
+      throw new Error('Payment does not belong to this user');
+    }
+
+    if (paymentIntent.metadata?.courseId && paymentIntent.metadata.courseId !== courseId) {
+      throw new Error('Payment was made for a different course');
+    }
+
+    // Checked against the course's price in the currency the buyer paid in
+    const coursePrice = await getCoursePrice(courseId, paymentIntent.currency.toUpperCase() as Currency);
+    if (!coursePrice) {
+      throw new Error('Course price not found');
+    }
+
+    // A discounted payment is checked against the amount priced when it was created
+    const transaction = await getPaymentTransactionByStripeId(paymentIntentId);
+    if (transaction && transaction.course_id !== courseId) {
+      throw new Error('Payment was made for a different course');
+    }
+
+    const expectedAmount = transaction?.discount_code_id ? transaction.amount : coursePrice.price_amount;
+
+    if (
+      paymentIntent.amount_received !== expectedAmount ||
+      paymentIntent.currency.toUpperCase() !== coursePrice.currency
+    ) {
+      throw new Error('Payment amount does not match the course price');
+    }
+  }
+
   /**
    * Get user's enrollments
    */
@@ -333,7 +541,7 @@ export class EnrollmentService {
       .from('enrollments')
       .select(`
         *,
-        course:courses!course_id (price)
+        course:courses!course_id (price, refund_window_days, refund_max_progress)
       `)
       .eq('id', enrollmentId)
       .eq('user_id', userId)
@@ -343,24 +551,32 @@ export class EnrollmentService {
       throw new Error('Enrollment not found');
     }
 
-    // Check if within refund period (14 days and <25% progress)
-    const enrolledDate = new Date(enrollment.enrolled_at);
-    const daysSinceEnrollment = Math.floor(
-      (Date.now() - enrolledDate.getTime()) / (1000 * 60 * 60 * 24)
+    // Check if within the course's refund policy (default 14 days and <25% progress)
+    const policy = RefundService.policyFor(enrollment.course);
+    const isWithinRefundPeriod = RefundService.isWithinRefundPolicy(
+      policy,
+      enrollment.enrolled_at,
+      enrollment.progress_percentage || 0
     );
 
-    const isWithinRefundPeriod = 
-      daysSinceEnrollment <= 14 && 
-      (enrollment.progress_percentage || 0) < 25;
-
     if (!isWithinRefundPeriod) {
-      throw new Error('Cancellation not allowed. Refund period has expired or progress exceeds 25%.');
+      throw new Error(
+        `Cancellation not allowed. Refund period of ${policy.refund_window_days} days has expired or progress exceeds ${policy.refund_max_progress}%.`
+      );
     }
 
     // For paid courses, process refund
     if (enrollment.course?.price > 0 && enrollment.payment_intent_id) {
-      // TODO: Process Stripe refund
-      // await this.processStripeRefund(enrollment.payment_intent_id);
+      const transaction = await getPaymentTransactionByStripeId(enrollment.payment_intent_id);
+
+      if (transaction && ['succeeded', 'partially_refunded'].includes(transaction.status)) {
+        await RefundService.refundTransaction({
+          transaction_id: transaction.id,
+          reason: 'requested_by_customer',
+          note: reason,
+          issued_by: userId
+        });
+      }
     }
 
     // Mark enrollment as cancelled (soft delete)
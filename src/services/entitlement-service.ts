@@ -0,0 +1,381 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import type { UserSubscription } from '@/lib/payments';
+import {
+  CourseAccess,
+  EntitledSubscription,
+  PlanEntitlement,
+  SubscriptionEnrollment,
+  SubscriptionEnrollmentChanges
+} from '@/types/subscription';
+import type { PlanEntitlementsInput } from '@/lib/validation/subscriptions';
+
+// Days a past_due subscription keeps access while Stripe retries the renewal
+export const DEFAULT_GRACE_PERIOD_DAYS = 7;
+
+const ENTITLED_STATUSES = ['active', 'trialing', 'past_due'];
+
+// Cancellation reason of enrollments closed because their subscription stopped covering them
+export const SUBSCRIPTION_ENDED_REASON = 'Subscription ended';
+
+const NO_ACCESS: CourseAccess = {
+  has_access: false,
+  source: null,
+  subscription_id: null,
+  access_until: null
+};
+
+export class EntitlementService {
+  /**
+   * Until when a subscription grants access. Active and trialing subscriptions (including
+   * ones cancelled at period end) run to the end of the paid period; past_due ones keep
+   * access for the grace period from the start of the unpaid period.
+   */
+  static subscriptionAccessUntil(
+    subscription: Pick<UserSubscription, 'status' | 'current_period_start' | 'current_period_end'>,
+    gracePeriodDays: number | null = DEFAULT_GRACE_PERIOD_DAYS
+  ): Date | null {
+    if (subscription.status === 'active' || subscription.status === 'trialing') {
+      return new Date(subscription.current_period_end);
+    }
+
+    if (subscription.status === 'past_due') {
+      const graceEnd = new Date(subscription.current_period_start);
+      graceEnd.setDate(graceEnd.getDate() + (gracePeriodDays ?? DEFAULT_GRACE_PERIOD_DAYS));
+      return graceEnd;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a plan's entitlement rules cover a course
+   */
+  static planCoversCourse(
+    entitlements: Array<Pick<PlanEntitlement, 'entitlement_type' | 'course_id' | 'category'>>,
+    course: { id: string; category: string | null }
+  ): boolean {
+    return entitlements.some(entitlement => {
+      switch (entitlement.entitlement_type) {
+        case 'all_courses':
+          return true;
+        case 'course':
+          return entitlement.course_id === course.id;
+        case 'category':
+          return !!course.category &&
+            entitlement.category?.toLowerCase() === course.category.toLowerCase();
+        default:
+          return false;
+      }
+    });
+  }
+
+  /**
+   * Access a set of subscriptions grants to a course; the longest-running one wins
+   */
+  static resolveSubscriptionAccess(
+    subscriptions: EntitledSubscription[],
+    course: { id: string; category: string | null },
+    now: Date = new Date()
+  ): CourseAccess {
+    let best: CourseAccess = NO_ACCESS;
+
+    for (const subscription of subscriptions) {
+      if (!this.planCoversCourse(subscription.entitlements, course)) {
+        continue;
+      }
+
+      const accessUntil = this.subscriptionAccessUntil(subscription, subscription.grace_period_days);
+      if (!accessUntil || accessUntil <= now) {
+        continue;
+      }
+
+      if (!best.access_until || accessUntil > new Date(best.access_until)) {
+        best = {
+          has_access: true,
+          source: subscription.status === 'past_due' ? 'grace_period' : 'subscription',
+          subscription_id: subscription.id,
+          access_until: accessUntil.toISOString()
+        };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Which of a subscription's enrollments to cancel (the subscription no longer grants the
+   * course) and which to reopen (access came back, e.g. a past_due renewal was paid)
+   */
+  static subscriptionEnrollmentChanges(
+    subscription: EntitledSubscription,
+    enrollments: SubscriptionEnrollment[],
+    now: Date = new Date()
+  ): SubscriptionEnrollmentChanges {
+    const changes: SubscriptionEnrollmentChanges = { cancel: [], restore: [] };
+
+    for (const enrollment of enrollments) {
+      const covered = this.resolveSubscriptionAccess([subscription], enrollment.course, now).has_access;
+
+      if (!covered && !enrollment.cancelled_at) {
+        changes.cancel.push(enrollment.id);
+      } else if (covered && enrollment.cancelled_at && enrollment.cancellation_reason === SUBSCRIPTION_ENDED_REASON) {
+        changes.restore.push(enrollment.id);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Bring the enrollments opened through a subscription in line with what it grants now.
+   * Called by the subscription webhooks and by the expiry job for grace periods that run out.
+   */
+  static async syncSubscriptionEnrollments(
+    subscriptionId: string,
+    now: Date = new Date()
+  ): Promise<{ cancelled: number; restored: number }> {
+    const supabase = createServiceClient();
+
+    const { data: row, error } = await supabase
+      .from('subscriptions')
+      .select('*, plan:subscription_plans!plan_id ( grace_period_days )')
+      .eq('id', subscriptionId)
+      .maybeSingle<UserSubscription & { plan: { grace_period_days: number | null } | null }>();
+
+    if (error) {
+      throw new Error(`Failed to get subscription: ${error.message}`);
+    }
+
+    if (!row) {
+      return { cancelled: 0, restored: 0 };
+    }
+
+    const { data: enrollments, error: enrollmentsError } = await supabase
+      .from('enrollments')
+      .select('id, cancelled_at, cancellation_reason, course:courses!course_id ( id, category )')
+      .eq('subscription_id', subscriptionId)
+      .overrideTypes<SubscriptionEnrollment[], { merge: false }>();
+
+    if (enrollmentsError) {
+      throw new Error(`Failed to get subscription enrollments: ${enrollmentsError.message}`);
+    }
+
+    const { plan, ...subscription } = row;
+    const changes = this.subscriptionEnrollmentChanges(
+      {
+        ...subscription,
+        grace_period_days: plan?.grace_period_days ?? null,
+        entitlements: await this.getEntitlementsForPlans([subscription.plan_id])
+      },
+      enrollments || [],
+      now
+    );
+
+    if (changes.cancel.length > 0) {
+      const { error: cancelError } = await supabase
+        .from('enrollments')
+        .update({ cancelled_at: now.toISOString(), cancellation_reason: SUBSCRIPTION_ENDED_REASON })
+        .in('id', changes.cancel);
+
+      if (cancelError) {
+        throw new Error(`Failed to cancel subscription enrollments: ${cancelError.message}`);
+      }
+    }
+
+    if (changes.restore.length > 0) {
+      const { error: restoreError } = await supabase
+        .from('enrollments')
+        .update({ cancelled_at: null, cancellation_reason: null })
+        .in('id', changes.restore);
+
+      if (restoreError) {
+        throw new Error(`Failed to restore subscription enrollments: ${restoreError.message}`);
+      }
+    }
+
+    return { cancelled: changes.cancel.length, restored: changes.restore.length };
+  }
+
+  /**
+   * Cancel open subscription enrollments whose subscription no longer grants access; past_due
+   * grace periods end without a Stripe event
+   */
+  static async expireSubscriptionEnrollments(now: Date = new Date()): Promise<{ subscriptions: number; cancelled: number }> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('enrollments')
+      .select('subscription_id')
+      .not('subscription_id', 'is', null)
+      .is('cancelled_at', null)
+      .overrideTypes<Array<{ subscription_id: string }>, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to get subscription enrollments: ${error.message}`);
+    }
+
+    const subscriptionIds = [...new Set((data || []).map(row => row.subscription_id))];
+    let cancelled = 0;
+
+    for (const subscriptionId of subscriptionIds) {
+      cancelled += (await this.syncSubscriptionEnrollments(subscriptionId, now)).cancelled;
+    }
+
+    return { subscriptions: subscriptionIds.length, cancelled };
+  }
+
+  /**
+   * Course access from an unrefunded purchase, a standalone enrollment or an entitled
+   * subscription
+   */
+  static async getCourseAccess(userId: string, courseId: string): Promise<CourseAccess> {
+    const supabase = createServiceClient();
+
+    const { data: purchase } = await supabase
+      .from('course_purchases')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('course_id', courseId)
+      .is('refunded_at', null)
+      .limit(1)
+      .maybeSingle();
+
+    if (purchase) {
+      return { has_access: true, source: 'purchase', subscription_id: null, access_until: null };
+    }
+
+    // Free, coupon and legacy enrollments; subscription enrollments follow the subscription
+    const { data: enrollment } = await supabase
+      .from('enrollments')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('course_id', courseId)
+      .is('cancelled_at', null)
+      .is('subscription_id', null)
+      .maybeSingle();
+
+    if (enrollment) {
+      return { has_access: true, source: 'enrollment', subscription_id: null, access_until: null };
+    }
+
+    const { data: course } = await supabase
+      .from('courses')
+      .select('id, category')
+      .eq('id', courseId)
+      .maybeSingle();
+
+    if (!course) {
+      return NO_ACCESS;
+    }
+
+    const subscriptions = await this.getEntitledSubscriptions(userId);
+    return this.resolveSubscriptionAccess(subscriptions, course);
+  }
+
+  /**
+   * Subscriptions that may currently grant access, with their plan's rules
+   */
+  static async getEntitledSubscriptions(userId: string): Promise<EntitledSubscription[]> {
+    const supabase = createServiceClient();
+
+    const { data: subscriptions, error } = await supabase
+      .from('subscriptions')
+      .select('*, plan:subscription_plans!plan_id ( grace_period_days )')
+      .eq('user_id', userId)
+      .in('status', ENTITLED_STATUSES)
+      .overrideTypes<Array<UserSubscription & { plan: { grace_period_days: number | null } | null }>, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to get subscriptions: ${error.message}`);
+    }
+
+    if (!subscriptions?.length) {
+      return [];
+    }
+
+    const entitlements = await this.getEntitlementsForPlans(subscriptions.map(sub => sub.plan_id));
+
+    return subscriptions.map(({ plan, ...subscription }) => ({
+      ...subscription,
+      grace_period_days: plan?.grace_period_days ?? null,
+      entitlements: entitlements.filter(entitlement => entitlement.plan_id === subscription.plan_id)
+    }));
+  }
+
+  /**
+   * Entitlement rules of a plan (admin)
+   */
+  static async getPlanEntitlements(planId: string): Promise<PlanEntitlement[]> {
+    return this.getEntitlementsForPlans([planId]);
+  }
+
+  /**
+   * Replace the entitlement rules (and optionally the grace period) of a plan (admin)
+   */
+  static async setPlanEntitlements(planId: string, input: PlanEntitlementsInput): Promise<PlanEntitlement[]> {
+    const supabase = createServiceClient();
+
+    const { data: plan } = await supabase
+      .from('subscription_plans')
+      .select('id')
+      .eq('id', planId)
+      .maybeSingle();
+
+    if (!plan) {
+      throw new Error('Subscription plan not found');
+    }
+
+    if (input.grace_period_days !== undefined) {
+      const { error } = await supabase
+        .from('subscription_plans')
+        .update({ grace_period_days: input.grace_period_days })
+        .eq('id', planId);
+
+      if (error) {
+        throw new Error(`Failed to update subscription plan: ${error.message}`);
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('subscription_plan_entitlements')
+      .delete()
+      .eq('plan_id', planId);
+
+    if (deleteError) {
+      throw new Error(`Failed to replace plan entitlements: ${deleteError.message}`);
+    }
+
+    if (input.entitlements.length > 0) {
+      const { error: insertError } = await supabase
+        .from('subscription_plan_entitlements')
+        .insert(input.entitlements.map(entitlement => ({
+          plan_id: planId,
+          entitlement_type: entitlement.entitlement_type,
+          course_id: entitlement.entitlement_type === 'course' ? entitlement.course_id : null,
+          category: entitlement.entitlement_type === 'category' ? entitlement.category : null
+        })));
+
+      if (insertError) {
+        throw new Error(`Failed to replace plan entitlements: ${insertError.message}`);
+      }
+    }
+
+    return this.getPlanEntitlements(planId);
+  }
+
+  private static async getEntitlementsForPlans(planIds: string[]): Promise<PlanEntitlement[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('subscription_plan_entitlements')
+      .select('*')
+      .in('plan_id', planIds)
+      .overrideTypes<PlanEntitlement[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to get plan entitlements: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
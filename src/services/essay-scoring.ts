@@ -0,0 +1,111 @@
+import { ESSAY_SCORE_PROVIDER } from '@/lib/env';
+import {
+  Question,
+  GradingRubric,
+  RubricCriterionScore,
+  EssayScoreSuggestion
+} from '@/types/assessment';
+
+/**
+ * Produces a suggested score for an essay response. Suggestions are only shown
+ * to the grading instructor; the final grade is always entered manually.
+ */
+export interface EssayScoringProvider {
+  readonly name: string;
+  suggest(
+    question: Question,
+    answer: string,
+    rubric?: GradingRubric
+  ): Promise<EssayScoreSuggestion>;
+}
+
+/**
+ * Word count and tag keyword heuristic (formerly the built-in essay auto-grader)
+ */
+export class HeuristicEssayScorer implements EssayScoringProvider {
+  readonly name = 'heuristic';
+
+  async suggest(
+    question: Question,
+    answer: string,
+    rubric?: GradingRubric
+  ): Promise<EssayScoreSuggestion> {
+    const wordCount = answer.trim() ? answer.trim().split(/\s+/).length : 0;
+    const hasKeywords = question.tags.some(tag =>
+      answer.toLowerCase().includes(tag.toLowerCase())
+    );
+
+    let score = 0;
+
+    // Basic scoring criteria
+    if (wordCount >= 50) score += 0.3; // Adequate length
+    if (wordCount >= 100) score += 0.2; // Good length
+    if (hasKeywords) score += 0.3; // Contains relevant keywords
+    if (answer.length > 200) score += 0.2; // Detailed response
+
+    let rubricScores: RubricCriterionScore[] | undefined;
+    if (rubric) {
+      rubricScores = rubric.criteria.map(criterion => {
+        const level = score >= 0.8 ? 'excellent'
+          : score >= 0.6 ? 'good'
+          : score >= 0.4 ? 'satisfactory'
+          : 'needs_improvement';
+
+        return {
+          criterion_id: criterion.id,
+          level,
+          points: criterion.levels[level].points
+        };
+      });
+    }
+
+    return {
+      provider: this.name,
+      points: Math.round(score * question.points),
+      max_points: question.points,
+      feedback: this.buildFeedback(score, wordCount),
+      rubric_scores: rubricScores
+    };
+  }
+
+  private buildFeedback(score: number, wordCount: number): string {
+    const feedback = [];
+
+    if (score >= 0.8) {
+      feedback.push('Excellent response! Well-structured and comprehensive.');
+    } else if (score >= 0.6) {
+      feedback.push('Good response. Shows understanding of the topic.');
+    } else if (score >= 0.4) {
+      feedback.push('Adequate response. Could be more detailed.');
+    } else {
+      feedback.push('Response needs improvement. Consider adding more detail.');
+    }
+
+    if (wordCount < 50) {
+      feedback.push('Response is quite brief. Consider expanding your answer.');
+    } else if (wordCount > 200) {
+      feedback.push('Comprehensive response with good detail.');
+    }
+
+    return feedback.join(' ');
+  }
+}
+
+const providers: Record<string, () => EssayScoringProvider> = {
+  heuristic: () => new HeuristicEssayScorer()
+};
+
+/**
+ * Register an additional suggestion provider (e.g. an NLP service)
+ */
+export function registerEssayScoringProvider(name: string, factory: () => EssayScoringProvider): void {
+  providers[name] = factory;
+}
+
+/**
+ * Resolve the configured provider; returns null when suggestions are disabled
+ */
+export function getEssayScoringProvider(name = ESSAY_SCORE_PROVIDER): EssayScoringProvider | null {
+  const factory = providers[name];
+  return factory ? factory() : null;
+}
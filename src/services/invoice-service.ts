@@ -0,0 +1,268 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import { stripe, type Currency } from '@/lib/stripe';
+import type { PaymentTransaction } from '@/lib/payments';
+import { InvoiceLine, InvoiceParty, InvoiceSummary, PaymentInvoice } from '@/types/invoice';
+
+// Standard Turkish VAT (KDV) rate; TRY prices are KDV inclusive
+export const KDV_RATE = 20;
+
+const INVOICEABLE_STATUSES = ['succeeded', 'partially_refunded', 'refunded'];
+
+export const SELLER_DETAILS: InvoiceParty = {
+  name: process.env.INVOICE_SELLER_NAME || '7P Education',
+  email: process.env.INVOICE_SELLER_EMAIL || null,
+  address_lines: (process.env.INVOICE_SELLER_ADDRESS || 'İstanbul, Türkiye').split('|'),
+  tax_office: process.env.INVOICE_SELLER_TAX_OFFICE || null,
+  tax_id: process.env.INVOICE_SELLER_TAX_ID || null
+};
+
+export class InvoiceService {
+  /**
+   * Split a VAT-inclusive amount into net and tax. Only TRY sales carry KDV; other
+   * currencies are invoiced without VAT.
+   */
+  static calculateTaxBreakdown(
+    grossAmount: number,
+    currency: Currency
+  ): { tax_rate: number; net_amount: number; tax_amount: number } {
+    const taxRate = currency === 'TRY' ? KDV_RATE : 0;
+    const netAmount = Math.round(grossAmount * 100 / (100 + taxRate));
+
+    return {
+      tax_rate: taxRate,
+      net_amount: netAmount,
+      tax_amount: grossAmount - netAmount
+    };
+  }
+
+  /**
+   * Invoice lines for a transaction; a bundle is invoiced as a single line
+   */
+  static buildLines(transaction: PaymentTransaction, description: string): InvoiceLine[] {
+    const breakdown = this.calculateTaxBreakdown(transaction.amount, transaction.currency);
+
+    return [{
+      description,
+      quantity: 1,
+      net_amount: breakdown.net_amount,
+      tax_rate: breakdown.tax_rate,
+      tax_amount: breakdown.tax_amount,
+      gross_amount: transaction.amount
+    }];
+  }
+
+  /**
+   * Issue the invoice of a successful payment. Numbers are allocated by the database in
+   * one gap-free sequence per year; issuing twice returns the existing invoice.
+   */
+  static async issueInvoice(transactionId: string): Promise<PaymentInvoice> {
+    const supabase = createServiceClient();
+
+    const existing = await this.getInvoiceByTransaction(transactionId);
+    if (existing) {
+      return existing;
+    }
+
+    const { data: transaction } = await supabase
+      .from('payment_transactions')
+      .select('*')
+      .eq('id', transactionId)
+      .maybeSingle();
+
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    if (!INVOICEABLE_STATUSES.includes(transaction.status)) {
+      throw new Error('Only successful payments can be invoiced');
+    }
+
+    const [buyer, description] = await Promise.all([
+      this.getBuyerDetails(transaction.user_id),
+      this.describeTransaction(transaction)
+    ]);
+
+    const lines = this.buildLines(transaction, description);
+
+    const { data: invoice, error } = await supabase
+      .rpc('create_payment_invoice', {
+        p_transaction_id: transaction.id,
+        p_user_id: transaction.user_id,
+        p_seller: SELLER_DETAILS,
+        p_buyer: buyer,
+        p_lines: lines,
+        p_currency: transaction.currency,
+        p_subtotal: lines.reduce((sum, line) => sum + line.net_amount, 0),
+        p_tax_amount: lines.reduce((sum, line) => sum + line.tax_amount, 0),
+        p_total: transaction.amount
+      })
+      .single();
+
+    if (error) {
+      // Issued concurrently (webhook and invoice list)
+      if (error.code === '23505') {
+        const created = await this.getInvoiceByTransaction(transactionId);
+        if (created) {
+          return created;
+        }
+      }
+      throw new Error(`Failed to issue invoice: ${error.message}`);
+    }
+
+    return invoice as PaymentInvoice;
+  }
+
+  /**
+   * Invoices of a user, newest first. Successful payments that have no invoice yet
+   * (e.g. made before invoicing existed) are invoiced on the way.
+   */
+  static async getUserInvoices(userId: string): Promise<InvoiceSummary[]> {
+    const supabase = createServiceClient();
+
+    const { data: transactions, error } = await supabase
+      .from('payment_transactions')
+      .select('id, status')
+      .eq('user_id', userId)
+      .in('status', INVOICEABLE_STATUSES)
+      .order('created_at', { ascending: true })
+      .overrideTypes<Array<Pick<PaymentTransaction, 'id' | 'status'>>, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to get payment history: ${error.message}`);
+    }
+
+    const { data: invoices, error: invoiceError } = await supabase
+      .from('payment_invoices')
+      .select('*')
+      .eq('user_id', userId)
+      .overrideTypes<PaymentInvoice[], { merge: false }>();
+
+    if (invoiceError) {
+      throw new Error(`Failed to get invoices: ${invoiceError.message}`);
+    }
+
+    const byTransaction = new Map((invoices || []).map(invoice => [invoice.transaction_id, invoice]));
+
+    for (const transaction of transactions || []) {
+      if (!byTransaction.has(transaction.id)) {
+        byTransaction.set(transaction.id, await this.issueInvoice(transaction.id));
+      }
+    }
+
+    const statusByTransaction = new Map((transactions || []).map(transaction => [transaction.id, transaction.status]));
+
+    return Array.from(byTransaction.values())
+      .map(invoice => ({
+        id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        issued_at: invoice.issued_at,
+        description: invoice.lines[0]?.description || '',
+        total: invoice.total,
+        currency: invoice.currency,
+        status: statusByTransaction.get(invoice.transaction_id) || 'succeeded'
+      }))
+      .sort((a, b) => b.issued_at.localeCompare(a.issued_at));
+  }
+
+  /**
+   * An invoice of the user (for download)
+   */
+  static async getUserInvoice(invoiceId: string, userId: string): Promise<PaymentInvoice> {
+    const supabase = createServiceClient();
+
+    const { data: invoice } = await supabase
+      .from('payment_invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  private static async getInvoiceByTransaction(transactionId: string): Promise<PaymentInvoice | null> {
+    const supabase = createServiceClient();
+
+    const { data } = await supabase
+      .from('payment_invoices')
+      .select('*')
+      .eq('transaction_id', transactionId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  /**
+   * Buyer name and billing address; the address collected at Stripe checkout wins over
+   * what the profile holds
+   */
+  private static async getBuyerDetails(userId: string): Promise<InvoiceParty> {
+    const supabase = createServiceClient();
+
+    const [{ data: user }, { data: customer }] = await Promise.all([
+      supabase.from('users').select('name, email, metadata').eq('id', userId).maybeSingle(),
+      supabase.from('stripe_customers').select('stripe_customer_id').eq('user_id', userId).maybeSingle()
+    ]);
+
+    const buyer: InvoiceParty = {
+      name: user?.name || user?.email || 'Müşteri',
+      email: user?.email ?? null,
+      address_lines: [],
+      tax_office: user?.metadata?.tax_office ?? null,
+      tax_id: user?.metadata?.tax_id ?? null
+    };
+
+    if (!stripe || !customer?.stripe_customer_id) {
+      return buyer;
+    }
+
+    try {
+      const stripeCustomer = await stripe.customers.retrieve(customer.stripe_customer_id);
+      if (!stripeCustomer.deleted) {
+        const address = stripeCustomer.address;
+        buyer.name = stripeCustomer.name || buyer.name;
+        buyer.address_lines = address
+          ? [
+            [address.line1, address.line2].filter(Boolean).join(' '),
+            [address.postal_code, address.city, address.state].filter(Boolean).join(' '),
+            address.country || ''
+          ].filter(Boolean)
+          : [];
+      }
+    } catch (error) {
+      console.error('Failed to load billing address for invoice:', error);
+    }
+
+    return buyer;
+  }
+
+  private static async describeTransaction(transaction: PaymentTransaction): Promise<string> {
+    const supabase = createServiceClient();
+
+    if (transaction.course_id) {
+      const { data: course } = await supabase
+        .from('courses')
+        .select('title')
+        .eq('id', transaction.course_id)
+        .maybeSingle();
+
+      return course?.title ? `Kurs: ${course.title}` : transaction.description || 'Kurs satın alımı';
+    }
+
+    if (transaction.bundle_id) {
+      const { data: bundle } = await supabase
+        .from('course_bundles')
+        .select('name')
+        .eq('id', transaction.bundle_id)
+        .maybeSingle();
+
+      return bundle?.name ? `Kurs Paketi: ${bundle.name}` : transaction.description || 'Kurs paketi satın alımı';
+    }
+
+    return transaction.description || 'Abonelik';
+  }
+}
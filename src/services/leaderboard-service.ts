@@ -0,0 +1,167 @@
+import crypto from 'crypto-js';
+import { createServiceClient } from '@/utils/supabase/server';
+import { NEXTAUTH_SECRET } from '@/lib/env';
+import {
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardPreferences,
+  LeaderboardRow
+} from '@/types/leaderboard';
+import { LeaderboardQuery } from '@/lib/validation/leaderboard';
+
+const PSEUDONYM_ADJECTIVES = [
+  'Curious', 'Brave', 'Clever', 'Swift', 'Calm', 'Bright', 'Bold', 'Keen',
+  'Quiet', 'Witty', 'Eager', 'Steady', 'Nimble', 'Wise', 'Lucky', 'Sunny'
+];
+
+const PSEUDONYM_ANIMALS = [
+  'Owl', 'Fox', 'Otter', 'Falcon', 'Panda', 'Lynx', 'Dolphin', 'Hedgehog',
+  'Heron', 'Badger', 'Koala', 'Raven', 'Tiger', 'Turtle', 'Wolf', 'Zebra'
+];
+
+interface LeaderboardProfile {
+  id: string;
+  full_name: string | null;
+  preferences: LeaderboardPreferences | null;
+}
+
+export class LeaderboardService {
+  /**
+   * Stable pseudonym for a learner; keyed so it cannot be mapped back to the user id
+   */
+  static pseudonym(userId: string, secret: string = process.env.LEADERBOARD_PSEUDONYM_SECRET || NEXTAUTH_SECRET || ''): string {
+    const hash = crypto.HmacSHA256(userId, secret).toString();
+    const adjective = PSEUDONYM_ADJECTIVES[parseInt(hash.slice(0, 4), 16) % PSEUDONYM_ADJECTIVES.length];
+    const animal = PSEUDONYM_ANIMALS[parseInt(hash.slice(4, 8), 16) % PSEUDONYM_ANIMALS.length];
+    const number = parseInt(hash.slice(8, 12), 16) % 10000;
+
+    return `${adjective} ${animal} ${number.toString().padStart(4, '0')}`;
+  }
+
+  static isOptedOut(preferences: LeaderboardPreferences | null | undefined): boolean {
+    return preferences?.leaderboard_opt_out === true;
+  }
+
+  /**
+   * Learners see their own name; others only when they chose to show it
+   */
+  static displayName(userId: string, profile: LeaderboardProfile | undefined, viewerId: string): string {
+    const showName = userId === viewerId || profile?.preferences?.leaderboard_show_name === true;
+    return showName && profile?.full_name ? profile.full_name : this.pseudonym(userId);
+  }
+
+  /**
+   * Recompute every ranking from the XP ledger and lesson progress
+   */
+  static async refresh(): Promise<{ entries: number }> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase.rpc('refresh_leaderboards');
+
+    if (error) {
+      throw new Error(`Failed to refresh leaderboards: ${error.message}`);
+    }
+
+    return { entries: data ?? 0 };
+  }
+
+  /**
+   * Read a precomputed leaderboard. Course and cohort leaderboards are only visible to
+   * learners enrolled in the course; the cohort is the viewer's enrollment month.
+   */
+  static async getLeaderboard(viewerId: string, query: LeaderboardQuery): Promise<Leaderboard> {
+    const supabase = createServiceClient();
+    const courseId = query.scope === 'global' ? null : query.course_id ?? null;
+    let cohort: string | null = null;
+
+    if (courseId) {
+      const { data: enrollment } = await supabase
+        .from('enrollments')
+        .select('enrolled_at')
+        .eq('user_id', viewerId)
+        .eq('course_id', courseId)
+        .maybeSingle();
+
+      if (!enrollment) {
+        throw new Error('Not enrolled in this course');
+      }
+
+      if (query.scope === 'cohort') {
+        cohort = `${enrollment.enrolled_at.slice(0, 7)}-01`;
+      }
+    }
+
+    const rankColumn = cohort ? 'cohort_rank' : 'rank';
+    const scoped = () => {
+      let request = supabase
+        .from('leaderboard_entries')
+        .select('*')
+        .eq('period', query.period);
+
+      request = courseId ? request.eq('course_id', courseId) : request.is('course_id', null);
+      return cohort ? request.eq('cohort', cohort) : request;
+    };
+
+    const [top, own] = await Promise.all([
+      scoped()
+        .order(rankColumn)
+        .limit(query.limit)
+        .overrideTypes<LeaderboardEntry[], { merge: false }>(),
+      scoped()
+        .eq('user_id', viewerId)
+        .overrideTypes<LeaderboardEntry[], { merge: false }>()
+    ]);
+
+    if (top.error) {
+      throw new Error(`Failed to fetch leaderboard: ${top.error.message}`);
+    }
+    if (own.error) {
+      throw new Error(`Failed to fetch leaderboard: ${own.error.message}`);
+    }
+
+    const entries = top.data || [];
+    const ownEntry = own.data?.[0] ?? null;
+    const profiles = await this.getProfiles([...entries, ...(ownEntry ? [ownEntry] : [])].map(entry => entry.user_id));
+
+    // Rankings are precomputed; an opt-out since the last refresh still hides the learner
+    const toRow = (entry: LeaderboardEntry): LeaderboardRow => ({
+      rank: (cohort ? entry.cohort_rank : entry.rank) ?? entry.rank,
+      display_name: this.displayName(entry.user_id, profiles.get(entry.user_id), viewerId),
+      xp: entry.xp,
+      lessons_completed: entry.lessons_completed,
+      is_current_user: entry.user_id === viewerId
+    });
+
+    const visible = entries.filter(entry => !this.isOptedOut(profiles.get(entry.user_id)?.preferences));
+
+    return {
+      scope: query.scope,
+      period: query.period,
+      course_id: courseId,
+      cohort,
+      computed_at: entries[0]?.computed_at ?? ownEntry?.computed_at ?? null,
+      entries: visible.map(toRow),
+      current_user: ownEntry && !this.isOptedOut(profiles.get(viewerId)?.preferences) ? toRow(ownEntry) : null
+    };
+  }
+
+  private static async getProfiles(userIds: string[]): Promise<Map<string, LeaderboardProfile>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('id, full_name, preferences')
+      .in('id', [...new Set(userIds)])
+      .overrideTypes<LeaderboardProfile[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch leaderboard profiles: ${error.message}`);
+    }
+
+    return new Map((data || []).map(profile => [profile.id, profile]));
+  }
+}
@@ -0,0 +1,147 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import { stripe, STRIPE_CONFIG, type Currency } from '@/lib/stripe';
+import { selectCurrency } from '@/lib/currency';
+import { getCoursePrice, getCoursePrices, type CoursePrice } from '@/lib/payments';
+
+export class PricingService {
+  /**
+   * Currency a buyer pays in: explicit request, saved preference, then location
+   */
+  static async resolveCurrency(userId: string | null, headers: Headers, requested?: unknown): Promise<Currency> {
+    const preferred = userId ? await this.getPreferredCurrency(userId) : null;
+    return selectCurrency({ requested, preferred, headers });
+  }
+
+  static async getPreferredCurrency(userId: string): Promise<Currency | null> {
+    const supabase = createServiceClient();
+
+    const { data } = await supabase
+      .from('users')
+      .select('preferred_currency')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return data?.preferred_currency ?? null;
+  }
+
+  static async setPreferredCurrency(userId: string, currency: Currency | null): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+      .from('users')
+      .update({ preferred_currency: currency })
+      .eq('id', userId);
+
+    if (error) {
+      throw new Error(`Failed to save preferred currency: ${error.message}`);
+    }
+  }
+
+  /**
+   * Price of a course as checkout charges it: the requested currency when the course is
+   * priced in it, otherwise its first active price
+   */
+  static async getCoursePrice(courseId: string, currency?: Currency): Promise<CoursePrice | null> {
+    return getCoursePrice(courseId, currency);
+  }
+
+  /**
+   * Set the price of a course in one currency (admin). Stripe prices are immutable, so a
+   * new price replaces the active one for that currency.
+   */
+  static async setCoursePrice(courseId: string, currency: Currency, amount: number): Promise<CoursePrice> {
+    const supabase = createServiceClient();
+
+    if (!stripe) {
+      throw new Error('Stripe is not configured');
+    }
+
+    const { data: course } = await supabase
+      .from('courses')
+      .select('id, title')
+      .eq('id', courseId)
+      .maybeSingle();
+
+    if (!course) {
+      throw new Error('Course not found');
+    }
+
+    const prices = await getCoursePrices(courseId);
+    const current = prices.find(price => price.currency === currency);
+
+    if (current?.price_amount === amount) {
+      return current;
+    }
+
+    const productId = prices[0]?.stripe_product_id || (await stripe.products.create({
+      name: course.title,
+      metadata: { courseId },
+    })).id;
+
+    const stripePrice = await stripe.prices.create({
+      product: productId,
+      unit_amount: amount,
+      currency: currency.toLowerCase(),
+      metadata: { courseId },
+    });
+
+    if (current) {
+      await this.deactivatePrice(current);
+    }
+
+    const { data: price, error } = await supabase
+      .from('course_prices')
+      .insert({
+        course_id: courseId,
+        stripe_price_id: stripePrice.id,
+        stripe_product_id: productId,
+        price_amount: amount,
+        currency,
+        is_active: true
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save course price: ${error.message}`);
+    }
+
+    return price;
+  }
+
+  /**
+   * Stop selling a course in a currency (admin)
+   */
+  static async removeCoursePrice(courseId: string, currency: Currency): Promise<void> {
+    const prices = await getCoursePrices(courseId);
+    const current = prices.find(price => price.currency === currency);
+
+    if (!current) {
+      throw new Error('Course price not found');
+    }
+
+    await this.deactivatePrice(current);
+  }
+
+  static supportedCurrencies(): Currency[] {
+    return [...STRIPE_CONFIG.CURRENCIES];
+  }
+
+  private static async deactivatePrice(price: CoursePrice): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+      .from('course_prices')
+      .update({ is_active: false })
+      .eq('id', price.id);
+
+    if (error) {
+      throw new Error(`Failed to deactivate course price: ${error.message}`);
+    }
+
+    if (stripe) {
+      await stripe.prices.update(price.stripe_price_id, { active: false })
+        .catch(error => console.error('Failed to archive Stripe price:', error));
+    }
+  }
+}
@@ -12,6 +12,10 @@ import {
   UserAchievement
 } from '@/types/progress';
 import { ProgressUpdate, QuizResultSubmission } from '@/lib/validation/progress';
+import { StreakService } from '@/services/streak-service';
+import { AchievementService } from '@/services/achievement-service';
+import { XpService } from '@/services/xp-service';
+import type { XpAwardInput } from '@/types/xp';
 
 export class ProgressService {
   /**
@@ -97,13 +101,39 @@ export class ProgressService {
     // Update enrollment progress
     await this.updateEnrollmentProgress(userId, courseId);
 
+    if (isCompleted) {
+      await this.addExperience(userId, {
+        activity_type: 'lesson_completed',
+        idempotency_key: `lesson:${progressData.lesson_id}`,
+        metadata: { lesson_id: progressData.lesson_id, course_id: courseId || null }
+      });
+    }
+
     // Check for achievements
     await this.checkAndAwardAchievements(userId, {
       type: 'lesson_completed',
       score: progressData.quiz_score,
-      difficulty: 'intermediate' // TODO: Get from lesson data
+      difficulty: 'intermediate', // TODO: Get from lesson data
+      courseId: courseId || undefined
     });
 
+    // Time spent on or finishing a lesson counts towards the daily learning streak
+    if (isCompleted || progressData.time_spent_minutes > 0) {
+      const streakUpdate = await StreakService.recordActivity(userId);
+
+      if (streakUpdate?.milestone) {
+        const streakDays = streakUpdate.milestone.streakDays || 0;
+
+        await this.addExperience(userId, {
+          activity_type: 'streak_milestone',
+          value: streakDays,
+          idempotency_key: `streak:${streakUpdate.streak.streak_start_date}:${streakDays}`,
+          metadata: { streak_days: streakDays }
+        });
+        await this.checkAndAwardAchievements(userId, streakUpdate.milestone);
+      }
+    }
+
     return data;
   }
 
@@ -188,8 +218,8 @@ export class ProgressService {
     const lastActivity = (lessonProgress || [])
       .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())[0]?.updated_at;
 
-    // TODO: Implement streak calculation and skills acquired logic
-    const currentStreak = 0;
+    // TODO: Implement skills acquired logic
+    const currentStreak = await StreakService.getCurrentStreak(userId);
     const skillsAcquired: string[] = [];
 
     return {
@@ -345,6 +375,14 @@ export class ProgressService {
       time_spent_minutes: quizData.time_spent_minutes
     });
 
+    // XP for the first graded attempt of a quiz, banded by score
+    await this.addExperience(userId, {
+      activity_type: 'quiz_completed',
+      value: percentage,
+      idempotency_key: `quiz:${quizData.quiz_id}`,
+      metadata: { quiz_id: quizData.quiz_id, quiz_result_id: result.id, score: Math.round(percentage) }
+    });
+
     // Check achievements
     await this.checkAndAwardAchievements(userId, {
       type: 'quiz_completed',
@@ -373,6 +411,14 @@ export class ProgressService {
       })
       .eq('user_id', userId)
       .eq('course_id', courseId);
+
+    if (courseProgress.overall_completion >= 100) {
+      await this.addExperience(userId, {
+        activity_type: 'course_completed',
+        idempotency_key: `course:${courseId}`,
+        metadata: { course_id: courseId }
+      });
+    }
   }
 
   /**
@@ -382,113 +428,28 @@ export class ProgressService {
     userId: string, 
     activity: LearningActivity
   ): Promise<UserAchievement[]> {
-    const supabase = createClient();
-
-    // Get available achievements
-    const { data: achievements } = await supabase
-      .from('achievements')
-      .select('*');
-
-    if (!achievements) return [];
-
-    const newAchievements: UserAchievement[] = [];
-
-    // Check each achievement
-    for (const achievement of achievements) {
-      const eligible = await this.checkAchievementEligibility(userId, achievement, activity);
-      
-      if (eligible) {
-        // Check if user already has this achievement
-        const { data: existing } = await supabase
-          .from('user_achievements')
-          .select('id')
-          .eq('user_id', userId)
-          .eq('achievement_id', achievement.id)
-          .single();
-
-        if (!existing) {
-          // Award achievement
-          const { data: userAchievement } = await supabase
-            .from('user_achievements')
-            .insert({
-              user_id: userId,
-              achievement_id: achievement.id,
-              earned_at: new Date().toISOString(),
-              progress_value: this.calculateAchievementProgress(activity, achievement)
-            })
-            .select(`
-              *,
-              achievement:achievements(*)
-            `)
-            .single();
-
-          if (userAchievement) {
-            newAchievements.push(userAchievement);
-            
-            // Award XP for achievement
-            await this.addExperience(userId, achievement.points);
-          }
-        }
-      }
+    const newAchievements = await AchievementService.evaluateActivity(userId, activity);
+
+    // Award XP for each achievement
+    for (const userAchievement of newAchievements) {
+      await this.addExperience(userId, {
+        activity_type: 'achievement_earned',
+        xp: userAchievement.achievement.points,
+        idempotency_key: `achievement:${userAchievement.id}`,
+        metadata: { achievement_id: userAchievement.achievement_id, course_id: userAchievement.course_id ?? null }
+      });
     }
 
     return newAchievements;
   }
 
   /**
-   * Check if user is eligible for an achievement
+   * Add experience points to user through the XP ledger
    */
-  private static async checkAchievementEligibility(
-    userId: string,
-    achievement: any,
-    activity: LearningActivity
-  ): Promise<boolean> {
-    // Implementation based on badge criteria from documentation
-    switch (achievement.criteria.type) {
-      case 'completion':
-        // Check overall completion rate
-        // TODO: Implement completion checking logic
-        return activity.type === 'lesson_completed' || activity.type === 'course_completed';
-        
-      case 'score':
-        return (activity.score || 0) >= achievement.criteria.threshold;
-        
-      case 'streak':
-        // TODO: Implement streak checking logic
-        return activity.type === 'daily_login' && (activity.streakDays || 0) >= achievement.criteria.threshold;
-        
-      default:
-        return false;
-    }
-  }
-
-  /**
-   * Calculate achievement progress value
-   */
-  private static calculateAchievementProgress(activity: LearningActivity, achievement: any): number {
-    switch (achievement.criteria.type) {
-      case 'score':
-        return activity.score || 0;
-      case 'streak':
-        return activity.streakDays || 0;
-      default:
-        return 100; // Full progress for completion-based achievements
-    }
-  }
-
-  /**
-   * Add experience points to user
-   */
-  private static async addExperience(userId: string, points: number): Promise<void> {
-    const supabase = createClient();
-
-    // Update user XP
-    const { error } = await supabase.rpc('add_user_experience', {
-      p_user_id: userId,
-      p_points: points
-    });
-
-    if (error) {
+  private static async addExperience(userId: string, award: XpAwardInput): Promise<void> {
+    try {
+      await XpService.award(userId, award);
+    } catch (error) {
       console.error('Failed to add experience:', error);
     }
   }
@@ -524,47 +485,7 @@ export class ProgressService {
    * Get user level system
    */
   static async getUserLevelSystem(userId: string): Promise<LevelSystem> {
-    const supabase = createClient();
-
-    const { data: user, error } = await supabase
-      .from('users')
-      .select('experience_points')
-      .eq('id', userId)
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to fetch user level: ${error.message}`);
-    }
-
-    const currentXP = user?.experience_points || 0;
-    
-    // Exponential leveling formula from documentation
-    const level = Math.floor(Math.sqrt(currentXP / 1000)) + 1;
-    const xpForCurrentLevel = Math.pow(level - 1, 2) * 1000;
-    const xpForNextLevel = Math.pow(level, 2) * 1000;
-
-    return {
-      current_level: level,
-      current_xp: currentXP,
-      xp_to_next_level: xpForNextLevel - currentXP,
-      total_xp: currentXP,
-      level_benefits: this.getLevelBenefits(level)
-    };
-  }
-
-  /**
-   * Get level benefits
-   */
-  private static getLevelBenefits(level: number): string[] {
-    const benefits = [];
-    
-    if (level >= 5) benefits.push('Course completion certificates');
-    if (level >= 10) benefits.push('Priority instructor support');
-    if (level >= 15) benefits.push('Early access to new courses');
-    if (level >= 20) benefits.push('Exclusive community access');
-    if (level >= 25) benefits.push('Course creation privileges');
-    
-    return benefits;
+    return XpService.getLevelSystem(userId);
   }
 
   /**
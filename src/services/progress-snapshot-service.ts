@@ -0,0 +1,171 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import { DEFAULT_STREAK_CONFIG, StreakService } from '@/services/streak-service';
+import {
+  CourseProgressPoint,
+  CourseProgressSeries,
+  CourseProgressSnapshot,
+  SnapshotDate,
+  SnapshotRun,
+  StudentProgressSeries
+} from '@/types/progress-snapshot';
+import { ProgressHistoryQuery } from '@/lib/validation/progress';
+
+// Snapshot days are calendar days in the platform timezone
+const SNAPSHOT_TIMEZONE = DEFAULT_STREAK_CONFIG.default_timezone;
+
+type CourseSeriesRow = Omit<CourseProgressPoint, 'date'> & { snapshot_date: SnapshotDate };
+
+export class ProgressSnapshotService {
+  static today(now: Date = new Date()): SnapshotDate {
+    return StreakService.localDate(now, SNAPSHOT_TIMEZONE);
+  }
+
+  /**
+   * Fill days missing between two points (e.g. a skipped snapshot run) with the previous
+   * point; days before the first and after the last point stay empty
+   */
+  static fillGaps<T extends { date: SnapshotDate }>(points: T[]): T[] {
+    const filled: T[] = [];
+
+    for (const point of points) {
+      const previous = filled[filled.length - 1];
+
+      if (previous) {
+        for (let date = StreakService.addDays(previous.date, 1); date < point.date; date = StreakService.addDays(date, 1)) {
+          filled.push({ ...previous, date });
+        }
+      }
+
+      filled.push(point);
+    }
+
+    return filled;
+  }
+
+  /**
+   * One series per course from a learner's snapshots, in date order
+   */
+  static toStudentSeries(snapshots: CourseProgressSnapshot[]): StudentProgressSeries[] {
+    const byCourse = new Map<string, CourseProgressSnapshot[]>();
+
+    for (const snapshot of snapshots) {
+      byCourse.set(snapshot.course_id, [...(byCourse.get(snapshot.course_id) ?? []), snapshot]);
+    }
+
+    return [...byCourse.entries()].map(([courseId, rows]) => ({
+      course_id: courseId,
+      points: this.fillGaps(
+        [...rows]
+          .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+          .map(row => ({
+            date: row.snapshot_date,
+            completion: row.overall_completion,
+            completed_lessons: row.completed_materials,
+            total_lessons: row.total_materials
+          }))
+      )
+    }));
+  }
+
+  /**
+   * Snapshot every active enrollment for each day in the range. Days already snapshotted
+   * are recomputed, so the same call serves the daily run and backfills.
+   */
+  static async snapshot(from: SnapshotDate, to: SnapshotDate = from): Promise<SnapshotRun> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase.rpc('snapshot_course_progress', {
+      p_from: from,
+      p_to: to,
+      p_timezone: SNAPSHOT_TIMEZONE
+    });
+
+    if (error) {
+      throw new Error(`Failed to snapshot course progress: ${error.message}`);
+    }
+
+    return { from, to, snapshots: data ?? 0 };
+  }
+
+  /**
+   * Daily run: snapshot the last complete day
+   */
+  static async snapshotPreviousDay(now: Date = new Date()): Promise<SnapshotRun> {
+    return this.snapshot(StreakService.addDays(this.today(now), -1));
+  }
+
+  /**
+   * A learner's completion over the last `days` days, per course
+   */
+  static async getStudentSeries(
+    userId: string,
+    query: ProgressHistoryQuery,
+    now: Date = new Date()
+  ): Promise<StudentProgressSeries[]> {
+    const supabase = createServiceClient();
+    const to = this.today(now);
+
+    let request = supabase
+      .from('course_progress_snapshots')
+      .select('user_id, course_id, overall_completion, completed_materials, total_materials, snapshot_date')
+      .eq('user_id', userId)
+      .gte('snapshot_date', StreakService.addDays(to, -(query.days - 1)))
+      .lte('snapshot_date', to);
+
+    if (query.course_id) {
+      request = request.eq('course_id', query.course_id);
+    }
+
+    const { data, error } = await request
+      .order('snapshot_date')
+      .overrideTypes<CourseProgressSnapshot[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch progress history: ${error.message}`);
+    }
+
+    return this.toStudentSeries(data || []);
+  }
+
+  /**
+   * Average completion and completed learners of a course per day, for its instructor
+   */
+  static async getCourseSeries(
+    instructorId: string,
+    courseId: string,
+    days: number,
+    now: Date = new Date()
+  ): Promise<CourseProgressSeries> {
+    const supabase = createServiceClient();
+
+    // Verify instructor owns the course
+    const { data: course } = await supabase
+      .from('courses')
+      .select('instructor_id')
+      .eq('id', courseId)
+      .maybeSingle();
+
+    if (!course || course.instructor_id !== instructorId) {
+      throw new Error('Course not found or access denied');
+    }
+
+    const to = this.today(now);
+    const from = StreakService.addDays(to, -(days - 1));
+
+    const { data, error } = await supabase
+      .rpc('course_progress_series', { p_course_id: courseId, p_from: from, p_to: to });
+
+    if (error) {
+      throw new Error(`Failed to fetch course progress history: ${error.message}`);
+    }
+
+    return {
+      course_id: courseId,
+      from,
+      to,
+      points: this.fillGaps(
+        ((data || []) as CourseSeriesRow[]).map(({ snapshot_date, ...point }) => ({ date: snapshot_date, ...point }))
+      )
+    };
+  }
+}
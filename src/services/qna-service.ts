@@ -0,0 +1,434 @@
+import { createClient } from '@/utils/supabase/server';
+import {
+  QnaQuestion,
+  QnaReply,
+  QnaStats,
+  QnaViewer,
+  QuestionStatus,
+  ReplyAuthorRole
+} from '@/types/qna';
+import {
+  CreateQuestionInput,
+  StudentQuestionQuery,
+  AdminQuestionQuery
+} from '@/lib/validation/qna';
+
+const QUESTION_SELECT = `
+  id, course_id, lesson_id, user_id, body, status, is_public, answered_at, created_at,
+  student:users!user_id ( id, name ),
+  course:courses!course_id ( id, title, instructor_id ),
+  lesson:lessons!lesson_id ( id, title ),
+  replies:lesson_question_replies (
+    id, question_id, user_id, author_role, body, created_at,
+    author:users!user_id ( id, name )
+  )
+`;
+
+const STAFF_ROLES = ['instructor', 'admin'];
+
+interface ReplyRow {
+  id: string;
+  question_id: string;
+  user_id: string | null;
+  author_role: ReplyAuthorRole;
+  body: string;
+  created_at: string;
+  author?: { id: string; name: string | null } | null;
+}
+
+interface QuestionRow {
+  id: string;
+  course_id: string;
+  lesson_id: string;
+  user_id: string;
+  body: string;
+  status: QuestionStatus;
+  is_public: boolean;
+  answered_at: string | null;
+  created_at: string;
+  student?: { id: string; name: string | null } | null;
+  course?: { id: string; title: string; instructor_id: string | null } | null;
+  lesson?: { id: string; title: string } | null;
+  replies?: ReplyRow[];
+}
+
+export class QnaService {
+  /**
+   * Ask a new question on a lesson (student must be enrolled in the course)
+   */
+  static async createQuestion(userId: string, input: CreateQuestionInput): Promise<QnaQuestion> {
+    const supabase = createClient();
+
+    // Lesson must belong to the given course
+    const { data: lesson } = await supabase
+      .from('lessons')
+      .select('id, module:course_modules!module_id ( course_id )')
+      .eq('id', input.lessonId)
+      .single();
+
+    const lessonCourseId = (lesson?.module as { course_id?: string } | null)?.course_id;
+    if (!lesson || lessonCourseId !== input.courseId) {
+      throw new Error('Lesson not found');
+    }
+
+    const { data: enrollment } = await supabase
+      .from('enrollments')
+      .select('id')
+      .eq('course_id', input.courseId)
+      .eq('user_id', userId)
+      .is('cancelled_at', null)
+      .maybeSingle();
+
+    if (!enrollment) {
+      throw new Error('Not enrolled in this course');
+    }
+
+    const { data, error } = await supabase
+      .from('lesson_questions')
+      .insert({
+        course_id: input.courseId,
+        lesson_id: input.lessonId,
+        user_id: userId,
+        body: input.question,
+        is_public: input.isPublic,
+        status: 'new'
+      })
+      .select(QUESTION_SELECT)
+      .single()
+      .overrideTypes<QuestionRow, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to create question: ${error.message}`);
+    }
+
+    return this.mapQuestion(data);
+  }
+
+  /**
+   * Get questions visible to a student: their own, optionally plus public threads
+   */
+  static async getStudentQuestions(
+    userId: string,
+    options: StudentQuestionQuery
+  ): Promise<{ questions: QnaQuestion[]; total: number }> {
+    const supabase = createClient();
+    const { courseId, lessonId, scope, page, limit } = options;
+
+    let query = supabase
+      .from('lesson_questions')
+      .select(QUESTION_SELECT, { count: 'exact' })
+      .order('created_at', { ascending: false });
+
+    if (scope === 'public') {
+      query = query.or(`user_id.eq.${userId},and(is_public.eq.true,status.neq.hidden)`);
+    } else {
+      query = query.eq('user_id', userId);
+    }
+
+    if (courseId) query = query.eq('course_id', courseId);
+    if (lessonId) query = query.eq('lesson_id', lessonId);
+
+    const from = (page - 1) * limit;
+    query = query.range(from, from + limit - 1);
+
+    const { data, error, count } = await query.overrideTypes<QuestionRow[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch questions: ${error.message}`);
+    }
+
+    return {
+      questions: (data || []).map(row => this.mapQuestion(row)),
+      total: count || 0
+    };
+  }
+
+  /**
+   * List questions for the moderation screen (admins: all, instructors: own courses)
+   */
+  static async listQuestions(
+    viewer: QnaViewer,
+    options: AdminQuestionQuery
+  ): Promise<{ questions: QnaQuestion[]; total: number; stats: QnaStats }> {
+    const supabase = createClient();
+    const { status, courseId, search, page, limit } = options;
+
+    const scopedCourseIds = await this.getScopedCourseIds(viewer);
+
+    let query = supabase
+      .from('lesson_questions')
+      .select(QUESTION_SELECT, { count: 'exact' })
+      .order('created_at', { ascending: false });
+
+    if (scopedCourseIds) query = query.in('course_id', scopedCourseIds);
+    if (status !== 'all') query = query.eq('status', status);
+    if (courseId && courseId !== 'all') query = query.eq('course_id', courseId);
+    if (search) query = query.ilike('body', `%${search}%`);
+
+    const from = (page - 1) * limit;
+    query = query.range(from, from + limit - 1);
+
+    const { data, error, count } = await query.overrideTypes<QuestionRow[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch questions: ${error.message}`);
+    }
+
+    return {
+      questions: (data || []).map(row => this.mapQuestion(row)),
+      total: count || 0,
+      stats: await this.getStats(scopedCourseIds)
+    };
+  }
+
+  /**
+   * Get a single question (staff access)
+   */
+  static async getQuestion(questionId: string, viewer: QnaViewer): Promise<QnaQuestion> {
+    const row = await this.fetchQuestionRow(questionId);
+    this.assertStaffAccess(row, viewer);
+    return this.mapQuestion(row);
+  }
+
+  /**
+   * Update question status (staff access)
+   */
+  static async updateStatus(
+    questionId: string,
+    status: QuestionStatus,
+    viewer: QnaViewer
+  ): Promise<QnaQuestion> {
+    const supabase = createClient();
+    const row = await this.fetchQuestionRow(questionId);
+    this.assertStaffAccess(row, viewer);
+
+    const updateData: { status: QuestionStatus; answered_at?: string } = { status };
+    if (status === 'answered' && !row.answered_at) {
+      updateData.answered_at = new Date().toISOString();
+    }
+
+    const { data, error } = await supabase
+      .from('lesson_questions')
+      .update(updateData)
+      .eq('id', questionId)
+      .select(QUESTION_SELECT)
+      .single()
+      .overrideTypes<QuestionRow, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to update question: ${error.message}`);
+    }
+
+    return this.mapQuestion(data);
+  }
+
+  /**
+   * Delete a question and its replies (staff access)
+   */
+  static async deleteQuestion(questionId: string, viewer: QnaViewer): Promise<QnaQuestion> {
+    const supabase = createClient();
+    const row = await this.fetchQuestionRow(questionId);
+    this.assertStaffAccess(row, viewer);
+
+    const { error } = await supabase
+      .from('lesson_questions')
+      .delete()
+      .eq('id', questionId);
+
+    if (error) {
+      throw new Error(`Failed to delete question: ${error.message}`);
+    }
+
+    return this.mapQuestion(row);
+  }
+
+  /**
+   * Reply to a question. Staff replies mark the question as answered and notify the student;
+   * students may only add follow-ups to their own questions.
+   */
+  static async addReply(
+    questionId: string,
+    viewer: QnaViewer,
+    body: string
+  ): Promise<{ question: QnaQuestion; reply: QnaReply }> {
+    const supabase = createClient();
+    const row = await this.fetchQuestionRow(questionId);
+
+    const isStaff = STAFF_ROLES.includes(viewer.role);
+    if (isStaff) {
+      this.assertStaffAccess(row, viewer);
+    } else if (row.user_id !== viewer.id) {
+      throw new Error('Access denied');
+    }
+
+    const authorRole: ReplyAuthorRole = isStaff ? (viewer.role as ReplyAuthorRole) : 'student';
+
+    const { data: reply, error } = await supabase
+      .from('lesson_question_replies')
+      .insert({
+        question_id: questionId,
+        user_id: viewer.id,
+        author_role: authorRole,
+        body
+      })
+      .select('id, question_id, user_id, author_role, body, created_at, author:users!user_id ( id, name )')
+      .single()
+      .overrideTypes<ReplyRow, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to add reply: ${error.message}`);
+    }
+
+    if (isStaff && row.status !== 'answered') {
+      const { error: statusError } = await supabase
+        .from('lesson_questions')
+        .update({ status: 'answered', answered_at: new Date().toISOString() })
+        .eq('id', questionId);
+
+      if (statusError) {
+        throw new Error(`Failed to update question: ${statusError.message}`);
+      }
+    }
+
+    if (isStaff) {
+      // Notification failure must not block the reply
+      const { error: notificationError } = await supabase
+        .from('user_notifications')
+        .insert({
+          user_id: row.user_id,
+          type: 'qna_reply',
+          title: 'Sorunuz yanıtlandı',
+          message: body.substring(0, 200),
+          metadata: {
+            question_id: questionId,
+            course_id: row.course_id,
+            lesson_id: row.lesson_id
+          }
+        });
+
+      if (notificationError) {
+        console.error('Q&A reply notification error:', notificationError);
+      }
+    }
+
+    const updated = await this.fetchQuestionRow(questionId);
+
+    return {
+      question: this.mapQuestion(updated),
+      reply: this.mapReply(reply)
+    };
+  }
+
+  /**
+   * Get replies of a question (staff access)
+   */
+  static async getReplies(questionId: string, viewer: QnaViewer): Promise<QnaReply[]> {
+    const question = await this.getQuestion(questionId, viewer);
+    return question.replies;
+  }
+
+  /**
+   * Course IDs an instructor may moderate; null means unrestricted (admin)
+   */
+  private static async getScopedCourseIds(viewer: QnaViewer): Promise<string[] | null> {
+    if (viewer.role === 'admin') return null;
+
+    const supabase = createClient();
+    const { data, error } = await supabase
+      .from('courses')
+      .select('id')
+      .eq('instructor_id', viewer.id);
+
+    if (error) {
+      throw new Error(`Failed to fetch instructor courses: ${error.message}`);
+    }
+
+    return (data || []).map(course => course.id);
+  }
+
+  private static async getStats(courseIds: string[] | null): Promise<QnaStats> {
+    const supabase = createClient();
+
+    const countByStatus = async (status?: QuestionStatus) => {
+      let query = supabase
+        .from('lesson_questions')
+        .select('id', { count: 'exact', head: true });
+
+      if (courseIds) query = query.in('course_id', courseIds);
+      if (status) query = query.eq('status', status);
+
+      const { count } = await query;
+      return count || 0;
+    };
+
+    const [total, newCount, answered, hidden] = await Promise.all([
+      countByStatus(),
+      countByStatus('new'),
+      countByStatus('answered'),
+      countByStatus('hidden')
+    ]);
+
+    return { total, new: newCount, answered, hidden };
+  }
+
+  private static async fetchQuestionRow(questionId: string): Promise<QuestionRow> {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('lesson_questions')
+      .select(QUESTION_SELECT)
+      .eq('id', questionId)
+      .single()
+      .overrideTypes<QuestionRow, { merge: false }>();
+
+    if (error || !data) {
+      throw new Error('Question not found');
+    }
+
+    return data;
+  }
+
+  private static assertStaffAccess(row: QuestionRow, viewer: QnaViewer): void {
+    if (viewer.role === 'admin') return;
+
+    if (viewer.role !== 'instructor' || row.course?.instructor_id !== viewer.id) {
+      throw new Error('Access denied');
+    }
+  }
+
+  private static mapReply(row: ReplyRow): QnaReply {
+    return {
+      id: row.id,
+      questionId: row.question_id,
+      responderId: row.user_id,
+      responderName: row.author?.name || 'Eğitmen',
+      authorRole: row.author_role,
+      body: row.body,
+      createdAt: row.created_at
+    };
+  }
+
+  private static mapQuestion(row: QuestionRow): QnaQuestion {
+    const replies = (row.replies || [])
+      .map(reply => this.mapReply(reply))
+      .sort((a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+
+    return {
+      id: row.id,
+      studentId: row.user_id,
+      studentName: row.student?.name || 'Öğrenci',
+      courseId: row.course_id,
+      courseName: row.course?.title || '',
+      lessonId: row.lesson_id,
+      lessonName: row.lesson?.title || '',
+      body: row.body,
+      status: row.status,
+      isPublic: row.is_public,
+      createdAt: row.created_at,
+      answeredAt: row.answered_at || undefined,
+      replies
+    };
+  }
+}
@@ -0,0 +1,527 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient, createServiceClient } from '@/utils/supabase/server';
+import {
+  Question,
+  QuestionBank,
+  QuestionBankSummary,
+  BankQuestion,
+  QuestionCategory,
+  QuestionDrawSection
+} from '@/types/assessment';
+import {
+  createBankQuestionSchema,
+  CreateQuestionBank,
+  CreateQuestionCategory,
+  CreateBankQuestion,
+  ImportBankQuestions,
+  CreateDrawSection,
+  QuestionBankQuery
+} from '@/lib/validation/assessment';
+
+type BankQuestionFilters = Pick<CreateDrawSection, 'bank_id' | 'category_id' | 'difficulty' | 'tags' | 'question_type'>;
+
+export class QuestionBankService {
+  /**
+   * Get the instructor's categories as a tree, with question counts rolled up from subcategories
+   */
+  static async getCategories(instructorId: string): Promise<QuestionCategory[]> {
+    const supabase = createClient();
+
+    const [{ data: categories, error }, { data: banks }] = await Promise.all([
+      supabase
+        .from('question_categories')
+        .select('*')
+        .eq('created_by', instructorId)
+        .order('name'),
+      supabase
+        .from('question_banks')
+        .select('category_id, questions:question_bank_questions(count)')
+        .eq('created_by', instructorId)
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to fetch categories: ${error.message}`);
+    }
+
+    const directCounts = new Map<string, number>();
+    for (const bank of banks || []) {
+      const count = bank.questions?.[0]?.count || 0;
+      directCounts.set(bank.category_id, (directCounts.get(bank.category_id) || 0) + count);
+    }
+
+    return this.buildCategoryTree(categories || [], directCounts);
+  }
+
+  /**
+   * Create a category, optionally below one of the instructor's existing categories
+   */
+  static async createCategory(
+    instructorId: string,
+    categoryData: CreateQuestionCategory
+  ): Promise<QuestionCategory> {
+    const supabase = createClient();
+
+    if (categoryData.parent_id) {
+      await this.verifyCategoryOwnership(supabase, categoryData.parent_id, instructorId);
+    }
+
+    const { data, error } = await supabase
+      .from('question_categories')
+      .insert({
+        ...categoryData,
+        created_by: instructorId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create category: ${error.message}`);
+    }
+
+    return { ...data, question_count: 0, children: [] };
+  }
+
+  /**
+   * List the instructor's own banks and public banks
+   */
+  static async getQuestionBanks(
+    userId: string,
+    query: QuestionBankQuery
+  ): Promise<{ banks: QuestionBankSummary[]; total: number }> {
+    const supabase = createClient();
+
+    let banksQuery = supabase
+      .from('question_banks')
+      .select('*, question_count:question_bank_questions(count)', { count: 'exact' })
+      .or(`created_by.eq.${userId},is_public.eq.true`);
+
+    if (query.category_id) {
+      banksQuery = banksQuery.in('category_id', await this.getCategorySubtree(supabase, query.category_id));
+    }
+    if (query.subject) banksQuery = banksQuery.eq('subject', query.subject);
+    if (query.difficulty) banksQuery = banksQuery.eq('difficulty', query.difficulty);
+    if (query.is_public !== undefined) banksQuery = banksQuery.eq('is_public', query.is_public);
+    if (query.created_by) banksQuery = banksQuery.eq('created_by', query.created_by);
+    if (query.min_rating !== undefined) banksQuery = banksQuery.gte('rating', query.min_rating);
+    if (query.search) banksQuery = banksQuery.ilike('title', `%${query.search}%`);
+
+    if (query.tags) {
+      const tags = query.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+      if (tags.length > 0) banksQuery = banksQuery.contains('tags', tags);
+    }
+
+    // Banks holding at least one question of the requested type
+    if (query.question_type) {
+      const { data: matches } = await supabase
+        .from('question_bank_questions')
+        .select('bank_id')
+        .eq('question_type', query.question_type);
+
+      banksQuery = banksQuery.in('id', [...new Set((matches || []).map(match => match.bank_id))]);
+    }
+
+    const offset = (query.page - 1) * query.limit;
+    const { data, error, count } = await banksQuery
+      .order(query.sort_by, { ascending: query.sort_order === 'asc' })
+      .range(offset, offset + query.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch question banks: ${error.message}`);
+    }
+
+    const banks = (data || []).map(({ question_count: questionCount, ...bank }) => ({
+      ...bank,
+      question_count: questionCount?.[0]?.count || 0
+    }));
+
+    return { banks, total: count || 0 };
+  }
+
+  /**
+   * Create a question bank in one of the instructor's categories
+   */
+  static async createQuestionBank(
+    instructorId: string,
+    bankData: CreateQuestionBank
+  ): Promise<QuestionBank> {
+    const supabase = createClient();
+
+    await this.verifyCategoryOwnership(supabase, bankData.category_id, instructorId);
+
+    const { data, error } = await supabase
+      .from('question_banks')
+      .insert({
+        ...bankData,
+        created_by: instructorId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create question bank: ${error.message}`);
+    }
+
+    return { ...data, questions: [] };
+  }
+
+  /**
+   * Get a bank with its questions; other instructors can only read public banks
+   */
+  static async getQuestionBank(bankId: string, userId: string): Promise<QuestionBank> {
+    const supabase = createClient();
+
+    const { data: bank } = await supabase
+      .from('question_banks')
+      .select(`
+        *,
+        questions:question_bank_questions(*)
+      `)
+      .eq('id', bankId)
+      .maybeSingle();
+
+    if (!bank || (bank.created_by !== userId && !bank.is_public)) {
+      throw new Error('Question bank not found or access denied');
+    }
+
+    return bank;
+  }
+
+  /**
+   * Add a question to one of the instructor's banks
+   */
+  static async addBankQuestion(
+    bankId: string,
+    instructorId: string,
+    questionData: CreateBankQuestion
+  ): Promise<BankQuestion> {
+    const supabase = createClient();
+
+    const { data: bank } = await supabase
+      .from('question_banks')
+      .select('created_by')
+      .eq('id', bankId)
+      .maybeSingle();
+
+    if (!bank || bank.created_by !== instructorId) {
+      throw new Error('Question bank not found or access denied');
+    }
+
+    const validatedQuestion = createBankQuestionSchema.parse(questionData);
+
+    const { data, error } = await supabase
+      .from('question_bank_questions')
+      .insert({
+        ...validatedQuestion,
+        bank_id: bankId,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add bank question: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Copy selected bank questions into an assessment; they are asked in every attempt
+   */
+  static async importQuestions(
+    assessmentId: string,
+    instructorId: string,
+    importData: ImportBankQuestions
+  ): Promise<Question[]> {
+    const supabase = createClient();
+
+    await this.verifyAssessmentOwnership(supabase, assessmentId, instructorId);
+
+    const bank = await this.getQuestionBank(importData.bank_id, instructorId);
+    const selected = bank.questions.filter(question => importData.question_ids.includes(question.id));
+
+    if (selected.length !== importData.question_ids.length) {
+      throw new Error('Question not found in bank');
+    }
+
+    return this.copyIntoAssessment(supabase, assessmentId, selected);
+  }
+
+  /**
+   * Get an assessment's random-draw sections
+   */
+  static async getDrawSections(assessmentId: string, instructorId: string): Promise<QuestionDrawSection[]> {
+    const supabase = createClient();
+
+    await this.verifyAssessmentOwnership(supabase, assessmentId, instructorId);
+
+    const { data, error } = await supabase
+      .from('assessment_draw_sections')
+      .select('*')
+      .eq('assessment_id', assessmentId)
+      .order('order_index');
+
+    if (error) {
+      throw new Error(`Failed to fetch draw sections: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Add a random-draw section. Every matching bank question is imported into the section's
+   * pool and each attempt draws draw_count of them, so students get different but equivalent quizzes.
+   */
+  static async createDrawSection(
+    assessmentId: string,
+    instructorId: string,
+    sectionData: CreateDrawSection
+  ): Promise<QuestionDrawSection> {
+    const supabase = createClient();
+
+    await this.verifyAssessmentOwnership(supabase, assessmentId, instructorId);
+
+    const pool = await this.findBankQuestions(supabase, instructorId, sectionData);
+
+    if (pool.length < sectionData.draw_count) {
+      throw new Error(`Not enough matching questions: found ${pool.length}, need ${sectionData.draw_count}`);
+    }
+
+    const { count: sectionCount } = await supabase
+      .from('assessment_draw_sections')
+      .select('id', { count: 'exact', head: true })
+      .eq('assessment_id', assessmentId);
+
+    const { data: section, error } = await supabase
+      .from('assessment_draw_sections')
+      .insert({
+        ...sectionData,
+        assessment_id: assessmentId,
+        pool_size: pool.length,
+        order_index: sectionCount || 0,
+        created_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create draw section: ${error.message}`);
+    }
+
+    await this.copyIntoAssessment(supabase, assessmentId, pool, section.id);
+
+    return section;
+  }
+
+  /**
+   * Bank questions the instructor may use that match a section's filters.
+   * A category matches banks anywhere in its subtree.
+   */
+  private static async findBankQuestions(
+    supabase: SupabaseClient,
+    instructorId: string,
+    filters: BankQuestionFilters
+  ): Promise<BankQuestion[]> {
+    let banksQuery = supabase
+      .from('question_banks')
+      .select('id')
+      .or(`created_by.eq.${instructorId},is_public.eq.true`);
+
+    if (filters.bank_id) banksQuery = banksQuery.eq('id', filters.bank_id);
+    if (filters.category_id) {
+      banksQuery = banksQuery.in('category_id', await this.getCategorySubtree(supabase, filters.category_id));
+    }
+
+    const { data: banks } = await banksQuery;
+
+    if (!banks || banks.length === 0) {
+      throw new Error('Question bank not found or access denied');
+    }
+
+    let questionsQuery = supabase
+      .from('question_bank_questions')
+      .select('*')
+      .in('bank_id', banks.map(bank => bank.id));
+
+    if (filters.difficulty) questionsQuery = questionsQuery.eq('difficulty', filters.difficulty);
+    if (filters.question_type) questionsQuery = questionsQuery.eq('question_type', filters.question_type);
+    if (filters.tags && filters.tags.length > 0) questionsQuery = questionsQuery.contains('tags', filters.tags);
+
+    const { data: questions, error } = await questionsQuery;
+
+    if (error) {
+      throw new Error(`Failed to fetch bank questions: ${error.message}`);
+    }
+
+    return questions || [];
+  }
+
+  /**
+   * Insert copies of bank questions (and their options) after the assessment's last question
+   */
+  private static async copyIntoAssessment(
+    supabase: SupabaseClient,
+    assessmentId: string,
+    bankQuestions: BankQuestion[],
+    drawSectionId?: string
+  ): Promise<Question[]> {
+    const { data: last } = await supabase
+      .from('questions')
+      .select('order_index')
+      .eq('assessment_id', assessmentId)
+      .order('order_index', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const firstIndex = last ? last.order_index + 1 : 0;
+    const now = new Date().toISOString();
+
+    const { data: questions, error } = await supabase
+      .from('questions')
+      .insert(bankQuestions.map((bankQuestion, index) => {
+        const copy: Record<string, unknown> = { ...bankQuestion };
+        delete copy.id;
+        delete copy.bank_id;
+        delete copy.options;
+
+        return {
+          ...copy,
+          assessment_id: assessmentId,
+          bank_question_id: bankQuestion.id,
+          draw_section_id: drawSectionId ?? null,
+          order_index: firstIndex + index,
+          created_at: now,
+          updated_at: now
+        };
+      }))
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to import questions: ${error.message}`);
+    }
+
+    const optionsData = (questions || []).flatMap(question => {
+      const source = bankQuestions.find(bankQuestion => bankQuestion.id === question.bank_question_id);
+      return (source?.options || []).map(option => ({ ...option, question_id: question.id }));
+    });
+
+    if (optionsData.length > 0) {
+      const { error: optionsError } = await supabase
+        .from('question_options')
+        .insert(optionsData);
+
+      if (optionsError) {
+        throw new Error(`Failed to import question options: ${optionsError.message}`);
+      }
+    }
+
+    // Usage counters are not writable by instructors directly
+    await createServiceClient().rpc('increment_question_bank_usage', {
+      bank_ids: [...new Set(bankQuestions.map(bankQuestion => bankQuestion.bank_id))]
+    });
+
+    return questions || [];
+  }
+
+  /**
+   * Ids of a category and all of its descendants
+   */
+  private static async getCategorySubtree(supabase: SupabaseClient, categoryId: string): Promise<string[]> {
+    const { data: root } = await supabase
+      .from('question_categories')
+      .select('created_by')
+      .eq('id', categoryId)
+      .maybeSingle();
+
+    if (!root) {
+      throw new Error('Category not found');
+    }
+
+    const { data: categories } = await supabase
+      .from('question_categories')
+      .select('id, parent_id')
+      .eq('created_by', root.created_by);
+
+    return this.collectDescendants(categories || [], categoryId);
+  }
+
+  private static collectDescendants(
+    categories: Pick<QuestionCategory, 'id' | 'parent_id'>[],
+    rootId: string
+  ): string[] {
+    const ids = [rootId];
+    for (let i = 0; i < ids.length; i++) {
+      for (const category of categories) {
+        if (category.parent_id === ids[i] && !ids.includes(category.id)) {
+          ids.push(category.id);
+        }
+      }
+    }
+    return ids;
+  }
+
+  private static buildCategoryTree(
+    categories: Omit<QuestionCategory, 'children' | 'question_count'>[],
+    directCounts: Map<string, number>
+  ): QuestionCategory[] {
+    const nodes = new Map<string, QuestionCategory>(
+      categories.map(category => [category.id, { ...category, question_count: 0, children: [] }])
+    );
+
+    const roots: QuestionCategory[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      if (parent) {
+        parent.children!.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    const rollUp = (node: QuestionCategory): number => {
+      node.question_count = (directCounts.get(node.id) || 0) +
+        node.children!.reduce((sum, child) => sum + rollUp(child), 0);
+      return node.question_count;
+    };
+    roots.forEach(rollUp);
+
+    return roots;
+  }
+
+  private static async verifyCategoryOwnership(
+    supabase: SupabaseClient,
+    categoryId: string,
+    instructorId: string
+  ): Promise<void> {
+    const { data: category } = await supabase
+      .from('question_categories')
+      .select('created_by')
+      .eq('id', categoryId)
+      .maybeSingle();
+
+    if (!category || category.created_by !== instructorId) {
+      throw new Error('Category not found or access denied');
+    }
+  }
+
+  private static async verifyAssessmentOwnership(
+    supabase: SupabaseClient,
+    assessmentId: string,
+    instructorId: string
+  ): Promise<void> {
+    const { data: assessment } = await supabase
+      .from('assessments')
+      .select('instructor_id')
+      .eq('id', assessmentId)
+      .maybeSingle();
+
+    if (!assessment || assessment.instructor_id !== instructorId) {
+      throw new Error('Assessment not found or access denied');
+    }
+  }
+}
@@ -0,0 +1,547 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import { stripe } from '@/lib/stripe';
+import type { CoursePurchase, PaymentTransaction, UserSubscription } from '@/lib/payments';
+import { createStripeLedger, type ReconciliationRange, type StripeLedger } from '@/lib/reconciliation/stripe-ledger';
+import { RefundService } from '@/services/refund-service';
+import { BundleService } from '@/services/bundle-service';
+import { EntitlementService } from '@/services/entitlement-service';
+import {
+  LedgerEnrollment,
+  LocalLedgerSnapshot,
+  ReconciliationIssue,
+  ReconciliationReport,
+  StripeLedgerSnapshot
+} from '@/types/reconciliation';
+
+// Local statuses that mean the customer paid
+const PAID_STATUSES: PaymentTransaction['status'][] = ['succeeded', 'partially_refunded', 'refunded'];
+
+// Local statuses a payment Stripe reports as succeeded can safely move out of
+const UNSETTLED_STATUSES: PaymentTransaction['status'][] = ['pending', 'processing', 'failed', 'canceled'];
+
+export const MAX_RECONCILIATION_DAYS = 93;
+
+const ENROLLMENT_LEDGER_SELECT = `
+  id, user_id, course_id, enrolled_at, cancelled_at, subscription_id, payment_intent_id,
+  course:courses!course_id ( price )
+`;
+
+type EnrollmentRow = Omit<LedgerEnrollment, 'course_price'> & { course: { price: number } | null };
+
+type IssueInput = Omit<ReconciliationIssue, 'repaired' | 'stripe_id' | 'transaction_id' | 'user_id' | 'course_id' | 'expected' | 'actual'> &
+  Partial<Pick<ReconciliationIssue, 'stripe_id' | 'transaction_id' | 'user_id' | 'course_id' | 'expected' | 'actual'>>;
+
+function issue(input: IssueInput): ReconciliationIssue {
+  return {
+    stripe_id: null,
+    transaction_id: null,
+    user_id: null,
+    course_id: null,
+    expected: null,
+    actual: null,
+    ...input,
+    repaired: false
+  };
+}
+
+export class ReconciliationService {
+  /**
+   * Compare what Stripe charged with our ledger. Only discrepancies a re-run of the normal
+   * fulfillment would also produce are marked repairable; anything that would take money
+   * or access away is left for a person to decide.
+   */
+  static diff(
+    remote: StripeLedgerSnapshot,
+    local: LocalLedgerSnapshot,
+    range?: ReconciliationRange
+  ): ReconciliationIssue[] {
+    const issues: ReconciliationIssue[] = [];
+
+    const transactionByIntent = new Map(
+      local.transactions
+        .filter(transaction => transaction.stripe_payment_intent_id)
+        .map(transaction => [transaction.stripe_payment_intent_id!, transaction])
+    );
+    const intentById = new Map(remote.payment_intents.map(intent => [intent.id, intent]));
+
+    const refundedByIntent = new Map<string, number>();
+    for (const refund of remote.refunds) {
+      if (refund.payment_intent && refund.status === 'succeeded') {
+        refundedByIntent.set(refund.payment_intent, (refundedByIntent.get(refund.payment_intent) ?? 0) + refund.amount);
+      }
+    }
+
+    // Payments as Stripe sees them
+    for (const intent of remote.payment_intents) {
+      const transaction = transactionByIntent.get(intent.id);
+
+      if (intent.status !== 'succeeded') {
+        if (transaction && PAID_STATUSES.includes(transaction.status)) {
+          issues.push(issue({
+            type: 'status_mismatch',
+            description: `Transaction is ${transaction.status} but Stripe reports ${intent.status}`,
+            stripe_id: intent.id,
+            transaction_id: transaction.id,
+            user_id: transaction.user_id,
+            expected: intent.status,
+            actual: transaction.status,
+            repairable: false
+          }));
+        }
+        continue;
+      }
+
+      if (!transaction) {
+        issues.push(issue({
+          type: 'missing_transaction',
+          description: `Stripe charged ${intent.amount_received} ${intent.currency} with no local transaction`,
+          stripe_id: intent.id,
+          user_id: intent.metadata.userId || null,
+          course_id: intent.metadata.courseId || null,
+          expected: intent.amount_received,
+          repairable: false
+        }));
+        continue;
+      }
+
+      if (UNSETTLED_STATUSES.includes(transaction.status)) {
+        issues.push(issue({
+          type: 'status_mismatch',
+          description: `Stripe payment succeeded but the transaction is ${transaction.status}`,
+          stripe_id: intent.id,
+          transaction_id: transaction.id,
+          user_id: transaction.user_id,
+          expected: 'succeeded',
+          actual: transaction.status,
+          repairable: true
+        }));
+      }
+
+      if (intent.amount_received !== transaction.amount) {
+        issues.push(issue({
+          type: 'amount_mismatch',
+          description: 'Amount received by Stripe differs from the transaction amount',
+          stripe_id: intent.id,
+          transaction_id: transaction.id,
+          user_id: transaction.user_id,
+          expected: intent.amount_received,
+          actual: transaction.amount,
+          repairable: false
+        }));
+      }
+
+      const refunded = refundedByIntent.get(intent.id) ?? 0;
+      const localRefunded = transaction.refunded_amount ?? 0;
+      if (refunded !== localRefunded) {
+        issues.push(issue({
+          type: 'refund_mismatch',
+          description: 'Refunded amount differs from Stripe',
+          stripe_id: intent.id,
+          transaction_id: transaction.id,
+          user_id: transaction.user_id,
+          expected: refunded,
+          actual: localRefunded,
+          // Catching up on refunds Stripe made is safe; un-refunding is not
+          repairable: refunded > localRefunded
+        }));
+      }
+    }
+
+    // Paid transactions Stripe knows nothing about
+    for (const transaction of local.transactions) {
+      if (
+        transaction.stripe_payment_intent_id &&
+        PAID_STATUSES.includes(transaction.status) &&
+        !intentById.has(transaction.stripe_payment_intent_id)
+      ) {
+        issues.push(issue({
+          type: 'unknown_payment',
+          description: 'Transaction is paid but Stripe has no succeeded payment for it in the range',
+          stripe_id: transaction.stripe_payment_intent_id,
+          transaction_id: transaction.id,
+          user_id: transaction.user_id,
+          actual: transaction.status,
+          repairable: false
+        }));
+      }
+    }
+
+    // Orphaned payments: paid (by Stripe's or our account) but not granted
+    const activeEnrollment = (userId: string, courseId: string) =>
+      local.enrollments.some(enrollment =>
+        enrollment.user_id === userId && enrollment.course_id === courseId && !enrollment.cancelled_at
+      );
+
+    for (const transaction of local.transactions) {
+      const intent = transaction.stripe_payment_intent_id ? intentById.get(transaction.stripe_payment_intent_id) : undefined;
+      const paid = intent ? intent.status === 'succeeded' : PAID_STATUSES.includes(transaction.status);
+      const refunded = Math.max(refundedByIntent.get(transaction.stripe_payment_intent_id || '') ?? 0, transaction.refunded_amount ?? 0);
+
+      if (!paid || transaction.status === 'refunded' || refunded >= transaction.amount) {
+        continue;
+      }
+
+      const purchases = local.purchases.filter(purchase => purchase.transaction_id === transaction.id);
+      const courseIds = transaction.type === 'course_purchase' && transaction.course_id
+        ? [transaction.course_id]
+        : purchases.map(purchase => purchase.course_id).filter((courseId): courseId is string => !!courseId);
+
+      const missingPurchase = transaction.type === 'course_purchase'
+        ? !!transaction.course_id && !purchases.some(purchase => purchase.course_id === transaction.course_id)
+        : transaction.type === 'bundle_purchase' && purchases.length === 0;
+
+      if (missingPurchase) {
+        issues.push(issue({
+          type: 'missing_purchase',
+          description: 'Paid transaction has no course purchase record',
+          stripe_id: transaction.stripe_payment_intent_id,
+          transaction_id: transaction.id,
+          user_id: transaction.user_id,
+          course_id: transaction.course_id,
+          repairable: true
+        }));
+      }
+
+      for (const courseId of courseIds) {
+        if (!activeEnrollment(transaction.user_id, courseId)) {
+          issues.push(issue({
+            type: 'missing_enrollment',
+            description: 'Paid course has no active enrollment',
+            stripe_id: transaction.stripe_payment_intent_id,
+            transaction_id: transaction.id,
+            user_id: transaction.user_id,
+            course_id: courseId,
+            repairable: true
+          }));
+        }
+      }
+    }
+
+    // Paid course enrollments nothing pays for
+    const couponEnrollments = new Set(local.coupon_enrollment_ids);
+    const paidIntents = new Set([
+      ...remote.payment_intents.filter(intent => intent.status === 'succeeded').map(intent => intent.id),
+      ...local.transactions
+        .filter(transaction => PAID_STATUSES.includes(transaction.status) && transaction.stripe_payment_intent_id)
+        .map(transaction => transaction.stripe_payment_intent_id!)
+    ]);
+
+    // Enrollments outside the range are only loaded to check the range's payments against
+    const enrolledInRange = (enrollment: LedgerEnrollment) => !range || (
+      new Date(enrollment.enrolled_at) >= range.from && new Date(enrollment.enrolled_at) <= range.to
+    );
+
+    for (const enrollment of local.enrollments) {
+      if (
+        !enrolledInRange(enrollment) ||
+        enrollment.course_price <= 0 ||
+        enrollment.cancelled_at ||
+        enrollment.subscription_id ||
+        couponEnrollments.has(enrollment.id) ||
+        (enrollment.payment_intent_id && paidIntents.has(enrollment.payment_intent_id))
+      ) {
+        continue;
+      }
+
+      const purchased = local.purchases.some(purchase =>
+        purchase.user_id === enrollment.user_id &&
+        purchase.course_id === enrollment.course_id &&
+        !purchase.refunded_at
+      );
+
+      if (!purchased) {
+        issues.push(issue({
+          type: 'enrollment_without_payment',
+          description: 'Enrolled in a paid course without a purchase, subscription or discount code',
+          stripe_id: enrollment.payment_intent_id,
+          user_id: enrollment.user_id,
+          course_id: enrollment.course_id,
+          repairable: false
+        }));
+      }
+    }
+
+    // Subscriptions
+    const subscriptionByStripeId = new Map(local.subscriptions.map(subscription => [subscription.stripe_subscription_id, subscription]));
+
+    for (const remoteSubscription of remote.subscriptions) {
+      const subscription = subscriptionByStripeId.get(remoteSubscription.id);
+
+      if (!subscription) {
+        issues.push(issue({
+          type: 'missing_subscription',
+          description: `Stripe subscription (${remoteSubscription.status}) has no local record`,
+          stripe_id: remoteSubscription.id,
+          expected: remoteSubscription.status,
+          repairable: false
+        }));
+        continue;
+      }
+
+      const periodEndDiffers = !!remoteSubscription.current_period_end &&
+        new Date(remoteSubscription.current_period_end).getTime() !== new Date(subscription.current_period_end).getTime();
+
+      if (subscription.status !== remoteSubscription.status || periodEndDiffers) {
+        issues.push(issue({
+          type: 'subscription_mismatch',
+          description: 'Subscription status or billing period differs from Stripe',
+          stripe_id: remoteSubscription.id,
+          user_id: subscription.user_id,
+          expected: `${remoteSubscription.status} until ${remoteSubscription.current_period_end}`,
+          actual: `${subscription.status} until ${subscription.current_period_end}`,
+          repairable: true
+        }));
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Reconcile a date range and optionally repair the safe discrepancies
+   */
+  static async reconcile(
+    range: ReconciliationRange,
+    options: { repair?: boolean; ledger?: StripeLedger } = {}
+  ): Promise<ReconciliationReport> {
+    if (range.to <= range.from) {
+      throw new Error('Invalid reconciliation range');
+    }
+
+    if (range.to.getTime() - range.from.getTime() > MAX_RECONCILIATION_DAYS * 24 * 60 * 60 * 1000) {
+      throw new Error('Reconciliation range is too long');
+    }
+
+    const ledger = options.ledger ?? (stripe ? createStripeLedger(stripe) : null);
+    if (!ledger) {
+      throw new Error('Stripe is not configured');
+    }
+
+    const remote = await ledger.fetch(range);
+    const local = await this.loadLocalLedger(range, remote);
+    const issues = this.diff(remote, local, range);
+
+    if (options.repair) {
+      for (const found of issues.filter(candidate => candidate.repairable)) {
+        try {
+          await this.repair(found, remote, local);
+          found.repaired = true;
+        } catch (error) {
+          found.repair_error = error instanceof Error ? error.message : String(error);
+        }
+      }
+    }
+
+    const summary: ReconciliationReport['summary'] = {};
+    for (const found of issues) {
+      summary[found.type] = (summary[found.type] ?? 0) + 1;
+    }
+
+    return {
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      generated_at: new Date().toISOString(),
+      repair: !!options.repair,
+      checked: {
+        payment_intents: remote.payment_intents.length,
+        refunds: remote.refunds.length,
+        subscriptions: remote.subscriptions.length,
+        transactions: local.transactions.length,
+        enrollments: local.enrollments.length
+      },
+      summary,
+      repaired: issues.filter(found => found.repaired).length,
+      issues
+    };
+  }
+
+  private static async repair(
+    found: ReconciliationIssue,
+    remote: StripeLedgerSnapshot,
+    local: LocalLedgerSnapshot
+  ): Promise<void> {
+    const supabase = createServiceClient();
+    const transaction = local.transactions.find(candidate => candidate.id === found.transaction_id);
+
+    switch (found.type) {
+      case 'status_mismatch': {
+        const { error } = await supabase
+          .from('payment_transactions')
+          .update({ status: 'succeeded', failure_reason: null })
+          .eq('id', found.transaction_id);
+
+        if (error) throw new Error(error.message);
+        if (transaction) transaction.status = 'succeeded';
+        return;
+      }
+
+      case 'refund_mismatch':
+        if (!transaction) throw new Error('Transaction not found');
+        await RefundService.applyRefundedAmount(transaction, Number(found.expected));
+        return;
+
+      case 'missing_purchase': {
+        if (!transaction) throw new Error('Transaction not found');
+
+        if (transaction.type === 'bundle_purchase') {
+          const intent = remote.payment_intents.find(candidate => candidate.id === transaction.stripe_payment_intent_id);
+          const courseIds = intent?.metadata.courseIds ? intent.metadata.courseIds.split(',') : undefined;
+          // Purchases and enrollments for every course of the bundle
+          await BundleService.fulfillBundlePurchase(transaction, courseIds);
+          return;
+        }
+
+        const { error } = await supabase
+          .from('course_purchases')
+          .upsert({
+            user_id: transaction.user_id,
+            course_id: transaction.course_id,
+            transaction_id: transaction.id,
+            purchase_type: 'individual',
+            amount_paid: transaction.amount,
+            currency: transaction.currency
+          }, {
+            onConflict: 'transaction_id,course_id'
+          });
+
+        if (error) throw new Error(error.message);
+        return;
+      }
+
+      case 'missing_enrollment': {
+        const { error } = await supabase
+          .from('enrollments')
+          .upsert({
+            user_id: found.user_id,
+            course_id: found.course_id,
+            status: 'active',
+            // Bundle enrollments carry no payment intent, as in BundleService.fulfillBundlePurchase
+            payment_intent_id: transaction?.type === 'bundle_purchase' ? null : found.stripe_id,
+            cancelled_at: null,
+            cancellation_reason: null,
+            subscription_id: null
+          }, {
+            onConflict: 'user_id,course_id'
+          });
+
+        if (error) throw new Error(error.message);
+        return;
+      }
+
+      case 'subscription_mismatch': {
+        const remoteSubscription = remote.subscriptions.find(candidate => candidate.id === found.stripe_id);
+        if (!remoteSubscription) throw new Error('Stripe subscription not found');
+
+        const { data: updated, error } = await supabase
+          .from('subscriptions')
+          .update({
+            status: remoteSubscription.status,
+            cancel_at_period_end: remoteSubscription.cancel_at_period_end,
+            ...(remoteSubscription.current_period_start && { current_period_start: remoteSubscription.current_period_start }),
+            ...(remoteSubscription.current_period_end && { current_period_end: remoteSubscription.current_period_end })
+          })
+          .eq('stripe_subscription_id', remoteSubscription.id)
+          .select('id');
+
+        if (error) throw new Error(error.message);
+
+        // Cancel or restore the subscription's course access to match the corrected status
+        for (const { id } of updated || []) {
+          await EntitlementService.syncSubscriptionEnrollments(id);
+        }
+        return;
+      }
+
+      default:
+        throw new Error(`${found.type} cannot be repaired automatically`);
+    }
+  }
+
+  /**
+   * Our side of the range: transactions created in it or referenced by Stripe, their
+   * purchases and enrollments, paid enrollments made in it, and the subscriptions
+   */
+  private static async loadLocalLedger(
+    range: ReconciliationRange,
+    remote: StripeLedgerSnapshot
+  ): Promise<LocalLedgerSnapshot> {
+    const supabase = createServiceClient();
+    const from = range.from.toISOString();
+    const to = range.to.toISOString();
+    const intentIds = remote.payment_intents.map(intent => intent.id);
+
+    const [{ data: inRange, error }, { data: referenced }] = await Promise.all([
+      supabase
+        .from('payment_transactions')
+        .select('*')
+        .in('type', ['course_purchase', 'bundle_purchase'])
+        .gte('created_at', from)
+        .lte('created_at', to)
+        .overrideTypes<PaymentTransaction[], { merge: false }>(),
+      intentIds.length
+        ? supabase
+          .from('payment_transactions')
+          .select('*')
+          .in('stripe_payment_intent_id', intentIds)
+          .overrideTypes<PaymentTransaction[], { merge: false }>()
+        : Promise.resolve({ data: [] as PaymentTransaction[] })
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to get payment transactions: ${error.message}`);
+    }
+
+    const transactions = Array.from(
+      new Map([...(inRange || []), ...(referenced || [])].map(transaction => [transaction.id, transaction])).values()
+    );
+    const transactionIds = transactions.map(transaction => transaction.id);
+    const userIds = Array.from(new Set(transactions.map(transaction => transaction.user_id)));
+
+    const [{ data: purchases }, { data: paidEnrollments }, { data: enrollmentsInRange }, { data: subscriptions }] = await Promise.all([
+      transactionIds.length
+        ? supabase.from('course_purchases').select('*').in('transaction_id', transactionIds)
+          .overrideTypes<CoursePurchase[], { merge: false }>()
+        : Promise.resolve({ data: [] as CoursePurchase[] }),
+      userIds.length
+        ? supabase.from('enrollments').select(ENROLLMENT_LEDGER_SELECT).in('user_id', userIds)
+          .overrideTypes<EnrollmentRow[], { merge: false }>()
+        : Promise.resolve({ data: [] as EnrollmentRow[] }),
+      supabase.from('enrollments').select(ENROLLMENT_LEDGER_SELECT).gte('enrolled_at', from).lte('enrolled_at', to)
+        .overrideTypes<EnrollmentRow[], { merge: false }>(),
+      remote.subscriptions.length
+        ? supabase.from('subscriptions').select('*').in('stripe_subscription_id', remote.subscriptions.map(subscription => subscription.id))
+          .overrideTypes<UserSubscription[], { merge: false }>()
+        : Promise.resolve({ data: [] as UserSubscription[] })
+    ]);
+
+    const enrollmentRows = Array.from(
+      new Map([...(paidEnrollments || []), ...(enrollmentsInRange || [])].map(row => [row.id, row])).values()
+    );
+
+    // Purchases of enrolled courses, so an enrollment paid outside the range is not flagged
+    const enrolledPairs = enrollmentRows.map(row => row.course_id);
+    const { data: enrolledPurchases } = enrolledPairs.length
+      ? await supabase.from('course_purchases').select('*').in('course_id', Array.from(new Set(enrolledPairs)))
+        .in('user_id', Array.from(new Set(enrollmentRows.map(row => row.user_id))))
+        .overrideTypes<CoursePurchase[], { merge: false }>()
+      : { data: [] as CoursePurchase[] };
+
+    const enrollmentIds = enrollmentRows.map(row => row.id);
+    const { data: redemptions } = enrollmentIds.length
+      ? await supabase.from('discount_redemptions').select('enrollment_id').eq('status', 'completed').in('enrollment_id', enrollmentIds)
+      : { data: [] as Array<{ enrollment_id: string }> };
+
+    return {
+      transactions,
+      purchases: Array.from(
+        new Map([...(purchases || []), ...(enrolledPurchases || [])].map(purchase => [purchase.id, purchase])).values()
+      ),
+      enrollments: enrollmentRows.map(({ course, ...row }): LedgerEnrollment => ({
+        ...row,
+        course_price: course?.price ?? 0
+      })),
+      subscriptions: subscriptions || [],
+      coupon_enrollment_ids: (redemptions || []).map(redemption => redemption.enrollment_id)
+    };
+  }
+}
@@ -0,0 +1,339 @@
+import Stripe from 'stripe';
+import { createServiceClient } from '@/utils/supabase/server';
+import { getPaymentProvider, logPaymentEvent, type PaymentTransaction } from '@/lib/payments';
+import { PaymentRefund, RefundPolicy, RefundReason } from '@/types/refund';
+
+export const DEFAULT_REFUND_POLICY: RefundPolicy = {
+  refund_window_days: 14,
+  refund_max_progress: 25
+};
+
+// Stripe only knows three refund reasons; ours are kept on the refund record
+const STRIPE_REFUND_REASONS: Partial<Record<RefundReason, 'duplicate' | 'fraudulent' | 'requested_by_customer'>> = {
+  requested_by_customer: 'requested_by_customer',
+  duplicate: 'duplicate',
+  fraudulent: 'fraudulent'
+};
+
+export class RefundService {
+  /**
+   * Refund policy of a course, falling back to the platform defaults
+   */
+  static policyFor(course?: Partial<RefundPolicy> | null): RefundPolicy {
+    return {
+      refund_window_days: course?.refund_window_days ?? DEFAULT_REFUND_POLICY.refund_window_days,
+      refund_max_progress: course?.refund_max_progress ?? DEFAULT_REFUND_POLICY.refund_max_progress
+    };
+  }
+
+  /**
+   * Whether an enrollment may still be cancelled with a refund
+   */
+  static isWithinRefundPolicy(
+    policy: RefundPolicy,
+    enrolledAt: string,
+    progressPercentage: number,
+    now: Date = new Date()
+  ): boolean {
+    const daysSinceEnrollment = Math.floor(
+      (now.getTime() - new Date(enrolledAt).getTime()) / (1000 * 60 * 60 * 24)
+    );
+
+    return daysSinceEnrollment <= policy.refund_window_days &&
+      progressPercentage < policy.refund_max_progress;
+  }
+
+  /**
+   * Refund a payment (fully or partially) through the payment provider. A full refund
+   * revokes the purchased course access.
+   */
+  static async refundTransaction(input: {
+    transaction_id: string;
+    amount?: number; // cents; omitted = remaining balance
+    reason: RefundReason;
+    note?: string;
+    issued_by: string;
+  }): Promise<PaymentRefund> {
+    const supabase = createServiceClient();
+
+    const { data: transaction } = await supabase
+      .from('payment_transactions')
+      .select('*')
+      .eq('id', input.transaction_id)
+      .maybeSingle();
+
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    if (!['succeeded', 'partially_refunded'].includes(transaction.status) || !transaction.stripe_payment_intent_id) {
+      throw new Error('Transaction cannot be refunded');
+    }
+
+    const refundable = transaction.amount - (transaction.refunded_amount ?? 0);
+    const amount = input.amount ?? refundable;
+
+    if (amount <= 0 || amount > refundable) {
+      throw new Error('Refund amount exceeds the refundable balance');
+    }
+
+    // Record first so the Stripe refund (and its webhook) can be matched back to it
+    const { data: refund, error } = await supabase
+      .from('payment_refunds')
+      .insert({
+        transaction_id: transaction.id,
+        user_id: transaction.user_id,
+        amount,
+        currency: transaction.currency,
+        reason: input.reason,
+        note: input.note ?? null,
+        issued_by: input.issued_by,
+        status: 'pending'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record refund: ${error.message}`);
+    }
+
+    let stripeRefund: Stripe.Refund;
+    try {
+      stripeRefund = await getPaymentProvider().createRefund({
+        paymentIntentId: transaction.stripe_payment_intent_id,
+        amount,
+        reason: STRIPE_REFUND_REASONS[input.reason],
+        metadata: { refundId: refund.id }
+      });
+    } catch (stripeError) {
+      await supabase
+        .from('payment_refunds')
+        .update({
+          status: 'failed',
+          failure_reason: stripeError instanceof Error ? stripeError.message : 'Stripe refund failed'
+        })
+        .eq('id', refund.id);
+      throw stripeError;
+    }
+
+    const status = this.toRefundStatus(stripeRefund.status);
+
+    const { data: updated, error: updateError } = await supabase
+      .from('payment_refunds')
+      .update({
+        stripe_refund_id: stripeRefund.id,
+        status,
+        failure_reason: stripeRefund.failure_reason ?? null
+      })
+      .eq('id', refund.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to update refund: ${updateError.message}`);
+    }
+
+    if (status !== 'failed') {
+      await this.applyRefundedAmount(transaction, (transaction.refunded_amount ?? 0) + amount);
+    }
+
+    await logPaymentEvent({
+      user_id: transaction.user_id,
+      transaction_id: transaction.id,
+      event_type: 'refund_issued',
+      message: `Refund of ${amount} ${transaction.currency} issued (${input.reason})`,
+      metadata: {
+        refundId: refund.id,
+        stripeRefundId: stripeRefund.id,
+        issuedBy: input.issued_by
+      }
+    });
+
+    return updated;
+  }
+
+  /**
+   * Bring refund records and the transaction in line with Stripe after a charge.refunded
+   * webhook; also covers refunds issued directly in the Stripe dashboard
+   */
+  static async syncChargeRefunds(charge: Stripe.Charge): Promise<void> {
+    const supabase = createServiceClient();
+    const paymentIntentId = typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+
+    if (!paymentIntentId) {
+      return;
+    }
+
+    const { data: transaction } = await supabase
+      .from('payment_transactions')
+      .select('*')
+      .eq('stripe_payment_intent_id', paymentIntentId)
+      .maybeSingle();
+
+    if (!transaction) {
+      console.error(`Transaction not found for refunded charge: ${charge.id}`);
+      return;
+    }
+
+    const refunds = await getPaymentProvider().listRefunds(paymentIntentId);
+
+    for (const stripeRefund of refunds) {
+      const status = this.toRefundStatus(stripeRefund.status);
+
+      if (stripeRefund.metadata?.refundId) {
+        await supabase
+          .from('payment_refunds')
+          .update({ stripe_refund_id: stripeRefund.id, status })
+          .eq('id', stripeRefund.metadata.refundId);
+        continue;
+      }
+
+      await supabase
+        .from('payment_refunds')
+        .upsert({
+          transaction_id: transaction.id,
+          user_id: transaction.user_id,
+          stripe_refund_id: stripeRefund.id,
+          amount: stripeRefund.amount,
+          currency: transaction.currency,
+          reason: stripeRefund.reason && stripeRefund.reason in STRIPE_REFUND_REASONS ? stripeRefund.reason : 'other',
+          note: 'Issued in Stripe',
+          status,
+          issued_by: null
+        }, {
+          onConflict: 'stripe_refund_id'
+        });
+    }
+
+    if (charge.amount_refunded !== (transaction.refunded_amount ?? 0)) {
+      await this.applyRefundedAmount(transaction, charge.amount_refunded);
+    }
+  }
+
+  /**
+   * Apply a charge dispute (chargeback). A lost dispute takes the money back, so the
+   * access it bought is withdrawn like a full refund.
+   */
+  static async syncDispute(dispute: Stripe.Dispute): Promise<PaymentTransaction | null> {
+    const supabase = createServiceClient();
+    const paymentIntentId = typeof dispute.payment_intent === 'string'
+      ? dispute.payment_intent
+      : dispute.payment_intent?.id;
+
+    if (!paymentIntentId) {
+      return null;
+    }
+
+    const { data: transaction } = await supabase
+      .from('payment_transactions')
+      .select('*')
+      .eq('stripe_payment_intent_id', paymentIntentId)
+      .maybeSingle();
+
+    if (!transaction) {
+      console.error(`Transaction not found for disputed charge: ${dispute.charge}`);
+      return null;
+    }
+
+    if (dispute.status === 'lost') {
+      await this.revokeAccess(transaction);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Refunds issued for a transaction (admin)
+   */
+  static async getTransactionRefunds(transactionId: string): Promise<PaymentRefund[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('payment_refunds')
+      .select('*')
+      .eq('transaction_id', transactionId)
+      .order('created_at', { ascending: false })
+      .overrideTypes<PaymentRefund[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch refunds: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Record the total refunded on a transaction; a full refund withdraws the access it bought
+   */
+  static async applyRefundedAmount(transaction: PaymentTransaction, refundedAmount: number): Promise<void> {
+    const supabase = createServiceClient();
+    const fullyRefunded = refundedAmount >= transaction.amount;
+
+    const { error } = await supabase
+      .from('payment_transactions')
+      .update({
+        refunded_amount: refundedAmount,
+        status: fullyRefunded ? 'refunded' : 'partially_refunded'
+      })
+      .eq('id', transaction.id);
+
+    if (error) {
+      throw new Error(`Failed to update payment transaction: ${error.message}`);
+    }
+
+    if (fullyRefunded) {
+      await this.revokeAccess(transaction);
+    }
+  }
+
+  /**
+   * Withdraw the course access a fully refunded payment bought
+   */
+  private static async revokeAccess(transaction: PaymentTransaction): Promise<void> {
+    const supabase = createServiceClient();
+    const now = new Date().toISOString();
+
+    await supabase
+      .from('course_purchases')
+      .update({ refunded_at: now })
+      .eq('transaction_id', transaction.id)
+      .is('refunded_at', null);
+
+    let courseIds: string[] = transaction.course_id ? [transaction.course_id] : [];
+
+    if (transaction.bundle_id) {
+      const { data: bundleCourses } = await supabase
+        .from('bundle_courses')
+        .select('course_id')
+        .eq('bundle_id', transaction.bundle_id);
+
+      courseIds = (bundleCourses || []).map(course => course.course_id);
+    }
+
+    if (courseIds.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('enrollments')
+      .update({
+        cancelled_at: now,
+        cancellation_reason: 'Payment refunded'
+      })
+      .eq('user_id', transaction.user_id)
+      .in('course_id', courseIds)
+      .is('cancelled_at', null);
+
+    if (error) {
+      throw new Error(`Failed to revoke course access: ${error.message}`);
+    }
+  }
+
+  private static toRefundStatus(stripeStatus: string | null): PaymentRefund['status'] {
+    if (stripeStatus === 'succeeded') return 'succeeded';
+    if (stripeStatus === 'failed' || stripeStatus === 'canceled') return 'failed';
+    return 'pending';
+  }
+}
@@ -0,0 +1,519 @@
+import { createClient } from '@/utils/supabase/server';
+import {
+  CourseReview,
+  ReviewEligibility,
+  ReviewModerationStats,
+  ReviewStatus,
+  ReviewSummary
+} from '@/types/review';
+import {
+  ReviewInput,
+  ReviewListQuery,
+  ReviewReportInput,
+  ModerationQueueQuery,
+  ModerationAction
+} from '@/lib/validation/reviews';
+
+// Minimum course progress (percent) before a student may review a course
+export const REVIEW_MIN_PROGRESS = 20;
+
+const REVIEW_SELECT = `
+  id, course_id, user_id, rating, review_text, moderation_status, is_featured,
+  helpful_count, reported_count, moderator_notes, moderated_at, created_at, updated_at,
+  reviewer:users!user_id ( id, name, avatar_url ),
+  course:courses!course_id ( id, title )
+`;
+
+const SORT_COLUMNS: Record<ReviewListQuery['sort'], { column: string; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  helpful: { column: 'helpful_count', ascending: false },
+  rating_high: { column: 'rating', ascending: false },
+  rating_low: { column: 'rating', ascending: true }
+};
+
+interface ReviewRow {
+  id: string;
+  course_id: string;
+  user_id: string;
+  rating: number;
+  review_text: string | null;
+  moderation_status: ReviewStatus;
+  is_featured: boolean;
+  helpful_count: number;
+  reported_count: number;
+  moderator_notes: string | null;
+  moderated_at: string | null;
+  created_at: string;
+  updated_at: string;
+  reviewer?: { id: string; name: string | null; avatar_url: string | null } | null;
+  course?: { id: string; title: string } | null;
+}
+
+export class ReviewService {
+  /**
+   * Get approved reviews of a course (featured first) with the rating summary
+   */
+  static async getCourseReviews(
+    courseId: string,
+    options: ReviewListQuery,
+    viewerId?: string
+  ): Promise<{ reviews: CourseReview[]; total: number; summary: ReviewSummary }> {
+    const supabase = createClient();
+    const { sort, rating, page, limit } = options;
+    const order = SORT_COLUMNS[sort];
+
+    let query = supabase
+      .from('course_reviews')
+      .select(REVIEW_SELECT, { count: 'exact' })
+      .eq('course_id', courseId)
+      .eq('moderation_status', 'approved')
+      .order('is_featured', { ascending: false })
+      .order(order.column, { ascending: order.ascending })
+      .order('created_at', { ascending: false });
+
+    if (rating) query = query.eq('rating', rating);
+
+    const from = (page - 1) * limit;
+    query = query.range(from, from + limit - 1);
+
+    const { data, error, count } = await query.overrideTypes<ReviewRow[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch reviews: ${error.message}`);
+    }
+
+    const reviews = (data || []).map(row => this.mapReview(row, false));
+
+    if (viewerId && reviews.length > 0) {
+      const votes = await this.getViewerVotes(reviews.map(review => review.id), viewerId);
+      reviews.forEach(review => {
+        review.viewerVote = votes.has(review.id) ? votes.get(review.id)! : null;
+      });
+    }
+
+    return {
+      reviews,
+      total: count || 0,
+      summary: await this.getSummary(courseId)
+    };
+  }
+
+  /**
+   * Get the viewer's own review of a course in any moderation state
+   */
+  static async getOwnReview(courseId: string, userId: string): Promise<CourseReview | null> {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .select(REVIEW_SELECT)
+      .eq('course_id', courseId)
+      .eq('user_id', userId)
+      .maybeSingle()
+      .overrideTypes<ReviewRow | null, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch review: ${error.message}`);
+    }
+
+    return data ? this.mapReview(data, true) : null;
+  }
+
+  /**
+   * Whether a student may review a course: enrolled and past the progress threshold
+   */
+  static async getEligibility(courseId: string, userId: string): Promise<ReviewEligibility> {
+    const supabase = createClient();
+
+    const { data: enrollment } = await supabase
+      .from('enrollments')
+      .select('id, progress_percentage, completed_at')
+      .eq('course_id', courseId)
+      .eq('user_id', userId)
+      .is('cancelled_at', null)
+      .maybeSingle();
+
+    if (!enrollment) {
+      return { eligible: false, reason: 'not_enrolled', progress: 0, requiredProgress: REVIEW_MIN_PROGRESS };
+    }
+
+    const progress = enrollment.completed_at ? 100 : enrollment.progress_percentage || 0;
+
+    if (progress < REVIEW_MIN_PROGRESS) {
+      return { eligible: false, reason: 'insufficient_progress', progress, requiredProgress: REVIEW_MIN_PROGRESS };
+    }
+
+    return { eligible: true, progress, requiredProgress: REVIEW_MIN_PROGRESS };
+  }
+
+  /**
+   * Post a review (one per student per course); it waits for moderation before it is public
+   */
+  static async createReview(courseId: string, userId: string, input: ReviewInput): Promise<CourseReview> {
+    const supabase = createClient();
+    await this.assertEligible(courseId, userId);
+
+    const existing = await this.getOwnReview(courseId, userId);
+    if (existing) {
+      throw new Error('Review already exists');
+    }
+
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .insert({
+        course_id: courseId,
+        user_id: userId,
+        rating: input.rating,
+        review_text: input.review || null,
+        moderation_status: 'pending',
+        is_approved: false
+      })
+      .select(REVIEW_SELECT)
+      .single()
+      .overrideTypes<ReviewRow, { merge: false }>();
+
+    if (error) {
+      // Unique (course_id, user_id) violation from a concurrent request
+      if (error.code === '23505') {
+        throw new Error('Review already exists');
+      }
+      throw new Error(`Failed to create review: ${error.message}`);
+    }
+
+    return this.mapReview(data, true);
+  }
+
+  /**
+   * Edit own review; any edit sends the review back to the moderation queue
+   */
+  static async updateReview(courseId: string, userId: string, input: ReviewInput): Promise<CourseReview> {
+    const supabase = createClient();
+    await this.assertEligible(courseId, userId);
+
+    const existing = await this.getOwnReview(courseId, userId);
+    if (!existing) {
+      throw new Error('Review not found');
+    }
+
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .update({
+        rating: input.rating,
+        review_text: input.review || null,
+        moderation_status: 'pending',
+        is_approved: false,
+        is_featured: false,
+        approved_by: null,
+        approved_at: null,
+        moderated_at: null
+      })
+      .eq('id', existing.id)
+      .select(REVIEW_SELECT)
+      .single()
+      .overrideTypes<ReviewRow, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to update review: ${error.message}`);
+    }
+
+    return this.mapReview(data, true);
+  }
+
+  /**
+   * Vote a review helpful / not helpful (one vote per user, can be changed)
+   */
+  static async voteHelpful(reviewId: string, userId: string, helpful: boolean): Promise<CourseReview> {
+    const supabase = createClient();
+    const review = await this.fetchReviewRow(reviewId);
+
+    if (review.moderation_status !== 'approved') {
+      throw new Error('Review not found');
+    }
+
+    if (review.user_id === userId) {
+      throw new Error('Cannot vote on own review');
+    }
+
+    const { error } = await supabase
+      .from('review_helpfulness')
+      .upsert(
+        { review_id: reviewId, user_id: userId, is_helpful: helpful },
+        { onConflict: 'review_id,user_id' }
+      );
+
+    if (error) {
+      throw new Error(`Failed to save vote: ${error.message}`);
+    }
+
+    // helpful_count is maintained by a database trigger
+    const updated = this.mapReview(await this.fetchReviewRow(reviewId), false);
+    updated.viewerVote = helpful;
+    return updated;
+  }
+
+  /**
+   * Remove the viewer's helpfulness vote
+   */
+  static async removeVote(reviewId: string, userId: string): Promise<CourseReview> {
+    const supabase = createClient();
+
+    const { error } = await supabase
+      .from('review_helpfulness')
+      .delete()
+      .eq('review_id', reviewId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to remove vote: ${error.message}`);
+    }
+
+    const updated = this.mapReview(await this.fetchReviewRow(reviewId), false);
+    updated.viewerVote = null;
+    return updated;
+  }
+
+  /**
+   * Report a review for moderation (once per user)
+   */
+  static async reportReview(reviewId: string, userId: string, input: ReviewReportInput): Promise<void> {
+    const supabase = createClient();
+    const review = await this.fetchReviewRow(reviewId);
+
+    if (review.user_id === userId) {
+      throw new Error('Cannot report own review');
+    }
+
+    const { error } = await supabase
+      .from('review_reports')
+      .insert({
+        review_id: reviewId,
+        user_id: userId,
+        reason: input.reason,
+        details: input.details || null
+      });
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('Review already reported');
+      }
+      throw new Error(`Failed to report review: ${error.message}`);
+    }
+  }
+
+  /**
+   * Moderation queue for admins
+   */
+  static async listModerationQueue(
+    options: ModerationQueueQuery
+  ): Promise<{ reviews: CourseReview[]; total: number; stats: ReviewModerationStats }> {
+    const supabase = createClient();
+    const { status, courseId, page, limit } = options;
+
+    let query = supabase
+      .from('course_reviews')
+      .select(REVIEW_SELECT, { count: 'exact' });
+
+    if (status === 'reported') {
+      query = query.gt('reported_count', 0).order('reported_count', { ascending: false });
+    } else if (status !== 'all') {
+      query = query.eq('moderation_status', status);
+    }
+
+    // Oldest pending first so nothing waits forever
+    query = query.order('created_at', { ascending: status === 'pending' });
+
+    if (courseId) query = query.eq('course_id', courseId);
+
+    const from = (page - 1) * limit;
+    query = query.range(from, from + limit - 1);
+
+    const { data, error, count } = await query.overrideTypes<ReviewRow[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch moderation queue: ${error.message}`);
+    }
+
+    return {
+      reviews: (data || []).map(row => this.mapReview(row, true)),
+      total: count || 0,
+      stats: await this.getModerationStats()
+    };
+  }
+
+  /**
+   * Apply a moderation action (approve, reject with notes, feature, unfeature)
+   */
+  static async moderateReview(
+    reviewId: string,
+    moderatorId: string,
+    { action, notes }: ModerationAction
+  ): Promise<CourseReview> {
+    const supabase = createClient();
+    const review = await this.fetchReviewRow(reviewId);
+    const now = new Date().toISOString();
+
+    let updateData: Record<string, unknown>;
+
+    switch (action) {
+      case 'approve':
+        updateData = {
+          moderation_status: 'approved',
+          is_approved: true,
+          approved_by: moderatorId,
+          approved_at: now,
+          moderated_at: now
+        };
+        break;
+      case 'reject':
+        updateData = {
+          moderation_status: 'rejected',
+          is_approved: false,
+          is_featured: false,
+          approved_by: null,
+          approved_at: null,
+          moderated_at: now
+        };
+        break;
+      case 'feature':
+        if (review.moderation_status !== 'approved') {
+          throw new Error('Only approved reviews can be featured');
+        }
+        updateData = { is_featured: true };
+        break;
+      case 'unfeature':
+        updateData = { is_featured: false };
+        break;
+    }
+
+    if (notes) updateData.moderator_notes = notes;
+
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .update(updateData)
+      .eq('id', reviewId)
+      .select(REVIEW_SELECT)
+      .single()
+      .overrideTypes<ReviewRow, { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to moderate review: ${error.message}`);
+    }
+
+    return this.mapReview(data, true);
+  }
+
+  private static async assertEligible(courseId: string, userId: string): Promise<void> {
+    const eligibility = await this.getEligibility(courseId, userId);
+
+    if (eligibility.reason === 'not_enrolled') {
+      throw new Error('Not enrolled in this course');
+    }
+
+    if (eligibility.reason === 'insufficient_progress') {
+      throw new Error('Insufficient progress');
+    }
+  }
+
+  private static async getSummary(courseId: string): Promise<ReviewSummary> {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .select('rating')
+      .eq('course_id', courseId)
+      .eq('moderation_status', 'approved');
+
+    if (error) {
+      throw new Error(`Failed to fetch rating summary: ${error.message}`);
+    }
+
+    const distribution: ReviewSummary['distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    const ratings = (data || []).map(row => row.rating as 1 | 2 | 3 | 4 | 5);
+    ratings.forEach(rating => {
+      distribution[rating] += 1;
+    });
+
+    const averageRating = ratings.length > 0
+      ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10
+      : 0;
+
+    return { averageRating, totalReviews: ratings.length, distribution };
+  }
+
+  private static async getModerationStats(): Promise<ReviewModerationStats> {
+    const supabase = createClient();
+
+    const countReviews = async (status?: ReviewStatus) => {
+      let query = supabase
+        .from('course_reviews')
+        .select('id', { count: 'exact', head: true });
+
+      query = status ? query.eq('moderation_status', status) : query.gt('reported_count', 0);
+
+      const { count } = await query;
+      return count || 0;
+    };
+
+    const [pending, approved, rejected, reported] = await Promise.all([
+      countReviews('pending'),
+      countReviews('approved'),
+      countReviews('rejected'),
+      countReviews()
+    ]);
+
+    return { pending, approved, rejected, reported };
+  }
+
+  private static async getViewerVotes(reviewIds: string[], userId: string): Promise<Map<string, boolean>> {
+    const supabase = createClient();
+
+    const { data } = await supabase
+      .from('review_helpfulness')
+      .select('review_id, is_helpful')
+      .eq('user_id', userId)
+      .in('review_id', reviewIds);
+
+    return new Map((data || []).map(vote => [vote.review_id as string, vote.is_helpful as boolean]));
+  }
+
+  private static async fetchReviewRow(reviewId: string): Promise<ReviewRow> {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .select(REVIEW_SELECT)
+      .eq('id', reviewId)
+      .single()
+      .overrideTypes<ReviewRow, { merge: false }>();
+
+    if (error || !data) {
+      throw new Error('Review not found');
+    }
+
+    return data;
+  }
+
+  /**
+   * Map a row; moderation details are only exposed to the author and moderators
+   */
+  private static mapReview(row: ReviewRow, includeModeration: boolean): CourseReview {
+    return {
+      id: row.id,
+      courseId: row.course_id,
+      courseTitle: row.course?.title,
+      userId: row.user_id,
+      reviewerName: row.reviewer?.name || 'Öğrenci',
+      reviewerAvatar: row.reviewer?.avatar_url || undefined,
+      rating: row.rating,
+      body: row.review_text,
+      status: row.moderation_status,
+      isFeatured: row.is_featured,
+      helpfulCount: row.helpful_count || 0,
+      reportedCount: includeModeration ? row.reported_count || 0 : 0,
+      moderatorNotes: includeModeration ? row.moderator_notes || undefined : undefined,
+      moderatedAt: row.moderated_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,282 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import {
+  LearningStreak,
+  StreakAdvance,
+  StreakConfig,
+  StreakDate,
+  StreakDay,
+  StreakState,
+  StreakSummary,
+  StreakUpdate
+} from '@/types/streak';
+
+// Streak lengths that emit a streak_milestone activity (and so can award streak badges)
+export const STREAK_MILESTONES = [3, 7, 14, 30, 50, 100, 180, 365];
+
+const RECENT_DAYS = 30;
+
+export const DEFAULT_STREAK_CONFIG: StreakConfig = {
+  max_freezes: Number(process.env.STREAK_MAX_FREEZES ?? 2),
+  freeze_earn_days: Number(process.env.STREAK_FREEZE_EARN_DAYS ?? 7),
+  default_timezone: process.env.STREAK_DEFAULT_TIMEZONE || 'Europe/Istanbul'
+};
+
+const EMPTY_STREAK: StreakState = {
+  current_streak: 0,
+  longest_streak: 0,
+  last_activity_date: null,
+  streak_start_date: null,
+  freezes_available: 0,
+  freezes_used: 0
+};
+
+export class StreakService {
+  /**
+   * Calendar day of a moment in a timezone; an unknown timezone falls back to the default
+   */
+  static localDate(at: Date, timezone: string, config: StreakConfig = DEFAULT_STREAK_CONFIG): StreakDate {
+    const format = (timeZone: string) => new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(at);
+
+    try {
+      return format(timezone);
+    } catch {
+      return format(config.default_timezone);
+    }
+  }
+
+  static daysBetween(from: StreakDate, to: StreakDate): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+  }
+
+  static addDays(date: StreakDate, days: number): StreakDate {
+    const next = new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000);
+    return next.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Apply a day with qualifying activity to a streak. Missed days are covered by banked
+   * freezes when there are enough of them (a frozen day keeps the streak but does not
+   * lengthen it); otherwise the streak starts over. A freeze is earned every
+   * freeze_earn_days streak days, up to max_freezes.
+   */
+  static advance(state: StreakState, date: StreakDate, config: StreakConfig = DEFAULT_STREAK_CONFIG): StreakAdvance {
+    const unchanged: StreakAdvance = { state, changed: false, frozen_dates: [], milestone: null };
+
+    // Same day again, or a late event for a day already behind the streak
+    if (state.last_activity_date && date <= state.last_activity_date) {
+      return unchanged;
+    }
+
+    const next: StreakState = { ...state };
+    const missed = state.last_activity_date ? this.daysBetween(state.last_activity_date, date) - 1 : 0;
+    let frozenDates: StreakDate[] = [];
+
+    if (state.current_streak === 0 || !state.last_activity_date) {
+      next.current_streak = 1;
+      next.streak_start_date = date;
+    } else if (missed === 0) {
+      next.current_streak = state.current_streak + 1;
+    } else if (missed <= state.freezes_available) {
+      frozenDates = Array.from({ length: missed }, (_, index) => this.addDays(state.last_activity_date!, index + 1));
+      next.current_streak = state.current_streak + 1;
+      next.freezes_available = state.freezes_available - missed;
+      next.freezes_used = state.freezes_used + missed;
+    } else {
+      next.current_streak = 1;
+      next.streak_start_date = date;
+    }
+
+    if (config.freeze_earn_days > 0 &&
+      next.current_streak % config.freeze_earn_days === 0 &&
+      next.freezes_available < config.max_freezes) {
+      next.freezes_available += 1;
+    }
+
+    next.last_activity_date = date;
+    next.longest_streak = Math.max(state.longest_streak, next.current_streak);
+
+    return {
+      state: next,
+      changed: true,
+      frozen_dates: frozenDates,
+      milestone: STREAK_MILESTONES.includes(next.current_streak) ? next.current_streak : null
+    };
+  }
+
+  /**
+   * Streak as of a day: kept while the days missed since the last activity can still be
+   * covered by freezes, 0 once it is broken
+   */
+  static effectiveStreak(state: StreakState, today: StreakDate): number {
+    if (!state.last_activity_date) {
+      return 0;
+    }
+
+    const missed = this.daysBetween(state.last_activity_date, today) - 1;
+    return missed <= state.freezes_available ? state.current_streak : 0;
+  }
+
+  static nextMilestone(currentStreak: number): number | null {
+    return STREAK_MILESTONES.find(milestone => milestone > currentStreak) ?? null;
+  }
+
+  /**
+   * Record qualifying activity for the learner's current day. Returns null when the day
+   * was already counted; a reached milestone comes back as a streak_milestone activity.
+   */
+  static async recordActivity(userId: string, at: Date = new Date()): Promise<StreakUpdate | null> {
+    const supabase = createServiceClient();
+    const timezone = await this.getTimezone(userId);
+    const date = this.localDate(at, timezone);
+
+    const { error: dayError } = await supabase
+      .from('learning_streak_days')
+      .upsert({ user_id: userId, activity_date: date, frozen: false }, { onConflict: 'user_id,activity_date' });
+
+    if (dayError) {
+      throw new Error(`Failed to record streak day: ${dayError.message}`);
+    }
+
+    const existing = await this.loadStreak(userId);
+    const advance = this.advance(existing ?? EMPTY_STREAK, date);
+
+    if (!advance.changed) {
+      return null;
+    }
+
+    const row = { user_id: userId, ...advance.state, updated_at: new Date().toISOString() };
+
+    if (existing) {
+      // Only from the state we read, so concurrent requests on one day count it once
+      let update = supabase
+        .from('learning_streaks')
+        .update(row)
+        .eq('user_id', userId);
+
+      update = existing.last_activity_date
+        ? update.eq('last_activity_date', existing.last_activity_date)
+        : update.is('last_activity_date', null);
+
+      const { data: updated, error } = await update.select('user_id');
+
+      if (error) {
+        throw new Error(`Failed to update learning streak: ${error.message}`);
+      }
+
+      if (!updated?.length) {
+        return null;
+      }
+    } else {
+      const { error } = await supabase
+        .from('learning_streaks')
+        .insert(row);
+
+      if (error) {
+        if (error.code === '23505') {
+          return null;
+        }
+        throw new Error(`Failed to create learning streak: ${error.message}`);
+      }
+    }
+
+    if (advance.frozen_dates.length > 0) {
+      await supabase
+        .from('learning_streak_days')
+        .upsert(
+          advance.frozen_dates.map(frozenDate => ({ user_id: userId, activity_date: frozenDate, frozen: true })),
+          { onConflict: 'user_id,activity_date', ignoreDuplicates: true }
+        );
+    }
+
+    return {
+      streak: row,
+      activity_date: date,
+      frozen_dates: advance.frozen_dates,
+      milestone: advance.milestone
+        ? { type: 'streak_milestone', streakDays: advance.milestone }
+        : null
+    };
+  }
+
+  /**
+   * Current streak length as of the learner's today
+   */
+  static async getCurrentStreak(userId: string, now: Date = new Date()): Promise<number> {
+    const streak = await this.loadStreak(userId);
+    if (!streak) {
+      return 0;
+    }
+
+    const today = this.localDate(now, await this.getTimezone(userId));
+    return this.effectiveStreak(streak, today);
+  }
+
+  /**
+   * Streak with today's status and the recent activity calendar
+   */
+  static async getStreakSummary(userId: string, now: Date = new Date()): Promise<StreakSummary> {
+    const supabase = createServiceClient();
+    const timezone = await this.getTimezone(userId);
+    const today = this.localDate(now, timezone);
+    const stored = await this.loadStreak(userId);
+    const streak: LearningStreak = stored ?? { user_id: userId, ...EMPTY_STREAK };
+
+    const { data: days, error } = await supabase
+      .from('learning_streak_days')
+      .select('activity_date, frozen')
+      .eq('user_id', userId)
+      .gte('activity_date', this.addDays(today, -(RECENT_DAYS - 1)))
+      .order('activity_date')
+      .overrideTypes<StreakDay[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to get streak days: ${error.message}`);
+    }
+
+    const currentStreak = this.effectiveStreak(streak, today);
+    const activeToday = streak.last_activity_date === today;
+    const daysSinceActivity = streak.last_activity_date
+      ? this.daysBetween(streak.last_activity_date, today)
+      : 0;
+
+    return {
+      ...streak,
+      current_streak: currentStreak,
+      today,
+      timezone,
+      active_today: activeToday,
+      at_risk: !activeToday && currentStreak > 0 && daysSinceActivity > streak.freezes_available,
+      next_milestone: this.nextMilestone(currentStreak),
+      recent_days: days || []
+    };
+  }
+
+  private static async loadStreak(userId: string): Promise<LearningStreak | null> {
+    const supabase = createServiceClient();
+
+    const { data } = await supabase
+      .from('learning_streaks')
+      .select('user_id, current_streak, longest_streak, last_activity_date, streak_start_date, freezes_available, freezes_used, updated_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return data;
+  }
+
+  private static async getTimezone(userId: string): Promise<string> {
+    const supabase = createServiceClient();
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('timezone')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return profile?.timezone || DEFAULT_STREAK_CONFIG.default_timezone;
+  }
+}
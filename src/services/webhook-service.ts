@@ -0,0 +1,272 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import { processWebhookEvent } from '@/lib/webhooks/stripe-events';
+import { isWebhookEventProcessed, logWebhookEvent, markWebhookEventProcessed } from '@/lib/payments';
+import { WebhookEventRecord, WebhookEventStatus, WebhookRetryResult } from '@/types/webhook';
+import type Stripe from 'stripe';
+
+// Attempts (the original delivery included) before an event is dead-lettered
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+// First retry after 5 minutes, doubling up to 6 hours
+const BASE_RETRY_DELAY_MINUTES = 5;
+const MAX_RETRY_DELAY_MINUTES = 6 * 60;
+
+// A pending or processing event untouched this long was abandoned mid-delivery (e.g. a crash)
+const STALE_DELIVERY_MINUTES = 10;
+
+export const WEBHOOK_ERROR_STATUS: Record<string, number> = {
+  'Webhook event not found': 404,
+  'Webhook event was already processed': 409,
+  'Webhook event is already being processed': 409
+};
+
+export class WebhookService {
+  /**
+   * State of an event after its nth failed attempt: retried with exponential backoff
+   * until the attempts run out, then dead-lettered
+   */
+  static planRetry(
+    attempts: number,
+    now: Date = new Date()
+  ): { status: WebhookEventStatus; next_retry_at: string | null } {
+    if (attempts >= MAX_WEBHOOK_ATTEMPTS) {
+      return { status: 'dead', next_retry_at: null };
+    }
+
+    const delayMinutes = Math.min(
+      BASE_RETRY_DELAY_MINUTES * 2 ** (Math.max(attempts, 1) - 1),
+      MAX_RETRY_DELAY_MINUTES
+    );
+
+    return {
+      status: 'failed',
+      next_retry_at: new Date(now.getTime() + delayMinutes * 60 * 1000).toISOString()
+    };
+  }
+
+  /**
+   * Log and apply a received event (Stripe webhook or mock provider). A failed event is
+   * kept for a retry with backoff instead of failing the delivery.
+   */
+  static async deliverEvent(event: Stripe.Event): Promise<WebhookEventStatus> {
+    if (await isWebhookEventProcessed(event.id)) {
+      console.log(`Event ${event.id} already processed, skipping`);
+      return 'processed';
+    }
+
+    await logWebhookEvent({
+      stripe_event_id: event.id,
+      event_type: event.type,
+      data: event.data,
+      processed: false
+    });
+
+    try {
+      await processWebhookEvent(event);
+    } catch (error) {
+      console.error(`Webhook event ${event.id} failed:`, error);
+      const failed = await this.recordFailure(event.id, error);
+      return failed.status;
+    }
+
+    await markWebhookEventProcessed(event.id);
+    return 'processed';
+  }
+
+  /**
+   * Store a failed attempt with its error and schedule the next one
+   */
+  static async recordFailure(stripeEventId: string, error: unknown): Promise<WebhookEventRecord> {
+    const supabase = createServiceClient();
+    const event = await this.getEvent(stripeEventId);
+    const attempts = (event.attempts ?? 0) + 1;
+    const now = new Date();
+
+    const { data, error: updateError } = await supabase
+      .from('webhook_events')
+      .update({
+        ...this.planRetry(attempts, now),
+        processed: false,
+        attempts,
+        last_error: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+        last_attempt_at: now.toISOString()
+      })
+      .eq('stripe_event_id', stripeEventId)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to record webhook failure: ${updateError.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Failed and dead-lettered events for the admin view, newest first
+   */
+  static async getFailedEvents(
+    options: { status?: 'failed' | 'dead'; limit?: number } = {}
+  ): Promise<WebhookEventRecord[]> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .in('status', options.status ? [options.status] : ['failed', 'dead'])
+      .order('last_attempt_at', { ascending: false })
+      .limit(options.limit ?? 50)
+      .overrideTypes<WebhookEventRecord[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to get webhook events: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  static async getEvent(stripeEventId: string): Promise<WebhookEventRecord> {
+    const supabase = createServiceClient();
+
+    const { data: event } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('stripe_event_id', stripeEventId)
+      .maybeSingle();
+
+    if (!event) {
+      throw new Error('Webhook event not found');
+    }
+
+    return event;
+  }
+
+  /**
+   * Take an event for a retry or replay. The conditional update lets only one caller
+   * through; pending and processing events are only taken once their delivery went stale.
+   */
+  static async claimEvent(record: WebhookEventRecord, now: Date = new Date()): Promise<boolean> {
+    const supabase = createServiceClient();
+    const staleBefore = new Date(now.getTime() - STALE_DELIVERY_MINUTES * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .update({ status: 'processing', last_attempt_at: now.toISOString() })
+      .eq('stripe_event_id', record.stripe_event_id)
+      .eq('processed', false)
+      .or(
+        'status.in.(failed,dead),' +
+        `and(status.eq.pending,created_at.lte.${staleBefore}),` +
+        `and(status.eq.processing,last_attempt_at.lte.${staleBefore})`
+      )
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to claim webhook event: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Run a stored event through the handlers again. A failure counts as an attempt, so a
+   * replayed event that keeps failing ends up dead-lettered.
+   */
+  static async replayEvent(stripeEventId: string): Promise<WebhookEventRecord> {
+    const supabase = createServiceClient();
+    const record = await this.getEvent(stripeEventId);
+
+    if (record.processed) {
+      throw new Error('Webhook event was already processed');
+    }
+
+    if (!(await this.claimEvent(record))) {
+      throw new Error('Webhook event is already being processed');
+    }
+
+    try {
+      await processWebhookEvent({
+        id: record.stripe_event_id,
+        object: 'event',
+        type: record.event_type,
+        data: record.data,
+        created: Math.floor(new Date(record.created_at).getTime() / 1000)
+      } as Stripe.Event);
+    } catch (error) {
+      console.error(`Webhook event ${stripeEventId} replay failed:`, error);
+      return this.recordFailure(stripeEventId, error);
+    }
+
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .update({
+        status: 'processed',
+        processed: true,
+        processed_at: now,
+        attempts: (record.attempts ?? 0) + 1,
+        last_attempt_at: now,
+        next_retry_at: null
+      })
+      .eq('stripe_event_id', stripeEventId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to mark webhook event as processed: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Replay failed events whose retry is due and events abandoned mid-delivery (cron)
+   */
+  static async retryDueEvents(limit: number = 20, now: Date = new Date()): Promise<WebhookRetryResult> {
+    const supabase = createServiceClient();
+    const staleBefore = new Date(now.getTime() - STALE_DELIVERY_MINUTES * 60 * 1000).toISOString();
+
+    const { data: due, error } = await supabase
+      .from('webhook_events')
+      .select('stripe_event_id')
+      .eq('processed', false)
+      .or(
+        `and(status.eq.failed,next_retry_at.lte.${now.toISOString()}),` +
+        `and(status.eq.pending,created_at.lte.${staleBefore}),` +
+        `and(status.eq.processing,last_attempt_at.lte.${staleBefore})`
+      )
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to get due webhook events: ${error.message}`);
+    }
+
+    const result: WebhookRetryResult = { retried: 0, succeeded: 0, failed: 0, skipped: 0 };
+
+    // One at a time: events of the same payment must apply in order
+    for (const { stripe_event_id } of due || []) {
+      try {
+        const event = await this.replayEvent(stripe_event_id);
+        result.retried++;
+        if (event.status === 'processed') {
+          result.succeeded++;
+        } else {
+          result.failed++;
+        }
+      } catch (error) {
+        // Claimed or finished by an admin replay in the meantime, or a storage error;
+        // the rest of the batch still runs
+        if (error instanceof Error && WEBHOOK_ERROR_STATUS[error.message]) {
+          result.skipped++;
+        } else {
+          console.error(`Webhook event ${stripe_event_id} retry failed:`, error);
+          result.failed++;
+        }
+      }
+    }
+
+    return result;
+  }
+}
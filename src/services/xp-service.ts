@@ -0,0 +1,274 @@
+import { createServiceClient } from '@/utils/supabase/server';
+import type { LevelSystem } from '@/types/progress';
+import {
+  XpActivityType,
+  XpAward,
+  XpAwardInput,
+  XpLedgerEntry,
+  XpRule
+} from '@/types/xp';
+import { CreateXpRule, UpdateXpRule, XpHistoryQuery } from '@/lib/validation/xp';
+
+// XP per level grows quadratically: level n starts at (n - 1)^2 * XP_LEVEL_BASE.
+// Keep in sync with xp_level_for() in the XP ledger migration.
+export const XP_LEVEL_BASE = 1000;
+
+export class XpService {
+  static levelForXp(totalXp: number): number {
+    return Math.floor(Math.sqrt(Math.max(0, totalXp) / XP_LEVEL_BASE)) + 1;
+  }
+
+  static xpForLevel(level: number): number {
+    return Math.pow(Math.max(1, level) - 1, 2) * XP_LEVEL_BASE;
+  }
+
+  /**
+   * Rule for an activity: the active rule with the highest band the value reaches
+   */
+  static resolveRule(rules: XpRule[], activityType: XpActivityType, value = 0): XpRule | null {
+    return rules
+      .filter(rule => rule.is_active && rule.activity_type === activityType && rule.min_value <= value)
+      .reduce<XpRule | null>((best, rule) => (!best || rule.min_value > best.min_value ? rule : best), null);
+  }
+
+  /**
+   * Write an award to the XP ledger. The ledger row, the profile total and the level move
+   * together; an idempotency key that was already used awards nothing and returns null.
+   * Crossing a level creates a level-up notification.
+   */
+  static async award(userId: string, input: XpAwardInput): Promise<XpAward | null> {
+    const supabase = createServiceClient();
+    let xp = input.xp;
+    let metadata = input.metadata ?? {};
+
+    if (xp === undefined) {
+      const rule = this.resolveRule(await this.getRules(true), input.activity_type, input.value);
+      if (!rule) {
+        return null;
+      }
+      xp = rule.xp;
+      metadata = { ...metadata, rule_id: rule.id };
+    }
+
+    xp = Math.round(xp);
+    if (xp <= 0) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .rpc('award_user_xp', {
+        p_user_id: userId,
+        p_activity_type: input.activity_type,
+        p_xp: xp,
+        p_idempotency_key: input.idempotency_key,
+        p_metadata: metadata
+      })
+      .single<{ awarded: boolean; total_xp: number; level_before: number; level_after: number }>();
+
+    if (error) {
+      throw new Error(`Failed to award XP: ${error.message}`);
+    }
+
+    if (!data?.awarded) {
+      return null;
+    }
+
+    const award: XpAward = {
+      xp_earned: xp,
+      total_xp: data.total_xp,
+      level_before: data.level_before,
+      level_after: data.level_after,
+      leveled_up: data.level_after > data.level_before
+    };
+
+    if (award.leveled_up) {
+      await this.notifyLevelUp(userId, award);
+    }
+
+    return award;
+  }
+
+  /**
+   * Level, XP and benefits from the ledger total
+   */
+  static async getLevelSystem(userId: string): Promise<LevelSystem> {
+    const supabase = createServiceClient();
+
+    const { data: profile, error } = await supabase
+      .from('user_profiles')
+      .select('current_xp')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch user level: ${error.message}`);
+    }
+
+    const totalXp = profile?.current_xp || 0;
+    const level = this.levelForXp(totalXp);
+
+    return {
+      current_level: level,
+      current_xp: totalXp,
+      xp_to_next_level: this.xpForLevel(level + 1) - totalXp,
+      total_xp: totalXp,
+      level_benefits: this.getLevelBenefits(level)
+    };
+  }
+
+  /**
+   * XP ledger of a user, newest first
+   */
+  static async getHistory(
+    userId: string,
+    query: XpHistoryQuery
+  ): Promise<{ entries: XpLedgerEntry[]; total: number }> {
+    const supabase = createServiceClient();
+    const from = (query.page - 1) * query.limit;
+
+    let request = supabase
+      .from('user_xp_logs')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (query.activity_type) {
+      request = request.eq('activity_type', query.activity_type);
+    }
+
+    const { data, error, count } = await request
+      .order('created_at', { ascending: false })
+      .range(from, from + query.limit - 1)
+      .overrideTypes<XpLedgerEntry[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch XP history: ${error.message}`);
+    }
+
+    return { entries: data || [], total: count || 0 };
+  }
+
+  static async getRules(activeOnly = false): Promise<XpRule[]> {
+    const supabase = createServiceClient();
+
+    let query = supabase
+      .from('xp_rules')
+      .select('*');
+
+    if (activeOnly) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query
+      .order('activity_type')
+      .order('min_value')
+      .overrideTypes<XpRule[], { merge: false }>();
+
+    if (error) {
+      throw new Error(`Failed to fetch XP rules: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create an XP rule (admin)
+   */
+  static async createRule(input: CreateXpRule): Promise<XpRule> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('xp_rules')
+      .insert(input)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('XP rule already exists');
+      }
+      throw new Error(`Failed to create XP rule: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Update an XP rule (admin); awards already in the ledger keep their amount
+   */
+  static async updateRule(ruleId: string, input: UpdateXpRule): Promise<XpRule> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('xp_rules')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', ruleId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update XP rule: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('XP rule not found');
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete an XP rule (admin)
+   */
+  static async deleteRule(ruleId: string): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('xp_rules')
+      .delete()
+      .eq('id', ruleId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete XP rule: ${error.message}`);
+    }
+
+    if (!data?.length) {
+      throw new Error('XP rule not found');
+    }
+  }
+
+  private static async notifyLevelUp(userId: string, award: XpAward): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+      .from('user_notifications')
+      .insert({
+        user_id: userId,
+        type: 'level_up',
+        title: 'Level Up!',
+        message: `You reached level ${award.level_after}!`,
+        metadata: {
+          level_before: award.level_before,
+          level_after: award.level_after,
+          total_xp: award.total_xp,
+          level_benefits: this.getLevelBenefits(award.level_after)
+        }
+      });
+
+    if (error) {
+      console.error('Failed to create level-up notification:', error);
+    }
+  }
+
+  private static getLevelBenefits(level: number): string[] {
+    const benefits = [];
+
+    if (level >= 5) benefits.push('Course completion certificates');
+    if (level >= 10) benefits.push('Priority instructor support');
+    if (level >= 15) benefits.push('Early access to new courses');
+    if (level >= 20) benefits.push('Exclusive community access');
+    if (level >= 25) benefits.push('Course creation privileges');
+
+    return benefits;
+  }
+}
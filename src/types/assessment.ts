@@ -5,6 +5,11 @@ export type DifficultyLevel = 'easy' | 'medium' | 'hard';
 export type AssessmentStatus = 'draft' | 'published' | 'archived';
 export type SubmissionStatus = 'in_progress' | 'submitted' | 'graded' | 'expired';
 export type GradingMethod = 'automatic' | 'manual' | 'hybrid';
+// Multi-select scoring:
+//   all_or_nothing - full points only when exactly the correct options are picked
+//   proportional   - share of options judged correctly (picked if correct, left alone if not)
+//   penalty        - (correct picks - wrong picks) / correct options, never below zero
+export type MultiSelectScoring = 'all_or_nothing' | 'proportional' | 'penalty';
 
 // Core Assessment Interfaces
 export interface Assessment {
@@ -30,6 +35,7 @@ export interface Assessment {
   available_until?: string;
   grading_method: GradingMethod;
   anti_cheating_enabled: boolean;
+  adaptive_config?: AdaptiveStoppingCriteria | null; // set for adaptive (placement) tests
   created_at: string;
   updated_at: string;
 }
@@ -40,6 +46,9 @@ export interface Question {
   question_text: string;
   question_type: QuestionType;
   options?: QuestionOption[];
+  multi_select?: boolean;
+  scoring_strategy?: MultiSelectScoring;
+  drag_drop?: DragDropConfig;
   correct_answer: string | string[];
   explanation?: string;
   points: number;
@@ -48,6 +57,8 @@ export interface Question {
   media_url?: string;
   order_index: number;
   time_limit?: number; // per question time limit
+  bank_question_id?: string; // bank question this was imported from
+  draw_section_id?: string; // set for pooled questions only asked when drawn
   created_at: string;
   updated_at: string;
 }
@@ -60,6 +71,29 @@ export interface QuestionOption {
   order_index: number;
 }
 
+// Drag & Drop Questions
+// ordering: correct_answer lists item ids in order
+// matching: correct_answer lists "itemId:targetId" pairs, one per item
+export type DragDropMode = 'ordering' | 'matching';
+
+export interface DragDropItem {
+  id: string;
+  content: string;
+  media_url?: string;
+}
+
+export interface DragDropConfig {
+  mode: DragDropMode;
+  items: DragDropItem[];
+  targets?: DragDropItem[]; // drop zones, matching only
+  partial_credit: boolean;
+}
+
+// Question as rendered to a student taking an attempt (no answers or explanations)
+export type AttemptQuestion = Omit<Question, 'correct_answer' | 'explanation' | 'options'> & {
+  options?: Omit<QuestionOption, 'is_correct'>[];
+};
+
 // Quiz Attempt & Submission
 export interface QuizAttempt {
   id: string;
@@ -67,6 +101,11 @@ export interface QuizAttempt {
   user_id: string;
   attempt_number: number;
   started_at: string;
+  expires_at?: string; // server deadline, fixed when the attempt starts
+  expired_at?: string; // set when the attempt was closed by the timer
+  active_session_id?: string; // browser tab currently allowed to save answers
+  active_session_seen_at?: string;
+  last_saved_at?: string;
   submitted_at?: string;
   time_spent: number; // minutes
   status: SubmissionStatus;
@@ -78,6 +117,10 @@ export interface QuizAttempt {
   graded_at?: string;
   graded_by?: string;
   feedback?: string;
+  requires_manual_grading?: boolean;
+  adaptive_state?: AdaptiveAssessment | null;
+  ability_estimate?: number;
+  question_ids?: string[] | null; // questions drawn for this attempt; null = every question
   browser_fingerprint?: string;
   ip_address?: string;
   created_at: string;
@@ -93,20 +136,58 @@ export interface QuestionResponse {
   points_earned?: number;
   time_spent?: number; // seconds
   feedback?: string;
+  needs_manual_grading?: boolean;
+  rubric_scores?: RubricCriterionScore[];
+  suggested_points?: number;
+  suggested_feedback?: string;
+  suggestion_provider?: string;
+  graded_at?: string;
+  graded_by?: string;
   created_at: string;
 }
 
+// Autosave & Resume
+export interface SavedQuestionResponse {
+  question_id: string;
+  answer: string | string[];
+  time_spent: number; // seconds
+  revision: number;
+  updated_at: string;
+}
+
+// session: another tab owns the attempt; revision: the answer changed since the client loaded it
+export type AutosaveConflict = 'session' | 'revision';
+
+export type AutosaveResult =
+  | { saved: true; response: SavedQuestionResponse }
+  | { saved: false; conflict: AutosaveConflict; current?: SavedQuestionResponse };
+
+export interface AttemptSession {
+  attempt: QuizAttempt;
+  questions: AttemptQuestion[];
+  responses: SavedQuestionResponse[];
+  time_remaining_seconds: number;
+}
+
+// Opening (start or resume) an attempt fails with a session conflict while another tab holds it
+export type OpenAttemptResult =
+  | ({ resumed: boolean; conflict?: never } & AttemptSession)
+  | { conflict: 'session'; attempt_id: string };
+
 // Grading & Results
 export interface QuizResult {
   attempt_id: string;
   user_id: string;
   assessment_id: string;
+  status: SubmissionStatus;
   score: number;
   max_score: number;
   percentage: number;
   passed: boolean;
   completed_at: string;
   time_spent: number;
+  pending_manual_grading: number; // responses awaiting an instructor
+  adaptive?: AdaptiveAssessment; // final ability estimate of adaptive attempts
   question_results: QuestionResult[];
   overall_feedback: string;
   strengths: string[];
@@ -125,11 +206,13 @@ export interface QuestionResult {
   feedback: string;
   explanation?: string;
   time_spent?: number;
+  needs_manual_grading?: boolean;
 }
 
 export interface GradingRubric {
   id: string;
   assessment_id: string;
+  question_id?: string; // null = default rubric for every essay in the assessment
   criteria: RubricCriterion[];
   total_points: number;
   created_at: string;
@@ -149,6 +232,36 @@ export interface RubricCriterion {
   };
 }
 
+export type RubricLevel = keyof RubricCriterion['levels'];
+
+export interface RubricCriterionScore {
+  criterion_id: string;
+  level?: RubricLevel;
+  points: number;
+  comment?: string;
+}
+
+// Manual Grading Queue
+export interface GradingQueueItem {
+  attempt_id: string;
+  assessment_id: string;
+  assessment_title: string;
+  user_id: string;
+  student_name: string;
+  attempt_number: number;
+  submitted_at: string;
+  pending_responses: number;
+  total_responses: number;
+}
+
+export interface AttemptGradingDetail {
+  attempt: QuizAttempt;
+  assessment: Pick<Assessment, 'id' | 'title' | 'passing_score' | 'grading_method'>;
+  questions: Question[];
+  responses: QuestionResponse[];
+  rubrics: GradingRubric[];
+}
+
 // Analytics & Reporting
 export interface AssessmentAnalytics {
   assessment_id: string;
@@ -245,7 +358,7 @@ export interface QuestionBank {
   subject: string;
   difficulty: DifficultyLevel;
   tags: string[];
-  questions: Question[];
+  questions: BankQuestion[];
   created_by: string;
   is_public: boolean;
   usage_count: number;
@@ -254,6 +367,14 @@ export interface QuestionBank {
   updated_at: string;
 }
 
+export type QuestionBankSummary = Omit<QuestionBank, 'questions'> & { question_count: number };
+
+// Bank questions keep their options inline and are copied into assessments on import
+export type BankQuestion = Omit<Question, 'assessment_id' | 'order_index' | 'options' | 'bank_question_id' | 'draw_section_id'> & {
+  bank_id: string;
+  options?: Omit<QuestionOption, 'id' | 'question_id'>[];
+};
+
 export interface QuestionCategory {
   id: string;
   name: string;
@@ -261,10 +382,37 @@ export interface QuestionCategory {
   parent_id?: string;
   children?: QuestionCategory[];
   question_count: number;
+  created_by: string;
   created_at: string;
   updated_at: string;
 }
 
+// Random draw: every attempt gets draw_count questions matching the filters, from
+// one bank or from all banks in a category subtree
+export interface QuestionDrawSection {
+  id: string;
+  assessment_id: string;
+  title: string;
+  bank_id?: string;
+  category_id?: string;
+  difficulty?: DifficultyLevel;
+  tags: string[];
+  question_type?: QuestionType;
+  draw_count: number;
+  pool_size: number;
+  order_index: number;
+  created_at: string;
+}
+
+// Suggested Essay Scores
+export interface EssayScoreSuggestion {
+  provider: string;
+  points: number;
+  max_points: number;
+  feedback: string;
+  rubric_scores?: RubricCriterionScore[];
+}
+
 // AI Grading for Essays
 export interface EssayGradeResult {
   score: number;
@@ -336,23 +484,43 @@ export interface BehavioralAnalysis {
 }
 
 // Adaptive Assessment
+// Ability is estimated on a Rasch (1PL) scale where 0 is a medium question; each
+// question's DifficultyLevel maps to a fixed difficulty parameter.
+export interface AdaptiveStoppingCriteria {
+  max_questions: number;
+  min_questions: number;
+  confidence_threshold: number; // required reliability (1 - standard error²)
+  time_limit: number; // minutes
+}
+
+export type AdaptiveStopReason = 'confidence' | 'max_questions' | 'time_limit' | 'pool_exhausted' | 'submitted';
+
+export interface AdaptiveItemResult {
+  question_id: string;
+  difficulty: DifficultyLevel;
+  correct: boolean;
+}
+
 export interface AdaptiveAssessment {
   assessment_id: string;
   user_id: string;
   current_difficulty: DifficultyLevel;
   ability_estimate: number;
-  confidence_interval: number;
+  standard_error: number;
+  confidence_interval: number; // 95% half-width around ability_estimate
   next_question_id?: string;
-  stopping_criteria: {
-    max_questions: number;
-    min_questions: number;
-    confidence_threshold: number;
-    time_limit: number;
-  };
+  stopping_criteria: AdaptiveStoppingCriteria;
   completed_questions: string[];
   remaining_questions: string[];
+  item_results: AdaptiveItemResult[];
+  stop_reason?: AdaptiveStopReason;
 }
 
+// Answering the current adaptive question either serves the next one or ends the test
+export type AdaptiveStep =
+  | { completed: false; question: AttemptQuestion; answered: number; max_questions: number }
+  | { completed: true; result: QuizResult };
+
 // Performance Feedback
 export interface PersonalizedFeedback {
   overall_performance: {
@@ -0,0 +1,27 @@
+import type { CourseBundle } from '@/lib/payments';
+import type { Currency } from '@/lib/stripe';
+
+export interface BundleCourse {
+  course_id: string;
+  title: string;
+  slug: string | null;
+  thumbnail_url: string | null;
+  price_amount: number; // Individual price in cents
+}
+
+export interface BundleDetails extends CourseBundle {
+  courses: BundleCourse[];
+  individual_total: number; // Sum of the individual course prices
+}
+
+// Bundle price for a specific buyer, pro-rated by the courses they already own
+export interface BundleQuote {
+  bundle_id: string;
+  name: string;
+  full_price: number;
+  price: number;
+  currency: Currency;
+  course_ids: string[]; // Courses the purchase will grant
+  owned_course_ids: string[];
+  savings: number; // Against buying the remaining courses individually
+}
@@ -18,6 +18,8 @@ export interface Course {
   certificate_enabled: boolean;
   has_assignments: boolean;
   has_quizzes: boolean;
+  refund_window_days?: number;
+  refund_max_progress?: number;
   published: boolean;
   learning_objectives: string[];
   requirements: string[];
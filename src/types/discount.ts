@@ -0,0 +1,65 @@
+import type { Currency } from '@/lib/stripe';
+
+export type DiscountType = 'percentage' | 'fixed' | 'free';
+
+export type DiscountScope = 'all' | 'courses' | 'bundles';
+
+export type DiscountRedemptionStatus = 'pending' | 'completed' | 'voided';
+
+export interface DiscountCode {
+  id: string;
+  code: string; // Always stored upper-case
+  description: string | null;
+  discount_type: DiscountType;
+  percent_off: number | null; // 1-100, percentage codes only
+  amount_off: number | null; // Cents, fixed codes only
+  currency: Currency | null; // Currency of amount_off
+  applies_to: DiscountScope;
+  course_ids: string[];
+  bundle_ids: string[];
+  max_redemptions: number | null; // null = unlimited
+  max_redemptions_per_user: number;
+  redemption_count: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DiscountRedemption {
+  id: string;
+  discount_code_id: string;
+  user_id: string;
+  course_id: string | null;
+  bundle_id: string | null;
+  transaction_id: string | null;
+  enrollment_id: string | null;
+  status: DiscountRedemptionStatus;
+  original_amount: number;
+  amount_discounted: number;
+  currency: Currency;
+  redeemed_at: string;
+  completed_at: string | null;
+  voided_at: string | null;
+}
+
+// What the item to be purchased is; amounts are in cents
+export interface DiscountTarget {
+  course_id?: string;
+  bundle_id?: string;
+  amount: number;
+  currency: Currency;
+}
+
+export interface DiscountQuote {
+  discount_code_id: string;
+  code: string;
+  discount_type: DiscountType;
+  original_amount: number;
+  discount_amount: number;
+  final_amount: number;
+  currency: Currency;
+  is_free: boolean;
+}
@@ -0,0 +1,46 @@
+import type { Currency } from '@/lib/stripe';
+import type { PaymentTransaction } from '@/lib/payments';
+
+export interface InvoiceParty {
+  name: string;
+  email?: string | null;
+  address_lines: string[];
+  tax_office?: string | null; // Vergi dairesi
+  tax_id?: string | null; // VKN / TCKN
+}
+
+// Amounts in cents; prices are VAT inclusive, so net + tax = gross
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  net_amount: number;
+  tax_rate: number; // percent
+  tax_amount: number;
+  gross_amount: number;
+}
+
+export interface PaymentInvoice {
+  id: string;
+  invoice_number: string;
+  transaction_id: string;
+  user_id: string;
+  issued_at: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  currency: Currency;
+  subtotal: number;
+  tax_amount: number;
+  total: number;
+  created_at: string;
+}
+
+export interface InvoiceSummary {
+  id: string;
+  invoice_number: string;
+  issued_at: string;
+  description: string;
+  total: number;
+  currency: Currency;
+  status: PaymentTransaction['status'];
+}
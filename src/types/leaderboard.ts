@@ -0,0 +1,41 @@
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'all_time';
+
+// Platform-wide, one course, or the learners who enrolled in a course in the same month
+export type LeaderboardScope = 'global' | 'course' | 'cohort';
+
+// Precomputed ranking row (leaderboard_entries)
+export interface LeaderboardEntry {
+  period: LeaderboardPeriod;
+  course_id: string | null; // null = platform-wide
+  cohort: string | null; // YYYY-MM-01 of the course enrollment
+  user_id: string;
+  xp: number;
+  lessons_completed: number;
+  rank: number;
+  cohort_rank: number | null;
+  computed_at: string;
+}
+
+export interface LeaderboardRow {
+  rank: number;
+  display_name: string; // Pseudonym unless the learner chose to show their name
+  xp: number;
+  lessons_completed: number;
+  is_current_user: boolean;
+}
+
+export interface Leaderboard {
+  scope: LeaderboardScope;
+  period: LeaderboardPeriod;
+  course_id: string | null;
+  cohort: string | null;
+  computed_at: string | null;
+  entries: LeaderboardRow[];
+  current_user: LeaderboardRow | null; // Also when outside the listed top entries
+}
+
+// Leaderboard keys in user_profiles.preferences
+export interface LeaderboardPreferences {
+  leaderboard_opt_out?: boolean;
+  leaderboard_show_name?: boolean;
+}
@@ -0,0 +1,8 @@
+export type PaymentProviderName = 'stripe' | 'mock';
+
+// How a mock card payment ends: succeed, decline (two Stripe decline codes) or ask for
+// 3D Secure authentication first
+export type MockPaymentScenario = 'succeed' | 'card_declined' | 'insufficient_funds' | 'requires_action';
+
+// Outcome of the simulated 3D Secure challenge
+export type MockAuthenticationResult = 'approve' | 'reject';
@@ -0,0 +1,43 @@
+// Calendar day in the platform timezone, YYYY-MM-DD
+export type SnapshotDate = string;
+
+export interface CourseProgressSnapshot {
+  user_id: string;
+  course_id: string;
+  overall_completion: number; // 0-100
+  completed_materials: number; // completed lessons
+  total_materials: number; // lessons in the course
+  snapshot_date: SnapshotDate;
+}
+
+export interface ProgressPoint {
+  date: SnapshotDate;
+  completion: number;
+  completed_lessons: number;
+  total_lessons: number;
+}
+
+export interface StudentProgressSeries {
+  course_id: string;
+  points: ProgressPoint[];
+}
+
+export interface CourseProgressPoint {
+  date: SnapshotDate;
+  students: number;
+  average_completion: number;
+  completed_students: number;
+}
+
+export interface CourseProgressSeries {
+  course_id: string;
+  from: SnapshotDate;
+  to: SnapshotDate;
+  points: CourseProgressPoint[];
+}
+
+export interface SnapshotRun {
+  from: SnapshotDate;
+  to: SnapshotDate;
+  snapshots: number;
+}
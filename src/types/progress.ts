@@ -55,6 +55,43 @@ export interface BadgeCriteria {
   threshold: number;
   timeframe?: number; // days
   course_specific?: boolean;
+  rule?: AchievementRule; // takes precedence over type/threshold
+}
+
+// Counters achievement rules are written against
+export type AchievementMetric =
+  | 'lessons_completed'
+  | 'courses_completed'
+  | 'quizzes_completed'
+  | 'quiz_average'
+  | 'best_quiz_score'
+  | 'study_minutes'
+  | 'streak_days';
+
+export type AchievementCounters = Record<AchievementMetric, number>;
+
+export interface AchievementCondition {
+  metric: AchievementMetric;
+  min: number;
+}
+
+export type AchievementRule =
+  | AchievementCondition
+  | { all: AchievementRule[] }
+  | { any: AchievementRule[] };
+
+export interface AchievementRuleResult {
+  met: boolean;
+  progress: number; // 0-100
+}
+
+export interface AchievementProgress {
+  achievement_id: string;
+  achievement: Achievement;
+  course_id?: string;
+  earned_at: string | null;
+  progress_value: number; // 0-100
+  counters: Partial<AchievementCounters>;
 }
 
 export interface UserAchievement {
@@ -72,6 +109,7 @@ export interface LearningActivity {
   score?: number;
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
   streakDays?: number;
+  courseId?: string;
 }
 
 export interface LevelSystem {
@@ -0,0 +1,42 @@
+export type QuestionStatus = 'new' | 'answered' | 'hidden';
+
+export type ReplyAuthorRole = 'student' | 'instructor' | 'admin';
+
+export interface QnaReply {
+  id: string;
+  questionId: string;
+  responderId: string | null;
+  responderName: string;
+  authorRole: ReplyAuthorRole;
+  body: string;
+  createdAt: string;
+}
+
+export interface QnaQuestion {
+  id: string;
+  studentId: string;
+  studentName: string;
+  courseId: string;
+  courseName: string;
+  lessonId: string;
+  lessonName: string;
+  body: string;
+  status: QuestionStatus;
+  isPublic: boolean;
+  createdAt: string;
+  answeredAt?: string;
+  replies: QnaReply[];
+}
+
+export interface QnaStats {
+  total: number;
+  new: number;
+  answered: number;
+  hidden: number;
+}
+
+export interface QnaViewer {
+  id: string;
+  name?: string | null;
+  role: string;
+}
@@ -0,0 +1,101 @@
+import type { CoursePurchase, PaymentTransaction, UserSubscription } from '@/lib/payments';
+
+export type ReconciliationIssueType =
+  | 'missing_transaction'        // Stripe charged, no local transaction
+  | 'unknown_payment'            // local transaction paid, Stripe has no such payment
+  | 'status_mismatch'
+  | 'amount_mismatch'
+  | 'refund_mismatch'
+  | 'missing_purchase'           // paid transaction without course_purchases rows
+  | 'missing_enrollment'         // orphaned payment: paid, but no active enrollment
+  | 'enrollment_without_payment' // paid course enrollment with nothing paying for it
+  | 'missing_subscription'
+  | 'subscription_mismatch';
+
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  description: string;
+  stripe_id: string | null;
+  transaction_id: string | null;
+  user_id: string | null;
+  course_id: string | null;
+  expected: string | number | null; // Stripe's value
+  actual: string | number | null;   // our value
+  repairable: boolean;
+  repaired: boolean;
+  repair_error?: string;
+}
+
+export interface ReconciliationReport {
+  from: string;
+  to: string;
+  generated_at: string;
+  repair: boolean;
+  checked: {
+    payment_intents: number;
+    refunds: number;
+    subscriptions: number;
+    transactions: number;
+    enrollments: number;
+  };
+  summary: Partial<Record<ReconciliationIssueType, number>>;
+  repaired: number;
+  issues: ReconciliationIssue[];
+}
+
+// Stripe objects reduced to what reconciliation compares, so a fixture can stand in for
+// the API. Amounts in cents, currencies upper case, timestamps ISO.
+export interface StripePaymentRecord {
+  id: string;
+  status: string;
+  amount: number;
+  amount_received: number;
+  currency: string;
+  customer: string | null;
+  created: string;
+  metadata: Record<string, string>;
+}
+
+export interface StripeRefundRecord {
+  id: string;
+  payment_intent: string | null;
+  amount: number;
+  status: string;
+  created: string;
+}
+
+export interface StripeSubscriptionRecord {
+  id: string;
+  customer: string;
+  status: string;
+  current_period_start: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  created: string;
+}
+
+export interface StripeLedgerSnapshot {
+  payment_intents: StripePaymentRecord[];
+  refunds: StripeRefundRecord[];
+  subscriptions: StripeSubscriptionRecord[];
+}
+
+export interface LedgerEnrollment {
+  id: string;
+  user_id: string;
+  course_id: string;
+  enrolled_at: string;
+  cancelled_at: string | null;
+  subscription_id: string | null;
+  payment_intent_id: string | null;
+  course_price: number;
+}
+
+export interface LocalLedgerSnapshot {
+  transactions: PaymentTransaction[];
+  purchases: CoursePurchase[];
+  enrollments: LedgerEnrollment[];
+  subscriptions: UserSubscription[];
+  // Enrollments paid for entirely with a discount code
+  coupon_enrollment_ids: string[];
+}
@@ -0,0 +1,27 @@
+import type { Currency } from '@/lib/stripe';
+
+export type RefundReason = 'requested_by_customer' | 'duplicate' | 'fraudulent' | 'course_issue' | 'other';
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+// Per-course cancellation policy; courses without their own values use the defaults
+export interface RefundPolicy {
+  refund_window_days: number;
+  refund_max_progress: number; // percent
+}
+
+export interface PaymentRefund {
+  id: string;
+  transaction_id: string;
+  user_id: string;
+  stripe_refund_id: string | null;
+  amount: number; // cents
+  currency: Currency;
+  reason: RefundReason;
+  note: string | null;
+  status: RefundStatus;
+  failure_reason: string | null;
+  issued_by: string | null; // null = issued outside the platform (Stripe dashboard)
+  created_at: string;
+  updated_at: string;
+}
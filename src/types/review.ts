@@ -0,0 +1,44 @@
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export type ReviewReportReason = 'spam' | 'offensive' | 'irrelevant' | 'other';
+
+export interface CourseReview {
+  id: string;
+  courseId: string;
+  courseTitle?: string;
+  userId: string;
+  reviewerName: string;
+  reviewerAvatar?: string;
+  rating: number;
+  body: string | null;
+  status: ReviewStatus;
+  isFeatured: boolean;
+  helpfulCount: number;
+  reportedCount: number;
+  moderatorNotes?: string;
+  moderatedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Helpfulness vote of the current viewer (null = not voted)
+  viewerVote?: boolean | null;
+}
+
+export interface ReviewSummary {
+  averageRating: number;
+  totalReviews: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface ReviewEligibility {
+  eligible: boolean;
+  reason?: 'not_enrolled' | 'insufficient_progress';
+  progress: number;
+  requiredProgress: number;
+}
+
+export interface ReviewModerationStats {
+  pending: number;
+  approved: number;
+  rejected: number;
+  reported: number;
+}
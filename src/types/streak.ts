@@ -0,0 +1,54 @@
+import type { LearningActivity } from '@/types/progress';
+
+// Calendar day in the learner's timezone, YYYY-MM-DD
+export type StreakDate = string;
+
+export interface LearningStreak {
+  user_id: string;
+  current_streak: number;
+  longest_streak: number;
+  last_activity_date: StreakDate | null;
+  streak_start_date: StreakDate | null;
+  freezes_available: number;
+  freezes_used: number;
+  updated_at?: string;
+}
+
+export type StreakState = Pick<
+  LearningStreak,
+  'current_streak' | 'longest_streak' | 'last_activity_date' | 'streak_start_date' | 'freezes_available' | 'freezes_used'
+>;
+
+export interface StreakConfig {
+  max_freezes: number; // freezes a learner can bank
+  freeze_earn_days: number; // a freeze is earned every n streak days; 0 = never
+  default_timezone: string;
+}
+
+export interface StreakAdvance {
+  state: StreakState;
+  changed: boolean;
+  frozen_dates: StreakDate[]; // missed days covered by a freeze
+  milestone: number | null;
+}
+
+export interface StreakUpdate {
+  streak: LearningStreak;
+  activity_date: StreakDate;
+  frozen_dates: StreakDate[];
+  milestone: LearningActivity | null; // streak_milestone event for the achievement check
+}
+
+export interface StreakDay {
+  activity_date: StreakDate;
+  frozen: boolean;
+}
+
+export interface StreakSummary extends LearningStreak {
+  today: StreakDate;
+  timezone: string;
+  active_today: boolean;
+  at_risk: boolean; // the streak ends tonight without activity (or a freeze)
+  next_milestone: number | null;
+  recent_days: StreakDay[];
+}
@@ -0,0 +1,40 @@
+import type { UserSubscription } from '@/lib/payments';
+
+export type EntitlementType = 'all_courses' | 'course' | 'category';
+
+// One rule of what a subscription plan unlocks; a plan's access is the union of its rules
+export interface PlanEntitlement {
+  id: string;
+  plan_id: string;
+  entitlement_type: EntitlementType;
+  course_id: string | null;
+  category: string | null;
+  created_at: string;
+}
+
+export type CourseAccessSource = 'purchase' | 'enrollment' | 'subscription' | 'grace_period';
+
+export interface CourseAccess {
+  has_access: boolean;
+  source: CourseAccessSource | null;
+  subscription_id: string | null;
+  access_until: string | null; // null = no expiry (purchases, enrollments)
+}
+
+export interface EntitledSubscription extends UserSubscription {
+  grace_period_days: number | null;
+  entitlements: PlanEntitlement[];
+}
+
+// Enrollment opened through a subscription, with what its access check needs
+export interface SubscriptionEnrollment {
+  id: string;
+  cancelled_at: string | null;
+  cancellation_reason: string | null;
+  course: { id: string; category: string | null };
+}
+
+export interface SubscriptionEnrollmentChanges {
+  cancel: string[]; // enrollment ids
+  restore: string[];
+}
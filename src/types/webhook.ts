@@ -0,0 +1,25 @@
+// pending: received, not yet applied; processing: claimed by a retry or replay;
+// failed: waiting for an automatic retry; dead: out of retries, needs an admin replay
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'dead';
+
+export interface WebhookEventRecord {
+  id: string;
+  stripe_event_id: string;
+  event_type: string;
+  data: { object: unknown; previous_attributes?: unknown };
+  processed: boolean;
+  processed_at: string | null;
+  status: WebhookEventStatus;
+  attempts: number;
+  last_error: string | null;
+  last_attempt_at: string | null;
+  next_retry_at: string | null;
+  created_at: string;
+}
+
+export interface WebhookRetryResult {
+  retried: number;
+  succeeded: number;
+  failed: number;
+  skipped: number; // claimed by a concurrent replay
+}
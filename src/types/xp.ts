@@ -0,0 +1,45 @@
+import type { LearningActivity } from '@/types/progress';
+
+export type XpActivityType =
+  | LearningActivity['type']
+  | 'achievement_earned'
+  | 'material_completed';
+
+export interface XpRule {
+  id: string;
+  activity_type: XpActivityType;
+  min_value: number; // Lower bound of the band: quiz score, streak days; 0 otherwise
+  xp: number;
+  description: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface XpLedgerEntry {
+  id: string;
+  user_id: string;
+  activity_type: XpActivityType;
+  xp_earned: number;
+  total_xp: number;
+  level_after: number;
+  idempotency_key: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface XpAwardInput {
+  activity_type: XpActivityType;
+  idempotency_key: string; // The same key never awards twice
+  xp?: number; // Fixed amount; otherwise taken from the XP rules
+  value?: number; // Score or streak days matched against the rule bands
+  metadata?: Record<string, unknown>;
+}
+
+export interface XpAward {
+  xp_earned: number;
+  total_xp: number;
+  level_before: number;
+  level_after: number;
+  leveled_up: boolean;
+}
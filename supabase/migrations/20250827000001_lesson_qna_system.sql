@@ -0,0 +1,141 @@
+-- Lesson Q&A System Migration
+-- Persists student questions on lessons and the replies given by instructors/admins
+
+-- Lesson questions table
+CREATE TABLE IF NOT EXISTS public.lesson_questions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+    lesson_id UUID NOT NULL REFERENCES public.lessons(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (char_length(body) > 0 AND char_length(body) <= 5000),
+    status VARCHAR(20) DEFAULT 'new' CHECK (status IN ('new', 'answered', 'hidden')),
+    -- Public threads are visible to every student enrolled in the course
+    is_public BOOLEAN DEFAULT true,
+    answered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Replies to lesson questions
+CREATE TABLE IF NOT EXISTS public.lesson_question_replies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    question_id UUID NOT NULL REFERENCES public.lesson_questions(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    author_role VARCHAR(20) NOT NULL CHECK (author_role IN ('student', 'instructor', 'admin')),
+    body TEXT NOT NULL CHECK (char_length(body) > 0 AND char_length(body) <= 5000),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_lesson_questions_course_id ON public.lesson_questions(course_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_questions_lesson_id ON public.lesson_questions(lesson_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lesson_questions_user_id ON public.lesson_questions(user_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_questions_status ON public.lesson_questions(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lesson_question_replies_question_id ON public.lesson_question_replies(question_id, created_at);
+
+-- Updated timestamp triggers
+CREATE TRIGGER update_lesson_questions_updated_at
+    BEFORE UPDATE ON public.lesson_questions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_lesson_question_replies_updated_at
+    BEFORE UPDATE ON public.lesson_question_replies
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS on new tables
+ALTER TABLE public.lesson_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lesson_question_replies ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for lesson_questions
+CREATE POLICY "Students can view own questions" ON public.lesson_questions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Enrolled students can view public course questions" ON public.lesson_questions
+    FOR SELECT USING (
+        is_public = true
+        AND status <> 'hidden'
+        AND EXISTS (
+            SELECT 1 FROM public.course_enrollments ce
+            WHERE ce.course_id = lesson_questions.course_id
+            AND ce.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Enrolled students can ask questions" ON public.lesson_questions
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM public.course_enrollments ce
+            WHERE ce.course_id = lesson_questions.course_id
+            AND ce.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Instructors can manage questions in their courses" ON public.lesson_questions
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.courses c
+            WHERE c.id = lesson_questions.course_id
+            AND c.instructor_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage all questions" ON public.lesson_questions
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- RLS Policies for lesson_question_replies
+-- Replies inherit visibility from their parent question (RLS applies inside the subquery)
+CREATE POLICY "Replies visible with their question" ON public.lesson_question_replies
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.lesson_questions q
+            WHERE q.id = lesson_question_replies.question_id
+        )
+    );
+
+CREATE POLICY "Question owners can reply to own questions" ON public.lesson_question_replies
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND author_role = 'student'
+        AND EXISTS (
+            SELECT 1 FROM public.lesson_questions q
+            WHERE q.id = lesson_question_replies.question_id
+            AND q.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Instructors can manage replies in their courses" ON public.lesson_question_replies
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.lesson_questions q
+            JOIN public.courses c ON c.id = q.course_id
+            WHERE q.id = lesson_question_replies.question_id
+            AND c.instructor_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage all replies" ON public.lesson_question_replies
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Grant permissions
+GRANT ALL ON public.lesson_questions TO authenticated;
+GRANT ALL ON public.lesson_question_replies TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE public.lesson_questions IS 'Student questions asked on individual lessons';
+COMMENT ON TABLE public.lesson_question_replies IS 'Replies to lesson questions with author role';
+COMMENT ON COLUMN public.lesson_questions.status IS 'new = awaiting answer, answered = replied by staff, hidden = removed from public view';
+COMMENT ON COLUMN public.lesson_questions.is_public IS 'Whether other enrolled students can see the thread';
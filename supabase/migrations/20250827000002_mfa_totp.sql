@@ -0,0 +1,53 @@
+-- TOTP Multi-Factor Authentication Migration
+-- Stores encrypted TOTP secrets on users and hashed one-time recovery codes
+
+-- MFA columns on users
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS mfa_enabled BOOLEAN DEFAULT false,
+    ADD COLUMN IF NOT EXISTS mfa_secret TEXT,
+    ADD COLUMN IF NOT EXISTS mfa_pending_secret TEXT,
+    ADD COLUMN IF NOT EXISTS mfa_enabled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS mfa_last_used_step BIGINT,
+    ADD COLUMN IF NOT EXISTS mfa_required_since TIMESTAMPTZ;
+
+-- One-time recovery codes (only HMAC hashes are stored)
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, code_hash)
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON public.mfa_recovery_codes(user_id) WHERE used_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for mfa_recovery_codes
+CREATE POLICY "Users can view own recovery codes" ON public.mfa_recovery_codes
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own recovery codes" ON public.mfa_recovery_codes
+    FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage all recovery codes" ON public.mfa_recovery_codes
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Grant permissions
+GRANT ALL ON public.mfa_recovery_codes TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE public.mfa_recovery_codes IS 'Hashed one-time MFA recovery codes';
+COMMENT ON COLUMN public.users.mfa_secret IS 'AES-encrypted base32 TOTP secret of the confirmed authenticator';
+COMMENT ON COLUMN public.users.mfa_pending_secret IS 'AES-encrypted TOTP secret awaiting enrollment confirmation';
+COMMENT ON COLUMN public.users.mfa_last_used_step IS 'Last accepted TOTP time step, used to reject replayed codes';
+COMMENT ON COLUMN public.users.mfa_required_since IS 'Start of the enrollment grace period for roles that require MFA';
@@ -0,0 +1,157 @@
+-- Course Review Moderation Migration
+-- Adds an explicit moderation state, review reports and lets students edit their own reviews
+
+-- Moderation state (is_approved is kept in sync for course_statistics and existing policies)
+ALTER TABLE public.course_reviews
+    ADD COLUMN IF NOT EXISTS moderation_status VARCHAR(20) DEFAULT 'pending'
+        CHECK (moderation_status IN ('pending', 'approved', 'rejected')),
+    ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ;
+
+UPDATE public.course_reviews
+SET moderation_status = 'approved',
+    moderated_at = COALESCE(approved_at, updated_at)
+WHERE is_approved = true AND moderation_status = 'pending';
+
+-- Review reports
+CREATE TABLE IF NOT EXISTS public.review_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    review_id UUID NOT NULL REFERENCES public.course_reviews(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    reason VARCHAR(20) NOT NULL CHECK (reason IN ('spam', 'offensive', 'irrelevant', 'other')),
+    details TEXT CHECK (char_length(details) <= 1000),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    -- One report per user per review
+    UNIQUE(review_id, user_id)
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_course_reviews_moderation ON public.course_reviews(moderation_status, created_at);
+CREATE INDEX IF NOT EXISTS idx_course_reviews_reported ON public.course_reviews(reported_count) WHERE reported_count > 0;
+CREATE INDEX IF NOT EXISTS idx_review_reports_review_id ON public.review_reports(review_id);
+
+-- Auto-update reported_count trigger function
+CREATE OR REPLACE FUNCTION update_review_reported_count()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_review_id UUID;
+BEGIN
+    target_review_id := COALESCE(NEW.review_id, OLD.review_id);
+
+    UPDATE public.course_reviews
+    SET reported_count = (
+        SELECT COUNT(*)
+        FROM public.review_reports
+        WHERE review_id = target_review_id
+    )
+    WHERE id = target_review_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_reported_count_trigger
+    AFTER INSERT OR DELETE ON public.review_reports
+    FOR EACH ROW EXECUTE FUNCTION update_review_reported_count();
+
+-- Counters are recomputed as the table owner, so a voter's or reporter's row access does not matter
+ALTER FUNCTION update_review_helpful_count() SECURITY DEFINER;
+
+-- Moderation and counter columns are only written by moderators, the service role and the
+-- counter triggers. A student's insert or edit always lands in the moderation queue.
+CREATE OR REPLACE FUNCTION protect_review_moderation_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') OR EXISTS (
+        SELECT 1 FROM public.users
+        WHERE users.id = auth.uid()
+        AND users.role IN ('admin', 'moderator')
+    ) OR EXISTS (
+        SELECT 1 FROM public.user_profiles
+        WHERE user_profiles.user_id = auth.uid()
+        AND user_profiles.role = 'admin'
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.moderation_status := 'pending';
+    NEW.is_approved := false;
+    NEW.is_featured := false;
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+    NEW.moderated_at := NULL;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.moderator_notes := NULL;
+        NEW.helpful_count := 0;
+        NEW.reported_count := 0;
+    ELSE
+        NEW.moderator_notes := OLD.moderator_notes;
+        NEW.helpful_count := OLD.helpful_count;
+        NEW.reported_count := OLD.reported_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_review_moderation_columns_trigger
+    BEFORE INSERT OR UPDATE ON public.course_reviews
+    FOR EACH ROW EXECUTE FUNCTION protect_review_moderation_columns();
+
+-- Students may edit approved reviews too; edits go back to the moderation queue
+DROP POLICY IF EXISTS "Users can update own pending reviews" ON public.course_reviews;
+DROP POLICY IF EXISTS "Enrolled users can create reviews" ON public.course_reviews;
+-- Permissive FOR ALL policy; it would let any own-row write past the checks below
+DROP POLICY IF EXISTS "Users can manage own reviews" ON public.course_reviews;
+
+CREATE POLICY "Enrolled users can create reviews" ON public.course_reviews
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND moderation_status = 'pending'
+        AND is_approved = false
+        AND is_featured = false
+        AND EXISTS (
+            SELECT 1 FROM public.enrollments
+            WHERE user_id = auth.uid()
+            AND course_id = course_reviews.course_id
+            AND cancelled_at IS NULL
+        )
+    );
+
+CREATE POLICY "Users can update own reviews" ON public.course_reviews
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND moderation_status = 'pending'
+        AND is_approved = false
+        AND is_featured = false
+    );
+
+CREATE POLICY "Users can delete own reviews" ON public.course_reviews
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- RLS Policies for review_reports
+ALTER TABLE public.review_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reports" ON public.review_reports
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Authenticated users can report reviews" ON public.review_reports
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins and moderators can manage reports" ON public.review_reports
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('admin', 'moderator')
+        )
+    );
+
+-- Grant permissions
+GRANT ALL ON public.review_reports TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE public.review_reports IS 'User reports of inappropriate course reviews';
+COMMENT ON COLUMN public.course_reviews.moderation_status IS 'pending = awaiting moderation, approved = publicly visible, rejected = hidden with moderator notes';
+COMMENT ON COLUMN public.course_reviews.reported_count IS 'Number of users who reported this review';
@@ -0,0 +1,73 @@
+-- Manual Grading & Rubrics Migration
+-- Essay and hybrid assessment attempts wait in a submitted -> graded queue for instructor review
+
+-- Grading rubrics (one per question, or an assessment-wide default with question_id NULL)
+CREATE TABLE IF NOT EXISTS public.grading_rubrics (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    assessment_id UUID NOT NULL REFERENCES public.assessments(id) ON DELETE CASCADE,
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+    criteria JSONB NOT NULL DEFAULT '[]'::jsonb,
+    total_points NUMERIC(8,2) NOT NULL DEFAULT 0 CHECK (total_points >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one rubric per question and one default per assessment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grading_rubrics_question
+    ON public.grading_rubrics(assessment_id, question_id) WHERE question_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grading_rubrics_default
+    ON public.grading_rubrics(assessment_id) WHERE question_id IS NULL;
+
+-- Manual grading state on attempts and responses
+ALTER TABLE public.quiz_attempts
+    ADD COLUMN IF NOT EXISTS requires_manual_grading BOOLEAN DEFAULT false;
+
+ALTER TABLE public.question_responses
+    ADD COLUMN IF NOT EXISTS needs_manual_grading BOOLEAN DEFAULT false,
+    ADD COLUMN IF NOT EXISTS rubric_scores JSONB,
+    ADD COLUMN IF NOT EXISTS suggested_points NUMERIC(8,2),
+    ADD COLUMN IF NOT EXISTS suggested_feedback TEXT,
+    ADD COLUMN IF NOT EXISTS suggestion_provider VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS graded_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS graded_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_grading_queue
+    ON public.quiz_attempts(assessment_id, submitted_at) WHERE status = 'submitted';
+CREATE INDEX IF NOT EXISTS idx_question_responses_pending
+    ON public.question_responses(attempt_id) WHERE needs_manual_grading = true;
+
+-- Auto-update updated_at trigger
+CREATE TRIGGER update_grading_rubrics_updated_at
+    BEFORE UPDATE ON public.grading_rubrics
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS Policies for grading_rubrics
+ALTER TABLE public.grading_rubrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage rubrics for own assessments" ON public.grading_rubrics
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.assessments
+            WHERE assessments.id = grading_rubrics.assessment_id
+            AND assessments.instructor_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage all rubrics" ON public.grading_rubrics
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Grant permissions
+GRANT ALL ON public.grading_rubrics TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE public.grading_rubrics IS 'Rubric criteria used by instructors to grade essay responses';
+COMMENT ON COLUMN public.grading_rubrics.question_id IS 'NULL = default rubric for every essay question in the assessment';
+COMMENT ON COLUMN public.quiz_attempts.requires_manual_grading IS 'Attempt is in the manual grading queue; score, percentage and passed are set on release';
+COMMENT ON COLUMN public.question_responses.suggested_points IS 'Advisory score from the configured essay scoring provider, never used as the final grade';
@@ -0,0 +1,15 @@
+-- Drag & Drop Questions Migration
+-- Stores ordering / matching item configuration for drag_drop questions
+
+ALTER TABLE public.questions
+    ADD COLUMN IF NOT EXISTS drag_drop JSONB;
+
+-- Drag-drop settings are required for drag_drop questions and not allowed elsewhere
+ALTER TABLE public.questions
+    ADD CONSTRAINT questions_drag_drop_config_check CHECK (
+        (question_type = 'drag_drop') = (drag_drop IS NOT NULL)
+        AND (drag_drop IS NULL OR drag_drop->>'mode' IN ('ordering', 'matching'))
+    );
+
+-- Comments for documentation
+COMMENT ON COLUMN public.questions.drag_drop IS 'Drag-drop settings: {mode: ordering|matching, items, targets?, partial_credit}. correct_answer holds item ids in order (ordering) or "itemId:targetId" pairs (matching)';
@@ -0,0 +1,19 @@
+-- Multi-Select Questions Migration
+-- Multiple-choice questions with several correct options and partial credit scoring
+
+ALTER TABLE public.questions
+    ADD COLUMN IF NOT EXISTS multi_select BOOLEAN DEFAULT false,
+    ADD COLUMN IF NOT EXISTS scoring_strategy VARCHAR(20) DEFAULT 'all_or_nothing'
+        CHECK (scoring_strategy IN ('all_or_nothing', 'proportional', 'penalty'));
+
+-- Partial credit produces fractional points
+ALTER TABLE public.question_responses
+    ALTER COLUMN points_earned TYPE NUMERIC(8,2);
+
+ALTER TABLE public.quiz_attempts
+    ALTER COLUMN score TYPE NUMERIC(8,2),
+    ALTER COLUMN max_score TYPE NUMERIC(8,2);
+
+-- Comments for documentation
+COMMENT ON COLUMN public.questions.multi_select IS 'Multiple-choice question where students may pick several options';
+COMMENT ON COLUMN public.questions.scoring_strategy IS 'all_or_nothing = exact set only, proportional = share of options judged correctly, penalty = (correct - wrong picks) / correct options, floored at 0';
@@ -0,0 +1,25 @@
+-- Quiz Attempt Deadlines Migration
+-- Server-side attempt deadlines and timer expiry
+
+ALTER TABLE public.quiz_attempts
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS expired_at TIMESTAMPTZ;
+
+-- Backfill deadlines for attempts still in progress
+UPDATE public.quiz_attempts qa
+SET expires_at = LEAST(
+    qa.started_at + make_interval(mins => a.time_limit),
+    COALESCE(a.available_until, 'infinity'::timestamptz)
+)
+FROM public.assessments a
+WHERE a.id = qa.assessment_id
+  AND qa.status = 'in_progress'
+  AND qa.expires_at IS NULL;
+
+-- Sweeper lookup for overdue attempts
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_overdue
+    ON public.quiz_attempts(expires_at) WHERE status = 'in_progress';
+
+-- Comments for documentation
+COMMENT ON COLUMN public.quiz_attempts.expires_at IS 'Server deadline: started_at + time_limit, capped by the assessment availability window';
+COMMENT ON COLUMN public.quiz_attempts.expired_at IS 'Deadline at which the attempt was closed by the timer (late submission or expiry sweeper)';
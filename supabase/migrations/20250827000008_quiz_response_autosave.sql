@@ -0,0 +1,21 @@
+-- Quiz Response Autosave Migration
+-- Revisioned per-question answers and single-tab ownership of in-progress attempts
+
+ALTER TABLE public.question_responses
+    ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- One saved answer per question; autosave and final submission upsert on it
+ALTER TABLE public.question_responses
+    ADD CONSTRAINT question_responses_attempt_question_key UNIQUE (attempt_id, question_id);
+
+ALTER TABLE public.quiz_attempts
+    ADD COLUMN IF NOT EXISTS active_session_id UUID,
+    ADD COLUMN IF NOT EXISTS active_session_seen_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS last_saved_at TIMESTAMPTZ;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.question_responses.revision IS 'Incremented on every autosave; clients send the revision they last saw to detect edits from another tab';
+COMMENT ON COLUMN public.quiz_attempts.active_session_id IS 'Browser tab currently holding the attempt; other tabs must take over explicitly while it is active';
+COMMENT ON COLUMN public.quiz_attempts.active_session_seen_at IS 'Last save or resume from the active tab; the hold lapses after 2 minutes of silence';
+COMMENT ON COLUMN public.quiz_attempts.last_saved_at IS 'Time of the latest autosaved answer';
@@ -0,0 +1,24 @@
+-- Adaptive Assessments Migration
+-- Stopping criteria for adaptive (placement) tests and per-attempt ability estimates
+
+ALTER TABLE public.assessments
+    ADD COLUMN IF NOT EXISTS adaptive_config JSONB;
+
+-- Adaptive answers are scored as they come in, so adaptive tests are auto-graded only
+ALTER TABLE public.assessments
+    ADD CONSTRAINT assessments_adaptive_grading_check CHECK (
+        adaptive_config IS NULL OR grading_method = 'automatic'
+    );
+
+ALTER TABLE public.quiz_attempts
+    ADD COLUMN IF NOT EXISTS adaptive_state JSONB,
+    ADD COLUMN IF NOT EXISTS ability_estimate NUMERIC(6,3);
+
+-- Placement reports by ability
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_ability
+    ON public.quiz_attempts(assessment_id, ability_estimate) WHERE ability_estimate IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.assessments.adaptive_config IS 'Adaptive stopping criteria {max_questions, min_questions, confidence_threshold, time_limit}; NULL for fixed-form assessments';
+COMMENT ON COLUMN public.quiz_attempts.adaptive_state IS 'Adaptive engine state: Rasch ability estimate, standard error, asked/remaining questions and stop reason';
+COMMENT ON COLUMN public.quiz_attempts.ability_estimate IS 'Latest ability estimate on the logit scale (0 = medium difficulty)';
@@ -0,0 +1,176 @@
+-- Question Banks Migration
+-- Instructor-owned question banks with hierarchical categories, import into assessments
+-- and random-draw sections so every attempt gets a different but equivalent question set
+
+-- Hierarchical categories (owned by the instructor who created them)
+CREATE TABLE IF NOT EXISTS public.question_categories (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    parent_id UUID REFERENCES public.question_categories(id) ON DELETE CASCADE,
+    created_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE TABLE IF NOT EXISTS public.question_banks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    title VARCHAR(200) NOT NULL,
+    description TEXT NOT NULL,
+    category_id UUID NOT NULL REFERENCES public.question_categories(id) ON DELETE RESTRICT,
+    subject VARCHAR(100) NOT NULL,
+    difficulty VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    created_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    is_public BOOLEAN NOT NULL DEFAULT false,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    rating NUMERIC(3,2) NOT NULL DEFAULT 0 CHECK (rating >= 0 AND rating <= 5),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Bank questions mirror public.questions; options are stored inline and copied on import
+CREATE TABLE IF NOT EXISTS public.question_bank_questions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bank_id UUID NOT NULL REFERENCES public.question_banks(id) ON DELETE CASCADE,
+    question_text TEXT NOT NULL,
+    question_type VARCHAR(20) NOT NULL CHECK (question_type IN ('multiple_choice', 'true_false', 'fill_blank', 'essay', 'drag_drop')),
+    options JSONB,
+    multi_select BOOLEAN NOT NULL DEFAULT false,
+    scoring_strategy VARCHAR(20) NOT NULL DEFAULT 'all_or_nothing',
+    drag_drop JSONB,
+    correct_answer JSONB NOT NULL,
+    explanation TEXT,
+    points NUMERIC(8,2) NOT NULL CHECK (points > 0),
+    difficulty VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    media_url TEXT,
+    time_limit INTEGER,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Random-draw sections: draw_count questions per attempt out of the imported pool
+CREATE TABLE IF NOT EXISTS public.assessment_draw_sections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    assessment_id UUID NOT NULL REFERENCES public.assessments(id) ON DELETE CASCADE,
+    title VARCHAR(200) NOT NULL,
+    bank_id UUID REFERENCES public.question_banks(id) ON DELETE SET NULL,
+    category_id UUID REFERENCES public.question_categories(id) ON DELETE SET NULL,
+    difficulty VARCHAR(10) CHECK (difficulty IN ('easy', 'medium', 'hard')),
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    question_type VARCHAR(20),
+    draw_count INTEGER NOT NULL CHECK (draw_count > 0),
+    pool_size INTEGER NOT NULL CHECK (pool_size >= draw_count),
+    order_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Provenance of imported questions and the drawn set of each attempt
+ALTER TABLE public.questions
+    ADD COLUMN IF NOT EXISTS bank_question_id UUID REFERENCES public.question_bank_questions(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS draw_section_id UUID REFERENCES public.assessment_draw_sections(id) ON DELETE CASCADE;
+
+ALTER TABLE public.quiz_attempts
+    ADD COLUMN IF NOT EXISTS question_ids UUID[];
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_question_categories_owner ON public.question_categories(created_by, parent_id);
+CREATE INDEX IF NOT EXISTS idx_question_banks_owner ON public.question_banks(created_by);
+CREATE INDEX IF NOT EXISTS idx_question_banks_category ON public.question_banks(category_id);
+CREATE INDEX IF NOT EXISTS idx_question_banks_public ON public.question_banks(is_public) WHERE is_public = true;
+CREATE INDEX IF NOT EXISTS idx_question_bank_questions_bank ON public.question_bank_questions(bank_id, difficulty);
+CREATE INDEX IF NOT EXISTS idx_question_bank_questions_tags ON public.question_bank_questions USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_assessment_draw_sections_assessment ON public.assessment_draw_sections(assessment_id, order_index);
+CREATE INDEX IF NOT EXISTS idx_questions_draw_section ON public.questions(draw_section_id) WHERE draw_section_id IS NOT NULL;
+
+-- Auto-update updated_at triggers
+CREATE TRIGGER update_question_categories_updated_at
+    BEFORE UPDATE ON public.question_categories
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_question_banks_updated_at
+    BEFORE UPDATE ON public.question_banks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_question_bank_questions_updated_at
+    BEFORE UPDATE ON public.question_bank_questions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Bump usage counters when bank questions are imported
+CREATE OR REPLACE FUNCTION increment_question_bank_usage(bank_ids UUID[])
+RETURNS void AS $$
+BEGIN
+    UPDATE public.question_banks
+    SET usage_count = usage_count + 1
+    WHERE id = ANY(bank_ids);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RLS Policies
+ALTER TABLE public.question_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_banks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_bank_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.assessment_draw_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can manage own categories" ON public.question_categories
+    FOR ALL USING (created_by = auth.uid());
+
+CREATE POLICY "Instructors can manage own banks" ON public.question_banks
+    FOR ALL USING (created_by = auth.uid());
+
+CREATE POLICY "Public banks are readable by instructors" ON public.question_banks
+    FOR SELECT USING (
+        is_public = true
+        AND EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role IN ('instructor', 'admin')
+        )
+    );
+
+CREATE POLICY "Bank questions follow bank access" ON public.question_bank_questions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.question_banks
+            WHERE question_banks.id = question_bank_questions.bank_id
+        )
+    );
+
+CREATE POLICY "Instructors can manage questions in own banks" ON public.question_bank_questions
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.question_banks
+            WHERE question_banks.id = question_bank_questions.bank_id
+            AND question_banks.created_by = auth.uid()
+        )
+    );
+
+CREATE POLICY "Instructors can manage draw sections for own assessments" ON public.assessment_draw_sections
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.assessments
+            WHERE assessments.id = assessment_draw_sections.assessment_id
+            AND assessments.instructor_id = auth.uid()
+        )
+    );
+
+-- Students only need section sizes to draw their questions at attempt start
+CREATE POLICY "Draw sections are readable" ON public.assessment_draw_sections
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Grant permissions
+GRANT ALL ON public.question_categories TO authenticated;
+GRANT ALL ON public.question_banks TO authenticated;
+GRANT ALL ON public.question_bank_questions TO authenticated;
+GRANT ALL ON public.assessment_draw_sections TO authenticated;
+-- Usage is only counted by the server on import; functions are executable by PUBLIC by default
+REVOKE EXECUTE ON FUNCTION increment_question_bank_usage(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION increment_question_bank_usage(UUID[]) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.question_banks IS 'Reusable instructor question banks; public banks can be imported by any instructor';
+COMMENT ON TABLE public.assessment_draw_sections IS 'Random-draw sections: each attempt gets draw_count questions out of the pooled questions imported for the section';
+COMMENT ON COLUMN public.questions.draw_section_id IS 'Pooled question only asked when drawn for an attempt; NULL = asked in every attempt';
+COMMENT ON COLUMN public.quiz_attempts.question_ids IS 'Questions drawn for this attempt; NULL = every question outside draw pools';
@@ -0,0 +1,166 @@
+-- Discount Codes Migration
+-- First-class discount codes (percentage, fixed amount, 100% off) with course/bundle scope,
+-- usage caps, per-user limits, validity windows and a redemption record per use
+
+CREATE TABLE IF NOT EXISTS public.discount_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(50) NOT NULL UNIQUE CHECK (code = UPPER(code)),
+    description TEXT,
+    discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'free')),
+    percent_off INTEGER CHECK (percent_off BETWEEN 1 AND 100),
+    amount_off INTEGER CHECK (amount_off > 0),
+    currency VARCHAR(3) CHECK (currency IN ('USD', 'EUR', 'GBP', 'TRY')),
+    applies_to VARCHAR(20) NOT NULL DEFAULT 'all' CHECK (applies_to IN ('all', 'courses', 'bundles')),
+    course_ids UUID[] NOT NULL DEFAULT '{}',
+    bundle_ids UUID[] NOT NULL DEFAULT '{}',
+    max_redemptions INTEGER CHECK (max_redemptions > 0),
+    max_redemptions_per_user INTEGER NOT NULL DEFAULT 1 CHECK (max_redemptions_per_user > 0),
+    redemption_count INTEGER NOT NULL DEFAULT 0 CHECK (redemption_count >= 0),
+    starts_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID NOT NULL REFERENCES public.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (discount_type <> 'percentage' OR percent_off IS NOT NULL),
+    CHECK (discount_type <> 'fixed' OR (amount_off IS NOT NULL AND currency IS NOT NULL)),
+    CHECK (starts_at IS NULL OR expires_at IS NULL OR starts_at < expires_at)
+);
+
+-- Pending redemptions reserve a use while a payment is in flight; voided ones no longer count
+CREATE TABLE IF NOT EXISTS public.discount_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    discount_code_id UUID NOT NULL REFERENCES public.discount_codes(id) ON DELETE RESTRICT,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL,
+    -- Payment and enrollment tables are managed outside these migrations, so no foreign keys
+    bundle_id UUID,
+    transaction_id UUID,
+    enrollment_id UUID,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'voided')),
+    original_amount INTEGER NOT NULL CHECK (original_amount >= 0),
+    amount_discounted INTEGER NOT NULL CHECK (amount_discounted >= 0),
+    currency VARCHAR(3) NOT NULL,
+    redeemed_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    voided_at TIMESTAMPTZ
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_discount_codes_active ON public.discount_codes(is_active, expires_at);
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_code_user ON public.discount_redemptions(discount_code_id, user_id) WHERE status <> 'voided';
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_transaction ON public.discount_redemptions(transaction_id) WHERE transaction_id IS NOT NULL;
+
+-- Auto-update updated_at trigger
+CREATE TRIGGER update_discount_codes_updated_at
+    BEFORE UPDATE ON public.discount_codes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Reserve a redemption atomically: the code row is locked so concurrent checkouts
+-- cannot exceed max_redemptions or the per-user limit
+CREATE OR REPLACE FUNCTION redeem_discount_code(
+    p_discount_code_id UUID,
+    p_user_id UUID,
+    p_course_id UUID,
+    p_bundle_id UUID,
+    p_original_amount INTEGER,
+    p_amount_discounted INTEGER,
+    p_currency VARCHAR
+)
+RETURNS SETOF public.discount_redemptions AS $$
+DECLARE
+    v_code public.discount_codes%ROWTYPE;
+    v_user_count INTEGER;
+BEGIN
+    SELECT * INTO v_code FROM public.discount_codes WHERE id = p_discount_code_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_code.is_active THEN
+        RAISE EXCEPTION 'Discount code not found';
+    END IF;
+
+    IF v_code.max_redemptions IS NOT NULL AND v_code.redemption_count >= v_code.max_redemptions THEN
+        RAISE EXCEPTION 'Discount code usage limit reached';
+    END IF;
+
+    SELECT COUNT(*) INTO v_user_count
+    FROM public.discount_redemptions
+    WHERE discount_code_id = p_discount_code_id
+    AND user_id = p_user_id
+    AND status <> 'voided';
+
+    IF v_user_count >= v_code.max_redemptions_per_user THEN
+        RAISE EXCEPTION 'You have already used this discount code';
+    END IF;
+
+    UPDATE public.discount_codes
+    SET redemption_count = redemption_count + 1
+    WHERE id = p_discount_code_id;
+
+    RETURN QUERY
+    INSERT INTO public.discount_redemptions (
+        discount_code_id, user_id, course_id, bundle_id, original_amount, amount_discounted, currency
+    )
+    VALUES (
+        p_discount_code_id, p_user_id, p_course_id, p_bundle_id, p_original_amount, p_amount_discounted, p_currency
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Release a pending redemption (payment canceled, checkout expired, enrollment failed)
+CREATE OR REPLACE FUNCTION void_discount_redemption(p_redemption_id UUID)
+RETURNS void AS $$
+DECLARE
+    v_code_id UUID;
+BEGIN
+    UPDATE public.discount_redemptions
+    SET status = 'voided', voided_at = NOW()
+    WHERE id = p_redemption_id AND status = 'pending'
+    RETURNING discount_code_id INTO v_code_id;
+
+    IF v_code_id IS NOT NULL THEN
+        UPDATE public.discount_codes
+        SET redemption_count = GREATEST(redemption_count - 1, 0)
+        WHERE id = v_code_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RLS Policies (codes are validated server-side; students never list them)
+ALTER TABLE public.discount_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.discount_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage discount codes" ON public.discount_codes
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+CREATE POLICY "Users can view own redemptions" ON public.discount_redemptions
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all redemptions" ON public.discount_redemptions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Grant permissions
+GRANT ALL ON public.discount_codes TO authenticated;
+GRANT SELECT ON public.discount_redemptions TO authenticated;
+-- Redemptions are only reserved and voided by the server; functions are executable by PUBLIC by default
+REVOKE EXECUTE ON FUNCTION redeem_discount_code(UUID, UUID, UUID, UUID, INTEGER, INTEGER, VARCHAR) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION void_discount_redemption(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_discount_code(UUID, UUID, UUID, UUID, INTEGER, INTEGER, VARCHAR) TO service_role;
+GRANT EXECUTE ON FUNCTION void_discount_redemption(UUID) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.discount_codes IS 'Admin-managed discount codes; amounts are in cents';
+COMMENT ON TABLE public.discount_redemptions IS 'One row per use of a discount code; pending rows reserve a use until the payment completes or is voided';
+COMMENT ON COLUMN public.discount_codes.redemption_count IS 'Pending and completed redemptions, maintained by redeem_discount_code / void_discount_redemption';
@@ -0,0 +1,12 @@
+-- Paid Enrollment Verification Migration
+-- A Stripe payment intent can pay for exactly one enrollment; the client and the webhook
+-- both enroll with it, and the unique index turns the race into an idempotent retry
+
+ALTER TABLE public.enrollments
+    ADD COLUMN IF NOT EXISTS payment_intent_id VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_enrollments_payment_intent
+    ON public.enrollments(payment_intent_id)
+    WHERE payment_intent_id IS NOT NULL;
+
+COMMENT ON COLUMN public.enrollments.payment_intent_id IS 'Stripe payment intent that paid for this enrollment; unique so a payment cannot be reused';
@@ -0,0 +1,67 @@
+-- Refunds Migration
+-- Stripe-backed full/partial refunds with an audit record per refund, refunded amounts on
+-- transactions, access revocation on purchases and a per-course cancellation policy
+
+-- Per-course refund policy (NULL = platform default of 14 days / 25% progress)
+ALTER TABLE public.courses
+    ADD COLUMN IF NOT EXISTS refund_window_days INTEGER CHECK (refund_window_days BETWEEN 0 AND 365),
+    ADD COLUMN IF NOT EXISTS refund_max_progress INTEGER CHECK (refund_max_progress BETWEEN 0 AND 100);
+
+-- Payment tables are managed outside these migrations
+ALTER TABLE IF EXISTS public.payment_transactions
+    ADD COLUMN IF NOT EXISTS refunded_amount INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE IF EXISTS public.course_purchases
+    ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+
+ALTER TABLE public.enrollments
+    ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS public.payment_refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    stripe_refund_id VARCHAR(255) UNIQUE,
+    amount INTEGER NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) NOT NULL,
+    reason VARCHAR(30) NOT NULL CHECK (reason IN ('requested_by_customer', 'duplicate', 'fraudulent', 'course_issue', 'other')),
+    note TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    failure_reason TEXT,
+    issued_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_transaction ON public.payment_refunds(transaction_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_user ON public.payment_refunds(user_id);
+
+-- Auto-update updated_at trigger
+CREATE TRIGGER update_payment_refunds_updated_at
+    BEFORE UPDATE ON public.payment_refunds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS Policies (refunds are written server-side with the service role)
+ALTER TABLE public.payment_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own refunds" ON public.payment_refunds
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all refunds" ON public.payment_refunds
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Grant permissions
+GRANT SELECT ON public.payment_refunds TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE public.payment_refunds IS 'One row per Stripe refund; issued_by NULL = issued outside the platform';
+COMMENT ON COLUMN public.courses.refund_window_days IS 'Days after enrollment a student may cancel with a refund; NULL = 14';
+COMMENT ON COLUMN public.courses.refund_max_progress IS 'Progress percentage from which cancellation is no longer refunded; NULL = 25';
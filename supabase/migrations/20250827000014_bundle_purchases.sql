@@ -0,0 +1,12 @@
+-- Bundle Purchases Migration
+-- A bundle purchase is recorded as one course_purchases row per included course, so the
+-- webhook can upsert them on (transaction_id, course_id) and a redelivered event is harmless
+
+-- Payment tables are managed outside these migrations
+DO $$
+BEGIN
+    IF to_regclass('public.course_purchases') IS NOT NULL THEN
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_course_purchases_transaction_course
+            ON public.course_purchases(transaction_id, course_id);
+    END IF;
+END $$;
@@ -0,0 +1,49 @@
+-- Subscription Entitlements Migration
+-- Subscription plans grant course access through entitlement rules (every course, a single
+-- course or a course category); past_due subscriptions keep access for a grace period
+
+-- Payment tables are managed outside these migrations
+ALTER TABLE IF EXISTS public.subscription_plans
+    ADD COLUMN IF NOT EXISTS grace_period_days INTEGER CHECK (grace_period_days BETWEEN 0 AND 60);
+
+-- Enrollments opened through a subscription end with it
+ALTER TABLE public.enrollments
+    ADD COLUMN IF NOT EXISTS subscription_id UUID;
+
+CREATE TABLE IF NOT EXISTS public.subscription_plan_entitlements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_id UUID NOT NULL,
+    entitlement_type VARCHAR(20) NOT NULL CHECK (entitlement_type IN ('all_courses', 'course', 'category')),
+    course_id UUID REFERENCES public.courses(id) ON DELETE CASCADE,
+    category VARCHAR(100),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (entitlement_type <> 'course' OR course_id IS NOT NULL),
+    CHECK (entitlement_type <> 'category' OR category IS NOT NULL)
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_plan_entitlements_plan ON public.subscription_plan_entitlements(plan_id);
+CREATE INDEX IF NOT EXISTS idx_enrollments_subscription ON public.enrollments(subscription_id) WHERE subscription_id IS NOT NULL;
+
+-- RLS Policies (plans are public catalogue data)
+ALTER TABLE public.subscription_plan_entitlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view plan entitlements" ON public.subscription_plan_entitlements
+    FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage plan entitlements" ON public.subscription_plan_entitlements
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Grant permissions
+GRANT SELECT ON public.subscription_plan_entitlements TO anon, authenticated;
+GRANT ALL ON public.subscription_plan_entitlements TO authenticated;
+
+-- Comments for documentation
+COMMENT ON TABLE public.subscription_plan_entitlements IS 'Courses a subscription plan unlocks; a plan grants the union of its rules';
+COMMENT ON COLUMN public.enrollments.subscription_id IS 'Subscription the enrollment was opened through; access follows that subscription';
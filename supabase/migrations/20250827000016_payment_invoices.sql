@@ -0,0 +1,89 @@
+-- Payment Invoices Migration
+-- One invoice per successful payment with seller/buyer details, KDV line breakdown and
+-- sequential numbers (7P-<year>-<number>) that never skip, allocated in the same
+-- transaction as the invoice row
+
+CREATE TABLE IF NOT EXISTS public.invoice_sequences (
+    year INTEGER PRIMARY KEY,
+    last_number INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS public.payment_invoices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_number VARCHAR(30) NOT NULL UNIQUE,
+    -- Payment tables are managed outside these migrations, so no foreign key
+    transaction_id UUID NOT NULL UNIQUE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE RESTRICT,
+    issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    seller JSONB NOT NULL,
+    buyer JSONB NOT NULL,
+    lines JSONB NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    subtotal INTEGER NOT NULL CHECK (subtotal >= 0),
+    tax_amount INTEGER NOT NULL CHECK (tax_amount >= 0),
+    total INTEGER NOT NULL CHECK (total >= 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (subtotal + tax_amount = total)
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_payment_invoices_user ON public.payment_invoices(user_id, issued_at DESC);
+
+CREATE OR REPLACE FUNCTION create_payment_invoice(
+    p_transaction_id UUID,
+    p_user_id UUID,
+    p_seller JSONB,
+    p_buyer JSONB,
+    p_lines JSONB,
+    p_currency VARCHAR,
+    p_subtotal INTEGER,
+    p_tax_amount INTEGER,
+    p_total INTEGER
+)
+RETURNS SETOF public.payment_invoices AS $$
+DECLARE
+    v_year INTEGER := EXTRACT(YEAR FROM NOW());
+    v_number INTEGER;
+BEGIN
+    INSERT INTO public.invoice_sequences (year, last_number)
+    VALUES (v_year, 1)
+    ON CONFLICT (year) DO UPDATE SET last_number = public.invoice_sequences.last_number + 1
+    RETURNING last_number INTO v_number;
+
+    RETURN QUERY
+    INSERT INTO public.payment_invoices (
+        invoice_number, transaction_id, user_id, seller, buyer, lines, currency, subtotal, tax_amount, total
+    )
+    VALUES (
+        format('7P-%s-%s', v_year, lpad(v_number::TEXT, 6, '0')),
+        p_transaction_id, p_user_id, p_seller, p_buyer, p_lines, p_currency, p_subtotal, p_tax_amount, p_total
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RLS Policies (invoices are issued server-side)
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own invoices" ON public.payment_invoices
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all invoices" ON public.payment_invoices
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Grant permissions
+GRANT SELECT ON public.payment_invoices TO authenticated;
+-- Invoices are only issued by the server; functions are executable by PUBLIC by default
+REVOKE EXECUTE ON FUNCTION create_payment_invoice(UUID, UUID, JSONB, JSONB, JSONB, VARCHAR, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_payment_invoice(UUID, UUID, JSONB, JSONB, JSONB, VARCHAR, INTEGER, INTEGER, INTEGER) TO service_role;
+
+-- Comments for documentation
+COMMENT ON TABLE public.payment_invoices IS 'Invoice (fatura) per successful payment; amounts in cents, lines carry the KDV breakdown';
+COMMENT ON TABLE public.invoice_sequences IS 'Last invoice number per year, advanced by create_payment_invoice';
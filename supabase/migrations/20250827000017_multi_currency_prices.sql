@@ -0,0 +1,20 @@
+-- Multi-Currency Prices Migration
+-- A course carries one active Stripe price per currency; buyers may save the currency
+-- they want to see prices and pay in (NULL = choose from their location)
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS preferred_currency VARCHAR(3)
+        CHECK (preferred_currency IN ('USD', 'EUR', 'GBP', 'TRY'));
+
+-- Payment tables are managed outside these migrations
+DO $$
+BEGIN
+    IF to_regclass('public.course_prices') IS NOT NULL THEN
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_course_prices_active_currency
+            ON public.course_prices(course_id, currency)
+            WHERE is_active = true;
+    END IF;
+END $$;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.users.preferred_currency IS 'Currency the user sees prices and pays in; NULL selects it from location';
@@ -0,0 +1,26 @@
+-- Webhook Dead-Letter Migration
+-- Stripe events whose handler fails are kept with the error and attempt count, retried
+-- with exponential backoff, and dead-lettered for an admin replay when retries run out
+
+-- Payment tables are managed outside these migrations
+ALTER TABLE IF EXISTS public.webhook_events
+    ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'dead')),
+    ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_error TEXT,
+    ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+    IF to_regclass('public.webhook_events') IS NOT NULL THEN
+        UPDATE public.webhook_events SET status = 'processed' WHERE processed = true AND status = 'pending';
+
+        -- Performance indexes
+        CREATE INDEX IF NOT EXISTS idx_webhook_events_retry
+            ON public.webhook_events(next_retry_at)
+            WHERE status = 'failed';
+        CREATE INDEX IF NOT EXISTS idx_webhook_events_status
+            ON public.webhook_events(status, last_attempt_at DESC);
+    END IF;
+END $$;
@@ -0,0 +1,34 @@
+-- Learning Streak Engine Migration
+-- Streaks are now advanced by the application in the learner's timezone. Learners bank
+-- streak freezes that cover missed days, and every counted (or frozen) day is kept for
+-- the streak calendar.
+
+ALTER TABLE learning_streaks
+    ADD COLUMN IF NOT EXISTS freezes_available INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS freezes_used INTEGER NOT NULL DEFAULT 0;
+
+-- Create learning_streak_days table for the per-day streak calendar
+CREATE TABLE IF NOT EXISTS learning_streak_days (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    activity_date DATE NOT NULL,
+    frozen BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, activity_date)
+);
+
+-- Performance indexes
+CREATE INDEX IF NOT EXISTS idx_learning_streak_days_user_date
+    ON learning_streak_days(user_id, activity_date DESC);
+
+ALTER TABLE learning_streak_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own streak days" ON learning_streak_days
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- No write policy: StreakService records days with the service role, which bypasses RLS
+
+COMMENT ON COLUMN learning_streaks.freezes_available IS 'Banked streak freezes, each covering one missed day';
+COMMENT ON COLUMN learning_streaks.freezes_used IS 'Streak freezes spent so far';
+COMMENT ON COLUMN learning_streak_days.activity_date IS 'Calendar day in the learner''s timezone';
+COMMENT ON COLUMN learning_streak_days.frozen IS 'Missed day covered by a streak freeze';
@@ -0,0 +1,79 @@
+-- Achievement Rules Migration
+-- Achievements are defined as data: criteria.rule is an expression over learner counters
+-- (lessons and courses completed, quiz scores, study minutes, streak days), evaluated on
+-- each learning activity. Legacy type/threshold criteria keep working as one condition.
+
+-- Create achievements table for badge definitions
+CREATE TABLE IF NOT EXISTS achievements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT NOT NULL DEFAULT '',
+    icon_url TEXT NOT NULL DEFAULT '',
+    criteria JSONB NOT NULL,
+    rarity VARCHAR(20) NOT NULL DEFAULT 'common'
+        CHECK (rarity IN ('common', 'rare', 'epic', 'legendary')),
+    points INTEGER NOT NULL DEFAULT 0 CHECK (points >= 0),
+    category VARCHAR(20) NOT NULL DEFAULT 'completion'
+        CHECK (category IN ('completion', 'performance', 'engagement', 'special')),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+
+-- Earned badges point at their definition; course-specific ones are earned once per course
+ALTER TABLE user_achievements
+    ADD COLUMN IF NOT EXISTS achievement_id UUID REFERENCES achievements(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS course_id UUID REFERENCES courses(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS progress_value INTEGER NOT NULL DEFAULT 100;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_achievements_unique_award
+    ON user_achievements(user_id, achievement_id, COALESCE(course_id, '00000000-0000-0000-0000-000000000000'::uuid))
+    WHERE achievement_id IS NOT NULL;
+
+ALTER TABLE achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view achievements" ON achievements
+    FOR SELECT USING (true);
+
+-- Badges are evaluated and awarded through the service role, which bypasses RLS
+CREATE POLICY "Admins can manage achievements" ON achievements
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Default badges
+INSERT INTO achievements (name, description, criteria, rarity, points, category) VALUES
+    ('First Step', 'Complete your first lesson',
+        '{"type": "completion", "threshold": 1, "rule": {"metric": "lessons_completed", "min": 1}}', 'common', 10, 'completion'),
+    ('Dedicated Learner', 'Complete 25 lessons',
+        '{"type": "completion", "threshold": 25, "rule": {"metric": "lessons_completed", "min": 25}}', 'rare', 50, 'completion'),
+    ('Course Graduate', 'Finish a course',
+        '{"type": "completion", "threshold": 1, "rule": {"metric": "courses_completed", "min": 1}}', 'rare', 100, 'completion'),
+    ('Quiz Master', 'Average 90 or more over at least 5 quizzes',
+        '{"type": "score", "threshold": 90, "rule": {"all": [{"metric": "quizzes_completed", "min": 5}, {"metric": "quiz_average", "min": 90}]}}', 'epic', 150, 'performance'),
+    ('Flawless', 'Score 100 on a quiz',
+        '{"type": "score", "threshold": 100, "rule": {"metric": "best_quiz_score", "min": 100}}', 'rare', 50, 'performance'),
+    ('Weekly Marathon', 'Study 300 minutes within 7 days',
+        '{"type": "time", "threshold": 300, "timeframe": 7, "rule": {"metric": "study_minutes", "min": 300}}', 'rare', 75, 'engagement'),
+    ('Week Streak', 'Keep a 7-day learning streak',
+        '{"type": "streak", "threshold": 7, "rule": {"metric": "streak_days", "min": 7}}', 'common', 25, 'engagement'),
+    ('Month Streak', 'Keep a 30-day learning streak',
+        '{"type": "streak", "threshold": 30, "rule": {"metric": "streak_days", "min": 30}}', 'epic', 200, 'engagement'),
+    ('Course Hero', 'Finish a course with a quiz average of 85 or more',
+        '{"type": "score", "threshold": 85, "course_specific": true, "rule": {"all": [{"metric": "courses_completed", "min": 1}, {"metric": "quiz_average", "min": 85}]}}', 'epic', 150, 'performance')
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON COLUMN achievements.criteria IS 'Badge criteria; rule is {metric, min} or {all: [...]} / {any: [...]} over learner counters';
+COMMENT ON COLUMN user_achievements.progress_value IS 'Rule progress (0-100) when the badge was awarded';
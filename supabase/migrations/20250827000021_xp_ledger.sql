@@ -0,0 +1,123 @@
+-- XP Ledger Migration
+-- Every XP award is a user_xp_logs row written together with user_profiles.current_xp and
+-- current_level by award_user_xp(). An idempotency key per award keeps retries from
+-- awarding twice. XP amounts come from admin-editable rules, banded by score or streak.
+
+ALTER TABLE user_xp_logs
+    ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(200);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_xp_logs_idempotency
+    ON user_xp_logs(user_id, idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
+
+-- Create xp_rules table for per-activity XP amounts
+CREATE TABLE IF NOT EXISTS xp_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    activity_type VARCHAR(50) NOT NULL,
+    min_value INTEGER NOT NULL DEFAULT 0 CHECK (min_value >= 0),
+    xp INTEGER NOT NULL CHECK (xp >= 0),
+    description VARCHAR(200),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(activity_type, min_value)
+);
+
+ALTER TABLE xp_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view XP rules" ON xp_rules
+    FOR SELECT USING (true);
+
+-- Written by the admin API through the service role, which bypasses RLS
+CREATE POLICY "Admins can manage XP rules" ON xp_rules
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+        )
+    );
+
+-- Default rules
+INSERT INTO xp_rules (activity_type, min_value, xp, description) VALUES
+    ('lesson_completed', 0, 50, 'Lesson completed'),
+    ('quiz_completed', 0, 10, 'Quiz completed'),
+    ('quiz_completed', 60, 30, 'Quiz passed with 60+'),
+    ('quiz_completed', 80, 50, 'Quiz passed with 80+'),
+    ('quiz_completed', 90, 70, 'Quiz passed with 90+'),
+    ('assignment_submitted', 0, 100, 'Assignment submitted'),
+    ('course_completed', 0, 500, 'Course completed'),
+    ('streak_milestone', 0, 20, 'Streak milestone'),
+    ('streak_milestone', 7, 50, 'Streak milestone of 7+ days'),
+    ('streak_milestone', 30, 150, 'Streak milestone of 30+ days'),
+    ('streak_milestone', 100, 400, 'Streak milestone of 100+ days')
+ON CONFLICT (activity_type, min_value) DO NOTHING;
+
+-- Level curve: level n starts at (n - 1)^2 * 1000 XP (mirrored by XpService.levelForXp)
+CREATE OR REPLACE FUNCTION xp_level_for(p_total_xp INTEGER)
+RETURNS INTEGER AS $$
+    SELECT FLOOR(SQRT(GREATEST(p_total_xp, 0) / 1000.0))::INTEGER + 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Award XP to a user; the profile row lock serializes awards per user
+CREATE OR REPLACE FUNCTION award_user_xp(
+    p_user_id UUID,
+    p_activity_type VARCHAR,
+    p_xp INTEGER,
+    p_idempotency_key VARCHAR DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'
+)
+RETURNS TABLE (awarded BOOLEAN, total_xp INTEGER, level_before INTEGER, level_after INTEGER) AS $$
+DECLARE
+    v_total INTEGER;
+    v_level INTEGER;
+    v_new_total INTEGER;
+    v_new_level INTEGER;
+BEGIN
+    SELECT COALESCE(up.current_xp, 0), COALESCE(up.current_level, 1)
+    INTO v_total, v_level
+    FROM user_profiles up
+    WHERE up.id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User profile not found';
+    END IF;
+
+    IF p_idempotency_key IS NOT NULL AND EXISTS (
+        SELECT 1 FROM user_xp_logs l
+        WHERE l.user_id = p_user_id AND l.idempotency_key = p_idempotency_key
+    ) THEN
+        RETURN QUERY SELECT false, v_total, v_level, v_level;
+        RETURN;
+    END IF;
+
+    v_new_total := v_total + GREATEST(p_xp, 0);
+    v_new_level := GREATEST(v_level, xp_level_for(v_new_total));
+
+    INSERT INTO user_xp_logs (user_id, activity_type, xp_earned, total_xp, level_after, metadata, idempotency_key)
+    VALUES (p_user_id, p_activity_type, GREATEST(p_xp, 0), v_new_total, v_new_level, COALESCE(p_metadata, '{}'), p_idempotency_key);
+
+    UPDATE user_profiles
+    SET current_xp = v_new_total,
+        current_level = v_new_level,
+        updated_at = NOW()
+    WHERE id = p_user_id;
+
+    RETURN QUERY SELECT true, v_new_total, v_level, v_new_level;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- XP is only awarded by the server; functions are executable by PUBLIC by default
+REVOKE EXECUTE ON FUNCTION award_user_xp(UUID, VARCHAR, INTEGER, VARCHAR, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION award_user_xp(UUID, VARCHAR, INTEGER, VARCHAR, JSONB) TO service_role;
+
+COMMENT ON COLUMN user_xp_logs.idempotency_key IS 'Identifies the award (e.g. lesson:<id>); an award with a used key is skipped';
+COMMENT ON COLUMN xp_rules.min_value IS 'Lower bound of the band: quiz score for quiz_completed, streak days for streak_milestone';
@@ -0,0 +1,131 @@
+-- Leaderboards Migration
+-- Weekly, monthly and all-time rankings, platform-wide and per course (with a rank inside
+-- the learner's enrollment-month cohort), precomputed by refresh_leaderboards() from the
+-- XP ledger and lesson_progress. Learners with preferences.leaderboard_opt_out are left out.
+
+-- Create leaderboard_entries table for precomputed rankings
+CREATE TABLE IF NOT EXISTS leaderboard_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    period VARCHAR(10) NOT NULL CHECK (period IN ('weekly', 'monthly', 'all_time')),
+    course_id UUID REFERENCES courses(id) ON DELETE CASCADE,
+    cohort DATE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    xp INTEGER NOT NULL DEFAULT 0,
+    lessons_completed INTEGER NOT NULL DEFAULT 0,
+    rank INTEGER NOT NULL,
+    cohort_rank INTEGER,
+    computed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Performance indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leaderboard_entries_unique
+    ON leaderboard_entries(period, COALESCE(course_id, '00000000-0000-0000-0000-000000000000'::uuid), user_id);
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_rank
+    ON leaderboard_entries(period, course_id, rank);
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_cohort_rank
+    ON leaderboard_entries(period, course_id, cohort, cohort_rank);
+CREATE INDEX IF NOT EXISTS idx_user_xp_logs_course
+    ON user_xp_logs((metadata->>'course_id'))
+    WHERE metadata ? 'course_id';
+
+-- Rankings are read through the API, which pseudonymises names, and rebuilt by
+-- refresh_leaderboards(); with no policies only the service role can read or write them
+ALTER TABLE leaderboard_entries ENABLE ROW LEVEL SECURITY;
+
+-- Rebuild all rankings in one transaction; readers keep the previous rankings until it commits
+CREATE OR REPLACE FUNCTION refresh_leaderboards()
+RETURNS INTEGER AS $$
+DECLARE
+    v_rows INTEGER;
+BEGIN
+    DELETE FROM leaderboard_entries;
+
+    -- Platform-wide
+    INSERT INTO leaderboard_entries (period, course_id, cohort, user_id, xp, lessons_completed, rank, computed_at)
+    WITH periods(period, since) AS (
+        VALUES ('weekly', date_trunc('week', NOW())),
+               ('monthly', date_trunc('month', NOW())),
+               ('all_time', '-infinity'::timestamptz)
+    ),
+    xp AS (
+        SELECT p.period, l.user_id, SUM(l.xp_earned)::INTEGER AS xp
+        FROM periods p
+        JOIN user_xp_logs l ON l.created_at >= p.since
+        GROUP BY p.period, l.user_id
+    ),
+    lessons AS (
+        SELECT p.period, lp.user_id, COUNT(*)::INTEGER AS lessons_completed
+        FROM periods p
+        JOIN lesson_progress lp ON lp.completed_at >= p.since
+        GROUP BY p.period, lp.user_id
+    ),
+    totals AS (
+        SELECT COALESCE(x.period, ls.period) AS period,
+               COALESCE(x.user_id, ls.user_id) AS user_id,
+               COALESCE(x.xp, 0) AS xp,
+               COALESCE(ls.lessons_completed, 0) AS lessons_completed
+        FROM xp x
+        FULL OUTER JOIN lessons ls ON ls.period = x.period AND ls.user_id = x.user_id
+    )
+    SELECT t.period, NULL, NULL, t.user_id, t.xp, t.lessons_completed,
+           RANK() OVER (PARTITION BY t.period ORDER BY t.xp DESC, t.lessons_completed DESC),
+           NOW()
+    FROM totals t
+    JOIN user_profiles up ON up.id = t.user_id
+    WHERE COALESCE((up.preferences->>'leaderboard_opt_out')::BOOLEAN, false) = false;
+
+    -- Per course, with the rank inside the enrollment-month cohort
+    INSERT INTO leaderboard_entries (period, course_id, cohort, user_id, xp, lessons_completed, rank, cohort_rank, computed_at)
+    WITH periods(period, since) AS (
+        VALUES ('weekly', date_trunc('week', NOW())),
+               ('monthly', date_trunc('month', NOW())),
+               ('all_time', '-infinity'::timestamptz)
+    ),
+    xp AS (
+        SELECT p.period, l.user_id, (l.metadata->>'course_id')::UUID AS course_id, SUM(l.xp_earned)::INTEGER AS xp
+        FROM periods p
+        JOIN user_xp_logs l ON l.created_at >= p.since
+        WHERE NULLIF(l.metadata->>'course_id', '') IS NOT NULL
+        GROUP BY p.period, l.user_id, (l.metadata->>'course_id')::UUID
+    ),
+    lessons AS (
+        SELECT p.period, lp.user_id, lp.course_id, COUNT(*)::INTEGER AS lessons_completed
+        FROM periods p
+        JOIN lesson_progress lp ON lp.completed_at >= p.since
+        GROUP BY p.period, lp.user_id, lp.course_id
+    ),
+    totals AS (
+        SELECT COALESCE(x.period, ls.period) AS period,
+               COALESCE(x.user_id, ls.user_id) AS user_id,
+               COALESCE(x.course_id, ls.course_id) AS course_id,
+               COALESCE(x.xp, 0) AS xp,
+               COALESCE(ls.lessons_completed, 0) AS lessons_completed
+        FROM xp x
+        FULL OUTER JOIN lessons ls
+            ON ls.period = x.period AND ls.user_id = x.user_id AND ls.course_id = x.course_id
+    ),
+    enrolled AS (
+        SELECT t.*, date_trunc('month', e.enrolled_at)::DATE AS cohort
+        FROM totals t
+        JOIN enrollments e ON e.user_id = t.user_id AND e.course_id = t.course_id
+        JOIN user_profiles up ON up.id = t.user_id
+        WHERE COALESCE((up.preferences->>'leaderboard_opt_out')::BOOLEAN, false) = false
+    )
+    SELECT period, course_id, cohort, user_id, xp, lessons_completed,
+           RANK() OVER (PARTITION BY period, course_id ORDER BY xp DESC, lessons_completed DESC),
+           RANK() OVER (PARTITION BY period, course_id, cohort ORDER BY xp DESC, lessons_completed DESC),
+           NOW()
+    FROM enrolled;
+
+    SELECT COUNT(*) INTO v_rows FROM leaderboard_entries;
+    RETURN v_rows;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Rankings are only rebuilt by the scheduled job; functions are executable by PUBLIC by default
+REVOKE EXECUTE ON FUNCTION refresh_leaderboards() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_leaderboards() TO service_role;
+
+COMMENT ON COLUMN leaderboard_entries.course_id IS 'NULL for the platform-wide leaderboard';
+COMMENT ON COLUMN leaderboard_entries.cohort IS 'Month the learner enrolled in the course';
+COMMENT ON COLUMN leaderboard_entries.cohort_rank IS 'Rank among learners of the same course and cohort';
@@ -0,0 +1,114 @@
+-- Progress Snapshots Migration
+-- Fills course_progress_snapshots with one row per enrollment and day. Completion is
+-- completed lessons over the course's lessons, as in the course progress API, reconstructed
+-- from lesson_progress.completed_at so past days can be backfilled. Days are calendar days
+-- in the platform timezone. Snapshots are upserted, so a day can be recomputed at any time.
+
+-- Course-wide series read by snapshot_date
+CREATE INDEX IF NOT EXISTS idx_course_progress_snapshots_course_date
+    ON course_progress_snapshots(course_id, snapshot_date);
+
+-- Snapshot every non-cancelled enrollment for each day from p_from to p_to (at most 366 days
+-- per call); an enrollment is included from the day it was made. Returns the number of
+-- snapshots written.
+CREATE OR REPLACE FUNCTION snapshot_course_progress(
+    p_from DATE,
+    p_to DATE,
+    p_timezone TEXT DEFAULT 'Europe/Istanbul'
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_rows INTEGER;
+BEGIN
+    IF p_to < p_from THEN
+        RAISE EXCEPTION 'p_to must not be before p_from';
+    END IF;
+
+    IF p_to - p_from >= 366 THEN
+        RAISE EXCEPTION 'Snapshot range must not exceed 366 days';
+    END IF;
+
+    INSERT INTO course_progress_snapshots (
+        user_id, course_id, overall_completion, completed_materials, total_materials, snapshot_date
+    )
+    WITH days AS (
+        SELECT generate_series(p_from, p_to, INTERVAL '1 day')::DATE AS snapshot_date
+    ),
+    lessons AS (
+        SELECT cm.course_id, cl.id AS lesson_id
+        FROM course_lessons cl
+        JOIN course_modules cm ON cm.id = cl.module_id
+    ),
+    totals AS (
+        SELECT course_id, COUNT(*)::INTEGER AS total_lessons
+        FROM lessons
+        GROUP BY course_id
+    ),
+    enrolled AS (
+        SELECT e.user_id, e.course_id, d.snapshot_date
+        FROM enrollments e
+        JOIN days d ON (e.enrolled_at AT TIME ZONE p_timezone)::DATE <= d.snapshot_date
+        WHERE e.cancelled_at IS NULL
+    ),
+    completed AS (
+        SELECT en.user_id, en.course_id, en.snapshot_date, COUNT(l.lesson_id)::INTEGER AS completed_lessons
+        FROM enrolled en
+        LEFT JOIN lesson_progress lp
+            ON lp.user_id = en.user_id
+            AND lp.course_id = en.course_id
+            AND (lp.completed_at AT TIME ZONE p_timezone)::DATE <= en.snapshot_date
+        LEFT JOIN lessons l ON l.lesson_id = lp.lesson_id AND l.course_id = en.course_id
+        GROUP BY en.user_id, en.course_id, en.snapshot_date
+    )
+    SELECT c.user_id,
+           c.course_id,
+           CASE WHEN COALESCE(t.total_lessons, 0) = 0 THEN 0
+                ELSE LEAST(100, ROUND(c.completed_lessons * 100.0 / t.total_lessons))::INTEGER
+           END,
+           c.completed_lessons,
+           COALESCE(t.total_lessons, 0),
+           c.snapshot_date
+    FROM completed c
+    LEFT JOIN totals t ON t.course_id = c.course_id
+    ON CONFLICT (user_id, course_id, snapshot_date) DO UPDATE SET
+        overall_completion = EXCLUDED.overall_completion,
+        completed_materials = EXCLUDED.completed_materials,
+        total_materials = EXCLUDED.total_materials,
+        created_at = NOW();
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    RETURN v_rows;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Per-day aggregate of a course's snapshots for the instructor trend chart
+CREATE OR REPLACE FUNCTION course_progress_series(p_course_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+    snapshot_date DATE,
+    students INTEGER,
+    average_completion INTEGER,
+    completed_students INTEGER
+) AS $$
+    SELECT s.snapshot_date,
+           COUNT(*)::INTEGER,
+           ROUND(AVG(s.overall_completion))::INTEGER,
+           COUNT(*) FILTER (WHERE s.overall_completion >= 100)::INTEGER
+    FROM course_progress_snapshots s
+    WHERE s.course_id = p_course_id
+      AND s.snapshot_date BETWEEN p_from AND p_to
+    GROUP BY s.snapshot_date
+    ORDER BY s.snapshot_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Snapshots are written and aggregated by the server only; functions are executable by PUBLIC by default
+REVOKE EXECUTE ON FUNCTION snapshot_course_progress(DATE, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION course_progress_series(UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION snapshot_course_progress(DATE, DATE, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION course_progress_series(UUID, DATE, DATE) TO service_role;
+
+-- Superseded by snapshot_course_progress(); it averaged course_materials progress over
+-- course_enrollments rather than the lesson completion the course progress API reports
+DROP FUNCTION IF EXISTS generate_daily_progress_snapshot();
+
+COMMENT ON COLUMN course_progress_snapshots.completed_materials IS 'Lessons completed by the end of snapshot_date';
+COMMENT ON COLUMN course_progress_snapshots.total_materials IS 'Lessons in the course when the snapshot was taken';
@@ -0,0 +1,74 @@
+/**
+ * ADAPTIVE ENGINE TESTS - 7P Education
+ * Rasch ability estimation, question selection and stopping criteria
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { AdaptiveEngine } from '@/services/adaptive-engine';
+import type { Question, DifficultyLevel, AdaptiveItemResult } from '@/types/assessment';
+
+const buildQuestion = (id: string, difficulty: DifficultyLevel): Question => ({
+  id,
+  assessment_id: 'as-1',
+  question_text: `Question ${id}`,
+  question_type: 'true_false',
+  correct_answer: 'true',
+  points: 1,
+  difficulty,
+  tags: [],
+  order_index: 0,
+  created_at: '2025-08-27T00:00:00.000Z',
+  updated_at: '2025-08-27T00:00:00.000Z'
+});
+
+const pool = [
+  buildQuestion('e1', 'easy'), buildQuestion('e2', 'easy'),
+  buildQuestion('m1', 'medium'), buildQuestion('m2', 'medium'),
+  buildQuestion('h1', 'hard'), buildQuestion('h2', 'hard')
+];
+
+const criteria = { max_questions: 5, min_questions: 3, confidence_threshold: 0.95, time_limit: 30 };
+
+const answers = (difficulty: DifficultyLevel, correct: boolean, count: number): AdaptiveItemResult[] =>
+  Array.from({ length: count }, (_, i) => ({ question_id: `${difficulty}-${i}`, difficulty, correct }));
+
+describe('Adaptive engine', () => {
+  it('should start with a medium question at average ability', () => {
+    const state = AdaptiveEngine.initialState('as-1', 'u-1', criteria, pool, () => 0);
+    expect(state.ability_estimate).toBe(0);
+    expect(state.next_question_id).toBe('m1');
+  });
+
+  it('should raise the estimate after correct answers and lower it after wrong ones', () => {
+    const strong = AdaptiveEngine.estimateAbility(answers('hard', true, 4));
+    const weak = AdaptiveEngine.estimateAbility(answers('easy', false, 4));
+
+    expect(strong.ability).toBeGreaterThan(1);
+    expect(weak.ability).toBeLessThan(-1);
+    expect(strong.standardError).toBeLessThan(1);
+  });
+
+  it('should move to harder questions after a correct answer', () => {
+    let state = AdaptiveEngine.initialState('as-1', 'u-1', criteria, pool, () => 0);
+    state = AdaptiveEngine.recordAnswer(state, pool, { question_id: 'm1', difficulty: 'medium', correct: true }, 1, () => 0);
+    state = AdaptiveEngine.recordAnswer(state, pool, { question_id: state.next_question_id as string, difficulty: 'medium', correct: true }, 2, () => 0);
+
+    expect(state.current_difficulty).toBe('hard');
+    expect(state.next_question_id).toBe('h1');
+    expect(state.completed_questions).toEqual(['m1', 'm2']);
+  });
+
+  it('should stop at the configured criteria', () => {
+    let state = AdaptiveEngine.initialState('as-1', 'u-1', criteria, pool, () => 0);
+    for (let i = 0; i < criteria.max_questions; i++) {
+      const question = pool.find(q => q.id === state.next_question_id) as Question;
+      state = AdaptiveEngine.recordAnswer(state, pool, { question_id: question.id, difficulty: question.difficulty, correct: i % 2 === 0 }, i, () => 0);
+    }
+
+    expect(state.stop_reason).toBe('max_questions');
+    expect(state.next_question_id).toBeUndefined();
+
+    const timedOut = AdaptiveEngine.initialState('as-1', 'u-1', criteria, pool, () => 0);
+    expect(AdaptiveEngine.stopReason(timedOut, 45)).toBe('time_limit');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * QUIZ TIMER TESTS - 7P Education
+ * Server-side attempt deadlines and per-question time limits
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { AssessmentService } from '@/services/assessment-service';
+import type { Question } from '@/types/assessment';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+describe('Quiz attempt deadlines', () => {
+  const startedAt = '2025-08-27T10:00:00.000Z';
+
+  it('should end the attempt after the time limit', () => {
+    const deadline = AssessmentService.getAttemptDeadline({
+      started_at: startedAt,
+      assessment: { time_limit: 45 }
+    });
+    expect(deadline.toISOString()).toBe('2025-08-27T10:45:00.000Z');
+  });
+
+  it('should cap the deadline at the availability window', () => {
+    const deadline = AssessmentService.getAttemptDeadline({
+      started_at: startedAt,
+      assessment: { time_limit: 45, available_until: '2025-08-27T10:20:00.000Z' }
+    });
+    expect(deadline.toISOString()).toBe('2025-08-27T10:20:00.000Z');
+  });
+
+  it('should prefer the deadline stored when the attempt started', () => {
+    const deadline = AssessmentService.getAttemptDeadline({
+      started_at: startedAt,
+      expires_at: '2025-08-27T10:30:00.000Z',
+      assessment: { time_limit: 90 }
+    });
+    expect(deadline.toISOString()).toBe('2025-08-27T10:30:00.000Z');
+  });
+
+  it('should give no credit for answers past a question time limit', async () => {
+    const question: Question = {
+      id: 'q-1',
+      assessment_id: 'as-1',
+      question_text: '2 + 2 = 4',
+      question_type: 'true_false',
+      correct_answer: 'true',
+      points: 2,
+      difficulty: 'easy',
+      tags: [],
+      order_index: 0,
+      time_limit: 60,
+      created_at: startedAt,
+      updated_at: startedAt
+    };
+    const attempt = { id: 'at-1', user_id: 'u-1', assessment_id: 'as-1', assessment: { passing_score: 50 } };
+
+    const onTime = await AssessmentService['gradeQuizAttempt'](attempt, [question], [
+      { question_id: 'q-1', answer: 'true', time_spent: 80 }
+    ]);
+    const late = await AssessmentService['gradeQuizAttempt'](attempt, [question], [
+      { question_id: 'q-1', answer: 'true', time_spent: 200 }
+    ]);
+
+    expect(onTime.score).toBe(2);
+    expect(late.score).toBe(0);
+    expect(late.question_results[0].feedback).toBe('Answered after the question time limit');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * QUIZ AUTOSAVE TESTS - 7P Education
+ * Tab ownership of in-progress attempts and autosave payload validation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { submitQuizResponseSchema, submitQuizAttemptSchema } from '@/lib/validation/assessment';
+import { AssessmentService } from '@/services/assessment-service';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+const tabA = '6f1c2a9e-1b7d-4c3a-9e55-0d4f3b2a1c10';
+const tabB = '0b8e7d6c-5a4f-4e3d-8c2b-1a0f9e8d7c6b';
+
+const heldBy = (sessionId: string | undefined, secondsAgo: number) => ({
+  active_session_id: sessionId,
+  active_session_seen_at: new Date(Date.now() - secondsAgo * 1000).toISOString()
+});
+
+describe('Quiz autosave', () => {
+  describe('Session ownership', () => {
+    const isHeld = (attempt: ReturnType<typeof heldBy>, sessionId: string) =>
+      AssessmentService['isHeldByOtherSession'](attempt, sessionId);
+
+    it('should let the holding tab keep saving', () => {
+      expect(isHeld(heldBy(tabA, 5), tabA)).toBe(false);
+    });
+
+    it('should block a second tab while the first is active', () => {
+      expect(isHeld(heldBy(tabA, 5), tabB)).toBe(true);
+    });
+
+    it('should release attempts whose tab has gone quiet', () => {
+      expect(isHeld(heldBy(tabA, 600), tabB)).toBe(false);
+      expect(isHeld(heldBy(undefined, 0), tabB)).toBe(false);
+    });
+  });
+
+  describe('Payload validation', () => {
+    it('should require a session id on autosave', () => {
+      const result = submitQuizResponseSchema.safeParse({
+        attempt_id: tabA,
+        question_id: tabB,
+        answer: 'true',
+        time_spent: 12
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should accept a final submission relying on autosaved answers', () => {
+      const result = submitQuizAttemptSchema.safeParse({
+        attempt_id: tabA,
+        total_time_spent: 600
+      });
+      expect(result.success).toBe(true);
+      expect(result.data?.responses).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * DRAG & DROP QUESTION TESTS - 7P Education
+ * Authoring validation and student rendering for ordering / matching questions
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { createQuestionSchema } from '@/lib/validation/assessment';
+import { AssessmentService } from '@/services/assessment-service';
+import type { Question } from '@/types/assessment';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn()
+}));
+
+const items = [
+  { id: 'a', content: 'Discover' },
+  { id: 'b', content: 'Define' },
+  { id: 'c', content: 'Deliver' }
+];
+
+const baseQuestion = {
+  question_text: 'Put the design phases in order',
+  question_type: 'drag_drop' as const,
+  points: 6,
+  order_index: 0
+};
+
+describe('Drag & drop questions', () => {
+  describe('Authoring validation', () => {
+    it('should accept an ordering question listing every item once', () => {
+      const result = createQuestionSchema.safeParse({
+        ...baseQuestion,
+        drag_drop: { mode: 'ordering', items },
+        correct_answer: ['a', 'b', 'c']
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject an ordering answer with missing items', () => {
+      const result = createQuestionSchema.safeParse({
+        ...baseQuestion,
+        drag_drop: { mode: 'ordering', items },
+        correct_answer: ['a', 'b']
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should require every item to be matched to a known target', () => {
+      const drag_drop = {
+        mode: 'matching',
+        items,
+        targets: [{ id: 'x', content: 'Research' }, { id: 'y', content: 'Build' }]
+      };
+
+      expect(createQuestionSchema.safeParse({
+        ...baseQuestion,
+        drag_drop,
+        correct_answer: ['a:x', 'b:x', 'c:y']
+      }).success).toBe(true);
+
+      expect(createQuestionSchema.safeParse({
+        ...baseQuestion,
+        drag_drop,
+        correct_answer: ['a:x', 'b:z', 'c:y']
+      }).success).toBe(false);
+    });
+
+    it('should require drag-drop settings only on drag_drop questions', () => {
+      expect(createQuestionSchema.safeParse({
+        ...baseQuestion,
+        correct_answer: ['a', 'b', 'c']
+      }).success).toBe(false);
+
+      expect(createQuestionSchema.safeParse({
+        ...baseQuestion,
+        question_type: 'true_false',
+        drag_drop: { mode: 'ordering', items },
+        correct_answer: 'true'
+      }).success).toBe(false);
+    });
+  });
+
+  describe('Attempt rendering', () => {
+    const question: Question = {
+      ...baseQuestion,
+      id: 'q-1',
+      assessment_id: 'as-1',
+      drag_drop: { mode: 'ordering', items, partial_credit: true },
+      correct_answer: ['a', 'b', 'c'],
+      explanation: 'Double diamond',
+      difficulty: 'medium',
+      tags: [],
+      created_at: '2025-08-27T00:00:00.000Z',
+      updated_at: '2025-08-27T00:00:00.000Z'
+    };
+
+    it('should hide the answer and explanation', () => {
+      const rendered = AssessmentService.toAttemptQuestion(question);
+      expect(rendered).not.toHaveProperty('correct_answer');
+      expect(rendered).not.toHaveProperty('explanation');
+    });
+
+    it('should never present an ordering question already solved', () => {
+      for (let i = 0; i < 20; i++) {
+        const rendered = AssessmentService.toAttemptQuestion(question);
+        expect(rendered.drag_drop?.items.map(item => item.id)).not.toEqual(['a', 'b', 'c']);
+        expect(rendered.drag_drop?.items).toHaveLength(3);
+      }
+    });
+  });
+
+  describe('Matching grading', () => {
+    const question: Question = {
+      ...baseQuestion,
+      id: 'q-2',
+      assessment_id: 'as-1',
+      drag_drop: {
+        mode: 'matching',
+        items: items.slice(0, 2),
+        targets: [{ id: 'x', content: 'Research' }, { id: 'y', content: 'Build' }],
+        partial_credit: true
+      },
+      correct_answer: ['a:x', 'b:y'],
+      difficulty: 'medium',
+      tags: [],
+      created_at: '2025-08-27T00:00:00.000Z',
+      updated_at: '2025-08-27T00:00:00.000Z'
+    };
+
+    const grade = (answer: string[]) => AssessmentService['gradeQuestion'](question, answer);
+
+    it('should give full points for the correct pairs', () => {
+      expect(grade(['b:y', 'a:x'])).toMatchObject({ is_correct: true, points_earned: 6 });
+    });
+
+    it('should give partial credit for each correctly placed item', () => {
+      expect(grade(['a:x', 'b:x'])).toMatchObject({ is_correct: false, points_earned: 3 });
+    });
+
+    it('should give nothing for an answer submitting every combination', () => {
+      expect(grade(['a:x', 'a:y', 'b:x', 'b:y'])).toMatchObject({ is_correct: false, points_earned: 0 });
+    });
+
+    it('should deduct extra placements of an item', () => {
+      expect(grade(['a:x', 'b:y', 'b:x'])).toMatchObject({ is_correct: false, points_earned: 0 });
+    });
+
+    it('should reject unknown items and drop zones', () => {
+      expect(grade(['a:x', 'b:y', 'z:x']).points_earned).toBe(0);
+      expect(grade(['a:x', 'b:z']).points_earned).toBe(0);
+    });
+  });
+});
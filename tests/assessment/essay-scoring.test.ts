@@ -0,0 +1,83 @@
+/**
+ * ESSAY SCORING TESTS - 7P Education
+ * Suggested score providers used by the manual grading queue
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  HeuristicEssayScorer,
+  getEssayScoringProvider,
+  registerEssayScoringProvider
+} from '@/services/essay-scoring';
+import type { Question, GradingRubric } from '@/types/assessment';
+
+const question: Question = {
+  id: 'q-essay',
+  assessment_id: 'a-1',
+  question_text: 'Explain how a marketplace listing ranks in search.',
+  question_type: 'essay',
+  correct_answer: '',
+  points: 10,
+  difficulty: 'medium',
+  tags: ['ranking'],
+  order_index: 0,
+  created_at: '2025-08-27T00:00:00.000Z',
+  updated_at: '2025-08-27T00:00:00.000Z'
+};
+
+const rubric: GradingRubric = {
+  id: 'r-1',
+  assessment_id: 'a-1',
+  criteria: [
+    {
+      id: 'c-1',
+      name: 'Content',
+      description: 'Covers the key ranking factors',
+      max_points: 4,
+      levels: {
+        excellent: { points: 4, description: '' },
+        good: { points: 3, description: '' },
+        satisfactory: { points: 2, description: '' },
+        needs_improvement: { points: 1, description: '' }
+      }
+    }
+  ],
+  total_points: 4,
+  created_at: '2025-08-27T00:00:00.000Z',
+  updated_at: '2025-08-27T00:00:00.000Z'
+};
+
+describe('Essay scoring providers', () => {
+  const scorer = new HeuristicEssayScorer();
+
+  it('should give a low suggestion for a short answer', async () => {
+    const suggestion = await scorer.suggest(question, 'Too short.');
+    expect(suggestion.provider).toBe('heuristic');
+    expect(suggestion.points).toBe(0);
+    expect(suggestion.max_points).toBe(10);
+  });
+
+  it('should reward length and tag keywords', async () => {
+    const answer = Array.from({ length: 120 }, () => 'ranking').join(' ');
+    const suggestion = await scorer.suggest(question, answer);
+    expect(suggestion.points).toBe(10);
+  });
+
+  it('should map the suggestion onto rubric levels', async () => {
+    const suggestion = await scorer.suggest(question, 'ranking', rubric);
+    expect(suggestion.rubric_scores).toEqual([
+      { criterion_id: 'c-1', level: 'needs_improvement', points: 1 }
+    ]);
+  });
+
+  it('should resolve registered providers and disable unknown ones', () => {
+    registerEssayScoringProvider('fixed', () => ({
+      name: 'fixed',
+      suggest: async () => ({ provider: 'fixed', points: 5, max_points: 10, feedback: '' })
+    }));
+
+    expect(getEssayScoringProvider('fixed')?.name).toBe('fixed');
+    expect(getEssayScoringProvider('heuristic')).toBeInstanceOf(HeuristicEssayScorer);
+    expect(getEssayScoringProvider('none')).toBeNull();
+  });
+});
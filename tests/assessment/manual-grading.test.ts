@@ -0,0 +1,283 @@
+/**
+ * MANUAL GRADING TESTS - 7P Education
+ * Instructor grading queue and recomputing the attempt result after manual grades
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { AssessmentService } from '@/services/assessment-service';
+import { createClient } from '@/utils/supabase/server';
+import type { ManualGrading } from '@/lib/validation/assessment';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+type QueryResult = { data: unknown; error: { message: string } | null; count?: number };
+
+// Each from() call answers with the next queued result and records its table and chained calls
+let results: QueryResult[] = [];
+let calls: Array<{ table: string; method: string; args: unknown[] }> = [];
+
+const builder = (table: string, result: QueryResult): unknown => new Proxy({}, {
+  get: (_target, prop: string) => prop === 'then'
+    ? (resolve: (value: QueryResult) => unknown) => resolve(result)
+    : (...args: unknown[]) => {
+      calls.push({ table, method: prop, args });
+      return builder(table, result);
+    }
+});
+
+const callsTo = (table: string, method: string) =>
+  calls.filter(call => call.table === table && call.method === method);
+
+const ok = (data: unknown = null): QueryResult => ({ data, error: null });
+
+beforeEach(() => {
+  results = [];
+  calls = [];
+  (createClient as jest.Mock).mockReturnValue({
+    from: (table: string) => builder(table, results.shift() ?? ok())
+  });
+});
+
+describe('AssessmentService.getGradingQueue', () => {
+  const queueRow = (overrides: Record<string, unknown> = {}) => ({
+    id: 'attempt-1',
+    assessment_id: 'assessment-1',
+    user_id: 'student-1',
+    attempt_number: 1,
+    submitted_at: '2025-08-27T10:00:00.000Z',
+    assessment: { title: 'Essay Quiz' },
+    student: { name: 'Ali' },
+    responses: [
+      { needs_manual_grading: true },
+      { needs_manual_grading: false },
+      { needs_manual_grading: null }
+    ],
+    ...overrides
+  });
+
+  it('should list submitted attempts of the instructor with their ungraded responses', async () => {
+    results = [{ data: [queueRow(), queueRow({ id: 'attempt-2', student: null })], error: null, count: 2 }];
+
+    const { items, total } = await AssessmentService.getGradingQueue('instructor-1', { page: 1, limit: 20 });
+
+    expect(total).toBe(2);
+    expect(items[0]).toEqual({
+      attempt_id: 'attempt-1',
+      assessment_id: 'assessment-1',
+      assessment_title: 'Essay Quiz',
+      user_id: 'student-1',
+      student_name: 'Ali',
+      attempt_number: 1,
+      submitted_at: '2025-08-27T10:00:00.000Z',
+      pending_responses: 1,
+      total_responses: 3
+    });
+    expect(items[1].student_name).toBe('Unknown');
+
+    const filters = callsTo('quiz_attempts', 'eq').map(call => call.args);
+    expect(filters).toContainEqual(['status', 'submitted']);
+    expect(filters).toContainEqual(['assessment.instructor_id', 'instructor-1']);
+  });
+
+  it('should serve the oldest submissions first, one page at a time', async () => {
+    results = [{ data: [], error: null, count: 0 }];
+
+    await AssessmentService.getGradingQueue('instructor-1', { assessment_id: 'assessment-1', page: 2, limit: 10 });
+
+    expect(callsTo('quiz_attempts', 'order')[0].args).toEqual(['submitted_at', { ascending: true }]);
+    expect(callsTo('quiz_attempts', 'range')[0].args).toEqual([10, 19]);
+    expect(callsTo('quiz_attempts', 'eq').map(call => call.args)).toContainEqual(['assessment_id', 'assessment-1']);
+  });
+
+  it('should report query failures', async () => {
+    results = [{ data: null, error: { message: 'timeout' } }];
+
+    await expect(
+      AssessmentService.getGradingQueue('instructor-1', { page: 1, limit: 20 })
+    ).rejects.toThrow('Failed to fetch grading queue: timeout');
+  });
+});
+
+describe('AssessmentService.gradeAttempt', () => {
+  const attempt = (overrides: Record<string, unknown> = {}) => ok({
+    id: 'attempt-1',
+    assessment_id: 'assessment-1',
+    user_id: 'student-1',
+    status: 'submitted',
+    feedback: null,
+    question_ids: null,
+    assessment: { instructor_id: 'instructor-1', title: 'Essay Quiz', passing_score: 70, grading_method: 'manual' },
+    ...overrides
+  });
+
+  const questions = ok([
+    { id: 'question-mc', points: 10, question_type: 'multiple_choice', draw_section_id: null },
+    { id: 'question-essay', points: 10, question_type: 'essay', draw_section_id: null }
+  ]);
+
+  const rubric = {
+    id: 'rubric-1',
+    assessment_id: 'assessment-1',
+    criteria: [
+      { id: 'criterion-content', name: 'Content', description: 'Covers the topic', max_points: 6 },
+      { id: 'criterion-style', name: 'Style', description: 'Reads clearly', max_points: 4 }
+    ],
+    total_points: 10,
+    created_at: '2025-08-27T09:00:00.000Z',
+    updated_at: '2025-08-27T09:00:00.000Z'
+  };
+
+  const responses = (essayPoints: number | null, needsManualGrading = false) => ok([
+    { question_id: 'question-mc', points_earned: 10, needs_manual_grading: false },
+    { question_id: 'question-essay', points_earned: essayPoints, needs_manual_grading: needsManualGrading }
+  ]);
+
+  const grading = (overrides: Partial<ManualGrading> = {}): ManualGrading => ({
+    attempt_id: 'attempt-1',
+    question_responses: [{ question_id: 'question-essay', points_earned: 6 }],
+    release: true,
+    ...overrides
+  });
+
+  const attemptUpdate = () => callsTo('quiz_attempts', 'update')[0].args[0] as Record<string, unknown>;
+
+  it('should recompute score, percentage and pass state when releasing the grades', async () => {
+    results = [attempt(), questions, ok([]), ok([{ id: 'response-essay' }]), responses(6), ok({ id: 'attempt-1' })];
+
+    await AssessmentService.gradeAttempt('assessment-1', 'attempt-1', 'instructor-1', grading());
+
+    expect(callsTo('question_responses', 'update')[0].args[0]).toMatchObject({
+      points_earned: 6,
+      needs_manual_grading: false,
+      graded_by: 'instructor-1'
+    });
+    expect(attemptUpdate()).toMatchObject({
+      status: 'graded',
+      score: 16,
+      max_score: 20,
+      percentage: 80,
+      passed: true,
+      requires_manual_grading: false
+    });
+  });
+
+  it('should fail the attempt when the manual grade leaves it below the passing score', async () => {
+    results = [attempt(), questions, ok([]), ok([{ id: 'response-essay' }]), responses(2), ok({ id: 'attempt-1' })];
+
+    await AssessmentService.gradeAttempt(
+      'assessment-1',
+      'attempt-1',
+      'instructor-1',
+      grading({ question_responses: [{ question_id: 'question-essay', points_earned: 2 }] })
+    );
+
+    expect(attemptUpdate()).toMatchObject({ score: 12, percentage: 60, passed: false });
+  });
+
+  it('should recompute an already graded attempt when a grade changes', async () => {
+    results = [
+      attempt({ status: 'graded' }),
+      questions,
+      ok([]),
+      ok([{ id: 'response-essay' }]),
+      responses(4),
+      ok({ id: 'attempt-1' })
+    ];
+
+    await AssessmentService.gradeAttempt(
+      'assessment-1',
+      'attempt-1',
+      'instructor-1',
+      grading({ question_responses: [{ question_id: 'question-essay', points_earned: 4 }], release: false })
+    );
+
+    expect(attemptUpdate()).toMatchObject({ score: 14, percentage: 70, passed: true });
+  });
+
+  it('should keep the result hidden until the grades are released', async () => {
+    results = [attempt(), questions, ok([]), ok([{ id: 'response-essay' }]), responses(6), ok({ id: 'attempt-1' })];
+
+    await AssessmentService.gradeAttempt(
+      'assessment-1',
+      'attempt-1',
+      'instructor-1',
+      grading({ release: false, overall_feedback: 'Good start' })
+    );
+
+    expect(attemptUpdate()).toEqual({ feedback: 'Good start', updated_at: expect.any(String) });
+  });
+
+  it('should not release an attempt with ungraded responses', async () => {
+    results = [attempt(), questions, ok([]), responses(null, true)];
+
+    await expect(
+      AssessmentService.gradeAttempt('assessment-1', 'attempt-1', 'instructor-1', grading({ question_responses: [] }))
+    ).rejects.toThrow('Ungraded responses remain');
+    expect(callsTo('quiz_attempts', 'update')).toHaveLength(0);
+  });
+
+  it('should scale rubric points to the question value', async () => {
+    results = [attempt(), questions, ok([rubric]), ok([{ id: 'response-essay' }]), responses(7), ok({ id: 'attempt-1' })];
+
+    await AssessmentService.gradeAttempt(
+      'assessment-1',
+      'attempt-1',
+      'instructor-1',
+      grading({
+        question_responses: [{
+          question_id: 'question-essay',
+          rubric_scores: [
+            { criterion_id: 'criterion-content', points: 5 },
+            { criterion_id: 'criterion-style', points: 2 }
+          ]
+        }]
+      })
+    );
+
+    expect(callsTo('question_responses', 'update')[0].args[0]).toMatchObject({ points_earned: 7, is_correct: true });
+    expect(attemptUpdate()).toMatchObject({ score: 17, percentage: 85, passed: true });
+  });
+
+  it('should only count the questions drawn for the attempt', async () => {
+    results = [
+      attempt({ question_ids: ['question-mc', 'question-essay'] }),
+      ok([
+        { id: 'question-mc', points: 10, question_type: 'multiple_choice', draw_section_id: null },
+        { id: 'question-essay', points: 10, question_type: 'essay', draw_section_id: 'section-1' },
+        { id: 'question-unused', points: 10, question_type: 'essay', draw_section_id: 'section-1' }
+      ]),
+      ok([]),
+      ok([{ id: 'response-essay' }]),
+      responses(6),
+      ok({ id: 'attempt-1' })
+    ];
+
+    await AssessmentService.gradeAttempt('assessment-1', 'attempt-1', 'instructor-1', grading());
+
+    expect(attemptUpdate()).toMatchObject({ max_score: 20, percentage: 80 });
+  });
+
+  it('should reject points above the question maximum', async () => {
+    results = [attempt(), questions, ok([])];
+
+    await expect(
+      AssessmentService.gradeAttempt(
+        'assessment-1',
+        'attempt-1',
+        'instructor-1',
+        grading({ question_responses: [{ question_id: 'question-essay', points_earned: 11 }] })
+      )
+    ).rejects.toThrow('Points exceed question maximum');
+  });
+
+  it('should not let another instructor grade the attempt', async () => {
+    results = [attempt()];
+
+    await expect(
+      AssessmentService.gradeAttempt('assessment-1', 'attempt-1', 'instructor-2', grading())
+    ).rejects.toThrow('Attempt not found or access denied');
+  });
+});
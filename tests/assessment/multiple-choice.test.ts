@@ -0,0 +1,100 @@
+/**
+ * MULTIPLE CHOICE GRADING TESTS - 7P Education
+ * Multi-select scoring strategies and option randomization
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { createQuestionSchema } from '@/lib/validation/assessment';
+import { AssessmentService } from '@/services/assessment-service';
+import type { Question, MultiSelectScoring } from '@/types/assessment';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn()
+}));
+
+const option = (id: string, isCorrect: boolean) => ({
+  id,
+  question_id: 'q-1',
+  option_text: `Option ${id}`,
+  is_correct: isCorrect,
+  order_index: 0
+});
+
+const buildQuestion = (scoring: MultiSelectScoring): Question => ({
+  id: 'q-1',
+  assessment_id: 'as-1',
+  question_text: 'Which are payment providers?',
+  question_type: 'multiple_choice',
+  options: [option('a', true), option('b', true), option('c', false), option('d', false)],
+  multi_select: true,
+  scoring_strategy: scoring,
+  correct_answer: ['Option a', 'Option b'],
+  points: 4,
+  difficulty: 'medium',
+  tags: [],
+  order_index: 0,
+  created_at: '2025-08-27T00:00:00.000Z',
+  updated_at: '2025-08-27T00:00:00.000Z'
+});
+
+const grade = (question: Question, answer: string[]) =>
+  AssessmentService['gradeQuestion'](question, answer);
+
+describe('Multiple choice grading', () => {
+  it('should only reward the exact set with all_or_nothing', () => {
+    const question = buildQuestion('all_or_nothing');
+    expect(grade(question, ['a', 'b'])).toMatchObject({ is_correct: true, points_earned: 4 });
+    expect(grade(question, ['a']).points_earned).toBe(0);
+  });
+
+  it('should credit each option judged correctly with proportional', () => {
+    const question = buildQuestion('proportional');
+    // a picked (right), b missed, c/d left alone (right) => 3 of 4
+    expect(grade(question, ['a']).points_earned).toBe(3);
+    // selecting everything judges only a and b correctly
+    expect(grade(question, ['a', 'b', 'c', 'd']).points_earned).toBe(2);
+  });
+
+  it('should give no proportional credit for a blank answer', () => {
+    const question = buildQuestion('proportional');
+    expect(grade(question, [])).toMatchObject({ is_correct: false, points_earned: 0 });
+  });
+
+  it('should subtract wrong picks with penalty, never below zero', () => {
+    const question = buildQuestion('penalty');
+    expect(grade(question, ['a', 'c']).points_earned).toBe(0);
+    expect(grade(question, ['a', 'b', 'c']).points_earned).toBe(2);
+    expect(grade(question, ['c', 'd']).points_earned).toBe(0);
+  });
+
+  it('should accept option text as well as option ids', () => {
+    const question = buildQuestion('all_or_nothing');
+    expect(grade(question, ['Option a', 'Option b']).is_correct).toBe(true);
+  });
+
+  it('should reject single-select questions with several correct options', () => {
+    const result = createQuestionSchema.safeParse({
+      question_text: 'Pick one',
+      question_type: 'multiple_choice',
+      options: [
+        { option_text: 'A', is_correct: true, order_index: 0 },
+        { option_text: 'B', is_correct: true, order_index: 1 }
+      ],
+      correct_answer: ['A', 'B'],
+      points: 1,
+      order_index: 0
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should shuffle options deterministically per attempt', () => {
+    const question = buildQuestion('all_or_nothing');
+    const serve = () => AssessmentService.toAttemptQuestion(question, {
+      shuffleOptions: true,
+      random: AssessmentService['seededRandom']('attempt-1')
+    });
+
+    expect(serve().options?.map(o => o.id)).toEqual(serve().options?.map(o => o.id));
+    serve().options?.forEach(o => expect(o).not.toHaveProperty('is_correct'));
+  });
+});
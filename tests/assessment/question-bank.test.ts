@@ -0,0 +1,75 @@
+/**
+ * QUESTION BANK TESTS - 7P Education
+ * Random draw per attempt, category trees and draw section validation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { createDrawSectionSchema } from '@/lib/validation/assessment';
+import { AssessmentService } from '@/services/assessment-service';
+import { QuestionBankService } from '@/services/question-bank-service';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+const questions = [
+  { id: 'fixed-1', order_index: 0 },
+  ...['p1', 'p2', 'p3', 'p4'].map((id, i) => ({ id, order_index: i + 1, draw_section_id: 'section-1' })),
+  { id: 'fixed-2', order_index: 5 }
+];
+
+describe('Question banks', () => {
+  describe('Random draw', () => {
+    const draw = (random?: () => number) =>
+      AssessmentService['drawQuestionIds'](questions, [{ id: 'section-1', draw_count: 2 }], random);
+
+    it('should keep fixed questions and draw the configured count from each pool', () => {
+      const drawn = draw() as string[];
+      expect(drawn).toHaveLength(4);
+      expect(drawn[0]).toBe('fixed-1');
+      expect(drawn[3]).toBe('fixed-2');
+      expect(drawn.filter(id => id.startsWith('p'))).toHaveLength(2);
+    });
+
+    it('should give attempts different question sets', () => {
+      expect(draw(() => 0)).not.toEqual(draw(() => 0.99));
+    });
+
+    it('should ask every question when there are no draw sections', () => {
+      expect(AssessmentService['drawQuestionIds'](questions, [])).toBeNull();
+    });
+  });
+
+  it('should roll question counts up the category tree', () => {
+    const category = (id: string, parentId?: string) => ({
+      id,
+      name: id,
+      description: '',
+      parent_id: parentId,
+      created_by: 'instructor-1',
+      created_at: '2025-08-27T00:00:00.000Z',
+      updated_at: '2025-08-27T00:00:00.000Z'
+    });
+
+    const tree = QuestionBankService['buildCategoryTree'](
+      [category('math'), category('algebra', 'math'), category('linear', 'algebra')],
+      new Map([['math', 2], ['linear', 5]])
+    );
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].question_count).toBe(7);
+    expect(tree[0].children?.[0].question_count).toBe(5);
+  });
+
+  it('should require a bank or category to draw from', () => {
+    expect(createDrawSectionSchema.safeParse({ title: 'Warm-up', draw_count: 3 }).success).toBe(false);
+    expect(createDrawSectionSchema.safeParse({
+      title: 'Warm-up',
+      category_id: '6f1c2a9e-1b7d-4c3a-9e55-0d4f3b2a1c10',
+      difficulty: 'easy',
+      tags: ['algebra'],
+      draw_count: 3
+    }).success).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * PAID ENROLLMENT TESTS - 7P Education
+ * Stripe payment verification before granting paid enrollments
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EnrollmentService } from '@/services/enrollment-service';
+import { stripe } from '@/lib/stripe';
+import {
+  getCoursePrice,
+  getPaymentProvider,
+  getPaymentTransactionByStripeId,
+  getStripeCustomerByUserId
+} from '@/lib/payments';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+jest.mock('@/lib/stripe', () => ({
+  stripe: { paymentIntents: { retrieve: jest.fn() } },
+  toCents: (amount: number) => Math.round(amount * 100)
+}));
+
+jest.mock('@/lib/payments', () => ({
+  getCoursePrice: jest.fn(),
+  getPaymentProvider: jest.fn(),
+  getPaymentTransactionByStripeId: jest.fn(),
+  getStripeCustomerByUserId: jest.fn()
+}));
+
+const retrieve = stripe!.paymentIntents.retrieve as unknown as jest.Mock<(id: string) => Promise<unknown>>;
+
+const resolve = (fn: unknown, value: unknown) =>
+  (fn as jest.Mock<() => Promise<unknown>>).mockResolvedValue(value);
+
+const verify = (paymentIntentId = 'pi_1') =>
+  EnrollmentService['verifyStripePayment'](paymentIntentId, 'course-1', 'user-1');
+
+describe('Paid enrollment payment verification', () => {
+  beforeEach(() => {
+    // The Stripe provider retrieves intents through the Stripe client
+    (getPaymentProvider as unknown as jest.Mock<() => unknown>).mockReturnValue({
+      name: 'stripe',
+      retrievePaymentIntent: retrieve
+    });
+    retrieve.mockResolvedValue({
+      id: 'pi_1',
+      status: 'succeeded',
+      customer: 'cus_1',
+      amount_received: 4999,
+      currency: 'usd',
+      metadata: { courseId: 'course-1' }
+    });
+    resolve(getStripeCustomerByUserId, { stripe_customer_id: 'cus_1' });
+    resolve(getCoursePrice, { price_amount: 4999, currency: 'USD' });
+    resolve(getPaymentTransactionByStripeId, null);
+  });
+
+  it('should accept a succeeded payment for the course price', async () => {
+    await expect(verify()).resolves.toBeUndefined();
+  });
+
+  it('should reject payments that have not succeeded', async () => {
+    retrieve.mockResolvedValue({ status: 'requires_payment_method' });
+    await expect(verify()).rejects.toThrow('Payment has not succeeded');
+  });
+
+  it('should reject unknown payment intents', async () => {
+    retrieve.mockRejectedValue(new Error('No such payment_intent'));
+    await expect(verify('pi_made_up')).rejects.toThrow('Payment not found');
+  });
+
+  it('should reject payments from another customer', async () => {
+    resolve(getStripeCustomerByUserId, { stripe_customer_id: 'cus_2' });
+    await expect(verify()).rejects.toThrow('Payment does not belong to this user');
+  });
+
+  it('should reject payments below the course price', async () => {
+    resolve(getCoursePrice, { price_amount: 9999, currency: 'USD' });
+    await expect(verify()).rejects.toThrow('Payment amount does not match the course price');
+  });
+
+  it('should accept the discounted amount priced at checkout', async () => {
+    resolve(getCoursePrice, { price_amount: 9999, currency: 'USD' });
+    resolve(getPaymentTransactionByStripeId, {
+      course_id: 'course-1',
+      amount: 4999,
+      discount_code_id: 'dc-1'
+    });
+    await expect(verify()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * BUNDLE PRICING TESTS - 7P Education
+ * Pro-rated bundle prices and per-course allocation of the amount paid
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { BundleService } from '@/services/bundle-service';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+describe('Bundle pro-rated pricing', () => {
+  const courses = [
+    { price_amount: 10000, owned: false },
+    { price_amount: 6000, owned: false },
+    { price_amount: 4000, owned: false }
+  ];
+
+  it('should charge the full bundle price when nothing is owned', () => {
+    expect(BundleService.calculateProratedPrice(15000, courses)).toBe(15000);
+  });
+
+  it('should discount courses the buyer already owns by their share', () => {
+    const owned = courses.map((course, index) => ({ ...course, owned: index === 0 }));
+    expect(BundleService.calculateProratedPrice(15000, owned)).toBe(7500);
+  });
+
+  it('should charge the bundle price for bundles of free courses', () => {
+    expect(BundleService.calculateProratedPrice(5000, [{ price_amount: 0, owned: true }, { price_amount: 0, owned: false }])).toBe(5000);
+  });
+});
+
+describe('Bundle amount allocation', () => {
+  it('should split the amount by individual price and add up to the amount paid', () => {
+    const allocation = BundleService.allocateAmount(10001, [
+      { course_id: 'a', price_amount: 1000 },
+      { course_id: 'b', price_amount: 1000 },
+      { course_id: 'c', price_amount: 1000 }
+    ]);
+
+    expect(allocation).toEqual({ a: 3334, b: 3334, c: 3333 });
+    expect(Object.values(allocation).reduce((sum, amount) => sum + amount, 0)).toBe(10001);
+  });
+
+  it('should split evenly when the courses have no price', () => {
+    expect(BundleService.allocateAmount(900, [
+      { course_id: 'a', price_amount: 0 },
+      { course_id: 'b', price_amount: 0 }
+    ])).toEqual({ a: 450, b: 450 });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * CURRENCY TESTS - 7P Education
+ * Currency selection from request, preference and location, and locale formatting
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { currencyForCountry, selectCurrency } from '@/lib/currency';
+import { formatAmount, isSupportedCurrency } from '@/lib/stripe';
+
+describe('currencyForCountry', () => {
+  it('should map countries to their currency', () => {
+    expect(currencyForCountry('TR')).toBe('TRY');
+    expect(currencyForCountry('gb')).toBe('GBP');
+    expect(currencyForCountry('US')).toBe('USD');
+    expect(currencyForCountry('DE')).toBe('EUR');
+  });
+
+  it('should return null for countries without a supported currency', () => {
+    expect(currencyForCountry('JP')).toBeNull();
+    expect(currencyForCountry(null)).toBeNull();
+  });
+});
+
+describe('selectCurrency', () => {
+  const headers = (values: Record<string, string>) => new Headers(values);
+
+  it('should prefer an explicitly requested currency', () => {
+    expect(selectCurrency({
+      requested: 'eur',
+      preferred: 'GBP',
+      headers: headers({ 'x-vercel-ip-country': 'TR' })
+    })).toBe('EUR');
+  });
+
+  it('should ignore unsupported requested currencies', () => {
+    expect(selectCurrency({ requested: 'JPY', preferred: 'GBP' })).toBe('GBP');
+  });
+
+  it('should use the saved preference before location', () => {
+    expect(selectCurrency({
+      preferred: 'USD',
+      headers: headers({ 'cf-ipcountry': 'TR' })
+    })).toBe('USD');
+  });
+
+  it('should fall back to the geo headers', () => {
+    expect(selectCurrency({ headers: headers({ 'x-vercel-ip-country': 'TR' }) })).toBe('TRY');
+    expect(selectCurrency({ headers: headers({ 'cf-ipcountry': 'FR' }) })).toBe('EUR');
+  });
+
+  it('should use the browser language when the country is unknown', () => {
+    expect(selectCurrency({ headers: headers({ 'accept-language': 'tr,en;q=0.8' }) })).toBe('TRY');
+    expect(selectCurrency({ headers: headers({ 'accept-language': 'en-GB,en;q=0.9' }) })).toBe('GBP');
+  });
+
+  it('should default to USD', () => {
+    expect(selectCurrency({ headers: headers({ 'cf-ipcountry': 'JP' }) })).toBe('USD');
+    expect(selectCurrency({})).toBe('USD');
+  });
+});
+
+describe('formatAmount', () => {
+  it('should format each currency in its own locale', () => {
+    expect(formatAmount(129900, 'TRY')).toBe(new Intl.NumberFormat('tr-TR', { style: 'currency', currency: 'TRY' }).format(1299));
+    expect(formatAmount(4999, 'EUR')).toBe(new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(49.99));
+    expect(formatAmount(4999)).toBe('$49.99');
+  });
+});
+
+describe('isSupportedCurrency', () => {
+  it('should accept only supported upper-case codes', () => {
+    expect(isSupportedCurrency('TRY')).toBe(true);
+    expect(isSupportedCurrency('try')).toBe(false);
+    expect(isSupportedCurrency(undefined)).toBe(false);
+  });
+});
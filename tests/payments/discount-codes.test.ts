@@ -0,0 +1,97 @@
+/**
+ * DISCOUNT CODE TESTS - 7P Education
+ * Discount pricing, validity windows, scope and admin validation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { DiscountService } from '@/services/discount-service';
+import { createDiscountCodeSchema, updateDiscountCodeSchema } from '@/lib/validation/discounts';
+import type { DiscountCode, DiscountTarget } from '@/types/discount';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+const buildCode = (overrides: Partial<DiscountCode> = {}): DiscountCode => ({
+  id: 'dc-1',
+  code: 'SPRING25',
+  description: null,
+  discount_type: 'percentage',
+  percent_off: 25,
+  amount_off: null,
+  currency: null,
+  applies_to: 'all',
+  course_ids: [],
+  bundle_ids: [],
+  max_redemptions: null,
+  max_redemptions_per_user: 1,
+  redemption_count: 0,
+  starts_at: null,
+  expires_at: null,
+  is_active: true,
+  created_by: 'admin-1',
+  created_at: '2025-08-27T00:00:00.000Z',
+  updated_at: '2025-08-27T00:00:00.000Z',
+  ...overrides
+});
+
+const course: DiscountTarget = { course_id: 'course-1', amount: 4999, currency: 'USD' };
+
+describe('Discount pricing', () => {
+  it('should take a percentage off in cents', () => {
+    const quote = DiscountService.calculateDiscount(buildCode(), course);
+    expect(quote).toMatchObject({ discount_amount: 1250, final_amount: 3749, is_free: false });
+  });
+
+  it('should never discount below zero', () => {
+    const code = buildCode({ discount_type: 'fixed', percent_off: null, amount_off: 10000, currency: 'USD' });
+    const quote = DiscountService.calculateDiscount(code, course);
+    expect(quote).toMatchObject({ discount_amount: 4999, final_amount: 0, is_free: true });
+  });
+
+  it('should make the item free with a 100% off code', () => {
+    const code = buildCode({ discount_type: 'free', percent_off: null });
+    expect(DiscountService.calculateDiscount(code, course).is_free).toBe(true);
+  });
+});
+
+describe('Discount applicability', () => {
+  const now = new Date('2025-09-01T12:00:00.000Z');
+
+  it('should reject codes outside their validity window', () => {
+    expect(() => DiscountService.assertApplicable(
+      buildCode({ expires_at: '2025-08-31T00:00:00.000Z' }), course, now
+    )).toThrow('Discount code has expired');
+    expect(() => DiscountService.assertApplicable(
+      buildCode({ starts_at: '2025-09-02T00:00:00.000Z' }), course, now
+    )).toThrow('Discount code is not active yet');
+  });
+
+  it('should only apply scoped codes to the listed courses', () => {
+    const code = buildCode({ applies_to: 'courses', course_ids: ['course-2'] });
+    expect(() => DiscountService.assertApplicable(code, course, now))
+      .toThrow('Discount code does not apply to this course');
+    expect(() => DiscountService.assertApplicable(code, { ...course, course_id: 'course-2' }, now))
+      .not.toThrow();
+  });
+
+  it('should reject fixed codes in another currency', () => {
+    const code = buildCode({ discount_type: 'fixed', percent_off: null, amount_off: 500, currency: 'EUR' });
+    expect(() => DiscountService.assertApplicable(code, course, now))
+      .toThrow('Discount code is not valid for this currency');
+  });
+});
+
+describe('Discount code validation', () => {
+  it('should upper-case codes and require a value for the type', () => {
+    const parsed = createDiscountCodeSchema.safeParse({ code: 'spring25', discount_type: 'percentage', percent_off: 25 });
+    expect(parsed.success && parsed.data.code).toBe('SPRING25');
+    expect(createDiscountCodeSchema.safeParse({ code: 'FLAT5', discount_type: 'fixed' }).success).toBe(false);
+  });
+
+  it('should leave omitted fields untouched on update', () => {
+    const parsed = updateDiscountCodeSchema.parse({ max_redemptions: 100 });
+    expect(parsed).toEqual({ max_redemptions: 100 });
+  });
+});
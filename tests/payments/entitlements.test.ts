@@ -0,0 +1,164 @@
+/**
+ * SUBSCRIPTION ENTITLEMENT TESTS - 7P Education
+ * Plan coverage rules, grace periods and on-time revocation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { EntitlementService, DEFAULT_GRACE_PERIOD_DAYS, SUBSCRIPTION_ENDED_REASON } from '@/services/entitlement-service';
+import type { EntitledSubscription, PlanEntitlement, SubscriptionEnrollment } from '@/types/subscription';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+const entitlement = (overrides: Partial<PlanEntitlement>): PlanEntitlement => ({
+  id: 'entitlement-1',
+  plan_id: 'plan-1',
+  entitlement_type: 'course',
+  course_id: null,
+  category: null,
+  created_at: '2025-09-01T00:00:00.000Z',
+  ...overrides
+});
+
+const subscription = (overrides: Partial<EntitledSubscription>): EntitledSubscription => ({
+  id: 'sub-1',
+  user_id: 'user-1',
+  stripe_subscription_id: 'sub_123',
+  stripe_customer_id: 'cus_123',
+  plan_id: 'plan-1',
+  status: 'active',
+  current_period_start: '2025-09-01T00:00:00.000Z',
+  current_period_end: '2025-10-01T00:00:00.000Z',
+  trial_start: null,
+  trial_end: null,
+  canceled_at: null,
+  cancel_at_period_end: false,
+  created_at: '2025-09-01T00:00:00.000Z',
+  updated_at: '2025-09-01T00:00:00.000Z',
+  grace_period_days: null,
+  entitlements: [entitlement({ entitlement_type: 'all_courses' })],
+  ...overrides
+});
+
+describe('Plan coverage', () => {
+  const course = { id: 'course-1', category: 'Marketing' };
+
+  it('should match single courses and categories', () => {
+    expect(EntitlementService.planCoversCourse([entitlement({ course_id: 'course-1' })], course)).toBe(true);
+    expect(EntitlementService.planCoversCourse([entitlement({ course_id: 'course-2' })], course)).toBe(false);
+    expect(EntitlementService.planCoversCourse(
+      [entitlement({ entitlement_type: 'category', category: 'marketing' })],
+      course
+    )).toBe(true);
+    expect(EntitlementService.planCoversCourse(
+      [entitlement({ entitlement_type: 'category', category: 'Sales' })],
+      course
+    )).toBe(false);
+  });
+
+  it('should cover nothing without rules', () => {
+    expect(EntitlementService.planCoversCourse([], course)).toBe(false);
+  });
+});
+
+describe('Subscription access', () => {
+  const course = { id: 'course-1', category: null };
+
+  it('should grant access until the end of the paid period', () => {
+    const access = EntitlementService.resolveSubscriptionAccess(
+      [subscription({ cancel_at_period_end: true })],
+      course,
+      new Date('2025-09-20T00:00:00.000Z')
+    );
+
+    expect(access).toEqual({
+      has_access: true,
+      source: 'subscription',
+      subscription_id: 'sub-1',
+      access_until: '2025-10-01T00:00:00.000Z'
+    });
+  });
+
+  it('should revoke access at period end even before the cancellation webhook arrives', () => {
+    const access = EntitlementService.resolveSubscriptionAccess(
+      [subscription({ cancel_at_period_end: true })],
+      course,
+      new Date('2025-10-01T00:00:01.000Z')
+    );
+
+    expect(access.has_access).toBe(false);
+  });
+
+  it('should keep past_due subscriptions open for the grace period', () => {
+    const pastDue = subscription({ status: 'past_due' });
+    const graceEnd = new Date('2025-09-01T00:00:00.000Z');
+    graceEnd.setDate(graceEnd.getDate() + DEFAULT_GRACE_PERIOD_DAYS);
+
+    expect(EntitlementService.subscriptionAccessUntil(pastDue)).toEqual(graceEnd);
+    expect(EntitlementService.resolveSubscriptionAccess([pastDue], course, new Date('2025-09-05T00:00:00.000Z')).source)
+      .toBe('grace_period');
+    expect(EntitlementService.resolveSubscriptionAccess([pastDue], course, new Date('2025-09-10T00:00:00.000Z')).has_access)
+      .toBe(false);
+  });
+
+  it('should not grant access for canceled subscriptions or uncovered courses', () => {
+    expect(EntitlementService.subscriptionAccessUntil(subscription({ status: 'canceled' }))).toBeNull();
+    expect(EntitlementService.resolveSubscriptionAccess(
+      [subscription({ entitlements: [entitlement({ course_id: 'course-2' })] })],
+      course,
+      new Date('2025-09-20T00:00:00.000Z')
+    ).has_access).toBe(false);
+  });
+});
+
+describe('Subscription enrollments', () => {
+  const enrollment = (overrides: Partial<SubscriptionEnrollment>): SubscriptionEnrollment => ({
+    id: 'enrollment-1',
+    cancelled_at: null,
+    cancellation_reason: null,
+    course: { id: 'course-1', category: null },
+    ...overrides
+  });
+
+  it('should cancel open enrollments once the subscription no longer grants access', () => {
+    const enrollments = [enrollment({})];
+
+    expect(EntitlementService.subscriptionEnrollmentChanges(
+      subscription({ status: 'canceled' }),
+      enrollments,
+      new Date('2025-09-20T00:00:00.000Z')
+    )).toEqual({ cancel: ['enrollment-1'], restore: [] });
+
+    // past_due grace period ran out
+    expect(EntitlementService.subscriptionEnrollmentChanges(
+      subscription({ status: 'past_due' }),
+      enrollments,
+      new Date('2025-09-10T00:00:00.000Z')
+    )).toEqual({ cancel: ['enrollment-1'], restore: [] });
+  });
+
+  it('should cancel enrollments for courses the plan no longer covers', () => {
+    const changes = EntitlementService.subscriptionEnrollmentChanges(
+      subscription({ entitlements: [entitlement({ course_id: 'course-2' })] }),
+      [enrollment({}), enrollment({ id: 'enrollment-2', course: { id: 'course-2', category: null } })],
+      new Date('2025-09-20T00:00:00.000Z')
+    );
+
+    expect(changes).toEqual({ cancel: ['enrollment-1'], restore: [] });
+  });
+
+  it('should reopen only enrollments closed by the subscription once access is back', () => {
+    const changes = EntitlementService.subscriptionEnrollmentChanges(
+      subscription({}),
+      [
+        enrollment({ cancelled_at: '2025-09-10T00:00:00.000Z', cancellation_reason: SUBSCRIPTION_ENDED_REASON }),
+        enrollment({ id: 'enrollment-2', cancelled_at: '2025-09-10T00:00:00.000Z', cancellation_reason: 'Refunded' })
+      ],
+      new Date('2025-09-20T00:00:00.000Z')
+    );
+
+    expect(changes).toEqual({ cancel: [], restore: ['enrollment-1'] });
+  });
+});
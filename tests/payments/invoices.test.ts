@@ -0,0 +1,89 @@
+/**
+ * INVOICE TESTS - 7P Education
+ * KDV breakdown of invoice lines and PDF rendering
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { InvoiceService, KDV_RATE } from '@/services/invoice-service';
+import { renderInvoicePdf } from '@/lib/invoices/pdf';
+import type { PaymentTransaction } from '@/lib/payments';
+import type { PaymentInvoice } from '@/types/invoice';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+describe('KDV breakdown', () => {
+  it('should split KDV out of TRY prices', () => {
+    expect(InvoiceService.calculateTaxBreakdown(120000, 'TRY')).toEqual({
+      tax_rate: KDV_RATE,
+      net_amount: 100000,
+      tax_amount: 20000
+    });
+  });
+
+  it('should keep net and tax adding up to the amount paid', () => {
+    const breakdown = InvoiceService.calculateTaxBreakdown(29999, 'TRY');
+    expect(breakdown.net_amount + breakdown.tax_amount).toBe(29999);
+  });
+
+  it('should not add VAT to foreign currency sales', () => {
+    expect(InvoiceService.calculateTaxBreakdown(4900, 'USD')).toEqual({
+      tax_rate: 0,
+      net_amount: 4900,
+      tax_amount: 0
+    });
+  });
+
+  it('should build a single line per transaction', () => {
+    const transaction = { amount: 59900, currency: 'TRY' } as PaymentTransaction;
+    expect(InvoiceService.buildLines(transaction, 'Kurs: Amazon FBA')).toEqual([{
+      description: 'Kurs: Amazon FBA',
+      quantity: 1,
+      net_amount: 49917,
+      tax_rate: 20,
+      tax_amount: 9983,
+      gross_amount: 59900
+    }]);
+  });
+});
+
+describe('Invoice PDF', () => {
+  const invoice: PaymentInvoice = {
+    id: 'invoice-1',
+    invoice_number: '7P-2025-000042',
+    transaction_id: 'transaction-1',
+    user_id: 'user-1',
+    issued_at: '2025-09-20T10:00:00.000Z',
+    seller: { name: '7P Education', address_lines: ['İstanbul, Türkiye'], tax_id: '1234567890' },
+    buyer: { name: 'Ayşe Yılmaz (Test)', email: 'ayse@example.com', address_lines: [] },
+    lines: [{
+      description: 'Kurs: Amazon FBA',
+      quantity: 1,
+      net_amount: 100000,
+      tax_rate: 20,
+      tax_amount: 20000,
+      gross_amount: 120000
+    }],
+    currency: 'TRY',
+    subtotal: 100000,
+    tax_amount: 20000,
+    total: 120000,
+    created_at: '2025-09-20T10:00:00.000Z'
+  };
+
+  it('should render a PDF document with the invoice number', () => {
+    const pdf = renderInvoicePdf(invoice).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('7P-2025-000042');
+  });
+
+  it('should encode Turkish letters and escape parentheses', () => {
+    const pdf = renderInvoicePdf(invoice).toString('latin1');
+
+    expect(pdf).toContain('Ay\xfee Y\xfdlmaz \\(Test\\)');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * MOCK PAYMENT PROVIDER TESTS - 7P Education
+ * Offline payment intents, declines, 3D Secure and refunds reported as Stripe events
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type Stripe from 'stripe';
+import { createMockProvider } from '@/lib/payment-providers/mock-provider';
+
+describe('Mock payment provider', () => {
+  const events: Stripe.Event[] = [];
+  const dispatch = jest.fn(async (event: Stripe.Event) => {
+    events.push(event);
+  });
+
+  let provider = createMockProvider(dispatch);
+
+  const createIntent = () => provider.createPaymentIntent({
+    amount: 4900,
+    currency: 'TRY',
+    customerId: 'cus_mock_user1',
+    metadata: { userId: 'user-1', courseId: 'course-1', type: 'course_purchase' }
+  });
+
+  beforeEach(() => {
+    events.length = 0;
+    dispatch.mockClear();
+    provider = createMockProvider(dispatch);
+  });
+
+  it('should create a payment intent waiting for a payment method', async () => {
+    const intent = await createIntent();
+
+    expect(intent.id).toMatch(/^pi_mock_/);
+    expect(intent.status).toBe('requires_payment_method');
+    expect(intent.currency).toBe('try');
+    expect(intent.client_secret).toContain(intent.id);
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+
+  it('should emit payment_intent.succeeded with the charge when the payment succeeds', async () => {
+    const intent = await createIntent();
+    const confirmed = await provider.confirmPaymentIntent(intent.id, 'succeed');
+
+    expect(confirmed.status).toBe('succeeded');
+    expect(confirmed.amount_received).toBe(4900);
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe('payment_intent.succeeded');
+
+    const object = events[0].data.object as Stripe.PaymentIntent;
+    expect(object.id).toBe(intent.id);
+    expect(object.metadata.courseId).toBe('course-1');
+    expect(object.latest_charge).toMatch(/^ch_mock_/);
+  });
+
+  it('should emit payment_intent.payment_failed with the decline reason', async () => {
+    const intent = await createIntent();
+    const declined = await provider.confirmPaymentIntent(intent.id, 'insufficient_funds');
+
+    expect(declined.status).toBe('requires_payment_method');
+    expect(declined.last_payment_error?.code).toBe('insufficient_funds');
+    expect(events.map(event => event.type)).toEqual(['payment_intent.payment_failed']);
+  });
+
+  it('should let a declined payment be confirmed again', async () => {
+    const intent = await createIntent();
+    await provider.confirmPaymentIntent(intent.id, 'card_declined');
+    const retried = await provider.confirmPaymentIntent(intent.id, 'succeed');
+
+    expect(retried.status).toBe('succeeded');
+    expect(events.map(event => event.type)).toEqual([
+      'payment_intent.payment_failed',
+      'payment_intent.succeeded'
+    ]);
+  });
+
+  it('should hold a 3D Secure payment until the challenge is answered', async () => {
+    const intent = await createIntent();
+    const pending = await provider.confirmPaymentIntent(intent.id, 'requires_action');
+
+    expect(pending.status).toBe('requires_action');
+    expect(pending.next_action).not.toBeNull();
+    expect(events).toHaveLength(0);
+
+    const authenticated = await provider.completeAuthentication(intent.id, 'approve');
+
+    expect(authenticated.status).toBe('succeeded');
+    expect(events.map(event => event.type)).toEqual(['payment_intent.succeeded']);
+  });
+
+  it('should fail the payment when 3D Secure authentication is rejected', async () => {
+    const intent = await createIntent();
+    await provider.confirmPaymentIntent(intent.id, 'requires_action');
+    const rejected = await provider.completeAuthentication(intent.id, 'reject');
+
+    expect(rejected.last_payment_error?.code).toBe('payment_intent_authentication_failure');
+    expect(events.map(event => event.type)).toEqual(['payment_intent.payment_failed']);
+  });
+
+  it('should reject confirming a payment that already succeeded', async () => {
+    const intent = await createIntent();
+    await provider.confirmPaymentIntent(intent.id, 'succeed');
+
+    await expect(provider.confirmPaymentIntent(intent.id, 'succeed'))
+      .rejects.toThrow('Payment intent cannot be confirmed');
+    await expect(provider.completeAuthentication(intent.id, 'approve'))
+      .rejects.toThrow('Payment intent does not require authentication');
+  });
+
+  it('should emit payment_intent.canceled when an unpaid intent is canceled', async () => {
+    const intent = await createIntent();
+    const canceled = await provider.cancelPaymentIntent(intent.id);
+
+    expect(canceled.status).toBe('canceled');
+    expect(events.map(event => event.type)).toEqual(['payment_intent.canceled']);
+    await expect(provider.confirmPaymentIntent(intent.id, 'succeed'))
+      .rejects.toThrow('Payment intent cannot be confirmed');
+  });
+
+  it('should not cancel a payment that already succeeded', async () => {
+    const intent = await createIntent();
+    await provider.confirmPaymentIntent(intent.id, 'succeed');
+
+    await expect(provider.cancelPaymentIntent(intent.id)).rejects.toThrow('Payment intent cannot be canceled');
+  });
+
+  it('should refund partially and then the remaining balance with charge.refunded events', async () => {
+    const intent = await createIntent();
+    await provider.confirmPaymentIntent(intent.id, 'succeed');
+
+    const partial = await provider.createRefund({
+      paymentIntentId: intent.id,
+      amount: 1900,
+      metadata: { refundId: 'refund-1' }
+    });
+    const rest = await provider.createRefund({ paymentIntentId: intent.id });
+
+    expect(partial.amount).toBe(1900);
+    expect(partial.metadata).toEqual({ refundId: 'refund-1' });
+    expect(rest.amount).toBe(3000);
+
+    const charges = events
+      .filter(event => event.type === 'charge.refunded')
+      .map(event => event.data.object as Stripe.Charge);
+
+    expect(charges.map(charge => charge.amount_refunded)).toEqual([1900, 4900]);
+    expect(charges[1].refunded).toBe(true);
+    expect(charges[1].payment_intent).toBe(intent.id);
+
+    const refunds = await provider.listRefunds(intent.id);
+    expect(refunds.map(refund => refund.id)).toEqual([partial.id, rest.id]);
+  });
+
+  it('should not refund more than was charged', async () => {
+    const intent = await createIntent();
+    await provider.confirmPaymentIntent(intent.id, 'succeed');
+
+    await expect(provider.createRefund({ paymentIntentId: intent.id, amount: 5000 }))
+      .rejects.toThrow('Refund amount exceeds the charge');
+  });
+
+  it('should not refund a payment that has not succeeded', async () => {
+    const intent = await createIntent();
+
+    await expect(provider.createRefund({ paymentIntentId: intent.id }))
+      .rejects.toThrow('Payment intent has not succeeded');
+  });
+
+  it('should keep one customer per email', async () => {
+    const first = await provider.createCustomer({ userId: 'a1b2-c3', email: 'student@example.com' });
+    const second = await provider.createCustomer({ userId: 'a1b2-c3', email: 'student@example.com' });
+
+    expect(first).toBe('cus_mock_a1b2c3');
+    expect(second).toBe(first);
+  });
+});
+
+describe('Mock payments mode', () => {
+  const loadEnv = async (env: Record<string, string>) => {
+    const original = { ...process.env };
+    Object.assign(process.env, env);
+    jest.resetModules();
+
+    try {
+      return await import('@/lib/env');
+    } finally {
+      process.env = original;
+    }
+  };
+
+  it('should enable the mock provider outside production', async () => {
+    const env = await loadEnv({ PAYMENTS_MODE: 'mock', NODE_ENV: 'development' });
+
+    expect(env.MOCK_PAYMENTS_ENABLED).toBe(true);
+  });
+
+  it('should never enable the mock provider in production', async () => {
+    const env = await loadEnv({ PAYMENTS_MODE: 'mock', NODE_ENV: 'production' });
+
+    expect(env.MOCK_PAYMENTS_ENABLED).toBe(false);
+    expect(env.validateEnvironment().errors).toContain('PAYMENTS_MODE=mock is not allowed in production');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * PAYMENT RECONCILIATION TESTS - 7P Education
+ * Diffing a fake Stripe ledger against local transactions, purchases and enrollments
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { ReconciliationService } from '@/services/reconciliation-service';
+import { createFixtureLedger } from '@/lib/reconciliation/stripe-ledger';
+import type { PaymentTransaction } from '@/lib/payments';
+import type { LocalLedgerSnapshot, StripeLedgerSnapshot, StripePaymentRecord } from '@/types/reconciliation';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {}
+}));
+
+const intent = (overrides: Partial<StripePaymentRecord> = {}): StripePaymentRecord => ({
+  id: 'pi_1',
+  status: 'succeeded',
+  amount: 4999,
+  amount_received: 4999,
+  currency: 'USD',
+  customer: 'cus_1',
+  created: '2025-09-10T10:00:00.000Z',
+  metadata: { userId: 'user-1', courseId: 'course-1' },
+  ...overrides
+});
+
+const transaction = (overrides: Partial<PaymentTransaction> = {}): PaymentTransaction => ({
+  id: 'tx-1',
+  user_id: 'user-1',
+  stripe_payment_intent_id: 'pi_1',
+  stripe_charge_id: 'ch_1',
+  type: 'course_purchase',
+  status: 'succeeded',
+  amount: 4999,
+  refunded_amount: 0,
+  currency: 'USD',
+  description: null,
+  course_id: 'course-1',
+  bundle_id: null,
+  subscription_id: null,
+  payment_method_id: null,
+  discount_code_id: null,
+  failure_reason: null,
+  created_at: '2025-09-10T10:00:01.000Z',
+  updated_at: '2025-09-10T10:00:01.000Z',
+  ...overrides
+});
+
+const remote = (overrides: Partial<StripeLedgerSnapshot> = {}): StripeLedgerSnapshot => ({
+  payment_intents: [intent()],
+  refunds: [],
+  subscriptions: [],
+  ...overrides
+});
+
+const local = (overrides: Partial<LocalLedgerSnapshot> = {}): LocalLedgerSnapshot => ({
+  transactions: [transaction()],
+  purchases: [{
+    id: 'purchase-1',
+    user_id: 'user-1',
+    course_id: 'course-1',
+    bundle_id: null,
+    transaction_id: 'tx-1',
+    purchase_type: 'individual',
+    amount_paid: 4999,
+    currency: 'USD',
+    refunded_at: null,
+    created_at: '2025-09-10T10:00:02.000Z'
+  }],
+  enrollments: [{
+    id: 'enrollment-1',
+    user_id: 'user-1',
+    course_id: 'course-1',
+    enrolled_at: '2025-09-10T10:00:02.000Z',
+    cancelled_at: null,
+    subscription_id: null,
+    payment_intent_id: 'pi_1',
+    course_price: 49.99
+  }],
+  subscriptions: [],
+  coupon_enrollment_ids: [],
+  ...overrides
+});
+
+const types = (snapshot: { remote?: StripeLedgerSnapshot; local?: LocalLedgerSnapshot }) =>
+  ReconciliationService.diff(snapshot.remote ?? remote(), snapshot.local ?? local()).map(issue => issue.type);
+
+describe('ReconciliationService.diff', () => {
+  it('should report nothing when Stripe and the ledger agree', () => {
+    expect(types({})).toEqual([]);
+  });
+
+  it('should report a Stripe payment without a local transaction', () => {
+    expect(types({ local: local({ transactions: [], purchases: [] }) })).toContain('missing_transaction');
+  });
+
+  it('should mark a pending transaction Stripe settled as repairable', () => {
+    const [issue] = ReconciliationService.diff(remote(), local({ transactions: [transaction({ status: 'pending' })] }));
+
+    expect(issue.type).toBe('status_mismatch');
+    expect(issue.repairable).toBe(true);
+  });
+
+  it('should not repair a paid transaction Stripe did not settle', () => {
+    const [issue] = ReconciliationService.diff(
+      remote({ payment_intents: [intent({ status: 'canceled' })] }),
+      local()
+    );
+
+    expect(issue.type).toBe('status_mismatch');
+    expect(issue.repairable).toBe(false);
+  });
+
+  it('should report a paid payment without an enrollment', () => {
+    const issues = ReconciliationService.diff(remote(), local({ enrollments: [] }));
+
+    expect(issues.map(issue => issue.type)).toEqual(['missing_enrollment']);
+    expect(issues[0].course_id).toBe('course-1');
+    expect(issues[0].repairable).toBe(true);
+  });
+
+  it('should report an enrollment in a paid course without a payment', () => {
+    const issues = ReconciliationService.diff(
+      remote({ payment_intents: [] }),
+      local({
+        transactions: [],
+        purchases: [],
+        enrollments: [{ ...local().enrollments[0], payment_intent_id: null }]
+      })
+    );
+
+    expect(issues.map(issue => issue.type)).toEqual(['enrollment_without_payment']);
+    expect(issues[0].repairable).toBe(false);
+  });
+
+  it('should accept enrollments paid with a discount code or a subscription', () => {
+    const enrollment = { ...local().enrollments[0], payment_intent_id: null };
+
+    expect(types({
+      remote: remote({ payment_intents: [] }),
+      local: local({ transactions: [], purchases: [], enrollments: [enrollment], coupon_enrollment_ids: ['enrollment-1'] })
+    })).toEqual([]);
+
+    expect(types({
+      remote: remote({ payment_intents: [] }),
+      local: local({ transactions: [], purchases: [], enrollments: [{ ...enrollment, subscription_id: 'sub-1' }] })
+    })).toEqual([]);
+  });
+
+  it('should only repair refunds the ledger is missing', () => {
+    const [missing] = ReconciliationService.diff(
+      remote({ refunds: [{ id: 're_1', payment_intent: 'pi_1', amount: 1000, status: 'succeeded', created: '2025-09-11T00:00:00.000Z' }] }),
+      local()
+    );
+    expect(missing.type).toBe('refund_mismatch');
+    expect(missing.expected).toBe(1000);
+    expect(missing.repairable).toBe(true);
+
+    const [extra] = ReconciliationService.diff(remote(), local({ transactions: [transaction({ refunded_amount: 1000, status: 'partially_refunded' })] }));
+    expect(extra.type).toBe('refund_mismatch');
+    expect(extra.repairable).toBe(false);
+  });
+
+  it('should report amount differences and unknown payments', () => {
+    expect(types({ remote: remote({ payment_intents: [intent({ amount_received: 3999 })] }) })).toEqual(['amount_mismatch']);
+    expect(types({ remote: remote({ payment_intents: [] }) })).toEqual(['unknown_payment']);
+  });
+});
+
+describe('createFixtureLedger', () => {
+  it('should serve the snapshot filtered to the range', async () => {
+    const ledger = createFixtureLedger({
+      payment_intents: [intent(), intent({ id: 'pi_2', created: '2025-08-01T00:00:00.000Z' })]
+    });
+
+    const snapshot = await ledger.fetch({ from: new Date('2025-09-01'), to: new Date('2025-10-01') });
+
+    expect(snapshot.payment_intents.map(payment => payment.id)).toEqual(['pi_1']);
+    expect(snapshot.refunds).toEqual([]);
+  });
+});
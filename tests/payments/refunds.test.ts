@@ -0,0 +1,53 @@
+/**
+ * REFUND POLICY TESTS - 7P Education
+ * Per-course cancellation windows and refund request validation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { RefundService, DEFAULT_REFUND_POLICY } from '@/services/refund-service';
+import { refundRequestSchema } from '@/lib/validation/refunds';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+describe('Refund policy', () => {
+  const now = new Date('2025-09-20T12:00:00.000Z');
+
+  it('should fall back to the platform defaults', () => {
+    expect(RefundService.policyFor(null)).toEqual(DEFAULT_REFUND_POLICY);
+    expect(RefundService.policyFor({ refund_window_days: 30 })).toEqual({
+      refund_window_days: 30,
+      refund_max_progress: 25
+    });
+  });
+
+  it('should allow refunds inside the window below the progress limit', () => {
+    const policy = RefundService.policyFor(null);
+    expect(RefundService.isWithinRefundPolicy(policy, '2025-09-10T12:00:00.000Z', 10, now)).toBe(true);
+    expect(RefundService.isWithinRefundPolicy(policy, '2025-09-10T12:00:00.000Z', 25, now)).toBe(false);
+    expect(RefundService.isWithinRefundPolicy(policy, '2025-09-01T12:00:00.000Z', 0, now)).toBe(false);
+  });
+
+  it('should honour a course with a longer window', () => {
+    const policy = RefundService.policyFor({ refund_window_days: 30, refund_max_progress: 50 });
+    expect(RefundService.isWithinRefundPolicy(policy, '2025-09-01T12:00:00.000Z', 40, now)).toBe(true);
+  });
+});
+
+describe('Refund request validation', () => {
+  const transactionId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+  it('should default to a full refund requested by the customer', () => {
+    expect(refundRequestSchema.parse({ transactionId })).toEqual({
+      transactionId,
+      reason: 'requested_by_customer'
+    });
+  });
+
+  it('should require a note for other reasons', () => {
+    expect(refundRequestSchema.safeParse({ transactionId, reason: 'other' }).success).toBe(false);
+    expect(refundRequestSchema.safeParse({ transactionId, amount: -5 }).success).toBe(false);
+  });
+});
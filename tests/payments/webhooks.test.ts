@@ -0,0 +1,119 @@
+/**
+ * WEBHOOK RETRY TESTS - 7P Education
+ * Backoff schedule and dead-lettering of failed Stripe webhook events
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { WebhookService, MAX_WEBHOOK_ATTEMPTS } from '@/services/webhook-service';
+import { createServiceClient } from '@/utils/supabase/server';
+import { processWebhookEvent } from '@/lib/webhooks/stripe-events';
+import type { WebhookEventRecord } from '@/types/webhook';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+jest.mock('@/lib/webhooks/stripe-events', () => ({
+  processWebhookEvent: jest.fn()
+}));
+
+describe('WebhookService.planRetry', () => {
+  const now = new Date('2025-09-01T12:00:00Z');
+  const minutesLater = (iso: string | null) => (new Date(iso!).getTime() - now.getTime()) / 60000;
+
+  it('should retry the first failure after five minutes', () => {
+    const plan = WebhookService.planRetry(1, now);
+
+    expect(plan.status).toBe('failed');
+    expect(minutesLater(plan.next_retry_at)).toBe(5);
+  });
+
+  it('should double the delay with each attempt', () => {
+    expect(minutesLater(WebhookService.planRetry(2, now).next_retry_at)).toBe(10);
+    expect(minutesLater(WebhookService.planRetry(3, now).next_retry_at)).toBe(20);
+    expect(minutesLater(WebhookService.planRetry(5, now).next_retry_at)).toBe(80);
+  });
+
+  it('should dead-letter the event when the attempts run out', () => {
+    expect(WebhookService.planRetry(MAX_WEBHOOK_ATTEMPTS, now)).toEqual({
+      status: 'dead',
+      next_retry_at: null
+    });
+  });
+});
+
+describe('WebhookService retries', () => {
+  type QueryResult = { data: unknown; error: null };
+
+  // Each from() call answers with the next queued result, whatever filters are chained
+  let results: QueryResult[] = [];
+  const filters: Array<[string, unknown[]]> = [];
+
+  const builder = (result: QueryResult): unknown => new Proxy({}, {
+    get: (_target, prop: string) => prop === 'then'
+      ? (resolve: (value: QueryResult) => unknown) => resolve(result)
+      : (...args: unknown[]) => {
+        filters.push([prop, args]);
+        return builder(result);
+      }
+  });
+
+  const record = (overrides: Partial<WebhookEventRecord> = {}): WebhookEventRecord => ({
+    id: 'row-1',
+    stripe_event_id: 'evt_1',
+    event_type: 'payment_intent.succeeded',
+    data: { object: {} },
+    processed: false,
+    processed_at: null,
+    status: 'failed',
+    attempts: 1,
+    last_error: 'Error: timeout',
+    last_attempt_at: '2025-09-01T11:00:00.000Z',
+    next_retry_at: '2025-09-01T11:05:00.000Z',
+    created_at: '2025-09-01T11:00:00.000Z',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    results = [];
+    filters.length = 0;
+    jest.restoreAllMocks();
+    (processWebhookEvent as jest.Mock).mockReset();
+    (createServiceClient as jest.Mock).mockReturnValue({
+      from: () => builder(results.shift() ?? { data: null, error: null })
+    });
+  });
+
+  it('should also pick up events left pending or processing by an interrupted delivery', async () => {
+    results = [{ data: [], error: null }];
+
+    await WebhookService.retryDueEvents(20, new Date('2025-09-01T12:00:00Z'));
+
+    const [, [filter]] = filters.find(([method]) => method === 'or')!;
+    expect(filter).toContain('and(status.eq.failed,next_retry_at.lte.2025-09-01T12:00:00.000Z)');
+    expect(filter).toContain('and(status.eq.pending,created_at.lte.2025-09-01T11:50:00.000Z)');
+    expect(filter).toContain('and(status.eq.processing,last_attempt_at.lte.2025-09-01T11:50:00.000Z)');
+  });
+
+  it('should keep going through the batch when one event throws', async () => {
+    results = [{ data: [{ stripe_event_id: 'evt_1' }, { stripe_event_id: 'evt_2' }, { stripe_event_id: 'evt_3' }], error: null }];
+    jest.spyOn(WebhookService, 'replayEvent')
+      .mockRejectedValueOnce(new Error('Failed to record webhook failure: connection reset'))
+      .mockRejectedValueOnce(new Error('Webhook event is already being processed'))
+      .mockResolvedValueOnce(record({ stripe_event_id: 'evt_3', status: 'processed', processed: true }));
+
+    const result = await WebhookService.retryDueEvents();
+
+    expect(WebhookService.replayEvent).toHaveBeenCalledTimes(3);
+    expect(result).toEqual({ retried: 1, succeeded: 1, failed: 1, skipped: 1 });
+  });
+
+  it('should not run an event another replay has claimed', async () => {
+    // getEvent, then the conditional claim that matches no row
+    results = [{ data: record(), error: null }, { data: [], error: null }];
+
+    await expect(WebhookService.replayEvent('evt_1')).rejects.toThrow('Webhook event is already being processed');
+    expect(processWebhookEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * ACHIEVEMENT RULE TESTS - 7P Education
+ * Declarative badge criteria evaluated over learner counters
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+import { AchievementService } from '@/services/achievement-service';
+import type { AchievementRule } from '@/types/progress';
+
+describe('AchievementService rules', () => {
+  describe('ruleFor', () => {
+    it('should prefer the declarative rule', () => {
+      const rule: AchievementRule = { metric: 'courses_completed', min: 1 };
+
+      expect(AchievementService.ruleFor({ type: 'completion', threshold: 5, rule })).toBe(rule);
+    });
+
+    it('should map legacy type and threshold to a single condition', () => {
+      expect(AchievementService.ruleFor({ type: 'completion', threshold: 5 }))
+        .toEqual({ metric: 'lessons_completed', min: 5 });
+      expect(AchievementService.ruleFor({ type: 'score', threshold: 90 }))
+        .toEqual({ metric: 'best_quiz_score', min: 90 });
+      expect(AchievementService.ruleFor({ type: 'time', threshold: 600 }))
+        .toEqual({ metric: 'study_minutes', min: 600 });
+      expect(AchievementService.ruleFor({ type: 'streak', threshold: 7 }))
+        .toEqual({ metric: 'streak_days', min: 7 });
+    });
+
+    it('should not evaluate special badges automatically', () => {
+      expect(AchievementService.ruleFor({ type: 'special', threshold: 1 })).toBeNull();
+    });
+  });
+
+  describe('evaluateRule', () => {
+    it('should report progress towards a condition', () => {
+      const rule: AchievementRule = { metric: 'lessons_completed', min: 20 };
+
+      expect(AchievementService.evaluateRule(rule, { lessons_completed: 5 }))
+        .toEqual({ met: false, progress: 25 });
+      expect(AchievementService.evaluateRule(rule, { lessons_completed: 20 }))
+        .toEqual({ met: true, progress: 100 });
+      expect(AchievementService.evaluateRule(rule, {}))
+        .toEqual({ met: false, progress: 0 });
+    });
+
+    it('should need every part of an all rule', () => {
+      const rule: AchievementRule = {
+        all: [
+          { metric: 'quizzes_completed', min: 5 },
+          { metric: 'quiz_average', min: 90 }
+        ]
+      };
+
+      expect(AchievementService.evaluateRule(rule, { quizzes_completed: 5, quiz_average: 72 }))
+        .toEqual({ met: false, progress: 90 });
+      expect(AchievementService.evaluateRule(rule, { quizzes_completed: 6, quiz_average: 95 }).met).toBe(true);
+    });
+
+    it('should need one part of an any rule', () => {
+      const rule: AchievementRule = {
+        any: [
+          { metric: 'streak_days', min: 30 },
+          { metric: 'study_minutes', min: 1000 }
+        ]
+      };
+
+      expect(AchievementService.evaluateRule(rule, { streak_days: 12, study_minutes: 500 }))
+        .toEqual({ met: false, progress: 50 });
+      expect(AchievementService.evaluateRule(rule, { streak_days: 30, study_minutes: 0 }).met).toBe(true);
+    });
+
+    it('should not round an unmet rule up to 100', () => {
+      const rule: AchievementRule = { metric: 'study_minutes', min: 1000 };
+
+      expect(AchievementService.evaluateRule(rule, { study_minutes: 999 }).progress).toBe(99);
+    });
+  });
+
+  it('should list the metrics a nested rule reads', () => {
+    const rule: AchievementRule = {
+      all: [
+        { metric: 'courses_completed', min: 1 },
+        { any: [{ metric: 'quiz_average', min: 85 }, { metric: 'streak_days', min: 14 }] }
+      ]
+    };
+
+    expect(AchievementService.ruleMetrics(rule)).toEqual(['courses_completed', 'quiz_average', 'streak_days']);
+  });
+
+  it('should find the longest run of consecutive days', () => {
+    expect(AchievementService.longestRun([])).toBe(0);
+    expect(AchievementService.longestRun(['2025-08-20', '2025-08-21', '2025-08-23', '2025-08-24', '2025-08-25']))
+      .toBe(3);
+    expect(AchievementService.longestRun(['2025-08-31', '2025-09-01', '2025-08-31'])).toBe(2);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * LEADERBOARD TESTS - 7P Education
+ * Pseudonymised display names, opt-out and query validation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+import { LeaderboardService } from '@/services/leaderboard-service';
+import { leaderboardQuerySchema } from '@/lib/validation/leaderboard';
+
+describe('LeaderboardService', () => {
+  const userId = '6f1c2a4e-8b7d-4c3e-9a10-2b3c4d5e6f70';
+  const otherId = '0a9b8c7d-6e5f-4a3b-8c1d-0e9f8a7b6c5d';
+
+  describe('pseudonym', () => {
+    it('should be stable for a user and secret', () => {
+      expect(LeaderboardService.pseudonym(userId, 'secret')).toBe(LeaderboardService.pseudonym(userId, 'secret'));
+      expect(LeaderboardService.pseudonym(userId, 'secret')).toMatch(/^[A-Z][a-z]+ [A-Z][a-z]+ \d{4}$/);
+    });
+
+    it('should depend on the secret and the user', () => {
+      const pseudonym = LeaderboardService.pseudonym(userId, 'secret');
+
+      expect(LeaderboardService.pseudonym(userId, 'other-secret')).not.toBe(pseudonym);
+      expect(LeaderboardService.pseudonym(otherId, 'secret')).not.toBe(pseudonym);
+    });
+  });
+
+  describe('displayName', () => {
+    const profile = (preferences: Record<string, boolean> | null) => ({
+      id: otherId,
+      full_name: 'Ayşe Yılmaz',
+      preferences
+    });
+
+    it('should pseudonymise other learners by default', () => {
+      expect(LeaderboardService.displayName(otherId, profile(null), userId))
+        .toBe(LeaderboardService.pseudonym(otherId));
+    });
+
+    it('should show the name when the learner chose to', () => {
+      expect(LeaderboardService.displayName(otherId, profile({ leaderboard_show_name: true }), userId))
+        .toBe('Ayşe Yılmaz');
+    });
+
+    it('should show learners their own name', () => {
+      expect(LeaderboardService.displayName(otherId, profile(null), otherId)).toBe('Ayşe Yılmaz');
+    });
+  });
+
+  it('should only treat an explicit opt-out as opted out', () => {
+    expect(LeaderboardService.isOptedOut({ leaderboard_opt_out: true })).toBe(true);
+    expect(LeaderboardService.isOptedOut({ leaderboard_opt_out: false })).toBe(false);
+    expect(LeaderboardService.isOptedOut(null)).toBe(false);
+  });
+
+  describe('leaderboardQuerySchema', () => {
+    it('should default to the weekly global leaderboard', () => {
+      expect(leaderboardQuerySchema.parse({})).toEqual({ scope: 'global', period: 'weekly', limit: 20 });
+    });
+
+    it('should require course_id for course and cohort leaderboards', () => {
+      expect(leaderboardQuerySchema.safeParse({ scope: 'cohort' }).success).toBe(false);
+      expect(leaderboardQuerySchema.safeParse({ scope: 'course', course_id: userId, period: 'all_time' }).success)
+        .toBe(true);
+    });
+  });
+});
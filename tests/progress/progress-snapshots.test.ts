@@ -0,0 +1,93 @@
+/**
+ * PROGRESS SNAPSHOT TESTS - 7P Education
+ * Daily progress series, gap filling and history query validation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+import { ProgressSnapshotService } from '@/services/progress-snapshot-service';
+import { progressHistoryQuerySchema } from '@/lib/validation/progress';
+
+describe('ProgressSnapshotService', () => {
+  const userId = '6f1c2a4e-8b7d-4c3e-9a10-2b3c4d5e6f70';
+  const courseA = '0a9b8c7d-6e5f-4a3b-8c1d-0e9f8a7b6c5d';
+  const courseB = '1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e';
+
+  const snapshot = (courseId: string, date: string, completed: number) => ({
+    user_id: userId,
+    course_id: courseId,
+    overall_completion: completed * 10,
+    completed_materials: completed,
+    total_materials: 10,
+    snapshot_date: date
+  });
+
+  describe('fillGaps', () => {
+    it('should repeat the previous point for days without a snapshot', () => {
+      const points = ProgressSnapshotService.fillGaps([
+        { date: '2025-09-28', value: 1 },
+        { date: '2025-10-01', value: 4 }
+      ]);
+
+      expect(points).toEqual([
+        { date: '2025-09-28', value: 1 },
+        { date: '2025-09-29', value: 1 },
+        { date: '2025-09-30', value: 1 },
+        { date: '2025-10-01', value: 4 }
+      ]);
+    });
+
+    it('should leave consecutive and empty series unchanged', () => {
+      const points = [{ date: '2025-10-01', value: 1 }, { date: '2025-10-02', value: 2 }];
+
+      expect(ProgressSnapshotService.fillGaps(points)).toEqual(points);
+      expect(ProgressSnapshotService.fillGaps([])).toEqual([]);
+    });
+  });
+
+  describe('toStudentSeries', () => {
+    it('should build one date-ordered series per course', () => {
+      const series = ProgressSnapshotService.toStudentSeries([
+        snapshot(courseA, '2025-10-02', 3),
+        snapshot(courseB, '2025-10-01', 5),
+        snapshot(courseA, '2025-10-01', 2)
+      ]);
+
+      expect(series).toEqual([
+        {
+          course_id: courseA,
+          points: [
+            { date: '2025-10-01', completion: 20, completed_lessons: 2, total_lessons: 10 },
+            { date: '2025-10-02', completion: 30, completed_lessons: 3, total_lessons: 10 }
+          ]
+        },
+        {
+          course_id: courseB,
+          points: [{ date: '2025-10-01', completion: 50, completed_lessons: 5, total_lessons: 10 }]
+        }
+      ]);
+    });
+  });
+
+  it('should take days in the platform timezone', () => {
+    // 22:30 UTC is already the next day in Istanbul (UTC+3)
+    expect(ProgressSnapshotService.today(new Date('2025-10-01T22:30:00Z'))).toBe('2025-10-02');
+  });
+
+  describe('progressHistoryQuerySchema', () => {
+    it('should default to the last 30 days', () => {
+      expect(progressHistoryQuerySchema.parse({})).toEqual({ days: 30 });
+    });
+
+    it('should limit the range to a year', () => {
+      expect(progressHistoryQuerySchema.parse({ days: '90', course_id: courseA })).toEqual({ days: 90, course_id: courseA });
+      expect(progressHistoryQuerySchema.safeParse({ days: '400' }).success).toBe(false);
+      expect(progressHistoryQuerySchema.safeParse({ days: '0' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * LEARNING STREAK TESTS - 7P Education
+ * Daily streaks in the learner's timezone, streak freezes and milestones
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+import { StreakService, STREAK_MILESTONES } from '@/services/streak-service';
+import type { StreakConfig, StreakState } from '@/types/streak';
+
+describe('StreakService', () => {
+  const config: StreakConfig = { max_freezes: 2, freeze_earn_days: 7, default_timezone: 'Europe/Istanbul' };
+
+  const state = (overrides: Partial<StreakState> = {}): StreakState => ({
+    current_streak: 0,
+    longest_streak: 0,
+    last_activity_date: null,
+    streak_start_date: null,
+    freezes_available: 0,
+    freezes_used: 0,
+    ...overrides
+  });
+
+  describe('localDate', () => {
+    it('should use the calendar day of the learner timezone', () => {
+      const at = new Date('2025-08-27T22:30:00Z');
+
+      expect(StreakService.localDate(at, 'Europe/Istanbul', config)).toBe('2025-08-28');
+      expect(StreakService.localDate(at, 'America/New_York', config)).toBe('2025-08-27');
+    });
+
+    it('should fall back to the default timezone for an unknown one', () => {
+      const at = new Date('2025-08-27T22:30:00Z');
+
+      expect(StreakService.localDate(at, 'Not/AZone', config)).toBe('2025-08-28');
+    });
+  });
+
+  describe('advance', () => {
+    it('should start a streak on the first active day', () => {
+      const result = StreakService.advance(state(), '2025-08-27', config);
+
+      expect(result.changed).toBe(true);
+      expect(result.state.current_streak).toBe(1);
+      expect(result.state.streak_start_date).toBe('2025-08-27');
+      expect(result.state.longest_streak).toBe(1);
+    });
+
+    it('should extend the streak on the next day', () => {
+      const result = StreakService.advance(
+        state({ current_streak: 4, longest_streak: 4, last_activity_date: '2025-08-26', streak_start_date: '2025-08-23' }),
+        '2025-08-27',
+        config
+      );
+
+      expect(result.state.current_streak).toBe(5);
+      expect(result.state.streak_start_date).toBe('2025-08-23');
+      expect(result.frozen_dates).toEqual([]);
+    });
+
+    it('should count a day only once', () => {
+      const current = state({ current_streak: 4, longest_streak: 4, last_activity_date: '2025-08-27' });
+
+      expect(StreakService.advance(current, '2025-08-27', config).changed).toBe(false);
+      expect(StreakService.advance(current, '2025-08-25', config).changed).toBe(false);
+    });
+
+    it('should cover missed days with banked freezes', () => {
+      const result = StreakService.advance(
+        state({ current_streak: 10, longest_streak: 10, last_activity_date: '2025-08-24', freezes_available: 2 }),
+        '2025-08-27',
+        config
+      );
+
+      expect(result.state.current_streak).toBe(11);
+      expect(result.frozen_dates).toEqual(['2025-08-25', '2025-08-26']);
+      expect(result.state.freezes_available).toBe(0);
+      expect(result.state.freezes_used).toBe(2);
+    });
+
+    it('should reset the streak when missed days exceed the freezes', () => {
+      const result = StreakService.advance(
+        state({ current_streak: 10, longest_streak: 12, last_activity_date: '2025-08-23', freezes_available: 2 }),
+        '2025-08-27',
+        config
+      );
+
+      expect(result.state.current_streak).toBe(1);
+      expect(result.state.streak_start_date).toBe('2025-08-27');
+      expect(result.state.longest_streak).toBe(12);
+      expect(result.state.freezes_available).toBe(2);
+      expect(result.frozen_dates).toEqual([]);
+    });
+
+    it('should earn a freeze every freeze_earn_days up to the maximum', () => {
+      const earned = StreakService.advance(
+        state({ current_streak: 6, longest_streak: 6, last_activity_date: '2025-08-26' }),
+        '2025-08-27',
+        config
+      );
+      const capped = StreakService.advance(
+        state({ current_streak: 13, longest_streak: 13, last_activity_date: '2025-08-26', freezes_available: 2 }),
+        '2025-08-27',
+        config
+      );
+
+      expect(earned.state.freezes_available).toBe(1);
+      expect(capped.state.freezes_available).toBe(2);
+    });
+
+    it('should report a milestone when the streak reaches one', () => {
+      const milestone = StreakService.advance(
+        state({ current_streak: 2, longest_streak: 2, last_activity_date: '2025-08-26' }),
+        '2025-08-27',
+        config
+      );
+      const ordinary = StreakService.advance(
+        state({ current_streak: 3, longest_streak: 3, last_activity_date: '2025-08-26' }),
+        '2025-08-27',
+        config
+      );
+
+      expect(STREAK_MILESTONES).toContain(3);
+      expect(milestone.milestone).toBe(3);
+      expect(ordinary.milestone).toBeNull();
+    });
+  });
+
+  describe('effectiveStreak', () => {
+    it('should keep the streak while missed days can still be frozen', () => {
+      const current = state({ current_streak: 5, last_activity_date: '2025-08-25', freezes_available: 1 });
+
+      expect(StreakService.effectiveStreak(current, '2025-08-26')).toBe(5);
+      expect(StreakService.effectiveStreak(current, '2025-08-27')).toBe(5);
+      expect(StreakService.effectiveStreak(current, '2025-08-28')).toBe(0);
+    });
+
+    it('should be 0 without any activity', () => {
+      expect(StreakService.effectiveStreak(state(), '2025-08-27')).toBe(0);
+    });
+  });
+
+  it('should give the next milestone above the current streak', () => {
+    expect(StreakService.nextMilestone(0)).toBe(3);
+    expect(StreakService.nextMilestone(7)).toBe(14);
+    expect(StreakService.nextMilestone(365)).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * XP LEDGER TESTS - 7P Education
+ * Level curve and banded XP rules
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+import { XpService } from '@/services/xp-service';
+import type { XpRule } from '@/types/xp';
+
+describe('XpService', () => {
+  const rule = (overrides: Partial<XpRule>): XpRule => ({
+    id: 'rule',
+    activity_type: 'quiz_completed',
+    min_value: 0,
+    xp: 10,
+    description: null,
+    is_active: true,
+    created_at: '2025-08-27T00:00:00Z',
+    updated_at: '2025-08-27T00:00:00Z',
+    ...overrides
+  });
+
+  const rules: XpRule[] = [
+    rule({ id: 'quiz-any', min_value: 0, xp: 10 }),
+    rule({ id: 'quiz-60', min_value: 60, xp: 30 }),
+    rule({ id: 'quiz-90', min_value: 90, xp: 70 }),
+    rule({ id: 'quiz-80-off', min_value: 80, xp: 50, is_active: false }),
+    rule({ id: 'lesson', activity_type: 'lesson_completed', xp: 50 })
+  ];
+
+  describe('level curve', () => {
+    it('should start level n at (n - 1)^2 * 1000 XP', () => {
+      expect(XpService.levelForXp(0)).toBe(1);
+      expect(XpService.levelForXp(999)).toBe(1);
+      expect(XpService.levelForXp(1000)).toBe(2);
+      expect(XpService.levelForXp(3999)).toBe(2);
+      expect(XpService.levelForXp(4000)).toBe(3);
+      expect(XpService.xpForLevel(1)).toBe(0);
+      expect(XpService.xpForLevel(3)).toBe(4000);
+    });
+
+    it('should agree between levelForXp and xpForLevel', () => {
+      for (let level = 1; level <= 30; level++) {
+        expect(XpService.levelForXp(XpService.xpForLevel(level))).toBe(level);
+        expect(XpService.levelForXp(XpService.xpForLevel(level + 1) - 1)).toBe(level);
+      }
+    });
+  });
+
+  describe('resolveRule', () => {
+    it('should pick the highest band the score reaches', () => {
+      expect(XpService.resolveRule(rules, 'quiz_completed', 45)?.id).toBe('quiz-any');
+      expect(XpService.resolveRule(rules, 'quiz_completed', 85)?.id).toBe('quiz-60');
+      expect(XpService.resolveRule(rules, 'quiz_completed', 90)?.id).toBe('quiz-90');
+    });
+
+    it('should ignore inactive rules and other activities', () => {
+      expect(XpService.resolveRule(rules, 'lesson_completed')?.xp).toBe(50);
+      expect(XpService.resolveRule(rules, 'course_completed')).toBeNull();
+      expect(XpService.resolveRule(rules.filter(item => item.activity_type === 'lesson_completed'), 'quiz_completed', 100))
+        .toBeNull();
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * LESSON Q&A TESTS - 7P Education
+ * Reply permissions, answered status and staff reply notifications
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { QnaService } from '@/services/qna-service';
+import { createClient } from '@/utils/supabase/server';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+type QueryResult = { data: unknown; error: { message: string } | null };
+
+// Each from() call answers with the next queued result and records its table and chained calls
+let results: QueryResult[] = [];
+let calls: Array<{ table: string; method: string; args: unknown[] }> = [];
+
+const builder = (table: string, result: QueryResult): unknown => new Proxy({}, {
+  get: (_target, prop: string) => prop === 'then'
+    ? (resolve: (value: QueryResult) => unknown) => resolve(result)
+    : (...args: unknown[]) => {
+      calls.push({ table, method: prop, args });
+      return builder(table, result);
+    }
+});
+
+const callsTo = (table: string, method: string) =>
+  calls.filter(call => call.table === table && call.method === method);
+
+const reply = (overrides: Record<string, unknown> = {}) => ({
+  id: 'reply-1',
+  question_id: 'question-1',
+  user_id: 'instructor-1',
+  author_role: 'instructor',
+  body: 'Use a closure here.',
+  created_at: '2025-09-02T10:00:00.000Z',
+  author: { id: 'instructor-1', name: 'Ayşe Hoca' },
+  ...overrides
+});
+
+const question = (overrides: Record<string, unknown> = {}) => ({
+  id: 'question-1',
+  course_id: 'course-1',
+  lesson_id: 'lesson-1',
+  user_id: 'student-1',
+  body: 'Why does this callback lose its state?',
+  status: 'new',
+  is_public: true,
+  answered_at: null,
+  created_at: '2025-09-01T10:00:00.000Z',
+  student: { id: 'student-1', name: 'Ali' },
+  course: { id: 'course-1', title: 'JavaScript', instructor_id: 'instructor-1' },
+  lesson: { id: 'lesson-1', title: 'Closures' },
+  replies: [],
+  ...overrides
+});
+
+const ok = (data: unknown = null): QueryResult => ({ data, error: null });
+
+beforeEach(() => {
+  results = [];
+  calls = [];
+  jest.restoreAllMocks();
+  (createClient as jest.Mock).mockReturnValue({
+    from: (table: string) => builder(table, results.shift() ?? ok())
+  });
+});
+
+describe('QnaService.addReply', () => {
+  it('should mark the question answered and notify the student on a staff reply', async () => {
+    results = [
+      ok(question()),
+      ok(reply()),
+      ok(),
+      ok(),
+      ok(question({ status: 'answered', replies: [reply()] }))
+    ];
+
+    const result = await QnaService.addReply('question-1', { id: 'instructor-1', role: 'instructor' }, 'Use a closure here.');
+
+    expect(result.reply.authorRole).toBe('instructor');
+    expect(result.question.status).toBe('answered');
+
+    const [statusUpdate] = callsTo('lesson_questions', 'update');
+    expect(statusUpdate.args[0]).toMatchObject({ status: 'answered' });
+
+    const [notification] = callsTo('user_notifications', 'insert');
+    expect(notification.args[0]).toMatchObject({
+      user_id: 'student-1',
+      type: 'qna_reply',
+      metadata: { question_id: 'question-1', course_id: 'course-1', lesson_id: 'lesson-1' }
+    });
+  });
+
+  it('should not change the status of an already answered question', async () => {
+    results = [
+      ok(question({ status: 'answered', answered_at: '2025-09-02T10:00:00.000Z' })),
+      ok(reply({ id: 'reply-2', user_id: 'admin-1', author_role: 'admin' })),
+      ok(),
+      ok(question({ status: 'answered' }))
+    ];
+
+    await QnaService.addReply('question-1', { id: 'admin-1', role: 'admin' }, 'Also see the MDN page.');
+
+    expect(callsTo('lesson_questions', 'update')).toHaveLength(0);
+    expect(callsTo('user_notifications', 'insert')).toHaveLength(1);
+  });
+
+  it('should store a student follow-up without answering the question or notifying', async () => {
+    results = [
+      ok(question()),
+      ok(reply({ user_id: 'student-1', author_role: 'student', body: 'Still stuck.' })),
+      ok(question())
+    ];
+
+    const result = await QnaService.addReply('question-1', { id: 'student-1', role: 'student' }, 'Still stuck.');
+
+    expect(result.reply.authorRole).toBe('student');
+    expect(callsTo('lesson_question_replies', 'insert')[0].args[0]).toMatchObject({ author_role: 'student' });
+    expect(callsTo('lesson_questions', 'update')).toHaveLength(0);
+    expect(callsTo('user_notifications', 'insert')).toHaveLength(0);
+  });
+
+  it('should not let a student reply to someone else\'s question', async () => {
+    results = [ok(question())];
+
+    await expect(
+      QnaService.addReply('question-1', { id: 'student-2', role: 'student' }, 'Me too!')
+    ).rejects.toThrow('Access denied');
+    expect(callsTo('lesson_question_replies', 'insert')).toHaveLength(0);
+  });
+
+  it('should not let an instructor reply outside their own courses', async () => {
+    results = [ok(question())];
+
+    await expect(
+      QnaService.addReply('question-1', { id: 'instructor-2', role: 'instructor' }, 'Try this.')
+    ).rejects.toThrow('Access denied');
+  });
+
+  it('should keep the reply when the notification cannot be sent', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    results = [
+      ok(question()),
+      ok(reply()),
+      ok(),
+      { data: null, error: { message: 'insert failed' } },
+      ok(question({ status: 'answered', replies: [reply()] }))
+    ];
+
+    const result = await QnaService.addReply('question-1', { id: 'instructor-1', role: 'instructor' }, 'Use a closure here.');
+
+    expect(result.reply.id).toBe('reply-1');
+  });
+});
+
+describe('QnaService.getQuestion', () => {
+  it('should return replies oldest first', async () => {
+    results = [ok(question({
+      replies: [
+        reply({ id: 'reply-late', created_at: '2025-09-03T10:00:00.000Z' }),
+        reply({ id: 'reply-early', user_id: 'student-1', author_role: 'student', created_at: '2025-09-01T12:00:00.000Z' })
+      ]
+    }))];
+
+    const result = await QnaService.getQuestion('question-1', { id: 'admin-1', role: 'admin' });
+
+    expect(result.replies.map(item => item.id)).toEqual(['reply-early', 'reply-late']);
+  });
+
+  it('should report a missing question', async () => {
+    results = [{ data: null, error: { message: 'not found' } }];
+
+    await expect(
+      QnaService.getQuestion('missing', { id: 'admin-1', role: 'admin' })
+    ).rejects.toThrow('Question not found');
+  });
+});
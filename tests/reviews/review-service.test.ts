@@ -0,0 +1,243 @@
+/**
+ * COURSE REVIEW TESTS - 7P Education
+ * Review eligibility, moderation, helpfulness votes and the public rating summary
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { ReviewService, REVIEW_MIN_PROGRESS } from '@/services/review-service';
+import { createClient } from '@/utils/supabase/server';
+
+jest.mock('@/utils/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn()
+}));
+
+type QueryResult = { data: unknown; error: { message: string; code?: string } | null; count?: number };
+
+// Each from() call answers with the next queued result and records its table and chained calls
+let results: QueryResult[] = [];
+let calls: Array<{ table: string; method: string; args: unknown[] }> = [];
+
+const builder = (table: string, result: QueryResult): unknown => new Proxy({}, {
+  get: (_target, prop: string) => prop === 'then'
+    ? (resolve: (value: QueryResult) => unknown) => resolve(result)
+    : (...args: unknown[]) => {
+      calls.push({ table, method: prop, args });
+      return builder(table, result);
+    }
+});
+
+const callsTo = (table: string, method: string) =>
+  calls.filter(call => call.table === table && call.method === method);
+
+const ok = (data: unknown = null): QueryResult => ({ data, error: null });
+
+const enrollment = (progress: number, completedAt: string | null = null) =>
+  ok({ id: 'enrollment-1', progress_percentage: progress, completed_at: completedAt });
+
+const review = (overrides: Record<string, unknown> = {}) => ({
+  id: 'review-1',
+  course_id: 'course-1',
+  user_id: 'student-1',
+  rating: 4,
+  review_text: 'Clear explanations.',
+  moderation_status: 'approved',
+  is_featured: false,
+  helpful_count: 2,
+  reported_count: 1,
+  moderator_notes: 'Checked',
+  moderated_at: '2025-09-02T10:00:00.000Z',
+  created_at: '2025-09-01T10:00:00.000Z',
+  updated_at: '2025-09-01T10:00:00.000Z',
+  reviewer: { id: 'student-1', name: 'Ali', avatar_url: null },
+  course: { id: 'course-1', title: 'JavaScript' },
+  ...overrides
+});
+
+beforeEach(() => {
+  results = [];
+  calls = [];
+  (createClient as jest.Mock).mockReturnValue({
+    from: (table: string) => builder(table, results.shift() ?? ok())
+  });
+});
+
+describe('ReviewService.getEligibility', () => {
+  it('should refuse students who are not enrolled', async () => {
+    results = [ok(null)];
+
+    const eligibility = await ReviewService.getEligibility('course-1', 'student-1');
+    expect(eligibility).toMatchObject({ eligible: false, reason: 'not_enrolled' });
+  });
+
+  it('should require the minimum course progress', async () => {
+    results = [enrollment(REVIEW_MIN_PROGRESS - 1)];
+
+    const eligibility = await ReviewService.getEligibility('course-1', 'student-1');
+    expect(eligibility).toMatchObject({ eligible: false, reason: 'insufficient_progress' });
+  });
+
+  it('should treat a completed course as full progress', async () => {
+    results = [enrollment(0, '2025-09-01T10:00:00.000Z')];
+
+    const eligibility = await ReviewService.getEligibility('course-1', 'student-1');
+    expect(eligibility).toEqual({ eligible: true, progress: 100, requiredProgress: REVIEW_MIN_PROGRESS });
+  });
+});
+
+describe('ReviewService.createReview', () => {
+  it('should queue a new review for moderation', async () => {
+    results = [enrollment(50), ok(null), ok(review({ moderation_status: 'pending' }))];
+
+    const created = await ReviewService.createReview('course-1', 'student-1', { rating: 4, review: 'Clear explanations.' });
+
+    expect(created.status).toBe('pending');
+    expect(callsTo('course_reviews', 'insert')[0].args[0]).toMatchObject({
+      rating: 4,
+      moderation_status: 'pending',
+      is_approved: false
+    });
+  });
+
+  it('should reject a second review of the same course', async () => {
+    results = [enrollment(50), ok(review())];
+
+    await expect(
+      ReviewService.createReview('course-1', 'student-1', { rating: 5 })
+    ).rejects.toThrow('Review already exists');
+    expect(callsTo('course_reviews', 'insert')).toHaveLength(0);
+  });
+
+  it('should report a concurrent duplicate from the unique constraint', async () => {
+    results = [enrollment(50), ok(null), { data: null, error: { message: 'duplicate key', code: '23505' } }];
+
+    await expect(
+      ReviewService.createReview('course-1', 'student-1', { rating: 5 })
+    ).rejects.toThrow('Review already exists');
+  });
+
+  it('should not accept reviews below the progress threshold', async () => {
+    results = [enrollment(5)];
+
+    await expect(
+      ReviewService.createReview('course-1', 'student-1', { rating: 5 })
+    ).rejects.toThrow('Insufficient progress');
+  });
+});
+
+describe('ReviewService.updateReview', () => {
+  it('should send an edited review back to moderation and drop its featured flag', async () => {
+    results = [enrollment(50), ok(review({ is_featured: true })), ok(review({ moderation_status: 'pending' }))];
+
+    await ReviewService.updateReview('course-1', 'student-1', { rating: 2, review: 'Outdated now.' });
+
+    expect(callsTo('course_reviews', 'update')[0].args[0]).toMatchObject({
+      rating: 2,
+      moderation_status: 'pending',
+      is_approved: false,
+      is_featured: false
+    });
+  });
+});
+
+describe('ReviewService votes and reports', () => {
+  it('should not let authors vote on their own review', async () => {
+    results = [ok(review())];
+
+    await expect(ReviewService.voteHelpful('review-1', 'student-1', true)).rejects.toThrow('Cannot vote on own review');
+  });
+
+  it('should not accept votes on reviews that are not public', async () => {
+    results = [ok(review({ moderation_status: 'pending' }))];
+
+    await expect(ReviewService.voteHelpful('review-1', 'student-2', true)).rejects.toThrow('Review not found');
+  });
+
+  it('should record the vote and hide moderation details from the voter', async () => {
+    results = [ok(review()), ok(), ok(review({ helpful_count: 3 }))];
+
+    const updated = await ReviewService.voteHelpful('review-1', 'student-2', true);
+
+    expect(callsTo('review_helpfulness', 'upsert')[0].args[0]).toEqual({
+      review_id: 'review-1',
+      user_id: 'student-2',
+      is_helpful: true
+    });
+    expect(updated).toMatchObject({ helpfulCount: 3, viewerVote: true, reportedCount: 0 });
+    expect(updated.moderatorNotes).toBeUndefined();
+  });
+
+  it('should accept one report per user', async () => {
+    results = [ok(review()), { data: null, error: { message: 'duplicate key', code: '23505' } }];
+
+    await expect(
+      ReviewService.reportReview('review-1', 'student-2', { reason: 'spam' })
+    ).rejects.toThrow('Review already reported');
+  });
+
+  it('should not let authors report their own review', async () => {
+    results = [ok(review())];
+
+    await expect(
+      ReviewService.reportReview('review-1', 'student-1', { reason: 'spam' })
+    ).rejects.toThrow('Cannot report own review');
+  });
+});
+
+describe('ReviewService.moderateReview', () => {
+  it('should approve a review and record the moderator', async () => {
+    results = [ok(review({ moderation_status: 'pending' })), ok(review())];
+
+    await ReviewService.moderateReview('review-1', 'admin-1', { action: 'approve' });
+
+    expect(callsTo('course_reviews', 'update')[0].args[0]).toMatchObject({
+      moderation_status: 'approved',
+      is_approved: true,
+      approved_by: 'admin-1'
+    });
+  });
+
+  it('should unfeature a rejected review and keep the notes', async () => {
+    results = [ok(review({ is_featured: true })), ok(review({ moderation_status: 'rejected' }))];
+
+    await ReviewService.moderateReview('review-1', 'admin-1', { action: 'reject', notes: 'Off-topic' });
+
+    expect(callsTo('course_reviews', 'update')[0].args[0]).toMatchObject({
+      moderation_status: 'rejected',
+      is_featured: false,
+      moderator_notes: 'Off-topic'
+    });
+  });
+
+  it('should only feature approved reviews', async () => {
+    results = [ok(review({ moderation_status: 'pending' }))];
+
+    await expect(
+      ReviewService.moderateReview('review-1', 'admin-1', { action: 'feature' })
+    ).rejects.toThrow('Only approved reviews can be featured');
+    expect(callsTo('course_reviews', 'update')).toHaveLength(0);
+  });
+});
+
+describe('ReviewService.getCourseReviews', () => {
+  it('should list approved reviews with the rating summary', async () => {
+    results = [
+      { data: [review()], error: null, count: 1 },
+      ok([{ rating: 5 }, { rating: 4 }, { rating: 4 }])
+    ];
+
+    const { reviews, total, summary } = await ReviewService.getCourseReviews(
+      'course-1',
+      { sort: 'helpful', page: 1, limit: 10 }
+    );
+
+    expect(total).toBe(1);
+    expect(reviews[0].moderatorNotes).toBeUndefined();
+    expect(summary).toEqual({
+      averageRating: 4.3,
+      totalReviews: 3,
+      distribution: { 1: 0, 2: 0, 3: 0, 4: 2, 5: 1 }
+    });
+    expect(callsTo('course_reviews', 'eq').map(call => call.args)).toContainEqual(['moderation_status', 'approved']);
+  });
+});
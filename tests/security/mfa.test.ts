@@ -0,0 +1,171 @@
+/**
+ * MFA SERVICE TESTS - 7P Education
+ * TOTP verification, replay protection, recovery codes and sign-in enforcement
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import speakeasy from 'speakeasy';
+import { MfaService } from '@/lib/auth/mfa';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn()
+  }
+}));
+
+jest.mock('@/lib/auth/audit', () => ({
+  auditLogger: {
+    logAuth: jest.fn()
+  }
+}));
+
+describe('MFA Service', () => {
+  const mfa = MfaService.getInstance();
+  const secret = speakeasy.generateSecret({ length: 20 }).base32;
+  const now = Date.UTC(2025, 7, 27, 12, 0, 0);
+
+  const codeAt = (time: number) =>
+    speakeasy.totp({ secret, encoding: 'base32', time: Math.floor(time / 1000) });
+
+  describe('TOTP verification', () => {
+    it('should accept the current code and return its time step', () => {
+      const step = mfa.verifyTotp(secret, codeAt(now), null, now);
+      expect(step).toBe(Math.floor(now / 1000 / 30));
+    });
+
+    it('should tolerate one step of clock drift', () => {
+      expect(mfa.verifyTotp(secret, codeAt(now - 30000), null, now)).not.toBeNull();
+      expect(mfa.verifyTotp(secret, codeAt(now + 30000), null, now)).not.toBeNull();
+    });
+
+    it('should reject codes outside the drift window', () => {
+      expect(mfa.verifyTotp(secret, codeAt(now - 120000), null, now)).toBeNull();
+    });
+
+    it('should reject a replayed code', () => {
+      const step = mfa.verifyTotp(secret, codeAt(now), null, now);
+      expect(mfa.verifyTotp(secret, codeAt(now), step, now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(mfa.verifyTotp(secret, 'abc123', null, now)).toBeNull();
+      expect(mfa.verifyTotp(secret, '12345', null, now)).toBeNull();
+    });
+  });
+
+  describe('Secret storage', () => {
+    it('should round-trip encrypted secrets', () => {
+      const encrypted = mfa.encryptSecret(secret);
+      expect(encrypted).not.toContain(secret);
+      expect(mfa.decryptSecret(encrypted)).toBe(secret);
+    });
+  });
+
+  describe('Recovery codes', () => {
+    it('should generate the configured number of unique codes', () => {
+      const codes = mfa.generateRecoveryCodes(10);
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+    });
+
+    it('should hash codes independent of formatting', () => {
+      const [code] = mfa.generateRecoveryCodes(1);
+      const hash = mfa.hashRecoveryCode(code);
+      expect(hash).not.toContain(code.replace('-', ''));
+      expect(mfa.hashRecoveryCode(code.replace('-', '').toUpperCase())).toBe(hash);
+    });
+  });
+
+  describe('Role policy', () => {
+    it('should require MFA for privileged roles only', () => {
+      expect(mfa.isRequiredForRole('admin')).toBe(true);
+      expect(mfa.isRequiredForRole('instructor')).toBe(true);
+      expect(mfa.isRequiredForRole('student')).toBe(false);
+    });
+
+    it('should compute the enrollment deadline from the grace period', () => {
+      const since = '2025-08-27T00:00:00.000Z';
+      expect(mfa.getSetupDeadline(since).toISOString()).toBe('2025-08-28T00:00:00.000Z');
+    });
+  });
+
+  describe('Sign-in check', () => {
+    type QueryResult = { data: unknown; error: null };
+
+    // Each from() call answers with the next queued result, whatever filters are chained
+    let results: QueryResult[] = [];
+
+    const builder = (result: QueryResult): unknown => new Proxy({}, {
+      get: (_target, prop: string) => prop === 'then'
+        ? (resolve: (value: QueryResult) => unknown) => resolve(result)
+        : () => builder(result)
+    });
+
+    const userRow = (overrides: Record<string, unknown> = {}) => ({
+      data: {
+        id: 'user-1',
+        email: 'user@example.com',
+        role: 'student',
+        mfa_enabled: false,
+        mfa_secret: null,
+        mfa_pending_secret: null,
+        mfa_enabled_at: null,
+        mfa_last_used_step: null,
+        mfa_required_since: null,
+        ...overrides
+      },
+      error: null
+    });
+
+    beforeEach(() => {
+      results = [];
+      (supabase.from as jest.Mock).mockImplementation(
+        () => builder(results.shift() ?? { data: null, error: null })
+      );
+    });
+
+    it('should ask enrolled users for a code', async () => {
+      results = [userRow({ mfa_enabled: true, mfa_secret: mfa.encryptSecret(secret) })];
+
+      expect(await mfa.checkSignIn('user-1')).toEqual({ allowed: false, reason: 'mfa_required' });
+    });
+
+    it('should let enrolled users in with a valid code', async () => {
+      const enrolled = userRow({ mfa_enabled: true, mfa_secret: mfa.encryptSecret(secret) });
+      results = [enrolled, enrolled, { data: [{ id: 'user-1' }], error: null }];
+
+      expect(await mfa.checkSignIn('user-1', codeAt(Date.now()))).toEqual({ allowed: true });
+    });
+
+    it('should reject a code already consumed by a concurrent sign-in', async () => {
+      const enrolled = userRow({ mfa_enabled: true, mfa_secret: mfa.encryptSecret(secret) });
+      results = [enrolled, enrolled, { data: [], error: null }];
+
+      expect(await mfa.checkSignIn('user-1', codeAt(Date.now()))).toEqual({ allowed: false, reason: 'invalid_mfa' });
+    });
+
+    it('should let privileged users without MFA in during the grace period', async () => {
+      const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      results = [userRow({ role: 'admin', mfa_required_since: since })];
+
+      const check = await mfa.checkSignIn('user-1');
+      expect(check.allowed).toBe(true);
+      expect(check.setup_deadline).toEqual(mfa.getSetupDeadline(since));
+    });
+
+    it('should block privileged users without MFA after the deadline', async () => {
+      results = [userRow({ role: 'admin', mfa_required_since: '2025-08-01T00:00:00.000Z' })];
+
+      expect(await mfa.checkSignIn('user-1')).toEqual({ allowed: false, reason: 'mfa_setup_overdue' });
+    });
+
+    it('should not regenerate recovery codes with a code consumed concurrently', async () => {
+      const enrolled = userRow({ mfa_enabled: true, mfa_secret: mfa.encryptSecret(secret) });
+      results = [enrolled, { data: [], error: null }];
+
+      await expect(mfa.regenerateRecoveryCodes('user-1', codeAt(Date.now()))).rejects.toThrow('Invalid MFA code');
+    });
+  });
+});